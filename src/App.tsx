@@ -8,6 +8,7 @@ import { SpacesHomePage } from './pages/SpacesHomePage'
 import { SpaceDetailPage } from './pages/SpaceDetailPage'
 import { HistoryPage } from './pages/HistoryPage'
 import { SettingsPage } from './pages/SettingsPage'
+import { StorageWarning } from './components/StorageWarning'
 import { getBoards } from './lib/storage'
 import { loadSinglesInfernoS5 } from './data/singlesInfernoS5'
 import { wobbly } from './styles/wobbly'
@@ -306,6 +307,7 @@ export const App = () => {
 
       {/* Centered container for mobile-first design on desktop */}
       <div className="flex-1 w-full max-w-[500px] mx-auto">
+        <StorageWarning />
         <main className="pb-20">
           {activeTab === 'home' && renderHomeContent()}
           {activeTab === 'boards' && renderBoardsContent()}
@@ -0,0 +1,122 @@
+import type { AutoSnapshotRule } from '../lib/types'
+import { DAY_NAMES, describeAutoSnapshotRule } from '../lib/autoSnapshots'
+import { wobbly } from '../styles/wobbly'
+
+export interface AutoSnapshotEditorProps {
+  /** Current rule, or null when automatic snapshots are off */
+  rule: AutoSnapshotRule | null
+  /** Called with the updated rule */
+  onChange: (rule: AutoSnapshotRule | null) => void
+}
+
+type RuleKind = 'off' | AutoSnapshotRule['kind']
+
+const KIND_OPTIONS: { value: RuleKind; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'stale', label: 'When stale' },
+]
+
+/** Defaults when switching rule kind */
+const DEFAULT_RULES: Record<AutoSnapshotRule['kind'], AutoSnapshotRule> = {
+  weekly: { kind: 'weekly', dayOfWeek: 0, hour: 21 },
+  stale: { kind: 'stale', days: 7 },
+}
+
+const formatHour = (hour: number): string => `${hour % 12 || 12} ${hour < 12 ? 'AM' : 'PM'}`
+
+const selectClassName = 'px-2 py-1 bg-white border-2 border-[#2d2d2d] text-[#2d2d2d]'
+
+/**
+ * AutoSnapshotEditor Component
+ *
+ * Picks a board's automatic snapshot rule: off, weekly on a day and
+ * hour, or whenever the last snapshot is a number of days old.
+ */
+export const AutoSnapshotEditor = ({ rule, onChange }: AutoSnapshotEditorProps) => {
+  const kind: RuleKind = rule?.kind ?? 'off'
+
+  return (
+    <div className="space-y-3" style={{ fontFamily: "'Patrick Hand', cursive" }}>
+      <div role="radiogroup" aria-label="Automatic snapshots" className="flex gap-2">
+        {KIND_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            role="radio"
+            aria-checked={kind === option.value}
+            onClick={() => onChange(option.value === 'off' ? null : rule?.kind === option.value ? rule : DEFAULT_RULES[option.value])}
+            className={`
+              flex-1 py-2
+              border-2 border-[#2d2d2d]
+              text-base
+              transition-colors
+              ${kind === option.value
+                ? 'bg-[#2d2d2d] text-white'
+                : 'bg-white text-[#2d2d2d] hover:bg-[#e5e0d8]'
+              }
+            `}
+            style={{ borderRadius: wobbly.sm }}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {rule?.kind === 'weekly' && (
+        <div className="flex items-center gap-2 text-[#2d2d2d]">
+          <span>Every</span>
+          <select
+            aria-label="Day of week"
+            value={rule.dayOfWeek}
+            onChange={(e) => onChange({ ...rule, dayOfWeek: Number(e.target.value) })}
+            className={selectClassName}
+            style={{ borderRadius: wobbly.sm }}
+          >
+            {DAY_NAMES.map((day, i) => (
+              <option key={day} value={i}>{day}</option>
+            ))}
+          </select>
+          <span>after</span>
+          <select
+            aria-label="Hour"
+            value={rule.hour}
+            onChange={(e) => onChange({ ...rule, hour: Number(e.target.value) })}
+            className={selectClassName}
+            style={{ borderRadius: wobbly.sm }}
+          >
+            {Array.from({ length: 24 }, (_, hour) => (
+              <option key={hour} value={hour}>{formatHour(hour)}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {rule?.kind === 'stale' && (
+        <label className="flex items-center gap-2 text-[#2d2d2d]">
+          <span>After</span>
+          <input
+            type="number"
+            aria-label="Days without a snapshot"
+            min={1}
+            max={60}
+            value={rule.days}
+            onChange={(e) => {
+              const days = Math.round(Number(e.target.value))
+              if (days >= 1) onChange({ ...rule, days: Math.min(days, 60) })
+            }}
+            className={`w-16 ${selectClassName}`}
+            style={{ borderRadius: wobbly.sm }}
+          />
+          <span>days without a snapshot</span>
+        </label>
+      )}
+
+      {rule && (
+        <p className="text-sm text-[#9a958d]">
+          {describeAutoSnapshotRule(rule)}. Checked when the app opens; skipped if nothing moved.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import { BranchesSheet } from './BranchesSheet'
+import { createRankingBranch } from '../lib/rankingBranches'
+
+describe('BranchesSheet', () => {
+  const defaultProps = {
+    isOpen: true,
+    branches: [createRankingBranch('b1', 'Kim wins', [])],
+    onClose: vi.fn(),
+    onCreate: vi.fn(),
+    onOpen: vi.fn(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('opens an existing what-if', () => {
+    render(<BranchesSheet {...defaultProps} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /Kim wins/ }))
+
+    expect(defaultProps.onOpen).toHaveBeenCalledWith(defaultProps.branches[0].id)
+  })
+
+  it('forks with the entered name, or a suggested one', () => {
+    render(<BranchesSheet {...defaultProps} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /fork current order/i }))
+    expect(defaultProps.onCreate).toHaveBeenLastCalledWith('What-if 2')
+
+    fireEvent.change(screen.getByLabelText('New what-if name'), { target: { value: ' Lee comeback ' } })
+    fireEvent.click(screen.getByRole('button', { name: /fork current order/i }))
+    expect(defaultProps.onCreate).toHaveBeenLastCalledWith('Lee comeback')
+  })
+})
@@ -0,0 +1,81 @@
+import { useState } from 'react'
+import { BottomSheet } from './ui/BottomSheet'
+import { Button } from './ui/Button'
+import { Input } from './ui/Input'
+import type { RankingBranch } from '../lib/rankingBranches'
+import { wobbly } from '../styles/wobbly'
+
+export interface BranchesSheetProps {
+  /** Whether the sheet is open */
+  isOpen: boolean
+  /** The board's existing what-if branches */
+  branches: RankingBranch[]
+  /** Called when the sheet should close */
+  onClose: () => void
+  /** Called to fork the current order into a new branch */
+  onCreate: (name: string) => void
+  /** Called to open an existing branch */
+  onOpen: (branchId: string) => void
+}
+
+/**
+ * Format date for display
+ */
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+
+/**
+ * BranchesSheet Component
+ *
+ * Lists a board's what-if rankings and forks the current order into a
+ * new named one. Mount it fresh each time it opens so the name starts empty.
+ */
+export const BranchesSheet = ({ isOpen, branches, onClose, onCreate, onOpen }: BranchesSheetProps) => {
+  const [name, setName] = useState('')
+
+  const suggestedName = `What-if ${branches.length + 1}`
+
+  return (
+    <BottomSheet
+      isOpen={isOpen}
+      onClose={onClose}
+      title="What-if Rankings"
+      footer={
+        <Button onClick={() => onCreate(name.trim() || suggestedName)} className="w-full">
+          🔀 Fork Current Order
+        </Button>
+      }
+    >
+      <div className="space-y-4" style={{ fontFamily: "'Patrick Hand', cursive" }}>
+        <p className="text-[#9a958d]">
+          Try out a different order without touching your real ranking.
+        </p>
+
+        {branches.length > 0 && (
+          <ul className="space-y-2" aria-label="Saved what-ifs">
+            {branches.map((branch) => (
+              <li key={branch.id}>
+                <button
+                  type="button"
+                  onClick={() => onOpen(branch.id)}
+                  className="w-full flex items-center justify-between gap-2 px-4 py-3 bg-white border-2 border-[#2d2d2d] text-left text-[#2d2d2d] hover:border-[#2d5da1] transition-colors"
+                  style={{ borderRadius: wobbly.sm }}
+                >
+                  <span className="truncate">{branch.name}</span>
+                  <span className="flex-shrink-0 text-sm text-[#9a958d]">{formatDate(branch.updatedAt)}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Input
+          label="New what-if name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={suggestedName}
+        />
+      </div>
+    </BottomSheet>
+  )
+}
@@ -0,0 +1,65 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import { BumpChart } from './BumpChart'
+import { saveSettings } from '../lib/storage'
+import type { Snapshot } from '../lib/types'
+
+describe('BumpChart', () => {
+  const episode = (episodeNumber: number, names: string[]): Snapshot => ({
+    id: `s${episodeNumber}`,
+    boardId: 'b1',
+    episodeNumber,
+    label: `Episode ${episodeNumber}`,
+    notes: '',
+    rankings: names.map((name, i) => ({
+      cardId: name.toLowerCase(),
+      cardName: name,
+      cardNickname: name === 'Kim' ? 'Kimmy' : undefined,
+      rank: i + 1,
+      thumbnailKey: null,
+    })),
+    createdAt: episodeNumber,
+  })
+
+  const snapshots = [episode(1, ['Kim', 'Lee', 'Cho']), episode(2, ['Lee', 'Kim', 'Cho'])]
+
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('asks for more episodes with fewer than two snapshots', () => {
+    render(<BumpChart snapshots={[episode(1, ['Kim'])]} />)
+
+    expect(screen.getByText('Save at least 2 episodes to see trends!')).toBeInTheDocument()
+  })
+
+  it('labels both ends of every line', () => {
+    render(<BumpChart snapshots={snapshots} />)
+
+    expect(screen.getAllByTestId('bump-series')).toHaveLength(3)
+    expect(screen.getAllByText('Lee')).toHaveLength(2)
+    expect(screen.getByText('Ep 1')).toBeInTheDocument()
+    expect(screen.getByText('Ep 2')).toBeInTheDocument()
+  })
+
+  it('highlights a tapped line and dims the rest until tapped again', () => {
+    render(<BumpChart snapshots={snapshots} />)
+
+    const lee = screen.getByRole('button', { name: 'Highlight Lee' })
+    fireEvent.click(lee)
+
+    expect(lee).toHaveAttribute('aria-pressed', 'true')
+    expect(screen.getByRole('button', { name: 'Highlight Cho' })).toHaveAttribute('opacity', '0.15')
+
+    fireEvent.click(screen.getByRole('button', { name: 'Highlight Lee' }))
+
+    expect(screen.getByRole('button', { name: 'Highlight Lee' })).toHaveAttribute('aria-pressed', 'false')
+    expect(screen.getByRole('button', { name: 'Highlight Cho' })).toHaveAttribute('opacity', '1')
+  })
+
+  it('uses nicknames when the chart nickname setting is on', () => {
+    saveSettings({ nicknameModeChart: true })
+    render(<BumpChart snapshots={snapshots} />)
+
+    expect(screen.getByRole('button', { name: 'Highlight Kimmy' })).toBeInTheDocument()
+  })
+})
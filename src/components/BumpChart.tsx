@@ -0,0 +1,247 @@
+import { useState, useMemo, useCallback } from 'react'
+import type { Snapshot } from '../lib/types'
+import { buildRankMatrix, type RankMatrixRow } from '../lib/rankMatrix'
+import { getSettings, saveSettings } from '../lib/storage'
+import { getDisplayNameFromEntry } from '../hooks/useDisplayName'
+import { wobbly } from '../styles/wobbly'
+import { NicknameToggle } from './ui/NicknameToggle'
+import { chartLineColors } from '../styles/tokens'
+
+export interface BumpChartProps {
+  snapshots: Snapshot[]
+  /** Map of thumbnailKey to blob URL for contestant photos */
+  thumbnailUrls?: Record<string, string>
+}
+
+const ROW_HEIGHT = 28
+const COLUMN_WIDTH = 64
+const LABEL_WIDTH = 96
+const PADDING = { top: 28, bottom: 12 }
+const THUMBNAIL_SIZE = 20
+const MAX_LABEL_LENGTH = 11
+
+/**
+ * Shorten a label to fit beside the chart
+ */
+const shortLabel = (name: string): string =>
+  name.length > MAX_LABEL_LENGTH ? `${name.slice(0, MAX_LABEL_LENGTH - 1)}…` : name
+
+/**
+ * Runs of consecutive ranked episodes, so missed episodes leave a gap
+ */
+const getSegments = (row: RankMatrixRow): { index: number; rank: number }[][] => {
+  const segments: { index: number; rank: number }[][] = []
+  let current: { index: number; rank: number }[] = []
+  row.ranks.forEach((rank, index) => {
+    if (rank === null) {
+      if (current.length > 0) segments.push(current)
+      current = []
+      return
+    }
+    current.push({ index, rank })
+  })
+  if (current.length > 0) segments.push(current)
+  return segments
+}
+
+/**
+ * BumpChart Component
+ *
+ * Rank-by-episode chart where every rank gets its own evenly spaced row,
+ * so lines stay readable with many cards. Each line is labelled at both
+ * ends (with the card's photo at the latest one); tap a line or label to
+ * highlight it.
+ */
+export const BumpChart = ({ snapshots, thumbnailUrls = {} }: BumpChartProps) => {
+  const [highlightedId, setHighlightedId] = useState<string | null>(null)
+  const [useNickname, setUseNickname] = useState(() => getSettings().nicknameModeChart)
+
+  // Toggle nickname mode and persist to settings
+  const handleToggleNickname = useCallback(() => {
+    setUseNickname(prev => {
+      const newValue = !prev
+      saveSettings({ nicknameModeChart: newValue })
+      return newValue
+    })
+  }, [])
+
+  const { episodes, rows, maxRank } = useMemo(() => buildRankMatrix(snapshots), [snapshots])
+
+  if (snapshots.length < 2) {
+    return (
+      <div
+        className="text-center py-12 text-[#9a958d]"
+        style={{ fontFamily: "'Patrick Hand', cursive" }}
+      >
+        <div className="text-4xl mb-4">📈</div>
+        <p>Save at least 2 episodes to see trends!</p>
+      </div>
+    )
+  }
+
+  const width = LABEL_WIDTH * 2 + (episodes.length - 1) * COLUMN_WIDTH
+  const height = PADDING.top + maxRank * ROW_HEIGHT + PADDING.bottom
+  const x = (index: number): number => LABEL_WIDTH + index * COLUMN_WIDTH
+  const y = (rank: number): number => PADDING.top + (rank - 0.5) * ROW_HEIGHT
+
+  const hasAnyNicknames = rows.some((row) => row.cardNickname && row.cardNickname.trim() !== '')
+
+  const toggleHighlight = (cardId: string) => {
+    setHighlightedId((prev) => (prev === cardId ? null : cardId))
+  }
+
+  return (
+    <div className="space-y-2">
+      {hasAnyNicknames && (
+        <div className="flex justify-end">
+          <NicknameToggle enabled={useNickname} onToggle={handleToggleNickname} />
+        </div>
+      )}
+
+      <div
+        className="bg-white border-[3px] border-[#2d2d2d] shadow-[4px_4px_0px_0px_#2d2d2d] p-2 overflow-x-auto"
+        style={{ borderRadius: wobbly.md }}
+      >
+        <svg
+          width={width}
+          height={height}
+          viewBox={`0 0 ${width} ${height}`}
+          aria-label="Bump chart of rank by episode"
+          style={{ fontFamily: "'Patrick Hand', cursive" }}
+        >
+          {/* Episode labels and guides */}
+          {episodes.map((episode, i) => (
+            <g key={`ep-${episode}`}>
+              <text x={x(i)} y={16} textAnchor="middle" fill="#9a958d" fontSize={12}>
+                Ep {episode}
+              </text>
+              <line
+                x1={x(i)}
+                y1={PADDING.top}
+                x2={x(i)}
+                y2={height - PADDING.bottom}
+                stroke="#e5e0d8"
+                strokeWidth={1}
+                strokeDasharray="4 4"
+              />
+            </g>
+          ))}
+
+          {/* Draw the highlighted line last so it sits on top */}
+          {[...rows]
+            .sort((a, b) => Number(a.cardId === highlightedId) - Number(b.cardId === highlightedId))
+            .map((row) => {
+              const color = chartLineColors[rows.indexOf(row) % chartLineColors.length]
+              const isHighlighted = highlightedId === row.cardId
+              const isDimmed = highlightedId !== null && !isHighlighted
+              const displayName = getDisplayNameFromEntry(row, useNickname)
+              const segments = getSegments(row)
+              const first = segments[0][0]
+              const lastSegment = segments[segments.length - 1]
+              const last = lastSegment[lastSegment.length - 1]
+              const thumbnailUrl = row.thumbnailKey ? thumbnailUrls[row.thumbnailKey] : null
+              const endLabelX = x(last.index) + (thumbnailUrl ? THUMBNAIL_SIZE / 2 + 14 : 10)
+
+              return (
+                <g
+                  key={row.cardId}
+                  data-testid="bump-series"
+                  role="button"
+                  tabIndex={0}
+                  aria-label={`Highlight ${displayName}`}
+                  aria-pressed={isHighlighted}
+                  opacity={isDimmed ? 0.15 : 1}
+                  style={{ cursor: 'pointer' }}
+                  onClick={() => toggleHighlight(row.cardId)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ' ') {
+                      e.preventDefault()
+                      toggleHighlight(row.cardId)
+                    }
+                  }}
+                >
+                  {segments.map((segment) => (
+                    <polyline
+                      key={`${row.cardId}-${segment[0].index}`}
+                      points={segment.map((p) => `${x(p.index)},${y(p.rank)}`).join(' ')}
+                      fill="none"
+                      stroke={color}
+                      strokeWidth={isHighlighted ? 5 : 3}
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    />
+                  ))}
+                  {segments.flat().map((p) => (
+                    <circle
+                      key={`${row.cardId}-pt-${p.index}`}
+                      cx={x(p.index)}
+                      cy={y(p.rank)}
+                      r={isHighlighted ? 6 : 4}
+                      fill={color}
+                      stroke="#2d2d2d"
+                      strokeWidth={1.5}
+                    />
+                  ))}
+
+                  {/* Start label */}
+                  <text
+                    x={x(first.index) - 10}
+                    y={y(first.rank) + 4}
+                    textAnchor="end"
+                    fill="#2d2d2d"
+                    fontSize={12}
+                    fontWeight={isHighlighted ? 700 : 400}
+                  >
+                    {shortLabel(displayName)}
+                  </text>
+
+                  {/* End photo and label */}
+                  {thumbnailUrl && (
+                    <>
+                      <clipPath id={`bump-clip-${row.cardId}`}>
+                        <circle cx={x(last.index)} cy={y(last.rank)} r={THUMBNAIL_SIZE / 2} />
+                      </clipPath>
+                      <circle
+                        cx={x(last.index)}
+                        cy={y(last.rank)}
+                        r={THUMBNAIL_SIZE / 2 + 2}
+                        fill={color}
+                        stroke="#2d2d2d"
+                        strokeWidth={1.5}
+                      />
+                      <image
+                        href={thumbnailUrl}
+                        x={x(last.index) - THUMBNAIL_SIZE / 2}
+                        y={y(last.rank) - THUMBNAIL_SIZE / 2}
+                        width={THUMBNAIL_SIZE}
+                        height={THUMBNAIL_SIZE}
+                        clipPath={`url(#bump-clip-${row.cardId})`}
+                        preserveAspectRatio="xMidYMid slice"
+                      />
+                    </>
+                  )}
+                  <text
+                    x={endLabelX}
+                    y={y(last.rank) + 4}
+                    textAnchor="start"
+                    fill="#2d2d2d"
+                    fontSize={12}
+                    fontWeight={isHighlighted ? 700 : 400}
+                  >
+                    {shortLabel(displayName)}
+                  </text>
+                </g>
+              )
+            })}
+        </svg>
+      </div>
+
+      <p
+        className="text-center text-sm text-[#9a958d]"
+        style={{ fontFamily: "'Patrick Hand', cursive" }}
+      >
+        {highlightedId ? 'Tap the line again to show everyone' : 'Tap a line to highlight it'}
+      </p>
+    </div>
+  )
+}
@@ -254,4 +254,22 @@ describe('CardDetailModal', () => {
       expect(screen.getByText('No Photo')).toBeInTheDocument()
     })
   })
+
+  describe('full history', () => {
+    it('opens the card history', () => {
+      const onViewHistory = vi.fn()
+      render(<CardDetailModal {...defaultProps} onViewHistory={onViewHistory} />)
+
+      fireEvent.click(screen.getByRole('button', { name: /full history/i }))
+      expect(onViewHistory).toHaveBeenCalled()
+    })
+
+    it('hides the history button for new cards or without a handler', () => {
+      const { rerender } = render(<CardDetailModal {...defaultProps} isNewCard onViewHistory={vi.fn()} />)
+      expect(screen.queryByRole('button', { name: /full history/i })).not.toBeInTheDocument()
+
+      rerender(<CardDetailModal {...defaultProps} />)
+      expect(screen.queryByRole('button', { name: /full history/i })).not.toBeInTheDocument()
+    })
+  })
 })
@@ -24,6 +24,8 @@ export interface CardDetailModalProps {
   onChangePhoto?: () => void
   /** Whether the modal is in read-only view mode */
   isReadOnly?: boolean
+  /** Called to open the card's full history page */
+  onViewHistory?: () => void
 }
 
 /**
@@ -220,6 +222,7 @@ export const CardDetailModal = ({
   onDelete,
   onChangePhoto,
   isReadOnly = false,
+  onViewHistory,
 }: CardDetailModalProps) => {
   const [name, setName] = useState(card.name)
   const [nickname, setNickname] = useState(card.nickname || '')
@@ -341,6 +344,13 @@ export const CardDetailModal = ({
             disabled={isReadOnly}
             rows={3}
           />
+
+          {/* Full history */}
+          {!isNewCard && onViewHistory && (
+            <Button variant="secondary" onClick={onViewHistory} className="w-full">
+              📈 Full History
+            </Button>
+          )}
         </div>
       </BottomSheet>
 
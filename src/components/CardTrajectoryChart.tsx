@@ -0,0 +1,123 @@
+import type { TrajectoryPoint } from '../hooks/useRankingComparison'
+
+export interface CardTrajectoryChartProps {
+  /** The card's rank per episode, oldest first */
+  trajectory: TrajectoryPoint[]
+  /** Lowest rank on the y-axis (usually the board's card count) */
+  maxRank: number
+}
+
+const WIDTH = 320
+const HEIGHT = 140
+const PADDING = { top: 16, right: 16, bottom: 28, left: 32 }
+
+/**
+ * CardTrajectoryChart Component
+ *
+ * Small line chart of one card's rank across episodes, #1 at the top.
+ * Episodes the card missed leave a gap in the line.
+ */
+export const CardTrajectoryChart = ({ trajectory, maxRank }: CardTrajectoryChartProps) => {
+  const innerWidth = WIDTH - PADDING.left - PADDING.right
+  const innerHeight = HEIGHT - PADDING.top - PADDING.bottom
+  const bottom = Math.max(maxRank, ...trajectory.map((p) => p.rank ?? 1))
+
+  const xScale = (index: number): number =>
+    trajectory.length <= 1
+      ? PADDING.left + innerWidth / 2
+      : PADDING.left + (index / (trajectory.length - 1)) * innerWidth
+
+  const yScale = (rank: number): number =>
+    bottom <= 1 ? PADDING.top + innerHeight / 2 : PADDING.top + ((rank - 1) / (bottom - 1)) * innerHeight
+
+  // One path segment per run of consecutive ranked episodes
+  const segments: string[] = []
+  let current = ''
+  trajectory.forEach((point, i) => {
+    if (point.rank === null) {
+      if (current) segments.push(current)
+      current = ''
+      return
+    }
+    current += `${current ? ' L' : 'M'} ${xScale(i)} ${yScale(point.rank)}`
+  })
+  if (current) segments.push(current)
+
+  const summary = trajectory
+    .filter((p) => p.rank !== null)
+    .map((p) => `#${p.rank}`)
+    .join(', ')
+
+  return (
+    <svg
+      width="100%"
+      height={HEIGHT}
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      preserveAspectRatio="xMidYMid meet"
+      role="img"
+      aria-label={`Rank by episode: ${summary || 'not ranked'}`}
+    >
+      {/* Top and bottom rank guides */}
+      {[...new Set([1, bottom])].map((rank) => (
+        <g key={`rank-${rank}`}>
+          <line
+            x1={PADDING.left}
+            y1={yScale(rank)}
+            x2={WIDTH - PADDING.right}
+            y2={yScale(rank)}
+            stroke="#e5e0d8"
+            strokeWidth={1}
+            strokeDasharray="4 4"
+          />
+          <text
+            x={PADDING.left - 8}
+            y={yScale(rank) + 4}
+            textAnchor="end"
+            fill="#9a958d"
+            fontSize={12}
+            fontFamily="'Patrick Hand', cursive"
+          >
+            #{rank}
+          </text>
+        </g>
+      ))}
+
+      {segments.map((d) => (
+        <path
+          key={d}
+          d={d}
+          fill="none"
+          stroke="#2d5da1"
+          strokeWidth={3}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      ))}
+
+      {trajectory.map((point, i) => (
+        <g key={point.episodeNumber}>
+          {point.rank !== null && (
+            <circle
+              cx={xScale(i)}
+              cy={yScale(point.rank)}
+              r={5}
+              fill={point.rank === 1 ? '#ffd700' : '#2d5da1'}
+              stroke="#2d2d2d"
+              strokeWidth={1.5}
+            />
+          )}
+          <text
+            x={xScale(i)}
+            y={HEIGHT - 8}
+            textAnchor="middle"
+            fill="#9a958d"
+            fontSize={11}
+            fontFamily="'Patrick Hand', cursive"
+          >
+            {point.episodeNumber}
+          </text>
+        </g>
+      ))}
+    </svg>
+  )
+}
@@ -8,10 +8,11 @@ describe('CompareView', () => {
     id: string,
     episodeNumber: number,
     label: string,
-    rankings: { cardId: string; cardName: string; rank: number; thumbnailKey: string | null }[]
+    rankings: { cardId: string; cardName: string; rank: number; thumbnailKey: string | null; note?: string }[],
+    boardId = 'test-board'
   ): Snapshot => ({
     id,
-    boardId: 'test-board',
+    boardId,
     episodeNumber,
     label,
     notes: '',
@@ -174,6 +175,70 @@ describe('CompareView', () => {
     })
   })
 
+  describe('across boards', () => {
+    const otherBoard = makeSnapshot('s9', 5, 'Episode 5', [
+      { cardId: 'x3', cardName: 'charlie', rank: 1, thumbnailKey: null },
+      { cardId: 'x1', cardName: 'Alicia', rank: 2, thumbnailKey: null },
+      { cardId: 'x5', cardName: 'Eve', rank: 3, thumbnailKey: null },
+    ], 'rewatch-board')
+
+    it('matches by name and tags unmatched items on both sides', () => {
+      render(
+        <CompareView
+          leftSnapshot={leftSnapshot}
+          rightSnapshot={otherBoard}
+          thumbnailUrls={{}}
+          leftBoardName="Girls"
+          rightBoardName="Girls (rewatch)"
+        />
+      )
+
+      expect(screen.getByText('Girls')).toBeInTheDocument()
+      expect(screen.getByText('Girls (rewatch)')).toBeInTheDocument()
+      expect(screen.getByText(/1 matched · 2 only on the left · 2 only on the right/)).toBeInTheDocument()
+      // Charlie climbed from #3 to #1
+      expect(screen.getByText('▲')).toBeInTheDocument()
+      expect(screen.getAllByTestId('unmatched-entry').map((el) => el.textContent)).toEqual([
+        expect.stringContaining('Alice'),
+        expect.stringContaining('Bob'),
+        expect.stringContaining('Alicia'),
+        expect.stringContaining('Eve'),
+      ])
+      expect(screen.queryByText('NEW')).not.toBeInTheDocument()
+    })
+
+    it('matches by template item ID before name', () => {
+      render(
+        <CompareView
+          leftSnapshot={leftSnapshot}
+          rightSnapshot={otherBoard}
+          thumbnailUrls={{}}
+          templateItemIds={{ c1: 'item-alice', x1: 'item-alice' }}
+        />
+      )
+
+      expect(screen.getByText(/2 matched/)).toBeInTheDocument()
+    })
+  })
+
+  describe('card notes', () => {
+    it('shows the per-card note saved with a snapshot', () => {
+      const withNote = makeSnapshot('s3', 3, 'Episode 3', [
+        { cardId: 'c2', cardName: 'Bob', rank: 1, thumbnailKey: null, note: 'Nailed the challenge' },
+      ])
+
+      render(
+        <CompareView
+          leftSnapshot={leftSnapshot}
+          rightSnapshot={withNote}
+          thumbnailUrls={{}}
+        />
+      )
+
+      expect(screen.getByText('“Nailed the challenge”')).toBeInTheDocument()
+    })
+  })
+
   describe('layout', () => {
     it('has two columns', () => {
       const { container } = render(
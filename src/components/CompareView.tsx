@@ -5,50 +5,57 @@ import { MovementIndicator } from './MovementIndicator'
 import { NicknameToggle } from './ui/NicknameToggle'
 import { getDisplayNameFromEntry } from '../hooks/useDisplayName'
 import { getSettings, saveSettings } from '../lib/storage'
+import { matchSnapshots, type SnapshotMatch } from '../lib/snapshotMatching'
 
 export interface CompareViewProps {
   /** Left snapshot (usually earlier episode) */
   leftSnapshot: Snapshot
-  /** Right snapshot (usually later episode) */
+  /** Right snapshot (usually later episode, possibly from another board) */
   rightSnapshot: Snapshot
   /** Map of thumbnailKey to blob URL */
   thumbnailUrls: Record<string, string>
+  /** Board names shown above each column when comparing different boards */
+  leftBoardName?: string
+  rightBoardName?: string
+  /** Fallback template item IDs by card ID, for matching older snapshots */
+  templateItemIds?: Record<string, string>
+}
+
+interface EntryMovement {
+  leftRank: number | null
+  rightRank: number | null
+  movement: number | null
+  isNew: boolean
 }
 
 /**
- * Compute movement between two snapshots
+ * Compute movement between two snapshots, keyed by right-hand card ID
  */
-const computeMovement = (
-  leftSnapshot: Snapshot,
-  rightSnapshot: Snapshot
-): Map<string, { leftRank: number | null; rightRank: number | null; movement: number | null; isNew: boolean }> => {
-  const result = new Map<string, { leftRank: number | null; rightRank: number | null; movement: number | null; isNew: boolean }>()
-
-  const leftMap = new Map(leftSnapshot.rankings.map((r) => [r.cardId, r.rank]))
-  const rightMap = new Map(rightSnapshot.rankings.map((r) => [r.cardId, r.rank]))
-
-  // All card IDs from both snapshots
-  const allCardIds = new Set([...leftMap.keys(), ...rightMap.keys()])
+const computeMovement = (match: SnapshotMatch): Map<string, EntryMovement> => {
+  const result = new Map<string, EntryMovement>()
 
-  for (const cardId of allCardIds) {
-    const leftRank = leftMap.get(cardId) ?? null
-    const rightRank = rightMap.get(cardId) ?? null
-
-    let movement: number | null = null
-    let isNew = false
-
-    if (leftRank !== null && rightRank !== null) {
-      movement = leftRank - rightRank // positive = moved up in right
-    } else if (leftRank === null && rightRank !== null) {
-      isNew = true
-    }
-
-    result.set(cardId, { leftRank, rightRank, movement, isNew })
+  for (const { left, right, movement } of match.matched) {
+    result.set(right.cardId, { leftRank: left.rank, rightRank: right.rank, movement, isNew: false })
+  }
+  for (const entry of match.rightOnly) {
+    result.set(entry.cardId, { leftRank: null, rightRank: entry.rank, movement: null, isNew: true })
   }
 
   return result
 }
 
+/**
+ * Tag for an entry with no counterpart on the other board
+ */
+const NoMatchBadge = () => (
+  <span
+    className="flex-shrink-0 text-xs px-1.5 py-0.5 bg-[#e5e0d8] text-[#9a958d] border-2 border-[#9a958d]"
+    style={{ fontFamily: "'Patrick Hand', cursive", borderRadius: wobbly.pill }}
+  >
+    no match
+  </span>
+)
+
 /**
  * RankingColumn Component
  * One side of the comparison
@@ -59,12 +66,18 @@ const RankingColumn = ({
   movements,
   showMovement,
   useNickname,
+  boardName,
+  unmatchedIds,
 }: {
   snapshot: Snapshot
   thumbnailUrls: Record<string, string>
-  movements: Map<string, { leftRank: number | null; rightRank: number | null; movement: number | null; isNew: boolean }>
+  movements: Map<string, EntryMovement>
   showMovement: boolean
   useNickname: boolean
+  /** Shown above the label when comparing different boards */
+  boardName?: string
+  /** Entries with no counterpart on the other board */
+  unmatchedIds: Set<string>
 }) => {
   return (
     <div className="flex-1 min-w-0">
@@ -77,6 +90,14 @@ const RankingColumn = ({
           p-2 text-center
         "
       >
+        {boardName && (
+          <div
+            className="text-xs text-[#2d5da1] truncate"
+            style={{ fontFamily: "'Patrick Hand', cursive" }}
+          >
+            {boardName}
+          </div>
+        )}
         <div
           className="text-sm font-bold text-[#2d2d2d] truncate"
           style={{ fontFamily: "'Kalam', cursive" }}
@@ -97,11 +118,13 @@ const RankingColumn = ({
           const movement = movements.get(entry.cardId)
           const thumbnailUrl = entry.thumbnailKey ? thumbnailUrls[entry.thumbnailKey] : null
           const displayName = getDisplayNameFromEntry(entry, useNickname)
+          const isUnmatched = unmatchedIds.has(entry.cardId)
 
           return (
             <div
               key={entry.cardId}
-              className="flex items-center gap-2 p-2 bg-white"
+              data-testid={isUnmatched ? 'unmatched-entry' : undefined}
+              className={`flex items-center gap-2 p-2 bg-white ${isUnmatched ? 'opacity-70' : ''}`}
             >
               {/* Rank Badge */}
               <div
@@ -154,16 +177,23 @@ const RankingColumn = ({
                 </div>
               )}
 
-              {/* Name */}
+              {/* Name and episode note */}
               <div
-                className="flex-1 min-w-0 truncate text-sm text-[#2d2d2d]"
+                className="flex-1 min-w-0 text-sm text-[#2d2d2d]"
                 style={{ fontFamily: "'Patrick Hand', cursive" }}
               >
-                {displayName}
+                <div className="truncate">{displayName}</div>
+                {entry.note && (
+                  <div className="text-xs text-[#9a958d] break-words" title={entry.note}>
+                    &ldquo;{entry.note}&rdquo;
+                  </div>
+                )}
               </div>
 
+              {isUnmatched && <NoMatchBadge />}
+
               {/* Movement Indicator (only on right column) */}
-              {showMovement && movement && (
+              {showMovement && movement && !isUnmatched && (
                 <MovementIndicator
                   movement={movement.movement}
                   isNew={movement.isNew}
@@ -183,17 +213,35 @@ const RankingColumn = ({
  *
  * Split-screen comparison of two episode snapshots.
  * Shows rankings side by side with movement indicators.
+ *
+ * The snapshots may come from different boards: entries are matched by
+ * template item or name, and items missing from the other board are tagged
+ * on each side.
  */
 export const CompareView = ({
   leftSnapshot,
   rightSnapshot,
   thumbnailUrls,
+  leftBoardName,
+  rightBoardName,
+  templateItemIds,
 }: CompareViewProps) => {
   const [useNickname, setUseNickname] = useState(() => getSettings().nicknameModeCompareView)
 
-  const movements = useMemo(
-    () => computeMovement(leftSnapshot, rightSnapshot),
-    [leftSnapshot, rightSnapshot]
+  const match = useMemo(
+    () => matchSnapshots(leftSnapshot, rightSnapshot, templateItemIds),
+    [leftSnapshot, rightSnapshot, templateItemIds]
+  )
+  const movements = useMemo(() => computeMovement(match), [match])
+
+  // Same board: missing cards are simply new. Across boards they're unmatched.
+  const isCrossBoard = leftSnapshot.boardId !== rightSnapshot.boardId
+  const unmatchedIds = useMemo(
+    () =>
+      isCrossBoard
+        ? new Set([...match.leftOnly, ...match.rightOnly].map((entry) => entry.cardId))
+        : new Set<string>(),
+    [isCrossBoard, match]
   )
 
   // Toggle nickname mode and persist to settings
@@ -220,6 +268,17 @@ export const CompareView = ({
         </div>
       )}
 
+      {/* Match summary for cross-board comparisons */}
+      {isCrossBoard && (
+        <p
+          className="text-sm text-center text-[#9a958d]"
+          style={{ fontFamily: "'Patrick Hand', cursive" }}
+        >
+          {match.matched.length} matched · {match.leftOnly.length} only on the left ·{' '}
+          {match.rightOnly.length} only on the right
+        </p>
+      )}
+
       <div
         className="
           flex
@@ -237,6 +296,8 @@ export const CompareView = ({
           movements={movements}
           showMovement={false}
           useNickname={useNickname}
+          boardName={isCrossBoard ? leftBoardName : undefined}
+          unmatchedIds={unmatchedIds}
         />
 
         {/* Divider */}
@@ -249,6 +310,8 @@ export const CompareView = ({
           movements={movements}
           showMovement={true}
           useNickname={useNickname}
+          boardName={isCrossBoard ? rightBoardName : undefined}
+          unmatchedIds={unmatchedIds}
         />
       </div>
     </div>
@@ -88,6 +88,25 @@ describe('EditBoardSheet', () => {
       })
     })
 
+    it('saves the tier-list layout with its tiers', async () => {
+      const onSave = vi.fn()
+      render(<EditBoardSheet {...defaultProps} onSave={onSave} />)
+
+      fireEvent.click(screen.getByRole('radio', { name: /tier list/i }))
+      expect(screen.getByTestId('tier-editor')).toBeInTheDocument()
+
+      fireEvent.click(screen.getByRole('button', { name: /save/i }))
+
+      await waitFor(() => {
+        expect(onSave).toHaveBeenCalledWith(
+          expect.objectContaining({
+            layout: 'tiers',
+            tiers: expect.arrayContaining([expect.objectContaining({ name: 'S' })]),
+          })
+        )
+      })
+    })
+
     it('closes modal after save', async () => {
       const onClose = vi.fn()
       render(<EditBoardSheet {...defaultProps} onClose={onClose} />)
@@ -171,6 +190,69 @@ describe('EditBoardSheet', () => {
     })
   })
 
+  describe('auto snapshots', () => {
+    it('saves a weekly rule', async () => {
+      const onSave = vi.fn()
+      render(<EditBoardSheet {...defaultProps} onSave={onSave} />)
+
+      fireEvent.click(screen.getByRole('radio', { name: 'Weekly' }))
+      fireEvent.change(screen.getByLabelText('Day of week'), { target: { value: '5' } })
+      fireEvent.click(screen.getByText('Save Changes'))
+
+      await waitFor(() => {
+        expect(onSave).toHaveBeenCalledWith(
+          expect.objectContaining({
+            autoSnapshot: { kind: 'weekly', dayOfWeek: 5, hour: 21 },
+          })
+        )
+      })
+    })
+
+    it('clears the rule when turned off', async () => {
+      const onSave = vi.fn()
+      const board: Board = { ...mockBoard, autoSnapshot: { kind: 'stale', days: 3 } }
+      render(<EditBoardSheet {...defaultProps} board={board} onSave={onSave} />)
+
+      expect(screen.getByLabelText('Days without a snapshot')).toHaveValue(3)
+      fireEvent.click(screen.getByRole('radio', { name: 'Off' }))
+      fireEvent.click(screen.getByText('Save Changes'))
+
+      await waitFor(() => {
+        expect(onSave.mock.calls[0][0].autoSnapshot).toBeUndefined()
+      })
+    })
+  })
+
+  describe('export and import', () => {
+    it('hides the section without handlers', () => {
+      render(<EditBoardSheet {...defaultProps} />)
+      expect(screen.queryByText('📊 Export CSV')).not.toBeInTheDocument()
+    })
+
+    it('calls the export handlers', () => {
+      const onExportCsv = vi.fn()
+      const onExportMarkdown = vi.fn()
+      render(<EditBoardSheet {...defaultProps} onExportCsv={onExportCsv} onExportMarkdown={onExportMarkdown} />)
+
+      fireEvent.click(screen.getByText('📊 Export CSV'))
+      fireEvent.click(screen.getByText('📝 Export Markdown'))
+
+      expect(onExportCsv).toHaveBeenCalled()
+      expect(onExportMarkdown).toHaveBeenCalled()
+    })
+
+    it('passes a picked CSV file to onImportCsv and closes', () => {
+      const onImportCsv = vi.fn()
+      render(<EditBoardSheet {...defaultProps} onImportCsv={onImportCsv} />)
+
+      const file = new File(['Name\nKim'], 'order.csv', { type: 'text/csv' })
+      fireEvent.change(screen.getByTestId('reorder-csv-input'), { target: { files: [file] } })
+
+      expect(onImportCsv).toHaveBeenCalledWith(file)
+      expect(defaultProps.onClose).toHaveBeenCalled()
+    })
+  })
+
   describe('form reset', () => {
     it('resets form when board changes', () => {
       const { rerender } = render(<EditBoardSheet {...defaultProps} />)
@@ -1,8 +1,11 @@
-import { useState, useEffect } from 'react'
-import type { Board } from '../lib/types'
+import { useState, useEffect, useRef } from 'react'
+import type { AutoSnapshotRule, Board, BoardLayout, Tier } from '../lib/types'
+import { getBoardTiers } from '../lib/tierList'
 import { BottomSheet } from './ui/BottomSheet'
 import { Button } from './ui/Button'
 import { Input } from './ui/Input'
+import { TierEditor } from './TierEditor'
+import { AutoSnapshotEditor } from './AutoSnapshotEditor'
 import { wobbly } from '../styles/wobbly'
 
 export interface EditBoardSheetProps {
@@ -20,6 +23,12 @@ export interface EditBoardSheetProps {
   onDelete: (boardId: string) => void
   /** Called when user wants to change cover photo */
   onChangePhoto?: () => void
+  /** Called to download the board as CSV */
+  onExportCsv?: () => void
+  /** Called to download the board as a Markdown list */
+  onExportMarkdown?: () => void
+  /** Called with a picked CSV file to reorder the board by name */
+  onImportCsv?: (file: File) => void
 }
 
 /**
@@ -98,6 +107,49 @@ const CoverPhotoDisplay = ({
   </div>
 )
 
+/**
+ * List / tier-list layout switch
+ */
+const LayoutToggle = ({
+  layout,
+  onChange,
+}: {
+  layout: BoardLayout
+  onChange: (layout: BoardLayout) => void
+}) => {
+  const options: { value: BoardLayout; label: string }[] = [
+    { value: 'list', label: '📋 Ranked List' },
+    { value: 'tiers', label: '🏆 Tier List' },
+  ]
+
+  return (
+    <div role="radiogroup" aria-label="Board layout" className="flex gap-2">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          role="radio"
+          aria-checked={layout === option.value}
+          onClick={() => onChange(option.value)}
+          className={`
+            flex-1 py-2
+            border-2 border-[#2d2d2d]
+            text-lg
+            transition-colors
+            ${layout === option.value
+              ? 'bg-[#2d2d2d] text-white'
+              : 'bg-white text-[#2d2d2d] hover:bg-[#e5e0d8]'
+            }
+          `}
+          style={{ borderRadius: wobbly.sm, fontFamily: "'Patrick Hand', cursive" }}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  )
+}
+
 /**
  * Delete confirmation dialog
  */
@@ -157,6 +209,9 @@ const DeleteConfirmation = ({
  * Features:
  * - Board name editing
  * - Cover photo preview and change
+ * - Ranked list / tier list layout with tier config
+ * - Automatic episode snapshot rule
+ * - CSV / Markdown export and reorder from CSV
  * - Delete with confirmation (soft delete)
  * - Save changes
  */
@@ -168,19 +223,35 @@ export const EditBoardSheet = ({
   onSave,
   onDelete,
   onChangePhoto,
+  onExportCsv,
+  onExportMarkdown,
+  onImportCsv,
 }: EditBoardSheetProps) => {
   const [name, setName] = useState(board.name)
+  const [layout, setLayout] = useState<BoardLayout>(board.layout ?? 'list')
+  const [tiers, setTiers] = useState<Tier[]>(getBoardTiers(board))
+  const [autoSnapshot, setAutoSnapshot] = useState<AutoSnapshotRule | null>(board.autoSnapshot ?? null)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
+  const csvInputRef = useRef<HTMLInputElement>(null)
 
   // Reset form when board changes
   useEffect(() => {
     setName(board.name)
+    setLayout(board.layout ?? 'list')
+    setTiers(getBoardTiers(board))
+    setAutoSnapshot(board.autoSnapshot ?? null)
     setShowDeleteConfirm(false)
   }, [board])
 
   const handleSave = () => {
     onSave({
       name: name.trim() || board.name, // Don't allow empty name
+      layout,
+      autoSnapshot: autoSnapshot ?? undefined,
+      // Blank tier names fall back to their position
+      ...(layout === 'tiers' && {
+        tiers: tiers.map((t, i) => ({ ...t, name: t.name.trim() || `Tier ${i + 1}` })),
+      }),
     })
     onClose()
   }
@@ -199,6 +270,18 @@ export const EditBoardSheet = ({
     setShowDeleteConfirm(false)
   }
 
+  const handleCsvChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) {
+      onImportCsv?.(file)
+      onClose()
+    }
+    // Reset input so same file can be selected again
+    e.target.value = ''
+  }
+
+  const hasFileActions = !!(onExportCsv || onExportMarkdown || onImportCsv)
+
   const footerContent = (
     <div className="flex gap-3">
       <Button
@@ -244,6 +327,68 @@ export const EditBoardSheet = ({
             onChange={(e) => setName(e.target.value)}
             placeholder="Enter board name..."
           />
+
+          {/* Layout */}
+          <div className="space-y-3">
+            <span
+              className="block text-lg text-[#2d2d2d]"
+              style={{ fontFamily: "'Kalam', cursive" }}
+            >
+              Layout
+            </span>
+            <LayoutToggle layout={layout} onChange={setLayout} />
+            {layout === 'tiers' && <TierEditor tiers={tiers} onChange={setTiers} />}
+          </div>
+
+          {/* Automatic Snapshots */}
+          <div className="space-y-3">
+            <span
+              className="block text-lg text-[#2d2d2d]"
+              style={{ fontFamily: "'Kalam', cursive" }}
+            >
+              Auto Snapshots
+            </span>
+            <AutoSnapshotEditor rule={autoSnapshot} onChange={setAutoSnapshot} />
+          </div>
+
+          {/* Export / Import */}
+          {hasFileActions && (
+            <div className="space-y-3">
+              <span
+                className="block text-lg text-[#2d2d2d]"
+                style={{ fontFamily: "'Kalam', cursive" }}
+              >
+                Export &amp; Import
+              </span>
+              <div className="flex flex-wrap gap-2">
+                {onExportCsv && (
+                  <Button variant="secondary" size="sm" onClick={onExportCsv}>
+                    📊 Export CSV
+                  </Button>
+                )}
+                {onExportMarkdown && (
+                  <Button variant="secondary" size="sm" onClick={onExportMarkdown}>
+                    📝 Export Markdown
+                  </Button>
+                )}
+                {onImportCsv && (
+                  <>
+                    <input
+                      ref={csvInputRef}
+                      type="file"
+                      accept=".csv,text/csv"
+                      onChange={handleCsvChange}
+                      className="hidden"
+                      data-testid="reorder-csv-input"
+                    />
+                    <Button variant="secondary" size="sm" onClick={() => csvInputRef.current?.click()}>
+                      📥 Reorder from CSV
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
         </div>
       </BottomSheet>
 
@@ -107,6 +107,23 @@ describe('EpisodeTimeline', () => {
       // Should not have any quoted empty text
       expect(screen.queryByText(/^""$/)).not.toBeInTheDocument()
     })
+
+    it('lists per-card notes by rank', () => {
+      const snapshots = [
+        makeSnapshot('s1', 1, {
+          rankings: [
+            { cardId: 'c1', cardName: 'Card 1', rank: 1, thumbnailKey: null },
+            { cardId: 'c2', cardName: 'Card 2', rank: 2, thumbnailKey: null, note: 'Big drop' },
+          ],
+        }),
+      ]
+
+      render(<EpisodeTimeline {...defaultProps} snapshots={snapshots} />)
+
+      const list = screen.getByRole('list', { name: 'Card notes for Episode 1' })
+      expect(list).toHaveTextContent('#2 Card 2: Big drop')
+      expect(list.querySelectorAll('li')).toHaveLength(1)
+    })
   })
 
   describe('selection', () => {
@@ -211,6 +228,34 @@ describe('EpisodeTimeline', () => {
     })
   })
 
+  describe('restore', () => {
+    it('does not show restore button when onSnapshotRestore is not provided', () => {
+      render(<EpisodeTimeline {...defaultProps} snapshots={[makeSnapshot('s1', 1)]} />)
+
+      expect(screen.queryByRole('button', { name: /restore/i })).not.toBeInTheDocument()
+    })
+
+    it('calls onSnapshotRestore without selecting the episode', () => {
+      const onSelect = vi.fn()
+      const onRestore = vi.fn()
+      const snapshots = [makeSnapshot('s1', 1, { label: 'Episode 1' })]
+
+      render(
+        <EpisodeTimeline
+          {...defaultProps}
+          snapshots={snapshots}
+          onSnapshotSelect={onSelect}
+          onSnapshotRestore={onRestore}
+        />
+      )
+
+      fireEvent.click(screen.getByRole('button', { name: /restore episode 1/i }))
+
+      expect(onRestore).toHaveBeenCalledWith('s1')
+      expect(onSelect).not.toHaveBeenCalled()
+    })
+  })
+
   describe('date formatting', () => {
     it('formats date correctly', () => {
       // Jan 15, 2026
@@ -11,6 +11,8 @@ export interface EpisodeTimelineProps {
   onSnapshotSelect: (snapshotId: string) => void
   /** Called when a snapshot should be deleted */
   onSnapshotDelete?: (snapshotId: string) => void
+  /** Called when the board should be restored to a snapshot's order */
+  onSnapshotRestore?: (snapshotId: string) => void
   /** Currently selected snapshot ID */
   selectedSnapshotId?: string
   /** Whether to display nicknames instead of real names */
@@ -43,6 +45,14 @@ const getTop3Preview = (snapshot: Snapshot, useNickname: boolean): string => {
     .join(', ')
 }
 
+/**
+ * Ranking entries with a per-card note, best rank first
+ */
+const getCardNotes = (snapshot: Snapshot) =>
+  snapshot.rankings
+    .filter((entry) => entry.note)
+    .sort((a, b) => a.rank - b.rank)
+
 /**
  * EpisodeCard Component
  * Individual episode item in the timeline
@@ -52,14 +62,18 @@ const EpisodeCard = ({
   isSelected,
   onSelect,
   onDelete,
+  onRestore,
   useNickname = false,
 }: {
   snapshot: Snapshot
   isSelected: boolean
   onSelect: () => void
   onDelete?: () => void
+  onRestore?: () => void
   useNickname?: boolean
 }) => {
+  const cardNotes = getCardNotes(snapshot)
+
   return (
     <motion.div
       role="button"
@@ -139,8 +153,46 @@ const EpisodeCard = ({
               {getTop3Preview(snapshot, useNickname)}
             </p>
           )}
+          {/* Per-card notes */}
+          {cardNotes.length > 0 && (
+            <ul
+              className="mt-2 space-y-0.5 text-sm text-[#2d2d2d]"
+              style={{ fontFamily: "'Patrick Hand', cursive" }}
+              aria-label={`Card notes for ${snapshot.label}`}
+            >
+              {cardNotes.map((entry) => (
+                <li key={entry.cardId} className="break-words">
+                  <span className="text-[#9a958d]">#{entry.rank}</span>{' '}
+                  {getDisplayNameFromEntry(entry, useNickname)}: {entry.note}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
 
+        {/* Restore button (optional) */}
+        {onRestore && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation()
+              onRestore()
+            }}
+            aria-label={`Restore ${snapshot.label}`}
+            title="Restore this ranking"
+            className="
+              flex-shrink-0
+              w-8 h-8
+              flex items-center justify-center
+              text-[#9a958d]
+              hover:text-[#2d5da1]
+              transition-colors
+            "
+          >
+            ⏪
+          </button>
+        )}
+
         {/* Delete button (optional) */}
         {onDelete && (
           <button
@@ -194,12 +246,14 @@ const EmptyState = () => (
  * EpisodeTimeline Component
  *
  * A vertical scrollable list showing saved episode snapshots.
- * Each item shows: episode number badge, label, date, item count, and notes.
+ * Each item shows: episode number badge, label, date, item count, notes,
+ * and any per-card notes saved with the snapshot.
  */
 export const EpisodeTimeline = ({
   snapshots,
   onSnapshotSelect,
   onSnapshotDelete,
+  onSnapshotRestore,
   selectedSnapshotId,
   useNickname = false,
 }: EpisodeTimelineProps) => {
@@ -217,6 +271,7 @@ export const EpisodeTimeline = ({
             isSelected={selectedSnapshotId === snapshot.id}
             onSelect={() => onSnapshotSelect(snapshot.id)}
             onDelete={onSnapshotDelete ? () => onSnapshotDelete(snapshot.id) : undefined}
+            onRestore={onSnapshotRestore ? () => onSnapshotRestore(snapshot.id) : undefined}
             useNickname={useNickname}
           />
         ))}
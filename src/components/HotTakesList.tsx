@@ -0,0 +1,67 @@
+import type { HotTake } from '../lib/hotTakes'
+import { wobbly } from '../styles/wobbly'
+
+export interface HotTakesListProps {
+  /** Hot takes, largest first */
+  takes: HotTake[]
+  /** Who the takes are measured against (e.g. "Group" or a friend's name) */
+  theirLabel: string
+  /** Heading (defaults to "Your hottest takes") */
+  title?: string
+  /** Label for your ranks (defaults to "You") */
+  yourLabel?: string
+}
+
+/**
+ * HotTakesList Component
+ *
+ * The items you rank furthest from someone else, with both ranks and how
+ * many places apart they are.
+ */
+export const HotTakesList = ({
+  takes,
+  theirLabel,
+  title = 'Your hottest takes',
+  yourLabel = 'You',
+}: HotTakesListProps) => (
+  <section aria-label={title} style={{ fontFamily: "'Patrick Hand', cursive" }}>
+    <h2
+      className="text-lg text-[#2d2d2d] mb-2"
+      style={{ fontFamily: "'Kalam', cursive", fontWeight: 700 }}
+    >
+      🌶️ {title}
+    </h2>
+
+    {takes.length === 0 ? (
+      <p className="text-[#9a958d]">No hot takes here, you're in step.</p>
+    ) : (
+      <ul className="space-y-2">
+        {takes.map((take) => (
+          <li
+            key={take.key}
+            className="flex items-center gap-3 p-3 bg-white border-2 border-[#2d2d2d]"
+            style={{ borderRadius: wobbly.sm }}
+          >
+            <div className="flex-1 min-w-0">
+              <p className="text-[#2d2d2d] truncate">{take.name}</p>
+              <p className="text-sm text-[#9a958d]">
+                {yourLabel} #{take.yourRank} · {theirLabel} #{take.theirRank}
+              </p>
+            </div>
+            <span
+              className={`flex-shrink-0 px-2 py-0.5 text-sm border-2 ${
+                take.deviation > 0
+                  ? 'border-[#ff4d4d] text-[#ff4d4d]'
+                  : 'border-[#2d5da1] text-[#2d5da1]'
+              }`}
+              style={{ borderRadius: wobbly.pill }}
+            >
+              {take.deviation > 0 ? '▲' : '▼'} {Math.abs(take.deviation)}{' '}
+              {take.deviation > 0 ? 'higher' : 'lower'}
+            </span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </section>
+)
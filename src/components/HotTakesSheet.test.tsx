@@ -0,0 +1,46 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import { HotTakesSheet } from './HotTakesSheet'
+import type { HotTake } from '../lib/hotTakes'
+
+describe('HotTakesSheet', () => {
+  const take = (name: string, yourRank: number, theirRank: number): HotTake => ({
+    key: name.toLowerCase(),
+    name,
+    yourRank,
+    theirRank,
+    deviation: theirRank - yourRank,
+  })
+
+  const renderSheet = () =>
+    render(
+      <HotTakesSheet
+        isOpen
+        onClose={() => {}}
+        groupTakes={[take('Cho', 1, 6)]}
+        friendTakes={[{ ownerId: 'u2', ownerName: 'Ana', takes: [take('Kim', 5, 2)] }]}
+      />
+    )
+
+  it('starts with your hot takes against the group', () => {
+    renderSheet()
+
+    expect(screen.getByText('Cho')).toBeInTheDocument()
+    expect(screen.getByText('You #1 · Group #6')).toBeInTheDocument()
+    expect(screen.getByText('▲ 5 higher')).toBeInTheDocument()
+  })
+
+  it('switches to a single friend', () => {
+    renderSheet()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Ana' }))
+
+    expect(screen.getByText('You #5 · Ana #2')).toBeInTheDocument()
+    expect(screen.getByText('▼ 3 lower')).toBeInTheDocument()
+  })
+
+  it('explains when nobody else ranked the board', () => {
+    render(<HotTakesSheet isOpen onClose={() => {}} groupTakes={[]} friendTakes={[]} />)
+
+    expect(screen.getByText(/Nobody in your spaces has ranked this board yet/)).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,87 @@
+import { useState } from 'react'
+import { BottomSheet } from './ui/BottomSheet'
+import { HotTakesList } from './HotTakesList'
+import type { HotTake } from '../lib/hotTakes'
+import type { FriendHotTakes } from '../hooks/useHotTakes'
+import { wobbly } from '../styles/wobbly'
+
+export interface HotTakesSheetProps {
+  /** Whether the sheet is open */
+  isOpen: boolean
+  /** Called when the sheet should close */
+  onClose: () => void
+  /** Hot takes against everyone else's consensus */
+  groupTakes: HotTake[]
+  /** Hot takes against each friend */
+  friendTakes: FriendHotTakes[]
+  /** Whether friends' boards are still loading */
+  isLoading?: boolean
+  /** Error message if any */
+  error?: string | null
+}
+
+/**
+ * HotTakesSheet Component
+ *
+ * Your hottest takes on a board, measured against the group's consensus
+ * or any one friend who ranked the same template.
+ */
+export const HotTakesSheet = ({
+  isOpen,
+  onClose,
+  groupTakes,
+  friendTakes,
+  isLoading = false,
+  error = null,
+}: HotTakesSheetProps) => {
+  // null = the group
+  const [friendId, setFriendId] = useState<string | null>(null)
+
+  const friend = friendTakes.find((f) => f.ownerId === friendId) ?? null
+  const options = [
+    { id: null, label: 'Group' },
+    ...friendTakes.map((f) => ({ id: f.ownerId, label: f.ownerName })),
+  ]
+
+  return (
+    <BottomSheet isOpen={isOpen} onClose={onClose} title="Hot Takes">
+      <div className="space-y-4" style={{ fontFamily: "'Patrick Hand', cursive" }}>
+        {isLoading ? (
+          <p className="text-center text-[#9a958d] py-8">Loading rankings...</p>
+        ) : error ? (
+          <p className="text-[#ff4d4d]">{error}</p>
+        ) : friendTakes.length === 0 ? (
+          <p className="text-[#9a958d]">
+            Nobody in your spaces has ranked this board yet. Share it to a space to find your hot takes!
+          </p>
+        ) : (
+          <>
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {options.map((option) => (
+                <button
+                  key={option.id ?? 'group'}
+                  type="button"
+                  aria-pressed={(friend?.ownerId ?? null) === option.id}
+                  onClick={() => setFriendId(option.id)}
+                  className={`
+                    px-3 py-1 border-2 border-[#2d2d2d] text-sm whitespace-nowrap
+                    transition-all duration-100
+                    ${(friend?.ownerId ?? null) === option.id ? 'bg-[#2d2d2d] text-white' : 'bg-white text-[#2d2d2d]'}
+                  `}
+                  style={{ borderRadius: wobbly.pill }}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            <HotTakesList
+              takes={friend ? friend.takes : groupTakes}
+              theirLabel={friend ? friend.ownerName : 'Group'}
+            />
+          </>
+        )}
+      </div>
+    </BottomSheet>
+  )
+}
@@ -0,0 +1,87 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import { describe, it, expect, vi } from 'vitest'
+import { ImportPreviewSheet } from './ImportPreviewSheet'
+import type { ImportChangeReport, ImportPreview } from '../lib/importMerge'
+
+describe('ImportPreviewSheet', () => {
+  const preview: ImportPreview = {
+    boards: [
+      {
+        boardId: 'b1',
+        name: 'Mine',
+        status: 'identical',
+        cards: { new: 0, conflict: 2, identical: 3 },
+        snapshots: { new: 0, conflict: 0, identical: 0 },
+        hasConflicts: true,
+      },
+      {
+        boardId: 'b2',
+        name: 'Theirs',
+        status: 'new',
+        cards: { new: 4, conflict: 0, identical: 0 },
+        snapshots: { new: 1, conflict: 0, identical: 0 },
+        hasConflicts: false,
+      },
+    ],
+    totals: {
+      boards: { new: 1, conflict: 0, identical: 1 },
+      cards: { new: 4, conflict: 2, identical: 3 },
+      snapshots: { new: 1, conflict: 0, identical: 0 },
+    },
+  }
+
+  const defaultProps = {
+    isOpen: true,
+    onClose: vi.fn(),
+    preview,
+    report: null,
+    onApply: vi.fn(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('summarises each board', () => {
+    render(<ImportPreviewSheet {...defaultProps} />)
+
+    const boards = screen.getAllByTestId('import-board')
+    expect(boards[0]).toHaveTextContent('2 conflicts')
+    expect(boards[1]).toHaveTextContent('New board')
+  })
+
+  it('applies the global choice with per-board overrides', () => {
+    render(<ImportPreviewSheet {...defaultProps} />)
+
+    fireEvent.click(screen.getByRole('radio', { name: 'Take theirs' }))
+    fireEvent.change(screen.getByLabelText('Conflicts for Mine'), { target: { value: 'keep-mine' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Import' }))
+
+    expect(defaultProps.onApply).toHaveBeenCalledWith({
+      strategy: 'take-theirs',
+      perBoard: { b1: 'keep-mine' },
+    })
+  })
+
+  it('defaults to keeping the newer copy', () => {
+    render(<ImportPreviewSheet {...defaultProps} />)
+
+    expect(screen.getByRole('radio', { name: 'Keep newer' })).toHaveAttribute('aria-checked', 'true')
+  })
+
+  it('shows the change report once applied', () => {
+    const report: ImportChangeReport = {
+      added: { boards: 1, cards: 4, snapshots: 1 },
+      updated: { boards: 0, cards: 2, snapshots: 0 },
+      kept: 0,
+      unchanged: 4,
+      details: ['Added board "Theirs"'],
+    }
+    render(<ImportPreviewSheet {...defaultProps} report={report} />)
+
+    expect(screen.getByTestId('import-report')).toHaveTextContent('Updated 0 boards, 2 cards and 0 snapshots')
+    expect(screen.getByText('Added board "Theirs"')).toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'Done' }))
+    expect(defaultProps.onClose).toHaveBeenCalled()
+  })
+})
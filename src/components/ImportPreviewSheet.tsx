@@ -0,0 +1,239 @@
+/**
+ * ImportPreviewSheet Component
+ *
+ * A bottom sheet shown before an import is applied.
+ * Features:
+ * - New / conflicting / identical counts for boards, cards and snapshots
+ * - One conflict choice for everything (keep mine / take theirs / keep newer)
+ * - Per-board overrides for boards with conflicts
+ * - Report of exactly what changed once applied
+ */
+
+import { useState } from 'react'
+import { BottomSheet } from './ui/BottomSheet'
+import { Button } from './ui/Button'
+import { wobbly } from '../styles/wobbly'
+import type {
+  ConflictStrategy,
+  ImportChangeReport,
+  ImportPreview,
+  ImportResolution,
+  StatusCounts,
+} from '../lib/importMerge'
+
+export interface ImportPreviewSheetProps {
+  isOpen: boolean
+  onClose: () => void
+  preview: ImportPreview
+  /** Set once the import has been applied */
+  report: ImportChangeReport | null
+  onApply: (resolution: ImportResolution) => void
+}
+
+const STRATEGY_OPTIONS: { value: ConflictStrategy; label: string }[] = [
+  { value: 'keep-mine', label: 'Keep mine' },
+  { value: 'take-theirs', label: 'Take theirs' },
+  { value: 'keep-newer', label: 'Keep newer' },
+]
+
+/**
+ * Conflict strategy radio buttons
+ */
+const StrategyToggle = ({
+  value,
+  onChange,
+}: {
+  value: ConflictStrategy
+  onChange: (strategy: ConflictStrategy) => void
+}) => (
+  <div role="radiogroup" aria-label="Conflict resolution" className="flex gap-2">
+    {STRATEGY_OPTIONS.map((option) => (
+      <button
+        key={option.value}
+        type="button"
+        role="radio"
+        aria-checked={value === option.value}
+        onClick={() => onChange(option.value)}
+        className={`
+          flex-1 py-2
+          border-2 border-[#2d2d2d]
+          text-base
+          transition-colors
+          ${value === option.value
+            ? 'bg-[#2d2d2d] text-white'
+            : 'bg-white text-[#2d2d2d] hover:bg-[#e5e0d8]'
+          }
+        `}
+        style={{ borderRadius: wobbly.sm, fontFamily: "'Patrick Hand', cursive" }}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+)
+
+/**
+ * Summary row: "Cards  3 new · 1 conflict · 5 same"
+ */
+const CountsRow = ({ label, counts }: { label: string; counts: StatusCounts }) => (
+  <tr>
+    <td className="py-1 pr-3 text-[#2d2d2d]">{label}</td>
+    <td className="py-1 px-2 text-center text-[#2d5da1]">{counts.new}</td>
+    <td className="py-1 px-2 text-center text-[#ff4d4d]">{counts.conflict}</td>
+    <td className="py-1 px-2 text-center text-[#9a958d]">{counts.identical}</td>
+  </tr>
+)
+
+const describeBoard = (board: ImportPreview['boards'][number]): string => {
+  const conflicts = board.cards.conflict + board.snapshots.conflict + (board.status === 'conflict' ? 1 : 0)
+  if (board.status === 'new') return 'New board'
+  if (conflicts > 0) return `${conflicts} ${conflicts === 1 ? 'conflict' : 'conflicts'}`
+  const added = board.cards.new + board.snapshots.new
+  return added > 0 ? `${added} new ${added === 1 ? 'item' : 'items'}` : 'No changes'
+}
+
+/**
+ * Change report shown after applying
+ */
+const ChangeReport = ({ report }: { report: ImportChangeReport }) => {
+  const lines = [
+    `Added ${report.added.boards} boards, ${report.added.cards} cards and ${report.added.snapshots} snapshots`,
+    `Updated ${report.updated.boards} boards, ${report.updated.cards} cards and ${report.updated.snapshots} snapshots`,
+    `Kept your copy of ${report.kept} conflicting ${report.kept === 1 ? 'item' : 'items'}`,
+    `${report.unchanged} already up to date`,
+  ]
+
+  return (
+    <div style={{ fontFamily: "'Patrick Hand', cursive" }} data-testid="import-report">
+      <ul className="flex flex-col gap-1 mb-4 text-[#2d2d2d]">
+        {lines.map((line) => <li key={line}>{line}</li>)}
+      </ul>
+      {report.details.length > 0 && (
+        <ul
+          className="flex flex-col gap-1 p-3 bg-[#f5f5f5] border-2 border-dashed border-[#e5e0d8] text-sm text-[#9a958d]"
+          style={{ borderRadius: wobbly.sm }}
+        >
+          {report.details.map((detail) => <li key={detail}>{detail}</li>)}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export const ImportPreviewSheet = ({
+  isOpen,
+  onClose,
+  preview,
+  report,
+  onApply,
+}: ImportPreviewSheetProps) => {
+  const [strategy, setStrategy] = useState<ConflictStrategy>('keep-newer')
+  const [perBoard, setPerBoard] = useState<Record<string, ConflictStrategy>>({})
+
+  const { totals } = preview
+  const conflictingBoards = preview.boards.filter((b) => b.hasConflicts)
+  const hasChanges =
+    totals.boards.new + totals.cards.new + totals.snapshots.new +
+    totals.boards.conflict + totals.cards.conflict + totals.snapshots.conflict > 0
+
+  const footer = report ? (
+    <Button onClick={onClose} className="w-full">Done</Button>
+  ) : (
+    <div className="flex gap-3">
+      <Button variant="secondary" onClick={onClose} className="flex-1">Cancel</Button>
+      <Button onClick={() => onApply({ strategy, perBoard })} disabled={!hasChanges} className="flex-1">
+        Import
+      </Button>
+    </div>
+  )
+
+  return (
+    <BottomSheet
+      isOpen={isOpen}
+      onClose={onClose}
+      title={report ? 'Import Complete' : 'Import Preview'}
+      footer={footer}
+    >
+      {report ? (
+        <ChangeReport report={report} />
+      ) : (
+        <div className="flex flex-col gap-5" style={{ fontFamily: "'Patrick Hand', cursive" }}>
+          <table className="w-full" aria-label="Import summary">
+            <thead>
+              <tr className="text-sm text-[#9a958d]">
+                <th />
+                <th className="px-2 font-normal">New</th>
+                <th className="px-2 font-normal">Conflicts</th>
+                <th className="px-2 font-normal">Same</th>
+              </tr>
+            </thead>
+            <tbody>
+              <CountsRow label="Boards" counts={totals.boards} />
+              <CountsRow label="Cards" counts={totals.cards} />
+              <CountsRow label="Snapshots" counts={totals.snapshots} />
+            </tbody>
+          </table>
+
+          {!hasChanges && (
+            <p className="text-[#9a958d] text-center">Everything in this file is already here.</p>
+          )}
+
+          {conflictingBoards.length > 0 && (
+            <div>
+              <p className="text-[#2d2d2d] mb-2">When both copies differ:</p>
+              <StrategyToggle value={strategy} onChange={setStrategy} />
+            </div>
+          )}
+
+          {preview.boards.length > 0 && (
+            <ul className="flex flex-col gap-2">
+              {preview.boards.map((board) => (
+                <li
+                  key={board.boardId}
+                  data-testid="import-board"
+                  className="p-3 bg-white border-2 border-[#2d2d2d]"
+                  style={{ borderRadius: wobbly.sm }}
+                >
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span
+                      className="text-[#2d2d2d] truncate"
+                      style={{ fontFamily: "'Kalam', cursive", fontWeight: 700 }}
+                    >
+                      {board.name}
+                    </span>
+                    <span className={`text-sm shrink-0 ${board.hasConflicts ? 'text-[#ff4d4d]' : 'text-[#9a958d]'}`}>
+                      {describeBoard(board)}
+                    </span>
+                  </div>
+
+                  {board.hasConflicts && (
+                    <select
+                      aria-label={`Conflicts for ${board.name}`}
+                      value={perBoard[board.boardId] ?? ''}
+                      onChange={(e) => {
+                        const value = e.target.value as ConflictStrategy | ''
+                        setPerBoard((prev) => {
+                          const next = { ...prev }
+                          if (value) next[board.boardId] = value
+                          else delete next[board.boardId]
+                          return next
+                        })
+                      }}
+                      className="mt-2 w-full px-2 py-1 bg-[#fdfbf7] border-2 border-[#e5e0d8] text-[#2d2d2d]"
+                      style={{ borderRadius: wobbly.sm }}
+                    >
+                      <option value="">Same as above</option>
+                      {STRATEGY_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </BottomSheet>
+  )
+}
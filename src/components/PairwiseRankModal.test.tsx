@@ -0,0 +1,81 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PairwiseRankModal } from './PairwiseRankModal'
+import { createCard } from '../lib/types'
+import { createPairwiseSession, answerPair } from '../lib/pairwiseRanking'
+import * as storage from '../lib/storage'
+
+vi.mock('../lib/storage')
+
+const mockStorage = vi.mocked(storage)
+
+describe('PairwiseRankModal', () => {
+  const cards = [
+    { ...createCard('board-1', 'Alpha', 1), id: 'a' },
+    { ...createCard('board-1', 'Bravo', 2), id: 'b' },
+  ]
+
+  const defaultProps = {
+    isOpen: true,
+    boardId: 'board-1',
+    cards,
+    onClose: vi.fn(),
+    onApply: vi.fn(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockStorage.getSettings.mockReturnValue({
+      nicknameModeRankList: false,
+    } as ReturnType<typeof storage.getSettings>)
+    mockStorage.getPairwiseSession.mockReturnValue(null)
+  })
+
+  it('shows a start screen without a saved session', () => {
+    render(<PairwiseRankModal {...defaultProps} />)
+
+    expect(screen.getByRole('button', { name: 'Start' })).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Resume' })).not.toBeInTheDocument()
+  })
+
+  it('asks which card ranks higher and applies the result', () => {
+    render(<PairwiseRankModal {...defaultProps} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Start' }))
+    expect(screen.getByText('Which ranks higher?')).toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Rank Bravo higher' }))
+    expect(mockStorage.savePairwiseSession).toHaveBeenCalled()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Apply Order' }))
+    expect(defaultProps.onApply).toHaveBeenCalledWith(['b', 'a'])
+    expect(mockStorage.deletePairwiseSession).toHaveBeenCalledWith('board-1')
+    expect(defaultProps.onClose).toHaveBeenCalled()
+  })
+
+  it('offers to resume a saved session', () => {
+    const saved = answerPair(
+      createPairwiseSession('board-1', ['a', 'b']),
+      'a',
+      { isClose: true }
+    )
+    mockStorage.getPairwiseSession.mockReturnValue(saved)
+
+    render(<PairwiseRankModal {...defaultProps} />)
+    fireEvent.click(screen.getByRole('button', { name: 'Resume' }))
+
+    expect(screen.getByText('All sorted in 1 picks!')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Re-check close calls (1)' })).toBeInTheDocument()
+  })
+
+  it('re-checks neighbours in the current order', () => {
+    render(<PairwiseRankModal {...defaultProps} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Quick Re-check' }))
+
+    expect(screen.getByText('Still sure?')).toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'Rank Alpha higher' }))
+    fireEvent.click(screen.getByRole('button', { name: 'Apply Order' }))
+    expect(defaultProps.onApply).toHaveBeenCalledWith(['a', 'b'])
+  })
+})
@@ -0,0 +1,331 @@
+import { useState } from 'react'
+import type { Card } from '../lib/types'
+import { BottomSheet } from './ui/BottomSheet'
+import { Button } from './ui/Button'
+import { wobbly } from '../styles/wobbly'
+import { getDisplayName } from '../hooks/useDisplayName'
+import {
+  getSettings,
+  getPairwiseSession,
+  savePairwiseSession,
+  deletePairwiseSession,
+} from '../lib/storage'
+import {
+  type PairwiseSession,
+  createPairwiseSession,
+  createRecheckSession,
+  reconcileSession,
+  getCurrentPair,
+  answerPair,
+  startRecheck,
+  getUncertainPairs,
+  getSessionOrder,
+  estimateRemainingQuestions,
+} from '../lib/pairwiseRanking'
+
+export interface PairwiseRankModalProps {
+  /** Whether the modal is open */
+  isOpen: boolean
+  /** Board being ranked */
+  boardId: string
+  /** Cards on the board, in current rank order */
+  cards: Card[]
+  /** Thumbnail URLs keyed by card ID */
+  thumbnailUrls?: Record<string, string>
+  /** Called when modal should close */
+  onClose: () => void
+  /** Called with the final order (card IDs, best first) */
+  onApply: (cardIds: string[]) => void
+}
+
+/**
+ * One side of the "this or that" question
+ */
+const ChoiceButton = ({
+  card,
+  thumbnailUrl,
+  useNickname,
+  onPick,
+}: {
+  card: Card
+  thumbnailUrl?: string
+  useNickname: boolean
+  onPick: () => void
+}) => {
+  const displayName = getDisplayName(card, useNickname)
+
+  return (
+    <button
+      type="button"
+      data-testid="pairwise-choice"
+      onClick={onPick}
+      aria-label={`Rank ${displayName} higher`}
+      className="
+        flex-1 flex flex-col items-center gap-3 p-3
+        bg-white border-[3px] border-[#2d2d2d]
+        shadow-[4px_4px_0px_0px_#2d2d2d]
+        hover:shadow-[2px_2px_0px_0px_#2d2d2d]
+        hover:translate-x-[2px] hover:translate-y-[2px]
+        active:shadow-none
+        active:translate-x-[4px] active:translate-y-[4px]
+        transition-all duration-100
+        min-w-0
+      "
+      style={{ borderRadius: wobbly.md }}
+    >
+      {thumbnailUrl ? (
+        <div
+          className="w-full aspect-square overflow-hidden border-2 border-[#2d2d2d]"
+          style={{ borderRadius: wobbly.lg }}
+        >
+          <img
+            src={thumbnailUrl}
+            alt={displayName}
+            className="w-full h-full object-cover"
+            draggable={false}
+          />
+        </div>
+      ) : (
+        <div
+          className="
+            w-full aspect-square
+            bg-[#e5e0d8] border-2 border-[#2d2d2d]
+            flex items-center justify-center
+            text-[#9a958d] text-4xl
+          "
+          style={{ borderRadius: wobbly.lg }}
+        >
+          ?
+        </div>
+      )}
+      <span
+        className="w-full text-lg text-[#2d2d2d] truncate"
+        style={{ fontFamily: "'Patrick Hand', cursive" }}
+      >
+        {displayName}
+      </span>
+    </button>
+  )
+}
+
+/**
+ * Hand-written helper text
+ */
+const Hint = ({ children }: { children: React.ReactNode }) => (
+  <p
+    className="text-center text-[#9a958d]"
+    style={{ fontFamily: "'Patrick Hand', cursive" }}
+  >
+    {children}
+  </p>
+)
+
+/**
+ * PairwiseRankModal Component
+ *
+ * Builds a board's order from "this or that" picks.
+ * Features:
+ * - Binary insertion keeps the number of questions low
+ * - Progress is saved after every answer, so a session can be resumed
+ * - Re-check pass that only asks about uncertain neighbours
+ * - Nothing changes on the board until the order is applied
+ */
+export const PairwiseRankModal = ({
+  isOpen,
+  boardId,
+  cards,
+  thumbnailUrls = {},
+  onClose,
+  onApply,
+}: PairwiseRankModalProps) => {
+  const [session, setSession] = useState<PairwiseSession | null>(null)
+  // Resumable session from a previous visit (read once on mount)
+  const [savedSession] = useState(() => getPairwiseSession(boardId))
+
+  const useNickname = getSettings().nicknameModeRankList
+  const cardIds = cards.map((c) => c.id)
+  const cardsById = new Map(cards.map((c) => [c.id, c]))
+
+  const updateSession = (next: PairwiseSession) => {
+    setSession(next)
+    savePairwiseSession(next)
+  }
+
+  const handleStart = () => {
+    updateSession(createPairwiseSession(boardId, cardIds))
+  }
+
+  const handleResume = () => {
+    if (savedSession) {
+      updateSession(reconcileSession(savedSession, cardIds))
+    }
+  }
+
+  const handleQuickRecheck = () => {
+    updateSession(createRecheckSession(boardId, cardIds))
+  }
+
+  const handlePick = (winnerId: string, isClose = false) => {
+    if (session) {
+      updateSession(answerPair(session, winnerId, { isClose }))
+    }
+  }
+
+  const handleApply = () => {
+    if (!session) return
+    onApply(getSessionOrder(session))
+    deletePairwiseSession(boardId)
+    onClose()
+  }
+
+  const handleDiscard = () => {
+    deletePairwiseSession(boardId)
+    onClose()
+  }
+
+  const pair = session ? getCurrentPair(session) : null
+  const [first, second] = pair
+    ? [cardsById.get(pair[0]), cardsById.get(pair[1])]
+    : [undefined, undefined]
+
+  const renderIntro = () => (
+    <div className="space-y-4">
+      <Hint>
+        Pick the better of two cards until the whole board is sorted.
+        Your progress is saved after every pick.
+      </Hint>
+      {savedSession && (
+        <Hint>
+          You have an unfinished session ({savedSession.comparisons} picks so far).
+        </Hint>
+      )}
+    </div>
+  )
+
+  const renderQuestion = () => {
+    if (!session || !pair || !first || !second) return null
+    const remaining = estimateRemainingQuestions(session)
+
+    return (
+      <div className="space-y-4">
+        <h3
+          className="text-xl text-center text-[#2d2d2d]"
+          style={{ fontFamily: "'Kalam', cursive", fontWeight: 700 }}
+        >
+          {session.phase === 'recheck' ? 'Still sure?' : 'Which ranks higher?'}
+        </h3>
+        <div className="flex gap-3">
+          <ChoiceButton
+            card={first}
+            thumbnailUrl={thumbnailUrls[first.id]}
+            useNickname={useNickname}
+            onPick={() => handlePick(first.id)}
+          />
+          <ChoiceButton
+            card={second}
+            thumbnailUrl={thumbnailUrls[second.id]}
+            useNickname={useNickname}
+            onPick={() => handlePick(second.id)}
+          />
+        </div>
+        <Button
+          variant="secondary"
+          size="sm"
+          // Keep the current order when the user can't decide
+          onClick={() => handlePick(session.phase === 'recheck' ? pair[0] : pair[1], true)}
+          className="w-full"
+        >
+          🤷 Too close to call
+        </Button>
+        <Hint>
+          {session.comparisons} picks made · about {remaining} to go
+        </Hint>
+      </div>
+    )
+  }
+
+  const renderDone = () => {
+    if (!session) return null
+    const uncertain = getUncertainPairs(session).length
+
+    return (
+      <div className="space-y-4">
+        <Hint>
+          All sorted in {session.comparisons} picks!
+        </Hint>
+        <ol className="space-y-1">
+          {session.sorted.map((id, index) => {
+            const card = cardsById.get(id)
+            if (!card) return null
+            return (
+              <li
+                key={id}
+                className="text-[#2d2d2d] truncate"
+                style={{ fontFamily: "'Patrick Hand', cursive" }}
+              >
+                {index + 1}. {getDisplayName(card, useNickname)}
+              </li>
+            )
+          })}
+        </ol>
+        {uncertain > 0 && (
+          <Button
+            variant="secondary"
+            onClick={() => updateSession(startRecheck(session))}
+            className="w-full"
+          >
+            Re-check close calls ({uncertain})
+          </Button>
+        )}
+      </div>
+    )
+  }
+
+  const isDone = session?.phase === 'done'
+
+  const footerContent = !session ? (
+    <div className="flex flex-col gap-3">
+      {savedSession && (
+        <Button variant="primary" onClick={handleResume} className="w-full">
+          Resume
+        </Button>
+      )}
+      <div className="flex gap-3">
+        <Button
+          variant={savedSession ? 'secondary' : 'primary'}
+          onClick={handleStart}
+          className="flex-1"
+        >
+          {savedSession ? 'Start Over' : 'Start'}
+        </Button>
+        <Button variant="secondary" onClick={handleQuickRecheck} className="flex-1">
+          Quick Re-check
+        </Button>
+      </div>
+    </div>
+  ) : isDone ? (
+    <div className="flex gap-3">
+      <Button variant="secondary" onClick={handleDiscard} className="flex-1">
+        Discard
+      </Button>
+      <Button variant="primary" onClick={handleApply} className="flex-1">
+        Apply Order
+      </Button>
+    </div>
+  ) : (
+    <Button variant="secondary" onClick={onClose} className="w-full">
+      Save &amp; Exit
+    </Button>
+  )
+
+  return (
+    <BottomSheet
+      isOpen={isOpen}
+      onClose={onClose}
+      title="This or That"
+      footer={footerContent}
+    >
+      {!session ? renderIntro() : isDone ? renderDone() : renderQuestion()}
+    </BottomSheet>
+  )
+}
@@ -0,0 +1,44 @@
+import { render, screen, within } from '@testing-library/react'
+import { RankHeatmap } from './RankHeatmap'
+import type { Snapshot } from '../lib/types'
+
+describe('RankHeatmap', () => {
+  const episode = (episodeNumber: number, names: string[]): Snapshot => ({
+    id: `s${episodeNumber}`,
+    boardId: 'b1',
+    episodeNumber,
+    label: `Episode ${episodeNumber}`,
+    notes: '',
+    rankings: names.map((name, i) => ({
+      cardId: name.toLowerCase(),
+      cardName: name,
+      rank: i + 1,
+      thumbnailKey: name === 'Kim' ? 'thumb-kim' : null,
+    })),
+    createdAt: episodeNumber,
+  })
+
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('shows a row per card with its rank in each episode', () => {
+    render(
+      <RankHeatmap
+        snapshots={[episode(1, ['Kim', 'Lee']), episode(2, ['Lee', 'Kim', 'Cho'])]}
+        thumbnailUrls={{ 'thumb-kim': 'blob:kim' }}
+      />
+    )
+
+    const table = screen.getByRole('table', { name: 'Rank heatmap' })
+    const rows = within(table).getAllByRole('row').slice(1)
+
+    expect(rows.map((row) => within(row).getAllByRole('cell').map((cell) => cell.textContent))).toEqual([
+      ['2', '1'],
+      ['1', '2'],
+      ['–', '3'],
+    ])
+    expect(within(rows[0]).getByRole('rowheader')).toHaveTextContent('Lee')
+    expect(rows[1].querySelector('img')).toHaveAttribute('src', 'blob:kim')
+  })
+})
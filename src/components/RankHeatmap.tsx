@@ -0,0 +1,144 @@
+import { useState, useMemo, useCallback } from 'react'
+import type { Snapshot } from '../lib/types'
+import { buildRankMatrix, getHeatColor, getHeatTextColor } from '../lib/rankMatrix'
+import { getSettings, saveSettings } from '../lib/storage'
+import { getDisplayNameFromEntry } from '../hooks/useDisplayName'
+import { wobbly } from '../styles/wobbly'
+import { NicknameToggle } from './ui/NicknameToggle'
+
+export interface RankHeatmapProps {
+  snapshots: Snapshot[]
+  /** Map of thumbnailKey to blob URL for contestant photos */
+  thumbnailUrls?: Record<string, string>
+}
+
+/**
+ * RankHeatmap Component
+ *
+ * Grid of cards × episodes with each cell coloured by rank, red for #1
+ * through yellow to blue for last place. Empty cells mark episodes the
+ * card wasn't ranked in.
+ */
+export const RankHeatmap = ({ snapshots, thumbnailUrls = {} }: RankHeatmapProps) => {
+  const [useNickname, setUseNickname] = useState(() => getSettings().nicknameModeChart)
+
+  // Toggle nickname mode and persist to settings
+  const handleToggleNickname = useCallback(() => {
+    setUseNickname(prev => {
+      const newValue = !prev
+      saveSettings({ nicknameModeChart: newValue })
+      return newValue
+    })
+  }, [])
+
+  const { episodes, rows, maxRank } = useMemo(() => buildRankMatrix(snapshots), [snapshots])
+
+  if (snapshots.length === 0) {
+    return (
+      <div
+        className="text-center py-12 text-[#9a958d]"
+        style={{ fontFamily: "'Patrick Hand', cursive" }}
+      >
+        <div className="text-4xl mb-4">🟥</div>
+        <p>Save episode snapshots to see the heatmap!</p>
+      </div>
+    )
+  }
+
+  const hasAnyNicknames = rows.some((row) => row.cardNickname && row.cardNickname.trim() !== '')
+
+  return (
+    <div className="space-y-2" style={{ fontFamily: "'Patrick Hand', cursive" }}>
+      {hasAnyNicknames && (
+        <div className="flex justify-end">
+          <NicknameToggle enabled={useNickname} onToggle={handleToggleNickname} />
+        </div>
+      )}
+
+      <div
+        className="bg-white border-[3px] border-[#2d2d2d] shadow-[4px_4px_0px_0px_#2d2d2d] overflow-x-auto"
+        style={{ borderRadius: wobbly.md }}
+      >
+        <table aria-label="Rank heatmap" className="border-collapse text-sm text-[#2d2d2d]">
+          <thead>
+            <tr>
+              <th scope="col" className="sticky left-0 z-10 bg-white p-2 text-left font-normal text-[#9a958d]">
+                Card
+              </th>
+              {episodes.map((episode) => (
+                <th key={episode} scope="col" className="p-2 min-w-[44px] font-normal text-[#9a958d]">
+                  Ep {episode}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const displayName = getDisplayNameFromEntry(row, useNickname)
+              const thumbnailUrl = row.thumbnailKey ? thumbnailUrls[row.thumbnailKey] : null
+
+              return (
+                <tr key={row.cardId} className="border-t border-[#e5e0d8]">
+                  <th scope="row" className="sticky left-0 z-10 bg-white p-2 text-left font-normal">
+                    <span className="flex items-center gap-2 max-w-[140px]">
+                      {thumbnailUrl ? (
+                        <img
+                          src={thumbnailUrl}
+                          alt=""
+                          className="w-6 h-6 flex-shrink-0 rounded-full border border-[#2d2d2d] object-cover"
+                        />
+                      ) : (
+                        <span className="w-6 h-6 flex-shrink-0 flex items-center justify-center text-xs rounded-full border border-[#2d2d2d] bg-[#e5e0d8]">
+                          👤
+                        </span>
+                      )}
+                      <span className="truncate">{displayName}</span>
+                    </span>
+                  </th>
+                  {row.ranks.map((rank, i) => {
+                    if (rank === null) {
+                      return (
+                        <td key={episodes[i]} className="p-0.5 text-center text-[#9a958d]" aria-label="Not ranked">
+                          –
+                        </td>
+                      )
+                    }
+                    const background = getHeatColor(rank, maxRank)
+                    return (
+                      <td key={episodes[i]} className="p-0.5 text-center">
+                        <span
+                          className="block py-1.5 font-bold"
+                          style={{
+                            backgroundColor: background,
+                            color: getHeatTextColor(background),
+                            borderRadius: wobbly.sm,
+                          }}
+                        >
+                          {rank}
+                        </span>
+                      </td>
+                    )
+                  })}
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Legend */}
+      <div className="flex items-center justify-center gap-2 text-sm text-[#9a958d]">
+        <span>#1</span>
+        <span
+          aria-hidden="true"
+          className="w-32 h-3 border border-[#2d2d2d]"
+          style={{
+            background: `linear-gradient(to right, ${getHeatColor(1, 3)}, ${getHeatColor(2, 3)}, ${getHeatColor(3, 3)})`,
+            borderRadius: wobbly.pill,
+          }}
+        />
+        <span>#{maxRank}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+import { render, screen, fireEvent, act, within } from '@testing-library/react'
+import { RankingReplay, REPLAY_STEP_MS } from './RankingReplay'
+import type { Snapshot } from '../lib/types'
+
+// Mock framer-motion to avoid animation timing issues in tests
+vi.mock('framer-motion', () => ({
+  motion: {
+    li: ({ children, className }: React.HTMLAttributes<HTMLLIElement>) => <li className={className}>{children}</li>,
+  },
+  AnimatePresence: ({ children }: { children: React.ReactNode }) => <>{children}</>,
+}))
+
+describe('RankingReplay', () => {
+  const episode = (episodeNumber: number, names: string[]): Snapshot => ({
+    id: `s${episodeNumber}`,
+    boardId: 'b1',
+    episodeNumber,
+    label: `Episode ${episodeNumber}`,
+    notes: '',
+    rankings: names.map((name, i) => ({ cardId: name.toLowerCase(), cardName: name, rank: i + 1, thumbnailKey: null })),
+    createdAt: episodeNumber,
+  })
+
+  const snapshots = [episode(3, ['Lee', 'Cho', 'Kim']), episode(1, ['Kim', 'Lee']), episode(2, ['Lee', 'Kim', 'Cho'])]
+
+  const rankedNames = () =>
+    within(screen.getByRole('list', { name: 'Replay ranking' }))
+      .getAllByRole('listitem')
+      .map((item) => item.textContent)
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('starts on the first episode without movement arrows', () => {
+    render(<RankingReplay snapshots={snapshots} />)
+
+    expect(screen.getByTestId('replay-episode')).toHaveTextContent('Episode 1')
+    expect(rankedNames()).toEqual(['1Kim', '2Lee'])
+  })
+
+  it('plays through every episode and stops on the latest', () => {
+    render(<RankingReplay snapshots={snapshots} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Play replay' }))
+    act(() => {
+      vi.advanceTimersByTime(REPLAY_STEP_MS)
+    })
+
+    expect(screen.getByTestId('replay-episode')).toHaveTextContent('Episode 2')
+    expect(rankedNames()).toEqual(['1Lee▲1', '2Kim▼1', '3ChoNEW'])
+
+    act(() => {
+      vi.advanceTimersByTime(REPLAY_STEP_MS)
+    })
+
+    expect(screen.getByTestId('replay-episode')).toHaveTextContent('Episode 3')
+    expect(rankedNames()).toEqual(['1Lee—', '2Cho▲1', '3Kim▼1'])
+    expect(screen.getByRole('button', { name: 'Play replay' })).toBeInTheDocument()
+  })
+
+  it('pauses playback', () => {
+    render(<RankingReplay snapshots={snapshots} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Play replay' }))
+    fireEvent.click(screen.getByRole('button', { name: 'Pause replay' }))
+    act(() => {
+      vi.advanceTimersByTime(REPLAY_STEP_MS * 3)
+    })
+
+    expect(screen.getByTestId('replay-episode')).toHaveTextContent('Episode 1')
+  })
+
+  it('plays faster at a higher speed', () => {
+    render(<RankingReplay snapshots={snapshots} />)
+
+    fireEvent.click(screen.getByRole('radio', { name: '2×' }))
+    fireEvent.click(screen.getByRole('button', { name: 'Play replay' }))
+    act(() => {
+      vi.advanceTimersByTime(REPLAY_STEP_MS / 2)
+    })
+
+    expect(screen.getByTestId('replay-episode')).toHaveTextContent('Episode 2')
+  })
+
+  it('jumps to an episode with the scrubber and restarts from the end', () => {
+    render(<RankingReplay snapshots={snapshots} />)
+
+    fireEvent.change(screen.getByRole('slider', { name: 'Replay episode' }), { target: { value: '2' } })
+    expect(screen.getByTestId('replay-episode')).toHaveTextContent('Episode 3')
+
+    fireEvent.click(screen.getByRole('button', { name: 'Play replay' }))
+    expect(screen.getByTestId('replay-episode')).toHaveTextContent('Episode 1')
+  })
+})
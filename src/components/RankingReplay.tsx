@@ -0,0 +1,233 @@
+import { useEffect, useMemo, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import type { Snapshot } from '../lib/types'
+import { wobbly } from '../styles/wobbly'
+import { springConfig } from '../styles/tokens'
+import { MovementIndicator } from './MovementIndicator'
+import { getDisplayNameFromEntry } from '../hooks/useDisplayName'
+
+export interface RankingReplayProps {
+  /** Snapshots of the selected board */
+  snapshots: Snapshot[]
+  /** Map of thumbnailKey to blob URL */
+  thumbnailUrls?: Record<string, string>
+  /** Whether to show nicknames instead of real names */
+  useNickname?: boolean
+}
+
+/** Time each episode stays on screen at 1× speed */
+export const REPLAY_STEP_MS = 1500
+
+const SPEED_OPTIONS = [0.5, 1, 2, 4] as const
+
+type ReplaySpeed = (typeof SPEED_OPTIONS)[number]
+
+/**
+ * Play / pause, scrubber and speed controls
+ */
+const ReplayControls = ({
+  step,
+  stepCount,
+  isPlaying,
+  speed,
+  onTogglePlay,
+  onStepChange,
+  onSpeedChange,
+}: {
+  step: number
+  stepCount: number
+  isPlaying: boolean
+  speed: ReplaySpeed
+  onTogglePlay: () => void
+  onStepChange: (step: number) => void
+  onSpeedChange: (speed: ReplaySpeed) => void
+}) => (
+  <div className="space-y-3">
+    <div className="flex items-center gap-3">
+      <button
+        type="button"
+        onClick={onTogglePlay}
+        aria-label={isPlaying ? 'Pause replay' : 'Play replay'}
+        className="
+          w-12 h-12 flex-shrink-0
+          flex items-center justify-center
+          bg-[#2d2d2d] text-white text-xl
+          border-2 border-[#2d2d2d]
+          shadow-[2px_2px_0px_0px_#ff4d4d]
+          hover:bg-[#ff4d4d]
+          transition-colors
+        "
+        style={{ borderRadius: wobbly.circle }}
+      >
+        {isPlaying ? '⏸' : '▶'}
+      </button>
+      <input
+        type="range"
+        aria-label="Replay episode"
+        min={0}
+        max={stepCount - 1}
+        step={1}
+        value={step}
+        onChange={(e) => onStepChange(Number(e.target.value))}
+        className="flex-1 accent-[#ff4d4d]"
+      />
+    </div>
+
+    <div role="radiogroup" aria-label="Replay speed" className="flex gap-2">
+      {SPEED_OPTIONS.map((option) => (
+        <button
+          key={option}
+          type="button"
+          role="radio"
+          aria-checked={speed === option}
+          onClick={() => onSpeedChange(option)}
+          className={`
+            flex-1 py-1
+            border-2 border-[#2d2d2d]
+            text-base
+            transition-colors
+            ${speed === option
+              ? 'bg-[#2d2d2d] text-white'
+              : 'bg-white text-[#2d2d2d] hover:bg-[#e5e0d8]'
+            }
+          `}
+          style={{ borderRadius: wobbly.sm }}
+        >
+          {option}×
+        </button>
+      ))}
+    </div>
+  </div>
+)
+
+/**
+ * RankingReplay Component
+ *
+ * Animates a board's ranking from its first to latest episode. Cards
+ * slide to their new positions with the same spring as RankList and
+ * show how far they moved since the previous episode. Supports
+ * play/pause, scrubbing to any episode, and playback speed.
+ */
+export const RankingReplay = ({ snapshots, thumbnailUrls = {}, useNickname = false }: RankingReplayProps) => {
+  const episodes = useMemo(
+    () => [...snapshots].sort((a, b) => a.episodeNumber - b.episodeNumber),
+    [snapshots]
+  )
+  const [step, setStep] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [speed, setSpeed] = useState<ReplaySpeed>(1)
+
+  const lastStep = episodes.length - 1
+  const current = episodes[Math.min(step, lastStep)]
+  const previous = step > 0 ? episodes[step - 1] : null
+
+  // Advance one episode per tick, stopping on the latest
+  useEffect(() => {
+    if (!isPlaying) return
+    const timer = setTimeout(() => {
+      const next = Math.min(step + 1, lastStep)
+      setStep(next)
+      if (next === lastStep) setIsPlaying(false)
+    }, REPLAY_STEP_MS / speed)
+    return () => clearTimeout(timer)
+  }, [isPlaying, step, speed, lastStep])
+
+  const previousRanks = useMemo(
+    () => new Map(previous?.rankings.map((r) => [r.cardId, r.rank]) ?? []),
+    [previous]
+  )
+
+  if (!current) return null
+
+  const handleTogglePlay = () => {
+    if (isPlaying) {
+      setIsPlaying(false)
+      return
+    }
+    // Replay from the start once the end has been reached
+    if (step >= lastStep) setStep(0)
+    setIsPlaying(lastStep > 0)
+  }
+
+  const handleStepChange = (next: number) => {
+    setIsPlaying(false)
+    setStep(next)
+  }
+
+  return (
+    <div className="space-y-4" style={{ fontFamily: "'Patrick Hand', cursive" }}>
+      <ReplayControls
+        step={step}
+        stepCount={episodes.length}
+        isPlaying={isPlaying}
+        speed={speed}
+        onTogglePlay={handleTogglePlay}
+        onStepChange={handleStepChange}
+        onSpeedChange={setSpeed}
+      />
+
+      <div data-testid="replay-episode" className="text-center" aria-live="polite">
+        <span className="text-xl text-[#2d2d2d]" style={{ fontFamily: "'Kalam', cursive", fontWeight: 700 }}>
+          {current.label}
+        </span>
+        <span className="block text-sm text-[#9a958d]">
+          Ep. {current.episodeNumber} · {step + 1} of {episodes.length}
+        </span>
+      </div>
+
+      <ol aria-label="Replay ranking" className="space-y-2">
+        <AnimatePresence initial={false}>
+          {current.rankings.map((entry) => {
+            const from = previousRanks.get(entry.cardId)
+            const thumbnailUrl = entry.thumbnailKey ? thumbnailUrls[entry.thumbnailKey] : null
+            const displayName = getDisplayNameFromEntry(entry, useNickname)
+
+            return (
+              <motion.li
+                key={entry.cardId}
+                layout
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                transition={springConfig.default}
+                className="
+                  flex items-center gap-3 p-2
+                  bg-white border-2 border-[#2d2d2d]
+                  shadow-[2px_2px_0px_0px_#2d2d2d]
+                "
+                style={{ borderRadius: wobbly.md }}
+              >
+                <span
+                  className="
+                    flex-shrink-0 w-8 h-8
+                    flex items-center justify-center
+                    bg-[#e5e0d8] border-2 border-[#2d2d2d]
+                    font-bold
+                  "
+                  style={{ fontFamily: "'Kalam', cursive", borderRadius: wobbly.circle }}
+                >
+                  {entry.rank}
+                </span>
+                {thumbnailUrl && (
+                  <img
+                    src={thumbnailUrl}
+                    alt={displayName}
+                    className="flex-shrink-0 w-8 h-8 object-cover border-2 border-[#2d2d2d]"
+                    style={{ borderRadius: wobbly.circle }}
+                  />
+                )}
+                <span className="flex-1 min-w-0 truncate text-[#2d2d2d]">{displayName}</span>
+                {previous && (
+                  <MovementIndicator
+                    movement={from === undefined ? null : from - entry.rank}
+                    isNew={from === undefined}
+                  />
+                )}
+              </motion.li>
+            )
+          })}
+        </AnimatePresence>
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+import { render, screen, fireEvent, within } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { RankingStatsView } from './RankingStatsView'
+import type { Snapshot } from '../lib/types'
+
+describe('RankingStatsView', () => {
+  const episode = (episodeNumber: number, names: string[]): Snapshot => ({
+    id: `s${episodeNumber}`,
+    boardId: 'b1',
+    episodeNumber,
+    label: `Episode ${episodeNumber}`,
+    notes: '',
+    rankings: names.map((name, i) => ({ cardId: name.toLowerCase(), cardName: name, rank: i + 1, thumbnailKey: null })),
+    createdAt: episodeNumber,
+  })
+
+  const snapshots = [episode(1, ['Kim', 'Lee', 'Cho']), episode(2, ['Cho', 'Kim', 'Lee'])]
+
+  const getCardTrajectory = vi.fn((cardId: string) =>
+    cardId === 'cho'
+      ? {
+          cardId,
+          cardName: 'Cho',
+          summary: '3→1',
+          trajectory: [
+            { episodeNumber: 1, rank: 3 },
+            { episodeNumber: 2, rank: 1 },
+          ],
+        }
+      : null
+  )
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('shows the biggest movers for each episode', () => {
+    render(<RankingStatsView snapshots={snapshots} getCardTrajectory={getCardTrajectory} />)
+
+    const [ep2] = screen.getAllByTestId('episode-movers')
+    expect(ep2).toHaveTextContent(/Ep 2: ⬆️ Cho \+2\s*⬇️ Kim -1/)
+  })
+
+  it('shows the longest streak at #1', () => {
+    render(<RankingStatsView snapshots={snapshots} getCardTrajectory={getCardTrajectory} />)
+
+    expect(screen.getByRole('region', { name: 'Longest at #1' })).toHaveTextContent('Kim held #1 for 1 episode in a row')
+  })
+
+  it('shows a card\'s trajectory when tapped', () => {
+    render(<RankingStatsView snapshots={snapshots} getCardTrajectory={getCardTrajectory} />)
+
+    const firstVsLatest = screen.getByRole('region', { name: 'First vs Latest' })
+    fireEvent.click(within(firstVsLatest).getByRole('button', { name: 'Cho' }))
+
+    expect(getCardTrajectory).toHaveBeenCalledWith('cho')
+    expect(screen.getByTestId('card-trajectory')).toHaveTextContent('3→1')
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close trajectory' }))
+    expect(screen.queryByTestId('card-trajectory')).not.toBeInTheDocument()
+  })
+
+  it('notes cards that are no longer on the board', () => {
+    render(<RankingStatsView snapshots={snapshots} getCardTrajectory={getCardTrajectory} />)
+
+    fireEvent.click(within(screen.getByRole('region', { name: 'Average Rank' })).getByRole('button', { name: 'Lee' }))
+
+    expect(screen.getByTestId('card-trajectory')).toHaveTextContent('No longer on this board.')
+  })
+})
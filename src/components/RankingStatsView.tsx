@@ -0,0 +1,230 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { Snapshot } from '../lib/types'
+import type { CardTrajectory } from '../hooks/useRankingComparison'
+import { computeBoardStats, type CardStats } from '../lib/rankingStats'
+import { wobbly } from '../styles/wobbly'
+
+export interface RankingStatsViewProps {
+  /** Snapshots of the selected board */
+  snapshots: Snapshot[]
+  /** Trajectory lookup for a tapped card (null for cards no longer on the board) */
+  getCardTrajectory: (cardId: string) => CardTrajectory | null
+}
+
+/**
+ * Tappable card name that opens its trajectory
+ */
+const CardLink = ({
+  cardId,
+  name,
+  onSelect,
+}: {
+  cardId: string
+  name: string
+  onSelect: (cardId: string) => void
+}) => (
+  <button
+    type="button"
+    onClick={() => onSelect(cardId)}
+    className="text-[#2d5da1] underline decoration-dotted underline-offset-2 hover:text-[#ff4d4d] text-left"
+  >
+    {name}
+  </button>
+)
+
+/**
+ * Titled panel for one group of stats
+ */
+const StatsSection = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <section
+    aria-label={title}
+    className="p-4 bg-white border-[3px] border-[#2d2d2d] shadow-[4px_4px_0px_0px_#2d2d2d]"
+    style={{ borderRadius: wobbly.md }}
+  >
+    <h3
+      className="text-lg text-[#2d2d2d] mb-2"
+      style={{ fontFamily: "'Kalam', cursive", fontWeight: 700 }}
+    >
+      {title}
+    </h3>
+    {children}
+  </section>
+)
+
+const formatChange = (change: number): string => (change > 0 ? `+${change}` : String(change))
+
+/**
+ * Selected card's rank in every episode
+ */
+const TrajectoryPanel = ({
+  cardId,
+  cardName,
+  trajectory,
+  onClose,
+}: {
+  cardId: string
+  cardName: string
+  trajectory: CardTrajectory | null
+  onClose: () => void
+}) => (
+  <div
+    data-testid="card-trajectory"
+    data-card-id={cardId}
+    className="p-4 bg-[#fff9c4] border-2 border-[#2d2d2d]"
+    style={{ borderRadius: wobbly.sm }}
+  >
+    <div className="flex items-center justify-between gap-2 mb-1">
+      <span className="text-[#2d2d2d]" style={{ fontFamily: "'Kalam', cursive", fontWeight: 700 }}>
+        {cardName}
+      </span>
+      <button type="button" onClick={onClose} aria-label="Close trajectory" className="text-[#9a958d] hover:text-[#2d2d2d]">
+        ✕
+      </button>
+    </div>
+    {trajectory ? (
+      <>
+        <p className="text-xl text-[#2d5da1]">{trajectory.summary}</p>
+        <ul className="flex flex-wrap gap-x-3 text-sm text-[#9a958d]">
+          {trajectory.trajectory.map((point) => (
+            <li key={point.episodeNumber}>
+              Ep {point.episodeNumber}: {point.rank === null ? '-' : `#${point.rank}`}
+            </li>
+          ))}
+        </ul>
+      </>
+    ) : (
+      <p className="text-[#9a958d]">No longer on this board.</p>
+    )}
+  </div>
+)
+
+/**
+ * RankingStatsView Component
+ *
+ * Statistics for a board's episode history: biggest climber and faller
+ * per episode, most volatile and stable cards, longest streak at #1,
+ * average rank, and first-vs-latest movement. Tapping a card shows its
+ * trajectory.
+ */
+export const RankingStatsView = ({ snapshots, getCardTrajectory }: RankingStatsViewProps) => {
+  const stats = useMemo(() => computeBoardStats(snapshots), [snapshots])
+  const [selectedCardId, setSelectedCardId] = useState<string | null>(null)
+  const topRef = useRef<HTMLDivElement>(null)
+
+  // The trajectory shows above the stats, so bring it into view
+  useEffect(() => {
+    if (selectedCardId) topRef.current?.scrollIntoView?.({ behavior: 'smooth', block: 'nearest' })
+  }, [selectedCardId])
+
+  const selectedCard = stats.cards.find((c) => c.cardId === selectedCardId) ?? null
+  const link = (card: { cardId: string; cardName: string }) => (
+    <CardLink cardId={card.cardId} name={card.cardName} onSelect={setSelectedCardId} />
+  )
+
+  const movementLeaders = [...stats.cards]
+    .filter((c) => c.appearances >= 2)
+    .sort((a, b) => b.movement - a.movement)
+
+  const highlightList = (cards: CardStats[], empty: string) =>
+    cards.length > 0 ? (
+      <ol className="space-y-1">
+        {cards.map((card) => (
+          <li key={card.cardId} className="flex justify-between gap-2">
+            {link(card)}
+            <span className="text-[#9a958d]">± {card.volatility.toFixed(1)} places</span>
+          </li>
+        ))}
+      </ol>
+    ) : (
+      <p className="text-[#9a958d]">{empty}</p>
+    )
+
+  return (
+    <div ref={topRef} className="space-y-4" style={{ fontFamily: "'Patrick Hand', cursive" }}>
+      {selectedCard && (
+        <TrajectoryPanel
+          cardId={selectedCard.cardId}
+          cardName={selectedCard.cardName}
+          trajectory={getCardTrajectory(selectedCard.cardId)}
+          onClose={() => setSelectedCardId(null)}
+        />
+      )}
+
+      <StatsSection title="Longest at #1">
+        {stats.topStreak ? (
+          <p className="text-[#2d2d2d]">
+            👑 {link(stats.topStreak)} held #1 for {stats.topStreak.longestTopStreak}{' '}
+            {stats.topStreak.longestTopStreak === 1 ? 'episode' : 'episodes'} in a row
+          </p>
+        ) : (
+          <p className="text-[#9a958d]">Nobody has been ranked #1 yet.</p>
+        )}
+      </StatsSection>
+
+      <StatsSection title="Biggest Moves Per Episode">
+        <ul className="space-y-2">
+          {stats.movers.map((episode) => (
+            <li key={episode.episodeNumber} data-testid="episode-movers" className="text-[#2d2d2d]">
+              <span className="text-[#9a958d]">Ep {episode.episodeNumber}:</span>{' '}
+              {episode.climber ? (
+                <span className="mr-3">
+                  ⬆️ {link(episode.climber)} {formatChange(episode.climber.change)}
+                </span>
+              ) : null}
+              {episode.faller ? (
+                <span>
+                  ⬇️ {link(episode.faller)} {formatChange(episode.faller.change)}
+                </span>
+              ) : null}
+              {!episode.climber && !episode.faller && <span className="text-[#9a958d]">No changes</span>}
+            </li>
+          ))}
+        </ul>
+      </StatsSection>
+
+      <StatsSection title="Most Volatile">
+        {highlightList(stats.mostVolatile, 'Everyone has held steady.')}
+      </StatsSection>
+
+      <StatsSection title="Most Stable">
+        {highlightList(stats.mostStable, 'Not enough episodes yet.')}
+      </StatsSection>
+
+      <StatsSection title="First vs Latest">
+        <ol className="space-y-1">
+          {movementLeaders.map((card) => (
+            <li key={card.cardId} className="flex justify-between gap-2">
+              {link(card)}
+              <span className={card.movement > 0 ? 'text-[#22c55e]' : card.movement < 0 ? 'text-[#ff4d4d]' : 'text-[#9a958d]'}>
+                #{card.firstRank} → #{card.latestRank} ({formatChange(card.movement)})
+              </span>
+            </li>
+          ))}
+        </ol>
+      </StatsSection>
+
+      <StatsSection title="Average Rank">
+        <table className="w-full text-[#2d2d2d]">
+          <thead>
+            <tr className="text-sm text-[#9a958d]">
+              <th className="text-left font-normal">Card</th>
+              <th className="text-right font-normal">Avg</th>
+              <th className="text-right font-normal">Best</th>
+              <th className="text-right font-normal">Worst</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.cards.map((card) => (
+              <tr key={card.cardId}>
+                <td className="py-0.5">{link(card)}</td>
+                <td className="text-right">{card.averageRank.toFixed(1)}</td>
+                <td className="text-right">#{card.bestRank}</td>
+                <td className="text-right">#{card.worstRank}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </StatsSection>
+    </div>
+  )
+}
@@ -1,9 +1,10 @@
-import { useState, useMemo, useCallback } from 'react'
+import { useState, useMemo, useCallback, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import type { Snapshot } from '../lib/types'
 import { wobbly } from '../styles/wobbly'
-import { springConfig } from '../styles/tokens'
+import { springConfig, chartLineColors } from '../styles/tokens'
 import { NicknameToggle } from './ui/NicknameToggle'
+import { Button } from './ui/Button'
 import { getSettings, saveSettings } from '../lib/storage'
 
 /** Expanded thumbnail state for hover/tap enlargement */
@@ -18,8 +19,12 @@ export interface RankingTrendsChartProps {
   snapshots: Snapshot[]
   /** Map of thumbnailKey to blob URL for contestant photos */
   thumbnailUrls?: Record<string, string>
+  /** Called with the rendered chart to save it as an image; shows export buttons */
+  onExport?: (svg: SVGSVGElement, format: ChartExportFormat) => void
 }
 
+export type ChartExportFormat = 'svg' | 'png'
+
 interface TrajectoryData {
   cardId: string
   cardName: string
@@ -29,20 +34,6 @@ interface TrajectoryData {
   color: string
 }
 
-// Hand-drawn color palette for lines
-const LINE_COLORS = [
-  '#2d5da1', // Blue
-  '#ff4d4d', // Red
-  '#22c55e', // Green
-  '#f59e0b', // Amber
-  '#8b5cf6', // Purple
-  '#ec4899', // Pink
-  '#06b6d4', // Cyan
-  '#f97316', // Orange
-  '#84cc16', // Lime
-  '#6366f1', // Indigo
-]
-
 /**
  * Generate a slightly wobbly SVG path for hand-drawn effect
  */
@@ -79,9 +70,10 @@ const generateWobblyPath = (
  * RankingTrendsChart Component
  *
  * Displays ranking trajectories over episodes as a line chart
- * with hand-drawn aesthetic styling.
+ * with hand-drawn aesthetic styling. Can be exported as SVG or PNG.
  */
-export const RankingTrendsChart = ({ snapshots, thumbnailUrls = {} }: RankingTrendsChartProps) => {
+export const RankingTrendsChart = ({ snapshots, thumbnailUrls = {}, onExport }: RankingTrendsChartProps) => {
+  const svgRef = useRef<SVGSVGElement>(null)
   const [hoveredCard, setHoveredCard] = useState<string | null>(null)
   const [selectedCards, setSelectedCards] = useState<Set<string>>(new Set())
   const [useNickname, setUseNickname] = useState(() => getSettings().nicknameModeChart)
@@ -144,7 +136,7 @@ export const RankingTrendsChart = ({ snapshots, thumbnailUrls = {} }: RankingTre
         cardNickname,
         thumbnailKey,
         points,
-        color: LINE_COLORS[colorIndex % LINE_COLORS.length],
+        color: chartLineColors[colorIndex % chartLineColors.length],
       })
       colorIndex++
     })
@@ -237,6 +229,7 @@ export const RankingTrendsChart = ({ snapshots, thumbnailUrls = {} }: RankingTre
         style={{ borderRadius: wobbly.md }}
       >
         <svg
+          ref={svgRef}
           width="100%"
           height={chartHeight}
           viewBox={`0 0 ${chartWidth} ${chartHeight}`}
@@ -527,6 +520,18 @@ export const RankingTrendsChart = ({ snapshots, thumbnailUrls = {} }: RankingTre
         </svg>
       </div>
 
+      {/* Export */}
+      {onExport && (
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" size="sm" onClick={() => svgRef.current && onExport(svgRef.current, 'svg')}>
+            🖼️ Save SVG
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => svgRef.current && onExport(svgRef.current, 'png')}>
+            🖼️ Save PNG
+          </Button>
+        </div>
+      )}
+
       {/* Legend */}
       <div
         className="bg-white border-[3px] border-[#2d2d2d] shadow-[4px_4px_0px_0px_#2d2d2d] p-3"
@@ -1,6 +1,7 @@
 import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { SaveEpisodeModal } from './SaveEpisodeModal'
+import type { MovementIndicator } from '../hooks/useRankingComparison'
 
 describe('SaveEpisodeModal', () => {
   const defaultProps = {
@@ -119,7 +120,7 @@ describe('SaveEpisodeModal', () => {
 
       fireEvent.click(screen.getByRole('button', { name: /save snapshot/i }))
 
-      expect(defaultProps.onSave).toHaveBeenCalledWith(5, 'Episode 5', '')
+      expect(defaultProps.onSave).toHaveBeenCalledWith(5, 'Episode 5', '', {})
     })
 
     it('calls onSave with custom label', () => {
@@ -129,7 +130,7 @@ describe('SaveEpisodeModal', () => {
       fireEvent.change(labelInput, { target: { value: 'Custom Label' } })
       fireEvent.click(screen.getByRole('button', { name: /save snapshot/i }))
 
-      expect(defaultProps.onSave).toHaveBeenCalledWith(5, 'Custom Label', '')
+      expect(defaultProps.onSave).toHaveBeenCalledWith(5, 'Custom Label', '', {})
     })
 
     it('calls onSave with notes', () => {
@@ -141,7 +142,7 @@ describe('SaveEpisodeModal', () => {
       fireEvent.change(notesInput, { target: { value: 'Test notes' } })
       fireEvent.click(screen.getByRole('button', { name: /save snapshot/i }))
 
-      expect(defaultProps.onSave).toHaveBeenCalledWith(5, 'Episode 5', 'Test notes')
+      expect(defaultProps.onSave).toHaveBeenCalledWith(5, 'Episode 5', 'Test notes', {})
     })
 
     it('trims whitespace from label and notes', () => {
@@ -155,7 +156,7 @@ describe('SaveEpisodeModal', () => {
       fireEvent.change(notesInput, { target: { value: '  My Notes  ' } })
       fireEvent.click(screen.getByRole('button', { name: /save snapshot/i }))
 
-      expect(defaultProps.onSave).toHaveBeenCalledWith(5, 'My Label', 'My Notes')
+      expect(defaultProps.onSave).toHaveBeenCalledWith(5, 'My Label', 'My Notes', {})
     })
 
     it('calls onClose after save', () => {
@@ -230,4 +231,49 @@ describe('SaveEpisodeModal', () => {
       })
     })
   })
+
+  describe('notes for movers', () => {
+    const movement = (cardId: string, cardName: string, currentRank: number, baselineRank: number | null): MovementIndicator => ({
+      cardId,
+      cardName,
+      currentRank,
+      baselineRank,
+      movement: baselineRank === null ? null : baselineRank - currentRank,
+      isNew: baselineRank === null,
+      isRemoved: false,
+    })
+
+    const movements = [
+      movement('c1', 'Kim', 1, 2),
+      movement('c2', 'Lee', 2, 1),
+      movement('c3', 'Park', 3, 3),
+      movement('c4', 'Cho', 4, null),
+    ]
+
+    it('shows a note field for each card that moved or is new', () => {
+      render(<SaveEpisodeModal {...defaultProps} movements={movements} />)
+
+      expect(screen.getByText('Notes for movers (optional)')).toBeInTheDocument()
+      expect(screen.getByLabelText('Note for Kim')).toBeInTheDocument()
+      expect(screen.getByLabelText('Note for Lee')).toBeInTheDocument()
+      expect(screen.getByLabelText('Note for Cho')).toBeInTheDocument()
+      expect(screen.queryByLabelText('Note for Park')).not.toBeInTheDocument()
+    })
+
+    it('hides the section when nothing moved', () => {
+      render(<SaveEpisodeModal {...defaultProps} movements={[movement('c3', 'Park', 3, 3)]} />)
+
+      expect(screen.queryByText('Notes for movers (optional)')).not.toBeInTheDocument()
+    })
+
+    it('passes trimmed, non-empty card notes to onSave', () => {
+      render(<SaveEpisodeModal {...defaultProps} movements={movements} />)
+
+      fireEvent.change(screen.getByLabelText('Note for Kim'), { target: { value: '  Great date  ' } })
+      fireEvent.change(screen.getByLabelText('Note for Lee'), { target: { value: '   ' } })
+      fireEvent.click(screen.getByRole('button', { name: /save snapshot/i }))
+
+      expect(defaultProps.onSave).toHaveBeenCalledWith(5, 'Episode 5', '', { c1: 'Great date' })
+    })
+  })
 })
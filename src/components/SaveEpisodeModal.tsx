@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react'
 import { BottomSheet } from './ui/BottomSheet'
 import { Button } from './ui/Button'
 import { Input } from './ui/Input'
+import { MovementIndicator } from './MovementIndicator'
+import type { MovementIndicator as CardMovement } from '../hooks/useRankingComparison'
 
 export interface SaveEpisodeModalProps {
   /** Whether the modal is open */
@@ -10,28 +12,43 @@ export interface SaveEpisodeModalProps {
   suggestedEpisodeNumber: number
   /** Board name for display */
   boardName: string
+  /** Current cards' movement since the last snapshot; movers get a note field */
+  movements?: CardMovement[]
   /** Called when modal should close */
   onClose: () => void
-  /** Called when episode should be saved */
-  onSave: (episodeNumber: number, label: string, notes: string) => void
+  /** Called when episode should be saved (cardNotes keyed by card ID, blanks omitted) */
+  onSave: (
+    episodeNumber: number,
+    label: string,
+    notes: string,
+    cardNotes: Record<string, string>
+  ) => void
 }
 
 /**
  * SaveEpisodeModal Component
  *
  * A bottom sheet modal for saving a ranking snapshot.
- * Captures episode number, optional custom label, and notes.
+ * Captures episode number, optional custom label, and notes, plus an
+ * optional note for each card that moved since the last snapshot.
  */
 export const SaveEpisodeModal = ({
   isOpen,
   suggestedEpisodeNumber,
   boardName,
+  movements = [],
   onClose,
   onSave,
 }: SaveEpisodeModalProps) => {
   const [episodeNumber, setEpisodeNumber] = useState(suggestedEpisodeNumber)
   const [label, setLabel] = useState('')
   const [notes, setNotes] = useState('')
+  const [cardNotes, setCardNotes] = useState<Record<string, string>>({})
+
+  // Cards that climbed, dropped or are new since the last snapshot
+  const movers = movements
+    .filter((m) => !m.isRemoved && (m.isNew || (m.movement !== null && m.movement !== 0)))
+    .sort((a, b) => a.currentRank - b.currentRank)
 
   // Reset form when modal opens with new suggested number
   useEffect(() => {
@@ -39,12 +56,18 @@ export const SaveEpisodeModal = ({
       setEpisodeNumber(suggestedEpisodeNumber)
       setLabel('')
       setNotes('')
+      setCardNotes({})
     }
   }, [isOpen, suggestedEpisodeNumber])
 
   const handleSave = () => {
     const finalLabel = label.trim() || `Episode ${episodeNumber}`
-    onSave(episodeNumber, finalLabel, notes.trim())
+    const finalCardNotes: Record<string, string> = {}
+    for (const mover of movers) {
+      const note = cardNotes[mover.cardId]?.trim()
+      if (note) finalCardNotes[mover.cardId] = note
+    }
+    onSave(episodeNumber, finalLabel, notes.trim(), finalCardNotes)
     onClose()
   }
 
@@ -127,6 +150,39 @@ export const SaveEpisodeModal = ({
           multiline
           rows={2}
         />
+
+        {/* Per-card notes for movers */}
+        {movers.length > 0 && (
+          <div>
+            <h3
+              className="text-[#2d2d2d] mb-2"
+              style={{ fontFamily: "'Patrick Hand', cursive" }}
+            >
+              Notes for movers (optional)
+            </h3>
+            <div className="space-y-3">
+              {movers.map((mover) => (
+                <div key={mover.cardId} className="flex items-center gap-2">
+                  <div
+                    className="w-28 flex-shrink-0 flex items-center gap-1 text-[#2d2d2d]"
+                    style={{ fontFamily: "'Patrick Hand', cursive" }}
+                  >
+                    <span className="truncate">{mover.cardName}</span>
+                    <MovementIndicator movement={mover.movement} isNew={mover.isNew} />
+                  </div>
+                  <Input
+                    aria-label={`Note for ${mover.cardName}`}
+                    value={cardNotes[mover.cardId] ?? ''}
+                    onChange={(e) =>
+                      setCardNotes((prev) => ({ ...prev, [mover.cardId]: e.target.value }))
+                    }
+                    placeholder="Why did they move?"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </BottomSheet>
   )
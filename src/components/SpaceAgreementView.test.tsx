@@ -0,0 +1,67 @@
+import { render, screen, fireEvent, within } from '@testing-library/react'
+import { SpaceAgreementView } from './SpaceAgreementView'
+import { groupSpaceBoards, type MemberBoard } from '../lib/spaceConsensus'
+import { createBoard } from '../lib/types'
+import type { SpaceCard } from '../lib/spaceTypes'
+
+describe('SpaceAgreementView', () => {
+  /** Member board whose cards are listed best first */
+  const memberBoard = (ownerName: string, order: string[]): MemberBoard => ({
+    board: {
+      ...createBoard('Season 5'),
+      id: `${ownerName}-board`,
+      templateId: 't1',
+      spaceId: 's1',
+      ownerId: ownerName,
+      ownerName,
+      isDraft: false,
+      syncedAt: 0,
+    },
+    cards: order.map((name, i): SpaceCard => ({
+      id: `${ownerName}-${name}`,
+      boardId: `${ownerName}-board`,
+      name,
+      nickname: '',
+      imageUrl: null,
+      thumbnailUrl: null,
+      rank: i + 1,
+      notes: '',
+      syncedAt: 0,
+    })),
+  })
+
+  const boards = [
+    memberBoard('Ana', ['Kim', 'Lee', 'Cho']),
+    memberBoard('Ben', ['Kim', 'Lee', 'Cho']),
+    memberBoard('Cat', ['Cho', 'Lee', 'Kim']),
+  ]
+  const groups = groupSpaceBoards(boards.map((b) => b.board))
+
+  it('renders a cell per pair and opens the comparison when tapped', () => {
+    const onOpenComparison = vi.fn()
+    render(
+      <SpaceAgreementView
+        groups={groups}
+        memberBoards={{ t1: boards }}
+        currentOwnerId="Cat"
+        onOpenComparison={onOpenComparison}
+      />
+    )
+
+    const matrix = screen.getByRole('table', { name: 'Agreement matrix' })
+    expect(within(matrix).getAllByRole('columnheader').map((h) => h.textContent)).toEqual(['', 'You', 'Ana', 'Ben'])
+
+    fireEvent.click(screen.getByRole('button', { name: 'Compare Ana and Ben: 100%' }))
+
+    expect(onOpenComparison).toHaveBeenCalledWith('t1', 'Ana', 'Ben')
+  })
+
+  it('names each member’s taste twins', () => {
+    render(
+      <SpaceAgreementView groups={groups} memberBoards={{ t1: boards }} onOpenComparison={() => {}} />
+    )
+
+    const twins = within(screen.getByRole('region', { name: 'Taste twins' })).getAllByRole('listitem')
+    expect(twins[0]).toHaveTextContent('Closest: Ben (100%) · 🙃 Furthest: Cat (56%)')
+  })
+})
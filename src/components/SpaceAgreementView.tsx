@@ -0,0 +1,191 @@
+import { useState, useMemo } from 'react'
+import type { ConsensusGroup, MemberBoard } from '../lib/spaceConsensus'
+import {
+  buildAgreementMatrix,
+  findTasteTwins,
+  getPairAgreement,
+  type AgreementMember,
+} from '../lib/spaceAgreement'
+import { wobbly } from '../styles/wobbly'
+
+export interface SpaceAgreementViewProps {
+  /** Templates ranked by two or more members */
+  groups: ConsensusGroup[]
+  /** Member boards with their cards, keyed by group key */
+  memberBoards: Record<string, MemberBoard[]>
+  /** This device's owner ID, listed first and shown as "You" */
+  currentOwnerId?: string | null
+  /** Whether cards are still loading */
+  isLoading?: boolean
+  /** Open the side-by-side comparison of two members on one template */
+  onOpenComparison: (groupKey: string, ownerA: string, ownerB: string) => void
+}
+
+/**
+ * Cell colours matching the comparison page's agreement badge
+ */
+const getAgreementColors = (agreement: number): { bg: string; text: string } => {
+  if (agreement >= 80) return { bg: '#dcfce7', text: '#16a34a' }
+  if (agreement >= 60) return { bg: '#fef3c7', text: '#d97706' }
+  return { bg: '#fee2e2', text: '#dc2626' }
+}
+
+/**
+ * SpaceAgreementView Component
+ *
+ * Member × member heatmap of how closely everyone's rankings agree, on
+ * one template or averaged over all of them, with each member's closest
+ * and furthest taste twin. Tapping a cell opens that pair's comparison.
+ */
+export const SpaceAgreementView = ({
+  groups,
+  memberBoards,
+  currentOwnerId = null,
+  isLoading = false,
+  onOpenComparison,
+}: SpaceAgreementViewProps) => {
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+
+  const matrix = useMemo(
+    () =>
+      buildAgreementMatrix(
+        selectedKey ? groups.filter((g) => g.key === selectedKey) : groups,
+        memberBoards
+      ),
+    [groups, memberBoards, selectedKey]
+  )
+  const twins = useMemo(() => findTasteTwins(matrix), [matrix])
+
+  // You first, then everyone else by name
+  const members = [...matrix.members].sort(
+    (a, b) => Number(b.ownerId === currentOwnerId) - Number(a.ownerId === currentOwnerId)
+  )
+  const nameOf = (member: AgreementMember) =>
+    member.ownerId === currentOwnerId ? 'You' : member.ownerName
+
+  if (groups.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 px-8 text-center">
+        <span className="text-4xl mb-4 opacity-50">👯</span>
+        <p className="text-[#9a958d]" style={{ fontFamily: "'Patrick Hand', cursive" }}>
+          Once two members share a board from the same template, you can find your taste twin here.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="px-4 pt-3 space-y-4" style={{ fontFamily: "'Patrick Hand', cursive" }}>
+      {/* Template picker */}
+      {groups.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {[{ key: null, name: 'All templates' }, ...groups].map((g) => (
+            <button
+              key={g.key ?? 'all'}
+              type="button"
+              aria-pressed={selectedKey === g.key}
+              onClick={() => setSelectedKey(g.key)}
+              className={`
+                px-3 py-1 border-2 border-[#2d2d2d] text-sm whitespace-nowrap
+                transition-all duration-100
+                ${selectedKey === g.key ? 'bg-[#2d2d2d] text-white' : 'bg-white text-[#2d2d2d]'}
+              `}
+              style={{ borderRadius: wobbly.pill }}
+            >
+              {g.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isLoading && members.length === 0 ? (
+        <p className="text-center text-[#9a958d] py-8">Loading rankings...</p>
+      ) : (
+        <>
+          {/* Heatmap */}
+          <div
+            className="bg-white border-[3px] border-[#2d2d2d] shadow-[4px_4px_0px_0px_#2d2d2d] overflow-x-auto"
+            style={{ borderRadius: wobbly.md }}
+          >
+            <table aria-label="Agreement matrix" className="border-collapse text-sm text-[#2d2d2d]">
+              <thead>
+                <tr>
+                  <th scope="col" className="sticky left-0 bg-white p-2" />
+                  {members.map((member) => (
+                    <th key={member.ownerId} scope="col" className="p-2 font-normal text-[#9a958d] whitespace-nowrap">
+                      {nameOf(member)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {members.map((row) => (
+                  <tr key={row.ownerId}>
+                    <th scope="row" className="sticky left-0 bg-white p-2 text-left font-normal whitespace-nowrap">
+                      {nameOf(row)}
+                    </th>
+                    {members.map((column) => {
+                      const pair = getPairAgreement(matrix, row.ownerId, column.ownerId)
+                      if (!pair) {
+                        return (
+                          <td key={column.ownerId} className="p-1 text-center text-[#9a958d]">
+                            {row.ownerId === column.ownerId ? '—' : '·'}
+                          </td>
+                        )
+                      }
+                      const colors = getAgreementColors(pair.agreement)
+                      return (
+                        <td key={column.ownerId} className="p-1">
+                          <button
+                            type="button"
+                            aria-label={`Compare ${nameOf(row)} and ${nameOf(column)}: ${pair.agreement}%`}
+                            onClick={() =>
+                              onOpenComparison(selectedKey ?? pair.groupKeys[0], row.ownerId, column.ownerId)
+                            }
+                            className="w-full min-w-[48px] py-2 font-bold border-2 border-transparent hover:border-[#2d2d2d] transition-colors"
+                            style={{
+                              backgroundColor: colors.bg,
+                              color: colors.text,
+                              borderRadius: wobbly.sm,
+                            }}
+                          >
+                            {pair.agreement}%
+                          </button>
+                        </td>
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Taste twins */}
+          <section aria-label="Taste twins">
+            <h2
+              className="text-lg text-[#2d2d2d] mb-2"
+              style={{ fontFamily: "'Kalam', cursive", fontWeight: 700 }}
+            >
+              Taste Twins
+            </h2>
+            <ul className="space-y-2">
+              {twins.map(({ member, closest, furthest }) => (
+                <li
+                  key={member.ownerId}
+                  className="p-3 bg-white border-2 border-[#2d2d2d]"
+                  style={{ borderRadius: wobbly.sm }}
+                >
+                  <p className="text-[#2d2d2d]">{nameOf(member)}</p>
+                  <p className="text-sm text-[#9a958d]">
+                    {closest ? `👯 Closest: ${nameOf(closest)} (${closest.agreement}%)` : 'No shared templates yet'}
+                    {furthest && ` · 🙃 Furthest: ${nameOf(furthest)} (${furthest.agreement}%)`}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </section>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+import { render, screen, fireEvent, within } from '@testing-library/react'
+import { SpaceConsensusView } from './SpaceConsensusView'
+import { groupSpaceBoards, type MemberBoard } from '../lib/spaceConsensus'
+import { createBoard } from '../lib/types'
+import type { SpaceCard } from '../lib/spaceTypes'
+
+describe('SpaceConsensusView', () => {
+  /** Member board whose cards are listed best first */
+  const memberBoard = (ownerName: string, order: string[]): MemberBoard => ({
+    board: {
+      ...createBoard('Season 5'),
+      id: `${ownerName}-board`,
+      templateId: 't1',
+      spaceId: 's1',
+      ownerId: ownerName,
+      ownerName,
+      isDraft: false,
+      syncedAt: 0,
+    },
+    cards: order.map((name, i): SpaceCard => ({
+      id: `${ownerName}-${name}`,
+      boardId: `${ownerName}-board`,
+      name,
+      nickname: '',
+      imageUrl: null,
+      thumbnailUrl: null,
+      rank: i + 1,
+      notes: '',
+      syncedAt: 0,
+    })),
+  })
+
+  const boards = [
+    memberBoard('Ana', ['Kim', 'Lee', 'Cho', 'Park']),
+    memberBoard('Ben', ['Lee', 'Cho', 'Park', 'Kim']),
+    memberBoard('Cat', ['Kim', 'Lee', 'Cho', 'Park']),
+  ]
+  const groups = groupSpaceBoards(boards.map((b) => b.board))
+
+  const rankedNames = () =>
+    within(screen.getByRole('list', { name: 'Season 5 group ranking' }))
+      .getAllByRole('listitem')
+      .map((item) => item.querySelector('p')?.textContent)
+
+  it('shows the Borda ranking with spread and outliers', () => {
+    render(<SpaceConsensusView groups={groups} memberBoards={{ t1: boards }} />)
+
+    expect(rankedNames()).toEqual(['Lee', 'Kim', 'Cho', 'Park'])
+    expect(screen.getByText('#1–#4 · avg #2.0')).toBeInTheDocument()
+    expect(screen.getByText('Outlier: Ben (#4)')).toBeInTheDocument()
+  })
+
+  it('re-ranks with the chosen method', () => {
+    render(<SpaceConsensusView groups={groups} memberBoards={{ t1: boards }} />)
+
+    fireEvent.click(screen.getByRole('radio', { name: 'Kemeny' }))
+
+    expect(screen.getByRole('radio', { name: 'Kemeny' })).toHaveAttribute('aria-checked', 'true')
+    expect(rankedNames()).toEqual(['Kim', 'Lee', 'Cho', 'Park'])
+  })
+
+  it('explains when no template is shared yet', () => {
+    render(<SpaceConsensusView groups={[]} memberBoards={{}} />)
+
+    expect(screen.getByText(/group ranking shows up here/)).toBeInTheDocument()
+  })
+})
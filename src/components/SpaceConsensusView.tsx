@@ -0,0 +1,157 @@
+import { useState, useMemo } from 'react'
+import {
+  computeConsensus,
+  type ConsensusGroup,
+  type ConsensusMethod,
+  type MemberBoard,
+} from '../lib/spaceConsensus'
+import { wobbly } from '../styles/wobbly'
+
+export interface SpaceConsensusViewProps {
+  /** Templates ranked by two or more members */
+  groups: ConsensusGroup[]
+  /** Member boards with their cards, keyed by group key */
+  memberBoards: Record<string, MemberBoard[]>
+  /** Whether cards are still loading */
+  isLoading?: boolean
+}
+
+const METHOD_OPTIONS: { value: ConsensusMethod; label: string; description: string }[] = [
+  { value: 'borda', label: 'Borda', description: 'A point for every item you beat, added up across members' },
+  { value: 'mean', label: 'Mean rank', description: 'Average rank across everyone who ranked it' },
+  { value: 'kemeny', label: 'Kemeny', description: 'The order that a majority agrees with pair by pair' },
+]
+
+/**
+ * SpaceConsensusView Component
+ *
+ * The group ranking for each template in a space, aggregated from every
+ * member's board. Each item shows how far apart members placed it and
+ * who disagrees with the group most.
+ */
+export const SpaceConsensusView = ({ groups, memberBoards, isLoading = false }: SpaceConsensusViewProps) => {
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+  const [method, setMethod] = useState<ConsensusMethod>('borda')
+
+  const group = groups.find((g) => g.key === selectedKey) ?? groups[0] ?? null
+  const boards = group ? memberBoards[group.key] : undefined
+
+  const items = useMemo(() => (boards ? computeConsensus(boards, method) : []), [boards, method])
+
+  if (!group) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 px-8 text-center">
+        <span className="text-4xl mb-4 opacity-50">🤝</span>
+        <p className="text-[#9a958d]" style={{ fontFamily: "'Patrick Hand', cursive" }}>
+          Once two members share a board from the same template, the group ranking shows up here.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="px-4 pt-3 space-y-3" style={{ fontFamily: "'Patrick Hand', cursive" }}>
+      {/* Template picker */}
+      {groups.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {groups.map((g) => (
+            <button
+              key={g.key}
+              type="button"
+              aria-pressed={g.key === group.key}
+              onClick={() => setSelectedKey(g.key)}
+              className={`
+                px-3 py-1 border-2 border-[#2d2d2d] text-sm whitespace-nowrap
+                transition-all duration-100
+                ${g.key === group.key ? 'bg-[#2d2d2d] text-white' : 'bg-white text-[#2d2d2d]'}
+              `}
+              style={{ borderRadius: wobbly.pill }}
+            >
+              {g.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Aggregation method */}
+      <div role="radiogroup" aria-label="Consensus method" className="flex gap-2">
+        {METHOD_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            role="radio"
+            aria-checked={method === option.value}
+            onClick={() => setMethod(option.value)}
+            className={`
+              flex-1 py-1
+              border-2 border-[#2d2d2d]
+              text-base
+              transition-colors
+              ${method === option.value
+                ? 'bg-[#2d2d2d] text-white'
+                : 'bg-white text-[#2d2d2d] hover:bg-[#e5e0d8]'
+              }
+            `}
+            style={{ borderRadius: wobbly.sm }}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-sm text-[#9a958d]">
+        {METHOD_OPTIONS.find((o) => o.value === method)?.description} · {group.boards.length} members
+      </p>
+
+      {isLoading && !boards ? (
+        <p className="text-center text-[#9a958d] py-8">Loading rankings...</p>
+      ) : (
+        <ol aria-label={`${group.name} group ranking`} className="space-y-2">
+          {items.map((item) => (
+            <li
+              key={item.key}
+              className="flex items-center gap-3 p-3 bg-white border-2 border-[#2d2d2d] shadow-[2px_2px_0px_0px_#2d2d2d]"
+              style={{ borderRadius: wobbly.sm }}
+            >
+              <span
+                className="w-8 text-center text-xl text-[#2d2d2d]"
+                style={{ fontFamily: "'Kalam', cursive", fontWeight: 700 }}
+              >
+                {item.consensusRank}
+              </span>
+              {item.thumbnailUrl ? (
+                <img
+                  src={item.thumbnailUrl}
+                  alt=""
+                  className="w-10 h-10 flex-shrink-0 object-cover border-2 border-[#2d2d2d]"
+                  style={{ borderRadius: wobbly.circle }}
+                />
+              ) : (
+                <span
+                  className="w-10 h-10 flex-shrink-0 flex items-center justify-center bg-[#e5e0d8] border-2 border-[#2d2d2d]"
+                  style={{ borderRadius: wobbly.circle }}
+                >
+                  👤
+                </span>
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-[#2d2d2d] truncate">{item.name}</p>
+                <p className="text-sm text-[#9a958d]">
+                  {item.memberRanks.length === 1
+                    ? `Only ${item.memberRanks[0].ownerName}: #${item.bestRank}`
+                    : item.spread === 0
+                      ? `Everyone: #${item.bestRank}`
+                      : `#${item.bestRank}–#${item.worstRank} · avg #${item.meanRank.toFixed(1)}`}
+                </p>
+                {item.outlier && (
+                  <p className="text-sm text-[#ff4d4d] truncate">
+                    Outlier: {item.outlier.ownerName} (#{item.outlier.rank})
+                  </p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+import 'fake-indexeddb/auto'
+import { act, render, screen } from '@testing-library/react'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { StorageWarning } from './StorageWarning'
+import { flushStorage, initStorage, resetStorageCache, saveBoard } from '../lib/storage'
+import { createBoard } from '../lib/types'
+
+describe('StorageWarning', () => {
+  beforeEach(() => {
+    resetStorageCache()
+  })
+
+  it('renders nothing while storage is working', () => {
+    const { container } = render(<StorageWarning />)
+
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('shows a warning once a background write fails', async () => {
+    await initStorage()
+    render(<StorageWarning />)
+    const put = vi.spyOn(IDBObjectStore.prototype, 'put').mockImplementation(() => {
+      throw new Error('Quota exceeded')
+    })
+
+    await act(async () => {
+      saveBoard(createBoard('Board'))
+      await flushStorage()
+    })
+    put.mockRestore()
+
+    expect(screen.getByRole('alert')).toHaveTextContent("Some changes couldn't be saved")
+  })
+})
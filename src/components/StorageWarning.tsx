@@ -0,0 +1,34 @@
+import { useSyncExternalStore } from 'react'
+import { getStorageProblem, subscribeToStorageProblems, type StorageProblem } from '../lib/storage'
+import { wobbly } from '../styles/wobbly'
+
+const MESSAGES: Record<StorageProblem, string> = {
+  unavailable:
+    "This browser isn't letting Hot Takes use its database, so changes are kept in a smaller backup store. Export a backup from Settings to be safe.",
+  'write-failed':
+    "Some changes couldn't be saved to this device. Free up space or export a backup from Settings before closing the app.",
+}
+
+/**
+ * StorageWarning Component
+ *
+ * Persistent banner shown while device storage is failing.
+ * Stays up until the app is reloaded, since unsaved changes may be lost.
+ */
+export const StorageWarning = () => {
+  const problem = useSyncExternalStore(subscribeToStorageProblems, getStorageProblem)
+  if (!problem) return null
+
+  return (
+    <div
+      role="alert"
+      className="m-4 mb-0 p-3 bg-[#ff4d4d]/10 border-2 border-[#ff4d4d] text-[#2d2d2d]"
+      style={{
+        fontFamily: "'Patrick Hand', cursive",
+        borderRadius: wobbly.md,
+      }}
+    >
+      ⚠️ {MESSAGES[problem]}
+    </div>
+  )
+}
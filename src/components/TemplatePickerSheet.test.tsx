@@ -2,6 +2,7 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { TemplatePickerSheet } from './TemplatePickerSheet'
 import * as useTemplateLoaderModule from '../hooks/useTemplateLoader'
+import { getBoards, getCardsByBoard } from '../lib/storage'
 
 // Mock the useTemplateLoader hook
 vi.mock('../hooks/useTemplateLoader')
@@ -235,4 +236,35 @@ describe('TemplatePickerSheet', () => {
       expect(onClose).not.toHaveBeenCalled()
     })
   })
+
+  describe('CSV import', () => {
+    beforeEach(() => {
+      localStorage.clear()
+    })
+
+    it('creates a board named after the file with cards in order', async () => {
+      render(<TemplatePickerSheet {...defaultProps} />)
+
+      const file = new File(['Rank,Name\n2,Lee\n1,Kim'], 'Season 5.csv', { type: 'text/csv' })
+      fireEvent.change(screen.getByTestId('csv-board-input'), { target: { files: [file] } })
+
+      await waitFor(() => {
+        expect(defaultProps.onBoardCreated).toHaveBeenCalled()
+      })
+      const [board] = getBoards()
+      expect(board.name).toBe('Season 5')
+      expect(defaultProps.onBoardCreated).toHaveBeenCalledWith(board.id)
+      expect(getCardsByBoard(board.id).map((c) => c.name)).toEqual(['Kim', 'Lee'])
+    })
+
+    it('shows an error for a file without names', async () => {
+      render(<TemplatePickerSheet {...defaultProps} />)
+
+      const file = new File([''], 'empty.csv', { type: 'text/csv' })
+      fireEvent.change(screen.getByTestId('csv-board-input'), { target: { files: [file] } })
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('The file is empty')
+      expect(defaultProps.onBoardCreated).not.toHaveBeenCalled()
+    })
+  })
 })
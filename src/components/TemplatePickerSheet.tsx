@@ -5,9 +5,10 @@
  * Features:
  * - List of bundled templates with category badges
  * - Loading progress overlay during template creation
- * - "Create blank board" option at bottom
+ * - "Create blank board" and "Import from CSV" options at bottom
  */
 
+import { useRef, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { BottomSheet } from './ui/BottomSheet'
 import { Button } from './ui/Button'
@@ -15,6 +16,7 @@ import { wobbly } from '../styles/wobbly'
 import { springConfig } from '../styles/tokens'
 import { bundledTemplates, type BundledTemplate } from '../data/templates'
 import { useTemplateLoader } from '../hooks/useTemplateLoader'
+import { boardNameFromFileName, createBoardFromCsv, parseBoardCsv, readFileText } from '../lib/boardExport'
 
 export interface TemplatePickerSheetProps {
   /** Whether the sheet is open */
@@ -157,6 +159,8 @@ export const TemplatePickerSheet = ({
   onCreateBlank,
 }: TemplatePickerSheetProps) => {
   const { isLoading, progress, loadTemplate } = useTemplateLoader()
+  const [csvError, setCsvError] = useState<string | null>(null)
+  const csvInputRef = useRef<HTMLInputElement>(null)
 
   const handleTemplateSelect = async (template: BundledTemplate) => {
     const result = await loadTemplate(template)
@@ -171,6 +175,27 @@ export const TemplatePickerSheet = ({
     onCreateBlank()
   }
 
+  // New board with one card per CSV row, named after the file
+  const handleCsvChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      const parsed = parseBoardCsv(await readFileText(file))
+      if (!parsed.success) {
+        setCsvError(parsed.error)
+        return
+      }
+      const board = createBoardFromCsv(boardNameFromFileName(file.name), parsed.rows)
+      setCsvError(null)
+      onClose()
+      onBoardCreated(board.id)
+    } catch {
+      setCsvError('Failed to read file')
+    }
+  }
+
   return (
     <BottomSheet
       isOpen={isOpen}
@@ -216,6 +241,32 @@ export const TemplatePickerSheet = ({
         >
           Create blank board
         </Button>
+
+        <input
+          ref={csvInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleCsvChange}
+          className="hidden"
+          data-testid="csv-board-input"
+        />
+        <Button
+          variant="secondary"
+          onClick={() => csvInputRef.current?.click()}
+          disabled={isLoading}
+          className="w-full mt-3"
+        >
+          📊 Import from CSV
+        </Button>
+        {csvError && (
+          <p
+            role="alert"
+            className="mt-2 text-sm text-center text-[#ff4d4d]"
+            style={{ fontFamily: "'Patrick Hand', cursive" }}
+          >
+            {csvError}
+          </p>
+        )}
       </div>
     </BottomSheet>
   )
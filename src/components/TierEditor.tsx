@@ -0,0 +1,136 @@
+import type { Tier } from '../lib/types'
+import { createTier, DEFAULT_TIERS } from '../lib/tierList'
+import { wobbly } from '../styles/wobbly'
+
+export interface TierEditorProps {
+  /** Tiers being edited, best first */
+  tiers: Tier[]
+  /** Called with the updated tier list */
+  onChange: (tiers: Tier[]) => void
+}
+
+/**
+ * Small square icon button used for tier row actions
+ */
+const IconButton = ({
+  label,
+  onClick,
+  disabled = false,
+  children,
+}: {
+  label: string
+  onClick: () => void
+  disabled?: boolean
+  children: React.ReactNode
+}) => (
+  <button
+    type="button"
+    onClick={onClick}
+    disabled={disabled}
+    aria-label={label}
+    className="
+      w-9 h-9 min-w-9
+      flex items-center justify-center
+      bg-white border-2 border-[#2d2d2d]
+      text-[#2d2d2d]
+      hover:bg-[#e5e0d8]
+      disabled:opacity-30 disabled:cursor-not-allowed
+      transition-colors
+    "
+    style={{ borderRadius: wobbly.circle }}
+  >
+    {children}
+  </button>
+)
+
+/**
+ * TierEditor Component
+ *
+ * Edits a tier-list board's tiers: rename, recolour, reorder, add and remove.
+ * Removing a tier sends its cards back to the unsorted pile.
+ */
+export const TierEditor = ({ tiers, onChange }: TierEditorProps) => {
+  const updateTier = (id: string, updates: Partial<Omit<Tier, 'id'>>) => {
+    onChange(tiers.map((t) => (t.id === id ? { ...t, ...updates } : t)))
+  }
+
+  const moveTierUp = (index: number) => {
+    if (index === 0) return
+    const next = [...tiers]
+    ;[next[index - 1], next[index]] = [next[index], next[index - 1]]
+    onChange(next)
+  }
+
+  const removeTier = (id: string) => {
+    onChange(tiers.filter((t) => t.id !== id))
+  }
+
+  const addTier = () => {
+    onChange([...tiers, createTier(`Tier ${tiers.length + 1}`, '#e5e0d8')])
+  }
+
+  return (
+    <div data-testid="tier-editor" className="space-y-3">
+      {tiers.map((tier, index) => (
+        <div key={tier.id} className="flex items-center gap-2">
+          <input
+            type="color"
+            value={tier.color}
+            onChange={(e) => updateTier(tier.id, { color: e.target.value })}
+            aria-label={`Colour for ${tier.name}`}
+            className="w-9 h-9 min-w-9 border-2 border-[#2d2d2d] bg-white cursor-pointer p-0.5"
+            style={{ borderRadius: wobbly.sm }}
+          />
+          <input
+            type="text"
+            value={tier.name}
+            onChange={(e) => updateTier(tier.id, { name: e.target.value })}
+            aria-label={`Name for tier ${index + 1}`}
+            className="
+              flex-1 min-w-0
+              bg-white border-2 border-[#2d2d2d]
+              text-lg text-[#2d2d2d]
+              px-3 py-1
+              outline-none
+              focus:border-[#2d5da1]
+            "
+            style={{ borderRadius: wobbly.sm, fontFamily: "'Patrick Hand', cursive" }}
+          />
+          <IconButton
+            label={`Move ${tier.name} up`}
+            onClick={() => moveTierUp(index)}
+            disabled={index === 0}
+          >
+            ↑
+          </IconButton>
+          <IconButton
+            label={`Remove ${tier.name}`}
+            onClick={() => removeTier(tier.id)}
+            disabled={tiers.length <= 1}
+          >
+            ✕
+          </IconButton>
+        </div>
+      ))}
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={addTier}
+          className="text-[#2d5da1] underline"
+          style={{ fontFamily: "'Patrick Hand', cursive" }}
+        >
+          + Add tier
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange(DEFAULT_TIERS)}
+          className="text-[#9a958d] underline"
+          style={{ fontFamily: "'Patrick Hand', cursive" }}
+        >
+          Reset to S–D
+        </button>
+      </div>
+    </div>
+  )
+}
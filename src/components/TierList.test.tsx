@@ -0,0 +1,69 @@
+import { render, screen, within } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { TierList } from './TierList'
+import { createCard, type Card } from '../lib/types'
+import { DEFAULT_TIERS } from '../lib/tierList'
+import * as storage from '../lib/storage'
+
+vi.mock('../lib/storage')
+
+const mockStorage = vi.mocked(storage)
+
+const makeCard = (id: string, name: string, rank: number, tierId?: string): Card => ({
+  ...createCard('board-1', name, rank, { metadata: tierId ? { tierId } : {} }),
+  id,
+})
+
+describe('TierList', () => {
+  const cards = [
+    makeCard('a', 'Alpha', 1, 'a'),
+    makeCard('b', 'Bravo', 2, 's'),
+    makeCard('c', 'Charlie', 3),
+  ]
+
+  const defaultProps = {
+    cards,
+    tiers: DEFAULT_TIERS,
+    onMoveCard: vi.fn(),
+    onCardTap: vi.fn(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockStorage.getSettings.mockReturnValue({
+      nicknameModeRankList: false,
+    } as ReturnType<typeof storage.getSettings>)
+  })
+
+  it('renders a row per tier', () => {
+    render(<TierList {...defaultProps} />)
+
+    const rows = screen.getAllByTestId('tier-row')
+    expect(rows).toHaveLength(5)
+    expect(within(rows[0]).getByText('S')).toBeInTheDocument()
+    expect(within(rows[4]).getByText('D')).toBeInTheDocument()
+  })
+
+  it('places cards in their tiers with derived ranks', () => {
+    render(<TierList {...defaultProps} />)
+
+    const rows = screen.getAllByTestId('tier-row')
+    expect(within(rows[0]).getByText('Bravo')).toBeInTheDocument()
+    expect(within(rows[0]).getByText('1')).toBeInTheDocument()
+    expect(within(rows[1]).getByText('Alpha')).toBeInTheDocument()
+    expect(within(rows[1]).getByText('2')).toBeInTheDocument()
+  })
+
+  it('shows cards without a tier in the unsorted pile', () => {
+    render(<TierList {...defaultProps} />)
+
+    expect(screen.getByText('Unsorted (1)')).toBeInTheDocument()
+    expect(within(screen.getByTestId('tier-unsorted')).getByText('Charlie')).toBeInTheDocument()
+  })
+
+  it('hides an empty unsorted pile in read-only mode', () => {
+    render(<TierList {...defaultProps} cards={cards.slice(0, 2)} isReadOnly />)
+
+    expect(screen.queryByTestId('tier-unsorted')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,269 @@
+import { useRef, useState } from 'react'
+import { motion } from 'framer-motion'
+import type { Card, Tier } from '../lib/types'
+import { wobbly } from '../styles/wobbly'
+import { springConfig } from '../styles/tokens'
+import { getDisplayName } from '../hooks/useDisplayName'
+import { getSettings } from '../lib/storage'
+import { groupCardsByTier, findDropIndex } from '../lib/tierList'
+import { PhotoSkeleton } from './ui/PhotoSkeleton'
+
+export interface TierListProps {
+  /** Cards on the board */
+  cards: Card[]
+  /** Tier config, best first */
+  tiers: Tier[]
+  /** Map of card ID to thumbnail URL */
+  thumbnailUrls?: Record<string, string>
+  /** Set of card IDs that are still loading thumbnails */
+  loadingCardIds?: Set<string>
+  /** Called when a card is dropped into a tier (null = unsorted) at a position */
+  onMoveCard: (cardId: string, tierId: string | null, index: number) => void
+  /** Called when a card is tapped */
+  onCardTap: (cardId: string) => void
+  /** Whether the list is in read-only mode (disables dragging) */
+  isReadOnly?: boolean
+}
+
+/** Row key used for the unsorted pile */
+const UNSORTED_ROW = '__unsorted__'
+
+/**
+ * Small square tile for a card inside a tier row
+ */
+const TierTile = ({
+  card,
+  rank,
+  thumbnailUrl,
+  isLoading,
+  useNickname,
+  isReadOnly,
+  onTap,
+  onDrop,
+}: {
+  card: Card
+  rank: number
+  thumbnailUrl?: string
+  isLoading: boolean
+  useNickname: boolean
+  isReadOnly: boolean
+  onTap: (id: string) => void
+  onDrop: (cardId: string, point: { x: number; y: number }) => void
+}) => {
+  const [isDragging, setIsDragging] = useState(false)
+  const displayName = getDisplayName(card, useNickname)
+
+  return (
+    <motion.div
+      data-testid="tier-tile"
+      data-card-id={card.id}
+      layout
+      layoutId={card.id}
+      drag={!isReadOnly}
+      dragSnapToOrigin
+      dragMomentum={false}
+      onDragStart={() => setIsDragging(true)}
+      onDragEnd={(_, info) => {
+        setIsDragging(false)
+        // info.point is in page coordinates; hit-testing uses the viewport
+        onDrop(card.id, {
+          x: info.point.x - window.scrollX,
+          y: info.point.y - window.scrollY,
+        })
+      }}
+      onTap={() => onTap(card.id)}
+      whileDrag={{ scale: 1.1, rotate: 2, zIndex: 50 }}
+      transition={springConfig.default}
+      className="relative w-16 select-none cursor-pointer"
+      style={{ touchAction: isReadOnly ? 'auto' : 'none', zIndex: isDragging ? 50 : 0 }}
+      title={displayName}
+    >
+      <div
+        className="
+          w-16 h-16 overflow-hidden
+          bg-[#e5e0d8] border-2 border-[#2d2d2d]
+          shadow-[2px_2px_0px_0px_#2d2d2d]
+          flex items-center justify-center
+          text-[#9a958d] text-xl
+        "
+        style={{ borderRadius: wobbly.sm }}
+      >
+        {isLoading ? (
+          <PhotoSkeleton size={64} />
+        ) : thumbnailUrl ? (
+          <img
+            src={thumbnailUrl}
+            alt={displayName}
+            className="w-full h-full object-cover"
+            draggable={false}
+          />
+        ) : (
+          '?'
+        )}
+      </div>
+      <span
+        className="
+          absolute -top-2 -left-2
+          min-w-5 h-5 px-1
+          bg-white border-2 border-[#2d2d2d]
+          text-[#2d2d2d] text-xs
+          flex items-center justify-center
+        "
+        style={{ borderRadius: wobbly.circle, fontFamily: "'Kalam', cursive", fontWeight: 700 }}
+      >
+        {rank}
+      </span>
+      <p
+        className="text-center text-[#2d2d2d] text-xs truncate mt-1"
+        style={{ fontFamily: "'Patrick Hand', cursive" }}
+      >
+        {displayName}
+      </p>
+    </motion.div>
+  )
+}
+
+/**
+ * TierList Component
+ *
+ * Tier-list presentation of a board: one row per tier plus an
+ * "Unsorted" pile for cards that haven't been placed yet.
+ *
+ * Features:
+ * - Drag tiles within a tier or onto another tier
+ * - Drop position is hit-tested against the tiles in the target row
+ * - Rank badges show the derived linear rank
+ */
+export const TierList = ({
+  cards,
+  tiers,
+  thumbnailUrls = {},
+  loadingCardIds = new Set(),
+  onMoveCard,
+  onCardTap,
+  isReadOnly = false,
+}: TierListProps) => {
+  const rowRefs = useRef(new Map<string, HTMLDivElement>())
+  const useNickname = getSettings().nicknameModeRankList
+  const { groups, unsorted } = groupCardsByTier(cards, tiers)
+
+  // Linear rank follows tier order, then position within the tier
+  const ranks = new Map(
+    [...groups.flatMap((g) => g.cards), ...unsorted].map((c, i) => [c.id, i + 1])
+  )
+
+  const setRowRef = (rowId: string) => (el: HTMLDivElement | null) => {
+    if (el) {
+      rowRefs.current.set(rowId, el)
+    } else {
+      rowRefs.current.delete(rowId)
+    }
+  }
+
+  const handleDrop = (cardId: string, point: { x: number; y: number }) => {
+    for (const [rowId, row] of rowRefs.current) {
+      const rect = row.getBoundingClientRect()
+      if (point.y < rect.top || point.y > rect.bottom) continue
+
+      const tileRects = Array.from(
+        row.querySelectorAll<HTMLElement>('[data-testid="tier-tile"]')
+      )
+        .filter((tile) => tile.dataset.cardId !== cardId)
+        .map((tile) => tile.getBoundingClientRect())
+
+      onMoveCard(
+        cardId,
+        rowId === UNSORTED_ROW ? null : rowId,
+        findDropIndex(point, tileRects)
+      )
+      return
+    }
+  }
+
+  const renderTiles = (rowCards: Card[]) =>
+    rowCards.map((card) => (
+      <TierTile
+        key={card.id}
+        card={card}
+        rank={ranks.get(card.id) ?? 0}
+        thumbnailUrl={thumbnailUrls[card.id]}
+        isLoading={loadingCardIds.has(card.id)}
+        useNickname={useNickname}
+        isReadOnly={isReadOnly}
+        onTap={onCardTap}
+        onDrop={handleDrop}
+      />
+    ))
+
+  return (
+    <div data-testid="tier-list" className="flex flex-col gap-2 p-4">
+      {groups.map(({ tier, cards: tierCards }) => (
+        <div
+          key={tier.id}
+          data-testid="tier-row"
+          className="
+            flex items-stretch
+            bg-white border-[3px] border-[#2d2d2d]
+            shadow-[4px_4px_0px_0px_#2d2d2d]
+            overflow-visible
+          "
+          style={{ borderRadius: wobbly.md }}
+        >
+          <div
+            className="
+              w-16 min-w-16
+              flex items-center justify-center
+              border-r-[3px] border-[#2d2d2d]
+              text-2xl text-[#2d2d2d]
+              px-1 text-center break-words
+            "
+            style={{
+              backgroundColor: tier.color,
+              fontFamily: "'Kalam', cursive",
+              fontWeight: 700,
+              borderRadius: wobbly.sm,
+            }}
+          >
+            {tier.name}
+          </div>
+          <div
+            ref={setRowRef(tier.id)}
+            className="flex-1 flex flex-wrap gap-3 p-3 min-h-[6rem]"
+          >
+            {renderTiles(tierCards)}
+          </div>
+        </div>
+      ))}
+
+      {/* Unsorted pile - always shown while editing so cards can be dragged back */}
+      {(!isReadOnly || unsorted.length > 0) && (
+        <div className="mt-4">
+          <h3
+            className="text-lg text-[#9a958d] mb-2"
+            style={{ fontFamily: "'Kalam', cursive", fontWeight: 700 }}
+          >
+            Unsorted ({unsorted.length})
+          </h3>
+          <div
+            ref={setRowRef(UNSORTED_ROW)}
+            data-testid="tier-unsorted"
+            className="
+              flex flex-wrap gap-3 p-3 min-h-[6rem]
+              border-2 border-dashed border-[#9a958d]
+            "
+            style={{ borderRadius: wobbly.md }}
+          >
+            {unsorted.length > 0 ? renderTiles(unsorted) : (
+              <p
+                className="text-[#9a958d] m-auto"
+                style={{ fontFamily: "'Patrick Hand', cursive" }}
+              >
+                Drag cards here to take them out of a tier
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+import { render, screen, fireEvent, within } from '@testing-library/react'
+import { describe, it, expect, vi } from 'vitest'
+import { TrashSheet } from './TrashSheet'
+import type { Board } from '../lib/types'
+
+const DAY = 24 * 60 * 60 * 1000
+
+describe('TrashSheet', () => {
+  const makeBoard = (id: string, name: string, daysAgo: number): Board => ({
+    id,
+    name,
+    coverImage: null,
+    createdAt: 1000,
+    updatedAt: 1000,
+    deletedAt: Date.now() - daysAgo * DAY - 1000,
+  })
+
+  const defaultProps = {
+    isOpen: true,
+    onClose: vi.fn(),
+    boards: [makeBoard('b1', 'Recent', 1), makeBoard('b2', 'Old', 5)],
+    onRestore: vi.fn(),
+    onDeleteForever: vi.fn(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('shows an empty state', () => {
+    render(<TrashSheet {...defaultProps} boards={[]} />)
+    expect(screen.getByText(/trash is empty/i)).toBeInTheDocument()
+  })
+
+  it('lists boards soonest-to-expire first with time remaining', () => {
+    render(<TrashSheet {...defaultProps} />)
+
+    const items = screen.getAllByTestId('trash-item')
+    expect(within(items[0]).getByText('Old')).toBeInTheDocument()
+    expect(within(items[0]).getByText('1 day left')).toBeInTheDocument()
+    expect(within(items[1]).getByText('5 days left')).toBeInTheDocument()
+  })
+
+  it('restores a board', () => {
+    render(<TrashSheet {...defaultProps} />)
+
+    const [first] = screen.getAllByTestId('trash-item')
+    fireEvent.click(within(first).getByRole('button', { name: /restore/i }))
+
+    expect(defaultProps.onRestore).toHaveBeenCalledWith('b2')
+  })
+
+  it('asks for confirmation before deleting forever', () => {
+    render(<TrashSheet {...defaultProps} />)
+
+    const [first] = screen.getAllByTestId('trash-item')
+    fireEvent.click(within(first).getByRole('button', { name: 'Delete Forever' }))
+    expect(defaultProps.onDeleteForever).not.toHaveBeenCalled()
+
+    fireEvent.click(within(first).getByRole('button', { name: /yes, delete forever/i }))
+    expect(defaultProps.onDeleteForever).toHaveBeenCalledWith('b2')
+  })
+})
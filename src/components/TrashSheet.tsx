@@ -0,0 +1,107 @@
+/**
+ * TrashSheet Component
+ *
+ * A bottom sheet listing soft-deleted boards.
+ * Features:
+ * - Time remaining before each board is purged
+ * - Restore a board
+ * - Delete a board forever (with confirmation)
+ */
+
+import { useState } from 'react'
+import { BottomSheet } from './ui/BottomSheet'
+import { Button } from './ui/Button'
+import { wobbly } from '../styles/wobbly'
+import { formatTimeRemaining, getTrashTimeRemaining } from '../lib/trash'
+import type { Board } from '../lib/types'
+
+export interface TrashSheetProps {
+  isOpen: boolean
+  onClose: () => void
+  /** Soft-deleted boards */
+  boards: Board[]
+  onRestore: (boardId: string) => void
+  onDeleteForever: (boardId: string) => void
+}
+
+export const TrashSheet = ({
+  isOpen,
+  onClose,
+  boards,
+  onRestore,
+  onDeleteForever,
+}: TrashSheetProps) => {
+  const [confirmingId, setConfirmingId] = useState<string | null>(null)
+
+  // Soonest to be purged first
+  const sorted = [...boards].sort((a, b) => (a.deletedAt ?? 0) - (b.deletedAt ?? 0))
+
+  return (
+    <BottomSheet isOpen={isOpen} onClose={onClose} title="Trash">
+      {sorted.length === 0 ? (
+        <div className="py-8 text-center">
+          <div className="text-5xl mb-3">🗑️</div>
+          <p
+            className="text-[#9a958d]"
+            style={{ fontFamily: "'Patrick Hand', cursive" }}
+          >
+            Trash is empty. Deleted boards stay here for 7 days.
+          </p>
+        </div>
+      ) : (
+        <ul className="flex flex-col gap-3">
+          {sorted.map((board) => (
+            <li
+              key={board.id}
+              data-testid="trash-item"
+              className="p-3 bg-white border-2 border-[#2d2d2d]"
+              style={{ borderRadius: wobbly.sm }}
+            >
+              <div className="flex items-baseline justify-between gap-2 mb-2">
+                <span
+                  className="text-lg text-[#2d2d2d] truncate"
+                  style={{ fontFamily: "'Kalam', cursive", fontWeight: 700 }}
+                >
+                  {board.name}
+                </span>
+                <span
+                  className="text-sm text-[#9a958d] shrink-0"
+                  style={{ fontFamily: "'Patrick Hand', cursive" }}
+                >
+                  {formatTimeRemaining(getTrashTimeRemaining(board))}
+                </span>
+              </div>
+
+              {confirmingId === board.id ? (
+                <div className="flex gap-2">
+                  <Button variant="secondary" size="sm" className="flex-1" onClick={() => setConfirmingId(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="flex-1"
+                    onClick={() => {
+                      onDeleteForever(board.id)
+                      setConfirmingId(null)
+                    }}
+                  >
+                    Yes, Delete Forever
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Button variant="secondary" size="sm" className="flex-1" onClick={() => onRestore(board.id)}>
+                    ♻️ Restore
+                  </Button>
+                  <Button variant="secondary" size="sm" className="flex-1" onClick={() => setConfirmingId(board.id)}>
+                    Delete Forever
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </BottomSheet>
+  )
+}
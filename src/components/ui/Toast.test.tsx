@@ -127,6 +127,19 @@ describe('Toast', () => {
 
       expect(onClose).toHaveBeenCalledTimes(1)
     })
+
+    it('runs the action and closes when the action button is clicked', async () => {
+      vi.useRealTimers()
+      const user = userEvent.setup()
+      const onClose = vi.fn()
+      const onUndo = vi.fn()
+      render(<Toast message="Moved" action={{ label: 'Undo', onClick: onUndo }} onClose={onClose} />)
+
+      await user.click(screen.getByRole('button', { name: 'Undo' }))
+
+      expect(onUndo).toHaveBeenCalledTimes(1)
+      expect(onClose).toHaveBeenCalledTimes(1)
+    })
   })
 
   describe('styling', () => {
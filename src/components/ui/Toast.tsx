@@ -3,10 +3,19 @@ import { motion, AnimatePresence } from 'framer-motion'
 import { wobbly } from '../../styles/wobbly'
 import { colors, springConfig } from '../../styles/tokens'
 
+/**
+ * Optional button shown in a toast (e.g. "Undo")
+ */
+export interface ToastAction {
+  label: string
+  onClick: () => void
+}
+
 export interface ToastProps {
   message: string
   type?: 'error' | 'success' | 'info'
   duration?: number
+  action?: ToastAction
   onClose: () => void
 }
 
@@ -17,6 +26,7 @@ export const Toast = ({
   message,
   type = 'info',
   duration = 4000,
+  action,
   onClose,
 }: ToastProps) => {
   useEffect(() => {
@@ -73,6 +83,25 @@ export const Toast = ({
       >
         {message}
       </p>
+      {action && (
+        <button
+          type="button"
+          onClick={() => {
+            action.onClick()
+            onClose()
+          }}
+          className="
+            px-3 py-1
+            border-2 border-white/60
+            hover:bg-white/20
+            transition-colors
+            text-sm font-bold
+          "
+          style={{ borderRadius: wobbly.sm, fontFamily: "'Patrick Hand', cursive" }}
+        >
+          {action.label}
+        </button>
+      )}
       <button
         type="button"
         onClick={onClose}
@@ -99,11 +128,12 @@ export const useToast = () => {
   const [toast, setToast] = useState<{
     message: string
     type: 'error' | 'success' | 'info'
+    action?: ToastAction
   } | null>(null)
 
   const showToast = useCallback(
-    (message: string, type: 'error' | 'success' | 'info' = 'info') => {
-      setToast({ message, type })
+    (message: string, type: 'error' | 'success' | 'info' = 'info', action?: ToastAction) => {
+      setToast({ message, type, action })
     },
     []
   )
@@ -119,6 +149,7 @@ export const useToast = () => {
           <Toast
             message={toast.message}
             type={toast.type}
+            action={toast.action}
             onClose={hideToast}
           />
         )}
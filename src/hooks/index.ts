@@ -6,8 +6,10 @@
 
 export { useBoards } from './useBoards'
 export { useCards } from './useCards'
+export { useBoardHistory } from './useBoardHistory'
 export { useImageStorage } from './useImageStorage'
 export { useSnapshots } from './useSnapshots'
+export { useRankingBranches } from './useRankingBranches'
 export { useRankingComparison } from './useRankingComparison'
 export type { MovementIndicator, CardTrajectory, TrajectoryPoint } from './useRankingComparison'
 
@@ -15,3 +17,6 @@ export type { MovementIndicator, CardTrajectory, TrajectoryPoint } from './useRa
 export { useSpaces } from './useSpaces'
 export { useSpaceBoards } from './useSpaceBoards'
 export { useSpaceMembers } from './useSpaceMembers'
+export { useCardSpaceRankings } from './useCardSpaceRankings'
+export { useSpaceConsensus } from './useSpaceConsensus'
+export { useHotTakes } from './useHotTakes'
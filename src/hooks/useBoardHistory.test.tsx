@@ -0,0 +1,78 @@
+import { renderHook, act } from '@testing-library/react'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { useBoardHistory } from './useBoardHistory'
+import { getBoard, saveBoard, getCardsByBoard, saveCardsForBoard } from '../lib/storage'
+import { createBoard, createCard, type Board } from '../lib/types'
+
+describe('useBoardHistory', () => {
+  let board: Board
+
+  beforeEach(() => {
+    localStorage.clear()
+    sessionStorage.clear()
+    board = { ...createBoard('Original'), id: 'b1' }
+    saveBoard(board)
+    saveCardsForBoard('b1', [createCard('b1', 'Kim', 1)])
+  })
+
+  it('starts with nothing to undo or redo', () => {
+    const { result } = renderHook(() => useBoardHistory('b1', vi.fn()))
+
+    expect(result.current.canUndo).toBe(false)
+    expect(result.current.canRedo).toBe(false)
+    expect(result.current.undo()).toBeNull()
+  })
+
+  it('undoes and redoes an edit', () => {
+    const onRestore = vi.fn()
+    const { result } = renderHook(() => useBoardHistory('b1', onRestore))
+
+    act(() => result.current.checkpoint('Edited board'))
+    saveBoard({ ...board, name: 'Renamed' })
+    saveCardsForBoard('b1', [])
+
+    expect(result.current.undoLabel).toBe('Edited board')
+
+    let label: string | null = null
+    act(() => {
+      label = result.current.undo()
+    })
+    expect(label).toBe('Edited board')
+    expect(getBoard('b1')?.name).toBe('Original')
+    expect(getCardsByBoard('b1')).toHaveLength(1)
+    expect(onRestore).toHaveBeenCalledTimes(1)
+    expect(result.current.canUndo).toBe(false)
+    expect(result.current.redoLabel).toBe('Edited board')
+
+    act(() => {
+      result.current.redo()
+    })
+    expect(getBoard('b1')?.name).toBe('Renamed')
+    expect(getCardsByBoard('b1')).toHaveLength(0)
+    expect(result.current.canUndo).toBe(true)
+    expect(result.current.canRedo).toBe(false)
+  })
+
+  it('keeps history across remounts in the same session', () => {
+    const first = renderHook(() => useBoardHistory('b1', vi.fn()))
+    act(() => first.result.current.checkpoint('Deleted Kim'))
+    first.unmount()
+
+    const { result } = renderHook(() => useBoardHistory('b1', vi.fn()))
+    expect(result.current.undoLabel).toBe('Deleted Kim')
+  })
+
+  it('switches history when the board changes', () => {
+    saveBoard({ ...createBoard('Other'), id: 'b2' })
+    const { result, rerender } = renderHook(({ id }) => useBoardHistory(id, vi.fn()), {
+      initialProps: { id: 'b1' },
+    })
+    act(() => result.current.checkpoint('Edited board'))
+
+    rerender({ id: 'b2' })
+    expect(result.current.canUndo).toBe(false)
+
+    rerender({ id: 'b1' })
+    expect(result.current.canUndo).toBe(true)
+  })
+})
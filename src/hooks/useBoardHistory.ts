@@ -0,0 +1,81 @@
+/**
+ * useBoardHistory Hook
+ *
+ * Per-board undo/redo for board edits. Call `checkpoint(label)` right
+ * before an edit; undo/redo restore the saved state through storage and
+ * then call `onRestore` so the page can reload its hooks.
+ */
+
+import { useState, useCallback } from 'react'
+import {
+  type BoardHistory,
+  getBoardHistory,
+  saveBoardHistory,
+  captureBoardState,
+  applyBoardState,
+  pushHistoryStep,
+  shiftHistoryStep,
+} from '../lib/boardHistory'
+
+interface UseBoardHistoryReturn {
+  /** Whether there is an edit to undo */
+  canUndo: boolean
+  /** Whether there is an undone edit to redo */
+  canRedo: boolean
+  /** Label of the edit that undo would revert */
+  undoLabel: string | null
+  /** Label of the edit that redo would re-apply */
+  redoLabel: string | null
+  /** Save the current board state before an edit described by `label` */
+  checkpoint: (label: string) => void
+  /** Revert the latest edit; returns its label, or null if nothing to undo */
+  undo: () => string | null
+  /** Re-apply the latest undone edit; returns its label, or null if nothing to redo */
+  redo: () => string | null
+}
+
+export const useBoardHistory = (
+  boardId: string,
+  onRestore: () => void
+): UseBoardHistoryReturn => {
+  // Keyed by board so a boardId change picks up that board's history
+  const [loaded, setLoaded] = useState(() => ({ boardId, history: getBoardHistory(boardId) }))
+  const history = loaded.boardId === boardId ? loaded.history : getBoardHistory(boardId)
+
+  const update = useCallback((next: BoardHistory) => {
+    saveBoardHistory(boardId, next)
+    setLoaded({ boardId, history: next })
+  }, [boardId])
+
+  const checkpoint = useCallback((label: string) => {
+    const state = captureBoardState(boardId)
+    if (!state) return
+    update(pushHistoryStep(getBoardHistory(boardId), { label, state, createdAt: Date.now() }))
+  }, [boardId, update])
+
+  const shift = useCallback((from: 'undo' | 'redo'): string | null => {
+    const current = captureBoardState(boardId)
+    if (!current) return null
+
+    const result = shiftHistoryStep(getBoardHistory(boardId), from, current)
+    if (!result) return null
+
+    applyBoardState(result.step.state)
+    update(result.history)
+    onRestore()
+    return result.step.label
+  }, [boardId, update, onRestore])
+
+  const undo = useCallback(() => shift('undo'), [shift])
+  const redo = useCallback(() => shift('redo'), [shift])
+
+  return {
+    canUndo: history.undo.length > 0,
+    canRedo: history.redo.length > 0,
+    undoLabel: history.undo[history.undo.length - 1]?.label ?? null,
+    redoLabel: history.redo[history.redo.length - 1]?.label ?? null,
+    checkpoint,
+    undo,
+    redo,
+  }
+}
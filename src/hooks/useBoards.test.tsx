@@ -2,17 +2,20 @@ import { renderHook, act, waitFor } from '@testing-library/react'
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { useBoards } from './useBoards'
 import * as storage from '../lib/storage'
+import * as trash from '../lib/trash'
 import type { Board } from '../lib/types'
 
-// Mock the storage module
+// Mock the storage and trash modules
 vi.mock('../lib/storage')
+vi.mock('../lib/trash')
 
 const mockStorage = storage as unknown as {
   getBoards: ReturnType<typeof vi.fn>
   saveBoard: ReturnType<typeof vi.fn>
-  deleteBoard: ReturnType<typeof vi.fn>
 }
 
+const mockPurgeBoard = vi.mocked(trash.purgeBoard)
+
 describe('useBoards', () => {
   const mockBoard1: Board = {
     id: 'board-1',
@@ -35,6 +38,7 @@ describe('useBoards', () => {
   beforeEach(() => {
     vi.clearAllMocks()
     mockStorage.getBoards.mockReturnValue([])
+    mockPurgeBoard.mockResolvedValue(undefined)
   })
 
   describe('initial state', () => {
@@ -247,7 +251,7 @@ describe('useBoards', () => {
   })
 
   describe('permanentlyDeleteBoard', () => {
-    it('calls storage deleteBoard', () => {
+    it('purges the board with its cards, snapshots and images', () => {
       mockStorage.getBoards.mockReturnValue([mockBoard1])
 
       const { result } = renderHook(() => useBoards())
@@ -256,7 +260,7 @@ describe('useBoards', () => {
         result.current.permanentlyDeleteBoard(mockBoard1.id)
       })
 
-      expect(mockStorage.deleteBoard).toHaveBeenCalledWith('board-1')
+      expect(mockPurgeBoard).toHaveBeenCalledWith('board-1')
     })
 
     it('removes board from state', () => {
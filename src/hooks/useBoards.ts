@@ -6,7 +6,8 @@
  */
 
 import { useState, useCallback, useMemo } from 'react'
-import { getBoards, saveBoard, deleteBoard } from '../lib/storage'
+import { getBoards, saveBoard } from '../lib/storage'
+import { purgeBoard } from '../lib/trash'
 import { createBoard as createBoardEntity, type Board } from '../lib/types'
 
 interface UseBoardsOptions {
@@ -34,7 +35,7 @@ interface UseBoardsReturn {
   softDeleteBoard: (id: string) => void
   /** Restore a soft-deleted board */
   restoreBoard: (id: string) => void
-  /** Permanently delete a board */
+  /** Permanently delete a board with its cards, snapshots and images */
   permanentlyDeleteBoard: (id: string) => void
   /** Get a specific board by ID */
   getBoard: (id: string) => Board | undefined
@@ -102,7 +103,8 @@ export const useBoards = (options: UseBoardsOptions = {}): UseBoardsReturn => {
   }, [updateBoard])
 
   const permanentlyDeleteBoard = useCallback((id: string) => {
-    deleteBoard(id)
+    // Records go immediately; image cleanup finishes in the background
+    purgeBoard(id).catch((err) => console.error('Failed to delete board images:', err))
     setAllBoards((prev) => prev.filter((b) => b.id !== id))
   }, [])
 
@@ -0,0 +1,70 @@
+/**
+ * useCardSpaceRankings Hook
+ *
+ * Finds where a card sits on other members' matching boards (same
+ * template or title) in every space this device has joined.
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import type { Board, Card } from '../lib/types'
+import { loadMatchingSpaceBoards } from '../lib/matchingSpaceBoards'
+import { findCardOnBoards, type MemberCardRank } from '../lib/cardHistory'
+
+export interface UseCardSpaceRankingsReturn {
+  /** The card's rank on each matching board, best first */
+  rankings: MemberCardRank[]
+  /** Whether data is loading */
+  isLoading: boolean
+  /** Error message if any */
+  error: string | null
+}
+
+/**
+ * Look up a card on other members' boards
+ * @param board - The card's board (null to skip)
+ * @param card - The card (null to skip)
+ */
+export const useCardSpaceRankings = (
+  board: Pick<Board, 'name' | 'templateId'> | null,
+  card: Pick<Card, 'name' | 'nickname'> | null
+): UseCardSpaceRankingsReturn => {
+  const [rankings, setRankings] = useState<MemberCardRank[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const boardName = board?.name ?? null
+  const templateId = board?.templateId
+  const cardName = card?.name ?? null
+  const nickname = card?.nickname ?? ''
+
+  // isCurrent() turns false once a newer load supersedes this one
+  const loadRankings = useCallback(async (isCurrent: () => boolean) => {
+    if (boardName === null || cardName === null) {
+      setRankings([])
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const boards = await loadMatchingSpaceBoards({ name: boardName, templateId })
+      if (isCurrent()) setRankings(findCardOnBoards({ name: cardName, nickname }, boards))
+    } catch (err) {
+      console.error('Error loading space rankings:', err)
+      if (isCurrent()) setError('Failed to load rankings from your spaces')
+    } finally {
+      if (isCurrent()) setIsLoading(false)
+    }
+  }, [boardName, templateId, cardName, nickname])
+
+  useEffect(() => {
+    let cancelled = false
+    loadRankings(() => !cancelled)
+    return () => {
+      cancelled = true
+    }
+  }, [loadRankings])
+
+  return { rankings, isLoading, error }
+}
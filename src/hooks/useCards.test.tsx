@@ -338,6 +338,55 @@ describe('useCards', () => {
     })
   })
 
+  describe('moveCardToTier', () => {
+    it('assigns the tier and re-derives ranks from tier order', () => {
+      mockStorage.getCardsByBoard.mockReturnValue([mockCard1, mockCard2, mockCard3])
+      const tiers = [
+        { id: 's', name: 'S', color: '#ff7f7f' },
+        { id: 'a', name: 'A', color: '#ffbf7f' },
+      ]
+
+      const { result } = renderHook(() => useCards(boardId))
+
+      act(() => {
+        result.current.moveCardToTier('card-3', 's', 0, tiers)
+      })
+
+      expect(result.current.cards.map((c) => c.id)).toEqual(['card-3', 'card-1', 'card-2'])
+      expect(result.current.cards.map((c) => c.rank)).toEqual([1, 2, 3])
+      expect(result.current.cards[0].metadata.tierId).toBe('s')
+      expect(mockStorage.saveCardsForBoard).toHaveBeenCalledWith(boardId, result.current.cards)
+    })
+  })
+
+  describe('setCardOrder', () => {
+    it('reorders cards to match the given IDs and renumbers ranks', () => {
+      mockStorage.getCardsByBoard.mockReturnValue([mockCard1, mockCard2, mockCard3])
+
+      const { result } = renderHook(() => useCards(boardId))
+
+      act(() => {
+        result.current.setCardOrder(['card-2', 'card-3', 'card-1'])
+      })
+
+      expect(result.current.cards.map((c) => c.id)).toEqual(['card-2', 'card-3', 'card-1'])
+      expect(result.current.cards.map((c) => c.rank)).toEqual([1, 2, 3])
+      expect(mockStorage.saveCardsForBoard).toHaveBeenCalledWith(boardId, result.current.cards)
+    })
+
+    it('keeps cards missing from the list at the bottom in their old order', () => {
+      mockStorage.getCardsByBoard.mockReturnValue([mockCard1, mockCard2, mockCard3])
+
+      const { result } = renderHook(() => useCards(boardId))
+
+      act(() => {
+        result.current.setCardOrder(['card-3'])
+      })
+
+      expect(result.current.cards.map((c) => c.id)).toEqual(['card-3', 'card-1', 'card-2'])
+    })
+  })
+
   describe('getCard', () => {
     it('returns card by id', () => {
       mockStorage.getCardsByBoard.mockReturnValue([mockCard1, mockCard2])
@@ -7,7 +7,8 @@
 
 import { useState, useCallback, useEffect } from 'react'
 import { getCardsByBoard, saveCard, deleteCard, saveCardsForBoard } from '../lib/storage'
-import { createCard as createCardEntity, type Card } from '../lib/types'
+import { createCard as createCardEntity, type Card, type Tier } from '../lib/types'
+import { moveCardToTier as moveCardToTierOrder } from '../lib/tierList'
 
 interface UseCardsReturn {
   /** Cards for the board, sorted by rank */
@@ -20,6 +21,10 @@ interface UseCardsReturn {
   deleteCard: (id: string) => void
   /** Reorder cards by moving from one index to another */
   reorderCards: (fromIndex: number, toIndex: number) => void
+  /** Reorder cards to match a full list of card IDs (best first) */
+  setCardOrder: (cardIds: string[]) => void
+  /** Move a card into a tier (null = unsorted) at a position within it, re-deriving ranks */
+  moveCardToTier: (cardId: string, tierId: string | null, index: number, tiers: Tier[]) => void
   /** Get a specific card by ID */
   getCard: (id: string) => Card | undefined
   /** Refresh cards from storage */
@@ -101,6 +106,51 @@ export const useCards = (boardId: string): UseCardsReturn => {
     })
   }, [boardId])
 
+  const setCardOrder = useCallback((cardIds: string[]) => {
+    setCards((prev) => {
+      const position = new Map(cardIds.map((id, index) => [id, index]))
+
+      // Cards missing from the list keep their relative order at the bottom
+      const newCards = [...prev].sort((a, b) =>
+        (position.get(a.id) ?? cardIds.length + a.rank) -
+        (position.get(b.id) ?? cardIds.length + b.rank)
+      )
+
+      // Update ranks to match new order
+      const updatedCards = newCards.map((card, index) => ({
+        ...card,
+        rank: index + 1,
+        updatedAt: Date.now(),
+      }))
+
+      // Persist cards for this board only (preserves other boards' cards)
+      saveCardsForBoard(boardId, updatedCards)
+
+      return updatedCards
+    })
+  }, [boardId])
+
+  const moveCardToTier = useCallback(
+    (cardId: string, tierId: string | null, index: number, tiers: Tier[]) => {
+      setCards((prev) => {
+        const newCards = moveCardToTierOrder(prev, tiers, cardId, tierId, index)
+
+        // Update ranks to match tier order
+        const updatedCards = newCards.map((card, i) => ({
+          ...card,
+          rank: i + 1,
+          updatedAt: Date.now(),
+        }))
+
+        // Persist cards for this board only (preserves other boards' cards)
+        saveCardsForBoard(boardId, updatedCards)
+
+        return updatedCards
+      })
+    },
+    [boardId]
+  )
+
   const getCardFn = useCallback(
     (id: string): Card | undefined => {
       return cards.find((c) => c.id === id)
@@ -118,6 +168,8 @@ export const useCards = (boardId: string): UseCardsReturn => {
     updateCard: updateCardFn,
     deleteCard: deleteCardFn,
     reorderCards,
+    setCardOrder,
+    moveCardToTier,
     getCard: getCardFn,
     refresh,
   }
@@ -6,13 +6,23 @@
  * Features:
  * - Find matchable boards (by templateId or exact title)
  * - Comparison suggestions when viewing a friend's board
- * - Agreement percentage calculation
+ * - Agreement percentage calculation, with every rank metric alongside
+ * - Fuzzy item matching for boards not made from the same template
  */
 
 import { useMemo, useCallback } from 'react'
 import type { Board, Card } from '../lib/types'
 import type { CloudBoard } from '../lib/firestoreBoards'
+import type { SpaceCard } from '../lib/spaceTypes'
+import { matchItems, type ItemMatchOverride, type MatchableItem, type MatchReason } from '../lib/itemMatching'
+import { getItemMatchOverrides } from '../lib/storage'
 import { areTemplateMatching, areTitlesMatching } from '../lib/firestoreTemplates'
+import {
+  computeRankMetrics,
+  proximityAgreement,
+  type RankMap,
+  type RankMetricScores,
+} from '../lib/rankMetrics'
 
 /**
  * A comparison match between two boards
@@ -34,8 +44,10 @@ export interface ComparisonMatch {
  * Ranked item for comparison (unified format for local/cloud)
  */
 export interface ComparisonItem {
-  /** Unique identifier (cardId or templateItemId) */
+  /** Identifier shared by matched items on both boards */
   id: string
+  /** The card's own ID on its board */
+  cardId?: string
   /** Display name */
   name: string
   /** Rank in this board (1-indexed, or null if not ranked) */
@@ -56,6 +68,8 @@ export interface ComparisonResult {
   alignedItems: AlignedComparisonItem[]
   /** Agreement percentage (0-100) */
   agreementPercentage: number
+  /** Agreement under every rank metric (0-100 each) */
+  metrics: RankMetricScores
 }
 
 /**
@@ -74,6 +88,14 @@ export interface AlignedComparisonItem {
   yourImageUrl?: string
   /** Friend's image URL */
   friendImageUrl?: string
+  /** Your card's ID (for match overrides) */
+  yourCardId?: string
+  /** Friend's card ID (for match overrides) */
+  friendCardId?: string
+  /** Friend's name for the item, when both ranked it */
+  friendItemName?: string
+  /** How the two cards were paired, when both ranked it */
+  matchReason?: MatchReason
 }
 
 /**
@@ -111,6 +133,16 @@ export interface UseComparisonReturn {
   ) => ComparisonResult
 }
 
+/**
+ * Ranks of the ranked items, keyed by item ID
+ */
+export const toRankMap = (items: ComparisonItem[]): RankMap =>
+  new Map(
+    items
+      .filter((item) => item.rank !== null)
+      .map((item) => [item.id, item.rank!])
+  )
+
 /**
  * Calculate agreement percentage between two ranked lists
  *
@@ -120,53 +152,13 @@ export interface UseComparisonReturn {
  * 3. Score based on proximity: same rank = 100%, off by 1 = 80%, etc.
  * 4. Average all scores
  *
- * Returns 0 if no common items, 100 if perfect match
+ * Returns 0 if no common items, 100 if perfect match.
+ * See lib/rankMetrics for the other metrics.
  */
 export const calculateAgreement = (
   items1: ComparisonItem[],
   items2: ComparisonItem[]
-): number => {
-  // Get ranked items only
-  const ranked1 = items1.filter((item) => item.rank !== null)
-  const ranked2 = items2.filter((item) => item.rank !== null)
-
-  if (ranked1.length === 0 || ranked2.length === 0) {
-    return 0
-  }
-
-  // Create lookup maps
-  const rank1Map = new Map(ranked1.map((item) => [item.id, item.rank!]))
-  const rank2Map = new Map(ranked2.map((item) => [item.id, item.rank!]))
-
-  // Find common items
-  const commonIds = [...rank1Map.keys()].filter((id) => rank2Map.has(id))
-
-  if (commonIds.length === 0) {
-    return 0
-  }
-
-  // Calculate max possible rank difference (for normalization)
-  const maxRank = Math.max(ranked1.length, ranked2.length)
-
-  // Calculate agreement score
-  let totalScore = 0
-
-  for (const id of commonIds) {
-    const rank1 = rank1Map.get(id)!
-    const rank2 = rank2Map.get(id)!
-    const diff = Math.abs(rank1 - rank2)
-
-    // Score: 1 for perfect match, decreasing as difference increases
-    // Using inverse linear scale: score = 1 - (diff / maxRank)
-    const score = Math.max(0, 1 - diff / maxRank)
-    totalScore += score
-  }
-
-  // Calculate percentage
-  const percentage = (totalScore / commonIds.length) * 100
-
-  return Math.round(percentage)
-}
+): number => proximityAgreement(toRankMap(items1), toRankMap(items2))
 
 /**
  * Align items from two boards for side-by-side comparison
@@ -197,6 +189,9 @@ export const alignItemsForComparison = (
       friendRank: friend?.rank ?? null,
       yourImageUrl: yours?.imageUrl,
       friendImageUrl: friend?.imageUrl,
+      yourCardId: yours?.cardId,
+      friendCardId: friend?.cardId,
+      friendItemName: yours && friend ? friend.name : undefined,
     })
   }
 
@@ -217,6 +212,76 @@ export const alignItemsForComparison = (
   return aligned
 }
 
+/**
+ * A card ready for matching and comparison
+ */
+export type ComparableCard = MatchableItem & Pick<ComparisonItem, 'rank' | 'imageUrl'>
+
+/**
+ * Compare two boards' cards, pairing items by template item, ID, name,
+ * nickname or spelling variant, with any manual overrides applied first
+ */
+export const compareMatchedCards = (
+  yourCards: ComparableCard[],
+  friendCards: ComparableCard[],
+  overrides: ItemMatchOverride[] = []
+): ComparisonResult => {
+  const matches = matchItems(yourCards, friendCards, overrides)
+  const yourIdForFriend = new Map(matches.map((m) => [m.rightId, m.leftId]))
+  const reasons = new Map(matches.map((m) => [m.leftId, m.reason]))
+
+  const yourItems: ComparisonItem[] = yourCards.map((card) => ({
+    id: card.id,
+    cardId: card.id,
+    name: card.name,
+    rank: card.rank,
+    imageUrl: card.imageUrl,
+  }))
+
+  // Unmatched friend cards get their own IDs, even if a card ID happens to clash
+  const friendItems: ComparisonItem[] = friendCards.map((card) => ({
+    id: yourIdForFriend.get(card.id) ?? `friend:${card.id}`,
+    cardId: card.id,
+    name: card.name,
+    rank: card.rank,
+    imageUrl: card.imageUrl,
+  }))
+
+  const alignedItems = alignItemsForComparison(yourItems, friendItems).map((item) => ({
+    ...item,
+    matchReason: item.yourCardId && item.friendCardId ? reasons.get(item.yourCardId) : undefined,
+  }))
+  const metrics = computeRankMetrics(toRankMap(yourItems), toRankMap(friendItems))
+
+  return {
+    yourItems,
+    friendItems,
+    alignedItems,
+    // Closeness is always defined (0 with nothing shared)
+    agreementPercentage: metrics.proximity ?? 0,
+    metrics,
+  }
+}
+
+/**
+ * Compare two members' boards in a space
+ */
+export const compareSpaceCards = (
+  yourCards: SpaceCard[],
+  friendCards: SpaceCard[],
+  overrides: ItemMatchOverride[] = []
+): ComparisonResult => {
+  const toComparable = (card: SpaceCard): ComparableCard => ({
+    id: card.id,
+    name: card.name,
+    nickname: card.nickname,
+    rank: card.rank,
+    imageUrl: card.thumbnailUrl ?? undefined,
+  })
+
+  return compareMatchedCards(yourCards.map(toComparable), friendCards.map(toComparable), overrides)
+}
+
 /**
  * Hook for managing board comparisons
  */
@@ -297,42 +362,25 @@ export const useComparison = (options: UseComparisonOptions): UseComparisonRetur
    */
   const calculateComparison = useCallback(
     (
-      _yourBoard: Board,
+      yourBoard: Board,
       yourBoardCards: Card[],
-      _friendBoard: CloudBoard,
+      friendBoard: CloudBoard,
       friendCards: Card[]
     ): ComparisonResult => {
-      // Convert to ComparisonItems
-      const yourItems: ComparisonItem[] = yourBoardCards.map((card) => ({
-        id:
-          (card.metadata?.templateItemId as string) ?? // Use templateItemId if available
-          card.id,
-        name: card.name,
-        rank: card.rank,
-        imageUrl: card.thumbnailKey ?? undefined,
-      }))
-
-      const friendItems: ComparisonItem[] = friendCards.map((card) => ({
-        id:
-          (card.metadata?.templateItemId as string) ?? // Use templateItemId if available
-          card.id,
+      const toComparable = (card: Card): ComparableCard => ({
+        id: card.id,
         name: card.name,
+        nickname: card.nickname,
+        templateItemId: card.metadata?.templateItemId as string | undefined,
         rank: card.rank,
         imageUrl: card.thumbnailKey ?? undefined,
-      }))
-
-      // Align items for side-by-side display
-      const alignedItems = alignItemsForComparison(yourItems, friendItems)
+      })
 
-      // Calculate agreement
-      const agreementPercentage = calculateAgreement(yourItems, friendItems)
-
-      return {
-        yourItems,
-        friendItems,
-        alignedItems,
-        agreementPercentage,
-      }
+      return compareMatchedCards(
+        yourBoardCards.map(toComparable),
+        friendCards.map(toComparable),
+        getItemMatchOverrides(yourBoard.id, friendBoard.id)
+      )
     },
     []
   )
@@ -0,0 +1,101 @@
+/**
+ * useHotTakes Hook
+ *
+ * Finds your hot takes on a board: where your ranking disagrees most
+ * with other members' matching boards (same template or title) in every
+ * space this device has joined, against the group and each friend.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import type { Board, Card } from '../lib/types'
+import { loadMatchingSpaceBoards } from '../lib/matchingSpaceBoards'
+import type { MemberBoard } from '../lib/spaceConsensus'
+import { findHotTakes, pairWithBoard, pairWithConsensus, type HotTake } from '../lib/hotTakes'
+
+/**
+ * Hot takes against one friend's board
+ */
+export interface FriendHotTakes {
+  ownerId: string
+  ownerName: string
+  takes: HotTake[]
+}
+
+export interface UseHotTakesReturn {
+  /** Hot takes against everyone else's consensus */
+  groupTakes: HotTake[]
+  /** Hot takes against each friend, by name */
+  friendTakes: FriendHotTakes[]
+  /** How many other members ranked this board */
+  memberCount: number
+  /** Whether data is loading */
+  isLoading: boolean
+  /** Error message if any */
+  error: string | null
+}
+
+/**
+ * Find your hot takes on a board
+ * @param board - The board (null to skip loading)
+ * @param cards - The board's cards
+ */
+export const useHotTakes = (
+  board: Pick<Board, 'name' | 'templateId'> | null,
+  cards: Card[]
+): UseHotTakesReturn => {
+  const [otherBoards, setOtherBoards] = useState<MemberBoard[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const boardName = board?.name ?? null
+  const templateId = board?.templateId
+
+  // isCurrent() turns false once a newer load supersedes this one
+  const loadBoards = useCallback(async (isCurrent: () => boolean) => {
+    if (boardName === null) {
+      setOtherBoards([])
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      // One board per friend: their most recently synced
+      const boards = await loadMatchingSpaceBoards({ name: boardName, templateId }, { latestPerOwner: true })
+      if (isCurrent()) setOtherBoards(boards)
+    } catch (err) {
+      console.error('Error loading hot takes:', err)
+      if (isCurrent()) setError('Failed to load rankings from your spaces')
+    } finally {
+      if (isCurrent()) setIsLoading(false)
+    }
+  }, [boardName, templateId])
+
+  useEffect(() => {
+    let cancelled = false
+    loadBoards(() => !cancelled)
+    return () => {
+      cancelled = true
+    }
+  }, [loadBoards])
+
+  const groupTakes = useMemo(
+    () => (otherBoards.length > 0 ? findHotTakes(pairWithConsensus(cards, otherBoards)) : []),
+    [cards, otherBoards]
+  )
+
+  const friendTakes = useMemo(
+    () =>
+      otherBoards
+        .map(({ board: friendBoard, cards: friendCards }) => ({
+          ownerId: friendBoard.ownerId,
+          ownerName: friendBoard.ownerName,
+          takes: findHotTakes(pairWithBoard(cards, friendCards)),
+        }))
+        .sort((a, b) => a.ownerName.localeCompare(b.ownerName)),
+    [cards, otherBoards]
+  )
+
+  return { groupTakes, friendTakes, memberCount: otherBoards.length, isLoading, error }
+}
@@ -0,0 +1,67 @@
+/**
+ * useRankingBranches Hook
+ *
+ * Manages a board's what-if branches with localStorage persistence.
+ */
+
+import { useState, useCallback, useEffect } from 'react'
+import {
+  getRankingBranches,
+  saveRankingBranch,
+  deleteRankingBranch as deleteRankingBranchFromStorage,
+} from '../lib/storage'
+import { createRankingBranch, moveBranchCard, type RankingBranch } from '../lib/rankingBranches'
+import type { Card } from '../lib/types'
+
+interface UseRankingBranchesReturn {
+  /** Branches for the board, oldest first */
+  branches: RankingBranch[]
+  /** Fork the cards' current order into a new branch */
+  createBranch: (name: string, cards: Card[]) => RankingBranch
+  /** Move a card within a branch */
+  reorderBranch: (id: string, cards: Card[], fromIndex: number, toIndex: number) => void
+  /** Delete a branch */
+  deleteBranch: (id: string) => void
+}
+
+export const useRankingBranches = (boardId: string): UseRankingBranchesReturn => {
+  const [branches, setBranches] = useState<RankingBranch[]>(() => getRankingBranches(boardId))
+
+  // Reload when boardId changes
+  useEffect(() => {
+    setBranches(getRankingBranches(boardId))
+  }, [boardId])
+
+  const createBranch = useCallback(
+    (name: string, cards: Card[]): RankingBranch => {
+      const branch = createRankingBranch(boardId, name, cards)
+      saveRankingBranch(branch)
+      setBranches((prev) => [...prev, branch])
+      return branch
+    },
+    [boardId]
+  )
+
+  const reorderBranch = useCallback(
+    (id: string, cards: Card[], fromIndex: number, toIndex: number) => {
+      if (fromIndex === toIndex) return
+
+      setBranches((prev) =>
+        prev.map((branch) => {
+          if (branch.id !== id) return branch
+          const updated = moveBranchCard(branch, cards, fromIndex, toIndex)
+          saveRankingBranch(updated)
+          return updated
+        })
+      )
+    },
+    []
+  )
+
+  const deleteBranch = useCallback((id: string) => {
+    deleteRankingBranchFromStorage(id)
+    setBranches((prev) => prev.filter((b) => b.id !== id))
+  }, [])
+
+  return { branches, createBranch, reorderBranch, deleteBranch }
+}
@@ -228,6 +228,20 @@ describe('useSnapshots', () => {
       expect(createdSnapshot!.rankings[0].thumbnailKey).toBe('thumb-1')
       expect(createdSnapshot!.rankings[1].thumbnailKey).toBe('thumb-2')
     })
+
+    it('attaches per-card notes to ranking entries', () => {
+      const { result } = renderHook(() => useSnapshots(boardId))
+
+      let createdSnapshot: Snapshot | undefined
+      act(() => {
+        createdSnapshot = result.current.createSnapshot(mockCards, {
+          cardNotes: { 'card-2': '  Won the date  ' },
+        })
+      })
+
+      expect(createdSnapshot!.rankings[0].note).toBeUndefined()
+      expect(createdSnapshot!.rankings[1].note).toBe('Won the date')
+    })
   })
 
   describe('updateSnapshot', () => {
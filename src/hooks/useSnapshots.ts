@@ -12,16 +12,14 @@ import {
   deleteSnapshot as deleteSnapshotFromStorage,
   getNextEpisodeNumber,
 } from '../lib/storage'
-import { createSnapshot, type Snapshot, type RankingEntry, type Card } from '../lib/types'
+import { saveNewSnapshot, subscribeToNewSnapshots, type NewSnapshotOptions } from '../lib/episodes'
+import type { Snapshot, Card } from '../lib/types'
 
 interface UseSnapshotsReturn {
   /** Snapshots for the board, sorted by episode number */
   snapshots: Snapshot[]
   /** Create a new snapshot from current card rankings */
-  createSnapshot: (
-    cards: Card[],
-    options?: { episodeNumber?: number; label?: string; notes?: string }
-  ) => Snapshot
+  createSnapshot: (cards: Card[], options?: NewSnapshotOptions) => Snapshot
   /** Update an existing snapshot's metadata (not rankings) */
   updateSnapshot: (id: string, updates: Partial<Pick<Snapshot, 'label' | 'notes'>>) => void
   /** Delete a snapshot */
@@ -49,37 +47,22 @@ export const useSnapshots = (boardId: string): UseSnapshotsReturn => {
     setNextEpisodeNumber(getNextEpisodeNumber(boardId))
   }, [boardId])
 
-  const createSnapshotFn = useCallback(
-    (
-      cards: Card[],
-      options: { episodeNumber?: number; label?: string; notes?: string } = {}
-    ): Snapshot => {
-      const episodeNum = options.episodeNumber ?? nextEpisodeNumber
-
-      // Convert current cards to ranking entries (sorted by rank)
-      const rankings: RankingEntry[] = [...cards]
-        .sort((a, b) => a.rank - b.rank)
-        .map((card) => ({
-          cardId: card.id,
-          cardName: card.name,
-          cardNickname: card.nickname || undefined,
-          rank: card.rank,
-          thumbnailKey: card.thumbnailKey,
-        }))
-
-      const snapshot = createSnapshot(boardId, episodeNum, rankings, {
-        label: options.label,
-        notes: options.notes,
-      })
-
-      saveSnapshot(snapshot)
+  // Pick up new episodes from anywhere, including automatic snapshots
+  useEffect(
+    () => subscribeToNewSnapshots((snapshot) => {
+      if (snapshot.boardId !== boardId) return
       setSnapshots((prev) =>
         [...prev, snapshot].sort((a, b) => a.episodeNumber - b.episodeNumber)
       )
-      setNextEpisodeNumber(episodeNum + 1)
+      setNextEpisodeNumber((next) => Math.max(next, snapshot.episodeNumber + 1))
+    }),
+    [boardId]
+  )
 
-      return snapshot
-    },
+  // State updates through the subscription above
+  const createSnapshotFn = useCallback(
+    (cards: Card[], options: NewSnapshotOptions = {}): Snapshot =>
+      saveNewSnapshot(boardId, cards, { ...options, episodeNumber: options.episodeNumber ?? nextEpisodeNumber }),
     [boardId, nextEpisodeNumber]
   )
 
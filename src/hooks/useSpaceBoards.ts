@@ -2,10 +2,11 @@
  * useSpaceBoards Hook
  *
  * Board CRUD within a space context.
- * Handles draft filtering, limit enforcement, and syncing.
+ * Handles draft filtering, limit enforcement, and syncing. Item match
+ * overrides for boards that leave the space are deleted with them.
  */
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import type { Board, Card } from '../lib/types'
 import type { SpaceBoard, SpaceCard } from '../lib/spaceTypes'
 import { SPACE_LIMITS } from '../lib/spaceTypes'
@@ -21,7 +22,7 @@ import {
   saveSpaceCards,
 } from '../lib/firestoreSpaces'
 import { getSpaceMembership } from '../lib/spaceStorage'
-import { getCardsByBoard } from '../lib/storage'
+import { deleteItemMatchOverridesByBoard, getCardsByBoard } from '../lib/storage'
 import { getImage } from '../lib/db'
 import { uploadCardImage, uploadBoardCoverImage } from '../lib/firebaseStorage'
 
@@ -45,6 +46,9 @@ export const useSpaceBoards = (spaceId: string | null): UseSpaceBoardsReturn =>
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
+  // Board IDs from the last load, to notice boards that left the space
+  const knownBoardIds = useRef<{ spaceId: string; ids: Set<string> } | null>(null)
+
   const deviceToken = getDeviceToken()
   const allowlisted = isAllowlisted(deviceToken)
 
@@ -59,6 +63,15 @@ export const useSpaceBoards = (spaceId: string | null): UseSpaceBoardsReturn =>
         uid ? getSpaceBoardsByOwner(spaceId, uid) : Promise.resolve([]),
       ])
 
+      const ids = new Set(all.map((b) => b.id))
+      const known = knownBoardIds.current
+      if (known?.spaceId === spaceId) {
+        for (const id of known.ids) {
+          if (!ids.has(id)) deleteItemMatchOverridesByBoard(id)
+        }
+      }
+      knownBoardIds.current = { spaceId, ids }
+
       // All boards: exclude drafts from other users
       setAllBoards(all.filter((b) => !b.isDraft || b.ownerId === uid))
       setMyBoards(mine)
@@ -182,6 +195,7 @@ export const useSpaceBoards = (spaceId: string | null): UseSpaceBoardsReturn =>
       if (!spaceId) return
       try {
         await deleteSpaceBoard(spaceId, boardId)
+        deleteItemMatchOverridesByBoard(boardId)
         await loadBoards()
       } catch (err) {
         console.error('Error deleting board:', err)
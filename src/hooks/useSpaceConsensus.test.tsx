@@ -0,0 +1,87 @@
+import { renderHook, waitFor, act } from '@testing-library/react'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { useSpaceConsensus } from './useSpaceConsensus'
+import { getSpaceCards } from '../lib/firestoreSpaces'
+import { createBoard } from '../lib/types'
+import type { SpaceBoard, SpaceCard } from '../lib/spaceTypes'
+
+vi.mock('../lib/firestoreSpaces', () => ({
+  getSpaceCards: vi.fn(),
+}))
+
+const spaceBoard = (id: string, ownerId: string, overrides: Partial<SpaceBoard> = {}): SpaceBoard => ({
+  ...createBoard('Singles Inferno'),
+  id,
+  templateId: 'si5',
+  createdAt: 1,
+  updatedAt: 1,
+  spaceId: 's1',
+  ownerId,
+  ownerName: ownerId,
+  isDraft: false,
+  syncedAt: 1,
+  ...overrides,
+})
+
+const spaceCard = (boardId: string, name: string): SpaceCard => ({
+  id: `${boardId}-${name}`,
+  boardId,
+  name,
+  nickname: '',
+  imageUrl: null,
+  thumbnailUrl: null,
+  rank: 1,
+  notes: '',
+  syncedAt: 1,
+})
+
+describe('useSpaceConsensus', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getSpaceCards).mockImplementation(async (_spaceId, boardId) => [spaceCard(boardId, 'Kim')])
+  })
+
+  it('loads the cards of each group member board', async () => {
+    const boards = [spaceBoard('a', 'alice'), spaceBoard('b', 'bob')]
+
+    const { result } = renderHook(() => useSpaceConsensus('s1', boards))
+
+    await waitFor(() => expect(result.current.memberBoards.si5).toHaveLength(2))
+    expect(result.current.memberBoards.si5.map((m) => m.cards[0].name)).toEqual(['Kim', 'Kim'])
+    expect(result.current.isLoading).toBe(false)
+  })
+
+  it('does not refetch when an unchanged board list is reloaded', async () => {
+    const { result, rerender } = renderHook(({ boards }) => useSpaceConsensus('s1', boards), {
+      initialProps: { boards: [spaceBoard('a', 'alice'), spaceBoard('b', 'bob')] },
+    })
+    await waitFor(() => expect(result.current.memberBoards.si5).toHaveLength(2))
+
+    rerender({ boards: [spaceBoard('a', 'alice'), spaceBoard('b', 'bob')] })
+    expect(getSpaceCards).toHaveBeenCalledTimes(2)
+
+    rerender({ boards: [spaceBoard('a', 'alice', { syncedAt: 2 }), spaceBoard('b', 'bob')] })
+    await waitFor(() => expect(getSpaceCards).toHaveBeenCalledTimes(4))
+  })
+
+  it('ignores a slower load for a space that is no longer shown', async () => {
+    const pending: ((cards: SpaceCard[]) => void)[] = []
+    vi.mocked(getSpaceCards).mockImplementation(async (spaceId, boardId) =>
+      spaceId === 's1'
+        ? new Promise<SpaceCard[]>((resolve) => pending.push(resolve))
+        : [spaceCard(boardId, 'Lee')]
+    )
+    const boards = [spaceBoard('a', 'alice'), spaceBoard('b', 'bob')]
+
+    const { result, rerender } = renderHook(({ spaceId }) => useSpaceConsensus(spaceId, boards), {
+      initialProps: { spaceId: 's1' },
+    })
+    rerender({ spaceId: 's2' })
+    await waitFor(() => expect(result.current.memberBoards.si5?.[0].cards[0].name).toBe('Lee'))
+
+    await act(async () => pending.forEach((resolve) => resolve([spaceCard('a', 'Stale')])))
+
+    expect(result.current.memberBoards.si5[0].cards[0].name).toBe('Lee')
+    expect(result.current.isLoading).toBe(false)
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * useSpaceConsensus Hook
+ *
+ * Loads the cards of every member board in a space's consensus groups
+ * (boards sharing a template or title), ready for aggregation.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import type { SpaceBoard } from '../lib/spaceTypes'
+import { getSpaceCards } from '../lib/firestoreSpaces'
+import { groupSpaceBoards, type ConsensusGroup, type MemberBoard } from '../lib/spaceConsensus'
+
+export interface UseSpaceConsensusReturn {
+  /** Groups ranked by two or more members */
+  groups: ConsensusGroup[]
+  /** Member boards with their cards, keyed by group key */
+  memberBoards: Record<string, MemberBoard[]>
+  /** Whether cards are loading */
+  isLoading: boolean
+  /** Error message if any */
+  error: string | null
+}
+
+/**
+ * Identifies each group's boards and their versions, so reloading an
+ * unchanged board list doesn't refetch every board's cards
+ */
+const getGroupsKey = (groups: ConsensusGroup[]): string =>
+  groups
+    .map((group) => `${group.key}:${group.boards.map((b) => `${b.id}@${b.updatedAt}/${b.syncedAt}`).join(',')}`)
+    .join('|')
+
+/**
+ * Load member boards for a space's consensus rankings
+ * @param spaceId - The space (null to skip loading)
+ * @param boards - The space's boards
+ */
+export const useSpaceConsensus = (
+  spaceId: string | null,
+  boards: SpaceBoard[]
+): UseSpaceConsensusReturn => {
+  const [memberBoards, setMemberBoards] = useState<Record<string, MemberBoard[]>>({})
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const latestGroups = useMemo(() => groupSpaceBoards(boards), [boards])
+  const groupsKey = getGroupsKey(latestGroups)
+  // The board list is rebuilt on every reload; only take new groups (and
+  // refetch cards) when a board was added, removed, edited or re-synced
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const groups = useMemo(() => latestGroups, [groupsKey])
+
+  // isCurrent() turns false once a newer load supersedes this one
+  const loadCards = useCallback(async (isCurrent: () => boolean) => {
+    if (!spaceId || groups.length === 0) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const loaded: Record<string, MemberBoard[]> = {}
+      for (const group of groups) {
+        loaded[group.key] = await Promise.all(
+          group.boards.map(async (board) => ({
+            board,
+            cards: await getSpaceCards(spaceId, board.id),
+          }))
+        )
+      }
+      if (isCurrent()) setMemberBoards(loaded)
+    } catch (err) {
+      console.error('Error loading consensus cards:', err)
+      if (isCurrent()) setError('Failed to load group rankings')
+    } finally {
+      if (isCurrent()) setIsLoading(false)
+    }
+  }, [spaceId, groups])
+
+  useEffect(() => {
+    let cancelled = false
+    loadCards(() => !cancelled)
+    return () => {
+      cancelled = true
+    }
+  }, [loadCards])
+
+  return { groups, memberBoards, isLoading, error }
+}
@@ -0,0 +1,149 @@
+import {
+  describeAutoSnapshotRule,
+  getDueAutoSnapshot,
+  getLastWeeklyOccurrence,
+  matchesSnapshot,
+  runAutoSnapshots,
+} from './autoSnapshots'
+import { getSnapshotsByBoard, saveBoard, saveCardsForBoard, saveSnapshot } from './storage'
+import {
+  buildRankingEntries,
+  createBoard,
+  createCard,
+  createSnapshot,
+  type AutoSnapshotRule,
+  type Board,
+  type Card,
+} from './types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Sunday 18 Oct 2026, 10:00 local time
+const SUNDAY_10AM = new Date(2026, 9, 18, 10).getTime()
+
+describe('autoSnapshots', () => {
+  let cards: Card[]
+
+  const boardWith = (rule: AutoSnapshotRule, createdAt = SUNDAY_10AM - 30 * DAY_MS): Board => ({
+    ...createBoard('Season 5'),
+    id: 'b1',
+    autoSnapshot: rule,
+    createdAt,
+  })
+
+  const snapshotAt = (createdAt: number, snapshotCards = cards) => ({
+    ...createSnapshot('b1', 1, buildRankingEntries(snapshotCards)),
+    createdAt,
+  })
+
+  beforeEach(() => {
+    localStorage.clear()
+    cards = [
+      { ...createCard('b1', 'Kim', 1), id: 'c1' },
+      { ...createCard('b1', 'Lee', 2), id: 'c2' },
+    ]
+  })
+
+  const reordered = () => [{ ...cards[1], rank: 1 }, { ...cards[0], rank: 2 }]
+
+  describe('getLastWeeklyOccurrence', () => {
+    it('returns today when the hour has passed', () => {
+      expect(getLastWeeklyOccurrence(0, 9, SUNDAY_10AM)).toBe(new Date(2026, 9, 18, 9).getTime())
+    })
+
+    it('goes back a week when today\'s hour is still ahead', () => {
+      expect(getLastWeeklyOccurrence(0, 21, SUNDAY_10AM)).toBe(new Date(2026, 9, 11, 21).getTime())
+    })
+
+    it('finds an earlier day this week', () => {
+      expect(getLastWeeklyOccurrence(5, 20, SUNDAY_10AM)).toBe(new Date(2026, 9, 16, 20).getTime())
+    })
+  })
+
+  describe('matchesSnapshot', () => {
+    it('compares card order', () => {
+      const snapshot = snapshotAt(0)
+
+      expect(matchesSnapshot(cards, snapshot)).toBe(true)
+      expect(matchesSnapshot(reordered(), snapshot)).toBe(false)
+      expect(matchesSnapshot([cards[0]], snapshot)).toBe(false)
+    })
+  })
+
+  describe('getDueAutoSnapshot', () => {
+    const weekly: AutoSnapshotRule = { kind: 'weekly', dayOfWeek: 5, hour: 20 }
+
+    it('is due once the weekly time passes after the last snapshot', () => {
+      const board = boardWith(weekly)
+      const lastWeek = snapshotAt(SUNDAY_10AM - 5 * DAY_MS, reordered())
+
+      expect(getDueAutoSnapshot(board, cards, [lastWeek], SUNDAY_10AM)).toEqual({ label: 'Week of Oct 16' })
+    })
+
+    it('is not due when a snapshot was saved since the weekly time', () => {
+      const board = boardWith(weekly)
+      const saturday = snapshotAt(SUNDAY_10AM - DAY_MS, reordered())
+
+      expect(getDueAutoSnapshot(board, cards, [saturday], SUNDAY_10AM)).toBeNull()
+    })
+
+    it('waits for the next weekly time on a board created since', () => {
+      const board = boardWith(weekly, SUNDAY_10AM - DAY_MS)
+
+      expect(getDueAutoSnapshot(board, cards, [], SUNDAY_10AM)).toBeNull()
+    })
+
+    it('is due when the last snapshot is older than the stale rule', () => {
+      const board = boardWith({ kind: 'stale', days: 3 })
+
+      expect(getDueAutoSnapshot(board, cards, [snapshotAt(SUNDAY_10AM - 3 * DAY_MS, reordered())], SUNDAY_10AM))
+        .toEqual({ label: 'Auto-saved Oct 18' })
+      expect(getDueAutoSnapshot(board, cards, [snapshotAt(SUNDAY_10AM - 2 * DAY_MS, reordered())], SUNDAY_10AM))
+        .toBeNull()
+    })
+
+    it('skips when the order matches the latest snapshot', () => {
+      const board = boardWith({ kind: 'stale', days: 1 })
+      const snapshots = [snapshotAt(SUNDAY_10AM - 20 * DAY_MS, reordered()), snapshotAt(SUNDAY_10AM - 10 * DAY_MS)]
+
+      expect(getDueAutoSnapshot(board, cards, snapshots, SUNDAY_10AM)).toBeNull()
+    })
+
+    it('ignores boards without a rule, trashed boards and empty boards', () => {
+      const stale: AutoSnapshotRule = { kind: 'stale', days: 1 }
+
+      expect(getDueAutoSnapshot({ ...boardWith(stale), autoSnapshot: undefined }, cards, [], SUNDAY_10AM)).toBeNull()
+      expect(getDueAutoSnapshot({ ...boardWith(stale), deletedAt: SUNDAY_10AM }, cards, [], SUNDAY_10AM)).toBeNull()
+      expect(getDueAutoSnapshot(boardWith(stale), [], [], SUNDAY_10AM)).toBeNull()
+    })
+  })
+
+  describe('describeAutoSnapshotRule', () => {
+    it('describes both kinds of rule', () => {
+      expect(describeAutoSnapshotRule({ kind: 'weekly', dayOfWeek: 0, hour: 21 })).toBe('Weekly on Sunday at 9 PM')
+      expect(describeAutoSnapshotRule({ kind: 'weekly', dayOfWeek: 1, hour: 0 })).toBe('Weekly on Monday at 12 AM')
+      expect(describeAutoSnapshotRule({ kind: 'stale', days: 1 })).toBe(
+        'When changed and 1 day since the last snapshot'
+      )
+    })
+  })
+
+  describe('runAutoSnapshots', () => {
+    it('saves due snapshots with the next episode number', () => {
+      saveBoard(boardWith({ kind: 'stale', days: 7 }))
+      saveBoard({ ...createBoard('No rule'), id: 'b2', createdAt: 0 })
+      saveCardsForBoard('b1', cards)
+      saveSnapshot({ ...snapshotAt(SUNDAY_10AM - 8 * DAY_MS, reordered()), episodeNumber: 4 })
+
+      const created = runAutoSnapshots(SUNDAY_10AM)
+
+      expect(created).toHaveLength(1)
+      expect(created[0]).toMatchObject({ boardId: 'b1', episodeNumber: 5, label: 'Auto-saved Oct 18' })
+      expect(created[0].rankings.map((r) => r.cardName)).toEqual(['Kim', 'Lee'])
+      expect(getSnapshotsByBoard('b1')).toHaveLength(2)
+
+      // Nothing changed since, so the next check saves nothing
+      expect(runAutoSnapshots(SUNDAY_10AM + 8 * DAY_MS)).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,122 @@
+/**
+ * Automatic Episode Snapshots
+ *
+ * Boards can opt into an AutoSnapshotRule (weekly on a day and hour, or
+ * whenever the last snapshot is N days old). Rules are evaluated on app
+ * open and whenever the app comes back to the foreground, by
+ * runAutoSnapshots(); a due snapshot is skipped if the order is identical
+ * to the latest one, so nothing is saved for untouched boards. Snapshots
+ * are saved like manual ones (saveNewSnapshot), so open pages update.
+ */
+
+import { buildRankingEntries, type AutoSnapshotRule, type Board, type Card, type Snapshot } from './types'
+import { getBoards, getCardsByBoard, getSnapshotsByBoard } from './storage'
+import { saveNewSnapshot } from './episodes'
+import { storageLogger as log } from './logger'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+/**
+ * A snapshot that should be saved now
+ */
+export interface DueAutoSnapshot {
+  label: string
+}
+
+const formatShortDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+
+/**
+ * Most recent scheduled time at or before `now` for a weekly rule (local time)
+ */
+export const getLastWeeklyOccurrence = (dayOfWeek: number, hour: number, now: number): number => {
+  const date = new Date(now)
+  date.setHours(hour, 0, 0, 0)
+  const daysBack = (date.getDay() - dayOfWeek + 7) % 7
+  date.setDate(date.getDate() - daysBack)
+  if (date.getTime() > now) date.setDate(date.getDate() - 7)
+  return date.getTime()
+}
+
+/**
+ * Whether the cards are in the same order as a snapshot
+ */
+export const matchesSnapshot = (cards: Card[], snapshot: Snapshot): boolean => {
+  const current = buildRankingEntries(cards)
+  const saved = [...snapshot.rankings].sort((a, b) => a.rank - b.rank)
+  return (
+    current.length === saved.length &&
+    current.every((entry, i) => entry.cardId === saved[i].cardId && entry.cardName === saved[i].cardName)
+  )
+}
+
+/**
+ * Check a board's rule; returns the snapshot to save, or null if none is due
+ */
+export const getDueAutoSnapshot = (
+  board: Board,
+  cards: Card[],
+  snapshots: Snapshot[],
+  now = Date.now()
+): DueAutoSnapshot | null => {
+  const rule = board.autoSnapshot
+  if (!rule || board.deletedAt !== null || cards.length === 0) return null
+
+  const latest = snapshots.reduce<Snapshot | null>(
+    (newest, s) => (!newest || s.createdAt > newest.createdAt ? s : newest),
+    null
+  )
+  if (latest && matchesSnapshot(cards, latest)) return null
+
+  switch (rule.kind) {
+    case 'weekly': {
+      const occurrence = getLastWeeklyOccurrence(rule.dayOfWeek, rule.hour, now)
+      // Boards created since the last occurrence wait for the next one
+      const lastSaved = latest?.createdAt ?? board.createdAt
+      return lastSaved < occurrence ? { label: `Week of ${formatShortDate(occurrence)}` } : null
+    }
+    case 'stale': {
+      const lastSaved = latest?.createdAt ?? board.createdAt
+      return now - lastSaved >= rule.days * DAY_MS ? { label: `Auto-saved ${formatShortDate(now)}` } : null
+    }
+  }
+}
+
+/**
+ * Human-readable rule, e.g. "Weekly on Sunday at 9 PM"
+ */
+export const describeAutoSnapshotRule = (rule: AutoSnapshotRule): string => {
+  switch (rule.kind) {
+    case 'weekly': {
+      const hour = rule.hour % 12 || 12
+      return `Weekly on ${DAY_NAMES[rule.dayOfWeek]} at ${hour} ${rule.hour < 12 ? 'AM' : 'PM'}`
+    }
+    case 'stale':
+      return `When changed and ${rule.days} ${rule.days === 1 ? 'day' : 'days'} since the last snapshot`
+  }
+}
+
+/**
+ * Save every due automatic snapshot
+ * @returns The snapshots created
+ */
+export const runAutoSnapshots = (now = Date.now()): Snapshot[] => {
+  const created: Snapshot[] = []
+
+  for (const board of getBoards()) {
+    if (!board.autoSnapshot) continue
+
+    const cards = getCardsByBoard(board.id)
+    const due = getDueAutoSnapshot(board, cards, getSnapshotsByBoard(board.id), now)
+    if (!due) continue
+
+    created.push(saveNewSnapshot(board.id, cards, { label: due.label }))
+  }
+
+  if (created.length > 0) {
+    log.info('auto_snapshots_saved', { count: created.length })
+  }
+  return created
+}
@@ -0,0 +1,138 @@
+import { exportBackupArchive, readBackupArchive, restoreArchiveImages } from './backupArchive'
+import { analyzeImport, applyImport } from './importMerge'
+import { getBoards, getCards, saveBoard, saveCard, exportData } from './storage'
+import { getImage, saveImage } from './db'
+import { createZip, readZip } from './zip'
+import { createBoard, createCard, type StoredImage } from './types'
+
+vi.mock('./db', () => ({
+  getImage: vi.fn(),
+  saveImage: vi.fn(),
+}))
+
+const stored = new Map<string, StoredImage>()
+
+const makeImage = (key: string, content: string): StoredImage => ({
+  key,
+  blob: new Blob([content], { type: 'image/jpeg' }),
+  thumbnail: new Blob([`thumb-${content}`], { type: 'image/jpeg' }),
+  mimeType: 'image/jpeg',
+  createdAt: 123,
+})
+
+const blobBytes = (blob: Blob): Promise<Uint8Array> =>
+  new Promise((resolve) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer))
+    reader.readAsArrayBuffer(blob)
+  })
+
+const blobText = async (blob: Blob) => new TextDecoder().decode(await blobBytes(blob))
+
+describe('backupArchive', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    localStorage.clear()
+    sessionStorage.clear()
+    stored.clear()
+    vi.mocked(getImage).mockImplementation(async (key) => stored.get(key) ?? null)
+    vi.mocked(saveImage).mockImplementation(async (image) => {
+      stored.set(image.key, image)
+    })
+  })
+
+  const seed = () => {
+    const board = { ...createBoard('Singles'), coverImage: 'cover' }
+    saveBoard(board)
+    saveCard(createCard(board.id, 'Kim', 1, { imageKey: 'photo', thumbnailKey: 'missing' }))
+    stored.set('cover', makeImage('cover', 'cover-bytes'))
+    stored.set('photo', makeImage('photo', 'photo-bytes'))
+    stored.set('unused', makeImage('unused', 'unused-bytes'))
+  }
+
+  it('exports data plus every referenced image that exists', async () => {
+    seed()
+    const archive = await exportBackupArchive()
+
+    const names = readZip(await blobBytes(archive)).map((e) => e.name).sort()
+    expect(names).toEqual([
+      'data.json',
+      'images.json',
+      'images/cover',
+      'images/photo',
+      'thumbnails/cover',
+      'thumbnails/photo',
+    ])
+  })
+
+  it('reads records for preview without writing anything', async () => {
+    seed()
+    const archive = await exportBackupArchive()
+    localStorage.clear()
+    stored.clear()
+
+    const result = await readBackupArchive(archive)
+
+    expect(result.success).toBe(true)
+    if (!result.success) return
+    expect(result.archive.data.boards[0].coverImage).toBe('cover')
+    expect(analyzeImport(result.archive.data).totals.boards.new).toBe(1)
+    expect(saveImage).not.toHaveBeenCalled()
+    expect(getBoards()).toEqual([])
+  })
+
+  it('restores images under their original keys, then merges records', async () => {
+    seed()
+    const archive = await exportBackupArchive()
+    localStorage.clear()
+    stored.clear()
+
+    const result = await readBackupArchive(archive)
+    if (!result.success) throw new Error(result.error)
+    const progress = vi.fn()
+    const imagesRestored = await restoreArchiveImages(result.archive, progress)
+    const report = applyImport(result.archive.data, { strategy: 'keep-newer' })
+
+    expect(imagesRestored).toBe(2)
+    expect(report.added.boards).toBe(1)
+    expect(getBoards()[0].coverImage).toBe('cover')
+    expect(getCards()[0].imageKey).toBe('photo')
+    expect(await blobText(stored.get('photo')!.blob)).toBe('photo-bytes')
+    expect(await blobText(stored.get('photo')!.thumbnail)).toBe('thumb-photo-bytes')
+    expect(progress).toHaveBeenCalledWith({ phase: 'images', done: 2, total: 2 })
+  })
+
+  it('writes nothing when a photo is missing from the archive', async () => {
+    seed()
+    const archive = await exportBackupArchive()
+    const entries = readZip(await blobBytes(archive))
+      .filter((e) => e.name !== 'thumbnails/photo')
+    localStorage.clear()
+    stored.clear()
+
+    const result = await readBackupArchive(new Blob([createZip(entries).slice().buffer]))
+
+    expect(result).toEqual({ success: false, error: expect.stringContaining('missing photo photo') })
+    expect(saveImage).not.toHaveBeenCalled()
+    expect(getBoards()).toEqual([])
+  })
+
+  it('writes nothing for data from a newer app version', async () => {
+    const data = JSON.stringify({ ...JSON.parse(exportData()), version: '99.0' })
+    const zip = createZip([
+      { name: 'data.json', data: new TextEncoder().encode(data) },
+      { name: 'images.json', data: new TextEncoder().encode('[]') },
+    ])
+
+    const result = await readBackupArchive(new Blob([zip.slice().buffer]))
+
+    expect(result).toEqual({ success: false, error: expect.stringContaining('newer version') })
+  })
+
+  it('rejects files that are not archives', async () => {
+    const result = await readBackupArchive(new Blob(['{"version":"1.2"}']))
+
+    expect(result.success).toBe(false)
+    expect(saveImage).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,223 @@
+/**
+ * Full Backup Archives
+ *
+ * A backup archive is a ZIP holding the regular JSON export plus every
+ * referenced photo, so a backup restored on another device keeps its
+ * images. Layout:
+ *
+ *   data.json            - exportData() output
+ *   images.json          - manifest of stored images (key, type, sizes)
+ *   images/<key>         - full resolution image
+ *   thumbnails/<key>     - thumbnail
+ *
+ * Import verifies checksums, the manifest and the data file before
+ * writing anything. The records then go through the same preview and
+ * conflict resolution as a JSON import (see importMerge); images are
+ * restored under their original keys once the user applies it.
+ */
+
+import { exportData, parseImportData, type ParsedImport } from './storage'
+import { getImage, saveImage } from './db'
+import { getReferencedImageKeys } from './storageUsage'
+import { createZip, readZip, type ZipEntry } from './zip'
+
+const DATA_FILE = 'data.json'
+const MANIFEST_FILE = 'images.json'
+const IMAGE_DIR = 'images/'
+const THUMBNAIL_DIR = 'thumbnails/'
+
+/**
+ * Manifest entry for one stored image
+ */
+export interface ArchivedImage {
+  key: string
+  mimeType: string
+  createdAt: number
+  imageBytes: number
+  thumbnailBytes: number
+}
+
+/**
+ * Progress through an export or import
+ */
+export interface ArchiveProgress {
+  phase: 'images' | 'verifying' | 'records'
+  done: number
+  total: number
+}
+
+export type ArchiveProgressHandler = (progress: ArchiveProgress) => void
+
+/**
+ * A verified archive, ready to preview and restore
+ */
+export interface BackupArchive {
+  /** Records, upgraded to the current version */
+  data: ParsedImport
+  /** Photos the archive holds */
+  images: ArchivedImage[]
+  files: Map<string, Uint8Array>
+}
+
+/**
+ * Read a blob's bytes (FileReader works everywhere Blob.arrayBuffer may not)
+ */
+const toBytes = (blob: Blob): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer))
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'))
+    reader.readAsArrayBuffer(blob)
+  })
+
+const encodeJson = (value: unknown): Uint8Array => new TextEncoder().encode(JSON.stringify(value))
+
+// ============ Export ============
+
+/**
+ * Build a backup archive of all data and referenced images
+ */
+export const exportBackupArchive = async (onProgress?: ArchiveProgressHandler): Promise<Blob> => {
+  const keys = [...getReferencedImageKeys()]
+  const entries: ZipEntry[] = [
+    { name: DATA_FILE, data: new TextEncoder().encode(exportData()) },
+  ]
+  const manifest: ArchivedImage[] = []
+
+  for (let i = 0; i < keys.length; i++) {
+    onProgress?.({ phase: 'images', done: i, total: keys.length })
+
+    const image = await getImage(keys[i])
+    if (!image) continue // Referenced but never stored (e.g. a failed upload)
+
+    const imageData = await toBytes(image.blob)
+    const thumbnailData = await toBytes(image.thumbnail)
+    entries.push(
+      { name: IMAGE_DIR + image.key, data: imageData },
+      { name: THUMBNAIL_DIR + image.key, data: thumbnailData }
+    )
+    manifest.push({
+      key: image.key,
+      mimeType: image.mimeType,
+      createdAt: image.createdAt,
+      imageBytes: imageData.length,
+      thumbnailBytes: thumbnailData.length,
+    })
+  }
+  onProgress?.({ phase: 'images', done: keys.length, total: keys.length })
+
+  entries.push({ name: MANIFEST_FILE, data: encodeJson(manifest) })
+  const zip = createZip(entries)
+  return new Blob([zip.buffer as ArrayBuffer], { type: 'application/zip' })
+}
+
+// ============ Import ============
+
+const isArchivedImage = (value: unknown): value is ArchivedImage => {
+  if (typeof value !== 'object' || value === null) return false
+  const v = value as Record<string, unknown>
+  return (
+    typeof v.key === 'string' &&
+    typeof v.mimeType === 'string' &&
+    typeof v.createdAt === 'number' &&
+    typeof v.imageBytes === 'number' &&
+    typeof v.thumbnailBytes === 'number'
+  )
+}
+
+/**
+ * Check the archive contents without writing anything
+ * Returns the parsed pieces, or an error message describing the problem.
+ */
+const verifyArchive = (entries: ZipEntry[]): BackupArchive | { error: string } => {
+  const files = new Map(entries.map((e) => [e.name, e.data]))
+  const decoder = new TextDecoder()
+
+  const dataFile = files.get(DATA_FILE)
+  const manifestFile = files.get(MANIFEST_FILE)
+  if (!dataFile || !manifestFile) {
+    return { error: 'Archive is missing its data or image list' }
+  }
+
+  // Make sure the records can be upgraded before any images are written
+  const parsed = parseImportData(decoder.decode(dataFile))
+  if (!parsed.success) {
+    return { error: parsed.error }
+  }
+
+  let manifest: unknown
+  try {
+    manifest = JSON.parse(decoder.decode(manifestFile))
+  } catch {
+    return { error: 'Archive image list is invalid' }
+  }
+
+  if (!Array.isArray(manifest) || !manifest.every(isArchivedImage)) {
+    return { error: 'Archive image list is invalid' }
+  }
+
+  for (const image of manifest) {
+    const imageData = files.get(IMAGE_DIR + image.key)
+    const thumbnailData = files.get(THUMBNAIL_DIR + image.key)
+    if (!imageData || !thumbnailData) {
+      return { error: `Archive is missing photo ${image.key}` }
+    }
+    if (imageData.length !== image.imageBytes || thumbnailData.length !== image.thumbnailBytes) {
+      return { error: `Photo ${image.key} is incomplete` }
+    }
+  }
+
+  return { data: parsed.data, images: manifest, files }
+}
+
+/**
+ * Read and verify a backup archive without writing anything
+ */
+export const readBackupArchive = async (
+  file: Blob,
+  onProgress?: ArchiveProgressHandler
+): Promise<{ success: true; archive: BackupArchive } | { success: false; error: string }> => {
+  onProgress?.({ phase: 'verifying', done: 0, total: 1 })
+
+  let entries: ZipEntry[]
+  try {
+    entries = readZip(await toBytes(file))
+  } catch (err) {
+    return { success: false, error: err instanceof Error ? err.message : 'Invalid archive' }
+  }
+
+  const verified = verifyArchive(entries)
+  if ('error' in verified) {
+    return { success: false, error: verified.error }
+  }
+  onProgress?.({ phase: 'verifying', done: 1, total: 1 })
+
+  return { success: true, archive: verified }
+}
+
+/**
+ * Save an archive's photos under their original keys
+ * Call before applying the records so restored cards find their images.
+ * @returns How many photos were restored
+ */
+export const restoreArchiveImages = async (
+  archive: BackupArchive,
+  onProgress?: ArchiveProgressHandler
+): Promise<number> => {
+  const { images, files } = archive
+  for (let i = 0; i < images.length; i++) {
+    onProgress?.({ phase: 'images', done: i, total: images.length })
+
+    const image = images[i]
+    await saveImage({
+      key: image.key,
+      blob: new Blob([files.get(IMAGE_DIR + image.key)!.slice().buffer], { type: image.mimeType }),
+      thumbnail: new Blob([files.get(THUMBNAIL_DIR + image.key)!.slice().buffer], { type: image.mimeType }),
+      mimeType: image.mimeType,
+      createdAt: image.createdAt,
+    })
+  }
+  onProgress?.({ phase: 'images', done: images.length, total: images.length })
+
+  return images.length
+}
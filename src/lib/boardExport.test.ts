@@ -0,0 +1,176 @@
+import {
+  boardExportFileName,
+  boardNameFromFileName,
+  createBoardFromCsv,
+  exportBoardCsv,
+  exportBoardMarkdown,
+  matchCsvRows,
+  parseBoardCsv,
+  parseCsv,
+  toCsv,
+  type CsvRankRow,
+} from './boardExport'
+import { getBoard, getCardsByBoard } from './storage'
+import { createBoard, createCard, createSnapshot, type Card } from './types'
+
+const row = (name: string, nickname = '', notes = ''): CsvRankRow => ({ name, nickname, notes })
+
+describe('boardExport', () => {
+  let cards: Card[]
+
+  beforeEach(() => {
+    localStorage.clear()
+    cards = [
+      { ...createCard('b1', 'Kim Min-ji', 1, { nickname: 'Minji', notes: 'Funny, kind' }), id: 'c1' },
+      { ...createCard('b1', 'Lee Jun', 2), id: 'c2' },
+      { ...createCard('b1', 'José', 3, { notes: 'Says "hi"' }), id: 'c3' },
+    ]
+  })
+
+  describe('CSV format', () => {
+    it('quotes fields with commas, quotes and newlines', () => {
+      expect(toCsv([['a', 'b,c'], ['say "hi"', 'two\nlines']])).toBe(
+        'a,"b,c"\r\n"say ""hi""","two\nlines"'
+      )
+    })
+
+    it('round-trips through parseCsv', () => {
+      const rows = [['Name', 'Notes'], ['Kim', 'a, "b"\nc'], ['', '']]
+      expect(parseCsv(toCsv(rows))).toEqual(rows)
+    })
+
+    it('accepts LF line endings and a byte-order mark', () => {
+      expect(parseCsv('\uFEFFName\nKim\n')).toEqual([['Name'], ['Kim']])
+    })
+  })
+
+  describe('exportBoardCsv', () => {
+    it('writes rank, name, nickname and notes in rank order', () => {
+      const csv = exportBoardCsv([cards[2], cards[0], cards[1]])
+
+      expect(csv.split('\r\n')).toEqual([
+        'Rank,Name,Nickname,Notes',
+        '1,Kim Min-ji,Minji,"Funny, kind"',
+        '2,Lee Jun,,',
+        '3,José,,"Says ""hi"""',
+      ])
+    })
+
+    it('adds a column per episode with each card\'s rank', () => {
+      const ep2 = createSnapshot('b1', 2, [
+        { cardId: 'c2', cardName: 'Lee Jun', rank: 1, thumbnailKey: null },
+        { cardId: 'old', cardName: 'Kim Min-ji', rank: 2, thumbnailKey: null },
+      ])
+      const ep1 = createSnapshot('b1', 1, [
+        { cardId: 'c1', cardName: 'Kim Min-ji', rank: 1, thumbnailKey: null },
+      ])
+
+      const [header, kim, lee, jose] = parseCsv(exportBoardCsv(cards, [ep2, ep1]))
+
+      expect(header.slice(4)).toEqual(['Episode 1', 'Episode 2'])
+      expect(kim.slice(4)).toEqual(['1', '2'])
+      expect(lee.slice(4)).toEqual(['', '1'])
+      expect(jose.slice(4)).toEqual(['', ''])
+    })
+  })
+
+  describe('exportBoardMarkdown', () => {
+    it('writes a numbered list under the board name', () => {
+      const board = { ...createBoard('Season 5'), id: 'b1' }
+
+      expect(exportBoardMarkdown(board, cards)).toBe(
+        '# Season 5\n\n' +
+          '1. **Kim Min-ji** (Minji) - Funny, kind\n' +
+          '2. **Lee Jun**\n' +
+          '3. **José** - Says "hi"\n'
+      )
+    })
+  })
+
+  describe('file names', () => {
+    it('slugifies the board name', () => {
+      expect(boardExportFileName(createBoard('Season 5: Girls!'), 'csv')).toBe('season-5-girls.csv')
+      expect(boardExportFileName(createBoard('???'), 'md')).toBe('board.md')
+      expect(boardExportFileName(createBoard('Season 5'), 'svg', 'trends')).toBe('season-5-trends.svg')
+    })
+
+    it('names imported boards after the file', () => {
+      expect(boardNameFromFileName('Season 5.csv')).toBe('Season 5')
+      expect(boardNameFromFileName('.csv')).toBe('Imported Board')
+    })
+  })
+
+  describe('parseBoardCsv', () => {
+    it('reads named columns and ignores extra ones', () => {
+      const result = parseBoardCsv('Notes,Name,Episode 1,Nickname\nnice,Kim,3,KK\n')
+
+      expect(result).toEqual({ success: true, rows: [row('Kim', 'KK', 'nice')], skippedLines: [] })
+    })
+
+    it('orders rows by the Rank column', () => {
+      const result = parseBoardCsv('Rank,Name\n3,Cho\n1,Kim\n2,Lee')
+
+      expect(result.success && result.rows.map((r) => r.name)).toEqual(['Kim', 'Lee', 'Cho'])
+    })
+
+    it('keeps file order when ranks are missing', () => {
+      const result = parseBoardCsv('Rank,Name\n3,Cho\n,Kim\n2,Lee')
+
+      expect(result.success && result.rows.map((r) => r.name)).toEqual(['Cho', 'Kim', 'Lee'])
+    })
+
+    it('reads files without a header', () => {
+      const namesOnly = parseBoardCsv('Kim\nLee')
+      const ranked = parseBoardCsv('2,Lee\n1,Kim,KK')
+
+      expect(namesOnly.success && namesOnly.rows.map((r) => r.name)).toEqual(['Kim', 'Lee'])
+      expect(ranked.success && ranked.rows).toEqual([row('Kim', 'KK'), row('Lee')])
+    })
+
+    it('reports rows without a name and skips blank lines', () => {
+      const result = parseBoardCsv('Rank,Name\n1,Kim\n\n3,\n4,Lee')
+
+      expect(result.success && result.skippedLines).toEqual([4])
+    })
+
+    it('rejects empty files', () => {
+      expect(parseBoardCsv(' \n')).toEqual({ success: false, error: 'The file is empty' })
+      expect(parseBoardCsv('Rank,Name\n1,')).toEqual({ success: false, error: 'No named rows found' })
+    })
+  })
+
+  describe('matchCsvRows', () => {
+    it('matches names ignoring case, spacing and accents', () => {
+      const result = matchCsvRows(cards, [row('jose'), row('  LEE   jun '), row('Kim Min-ji')])
+
+      expect(result.cardIds).toEqual(['c3', 'c2', 'c1'])
+      expect(result.unmatched).toEqual([])
+      expect(result.unlisted).toEqual([])
+    })
+
+    it('falls back to nicknames', () => {
+      expect(matchCsvRows(cards, [row('minji')]).cardIds).toEqual(['c1'])
+    })
+
+    it('reports unmatched rows, duplicates and unlisted cards', () => {
+      const result = matchCsvRows(cards, [row('Lee Jun'), row('Park'), row('Lee Jun')])
+
+      expect(result.cardIds).toEqual(['c2'])
+      expect(result.unmatched).toEqual(['Park', 'Lee Jun'])
+      expect(result.unlisted).toEqual(['Kim Min-ji', 'José'])
+    })
+  })
+
+  describe('createBoardFromCsv', () => {
+    it('creates a board with cards in row order', () => {
+      const board = createBoardFromCsv('Imported', [row('Kim', 'KK', 'note'), row('Lee')])
+
+      expect(getBoard(board.id)?.name).toBe('Imported')
+      const saved = getCardsByBoard(board.id)
+      expect(saved.map((c) => [c.rank, c.name, c.nickname, c.notes])).toEqual([
+        [1, 'Kim', 'KK', 'note'],
+        [2, 'Lee', '', ''],
+      ])
+    })
+  })
+})
@@ -0,0 +1,320 @@
+/**
+ * Single-Board CSV & Markdown Export/Import
+ *
+ * Exports one board as a spreadsheet-friendly CSV (rank, name, nickname,
+ * notes, then one column per saved episode) or as a numbered Markdown
+ * list for pasting into chat. A CSV can be imported as a new board, or
+ * used to reorder an existing board by matching card names.
+ */
+
+import { createBoard, createCard, type Board, type Card, type Snapshot } from './types'
+import { saveBoard, saveCardsForBoard } from './storage'
+
+/**
+ * One ranked row read from a CSV file
+ */
+export interface CsvRankRow {
+  name: string
+  nickname: string
+  notes: string
+}
+
+export type ParseCsvResult =
+  | {
+      success: true
+      rows: CsvRankRow[]
+      /** 1-based line numbers of rows skipped for having no name */
+      skippedLines: number[]
+    }
+  | { success: false; error: string }
+
+/**
+ * Result of matching CSV rows against a board's cards
+ */
+export interface CsvMatchResult {
+  /** Matched card IDs in CSV order */
+  cardIds: string[]
+  /** CSV names that matched no card */
+  unmatched: string[]
+  /** Names of cards the CSV didn't mention (they keep their order at the bottom) */
+  unlisted: string[]
+}
+
+const CSV_COLUMNS = ['Rank', 'Name', 'Nickname', 'Notes']
+
+// ============ CSV Format ============
+
+/**
+ * Quote a CSV field if it contains a comma, quote or newline
+ */
+const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+/**
+ * Serialize rows as CSV (RFC 4180, CRLF line endings)
+ */
+export const toCsv = (rows: string[][]): string =>
+  rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n')
+
+/**
+ * Parse CSV text into rows, handling quoted fields with embedded
+ * commas, quotes and newlines
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  // Spreadsheet apps often prepend a byte-order mark
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+// ============ Export ============
+
+/**
+ * Export a board's cards as CSV, with one column per saved episode
+ * holding each card's rank in that snapshot
+ */
+export const exportBoardCsv = (cards: Card[], snapshots: Snapshot[] = []): string => {
+  const sortedCards = [...cards].sort((a, b) => a.rank - b.rank)
+  const sortedSnapshots = [...snapshots].sort((a, b) => a.episodeNumber - b.episodeNumber)
+
+  const header = [...CSV_COLUMNS, ...sortedSnapshots.map((s) => s.label)]
+  const rows = sortedCards.map((card) => [
+    String(card.rank),
+    card.name,
+    card.nickname,
+    card.notes,
+    ...sortedSnapshots.map((snapshot) => {
+      // Fall back to the name for cards recreated since the snapshot
+      const entry =
+        snapshot.rankings.find((r) => r.cardId === card.id) ??
+        snapshot.rankings.find((r) => r.cardName === card.name)
+      return entry ? String(entry.rank) : ''
+    }),
+  ])
+
+  return toCsv([header, ...rows])
+}
+
+/**
+ * Export a board as a numbered Markdown list
+ */
+export const exportBoardMarkdown = (board: Board, cards: Card[]): string => {
+  const lines = [...cards]
+    .sort((a, b) => a.rank - b.rank)
+    .map((card, index) => {
+      const nickname = card.nickname ? ` (${card.nickname})` : ''
+      const notes = card.notes ? ` - ${card.notes.replace(/\s*\n\s*/g, ' ')}` : ''
+      return `${index + 1}. **${card.name}**${nickname}${notes}`
+    })
+
+  return [`# ${board.name}`, '', ...lines, ''].join('\n')
+}
+
+/**
+ * File name for an exported board, e.g. "season-5-rankings.csv" or,
+ * with a suffix, "season-5-rankings-trends.svg"
+ */
+export const boardExportFileName = (
+  board: Pick<Board, 'name'>,
+  extension: 'csv' | 'md' | 'png' | 'svg',
+  suffix?: string
+): string => {
+  const slug = board.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  return `${slug || 'board'}${suffix ? `-${suffix}` : ''}.${extension}`
+}
+
+// ============ Import ============
+
+/**
+ * Read ranked rows from CSV text
+ *
+ * A header row naming a "Name" column is recognised along with optional
+ * Rank, Nickname and Notes columns (extra columns such as exported
+ * episodes are ignored). Without a header the first column is the name,
+ * or the second if the first is a number. Rows are ordered by the Rank
+ * column when every row has one, otherwise by their order in the file.
+ */
+export const parseBoardCsv = (text: string): ParseCsvResult => {
+  const lines = parseCsv(text)
+  if (lines.every((line) => line.every((cell) => !cell.trim()))) {
+    return { success: false, error: 'The file is empty' }
+  }
+
+  const header = lines[0].map((cell) => cell.trim().toLowerCase())
+  const hasHeader = header.includes('name')
+  const isNumber = (value: string | undefined) => !!value?.trim() && !isNaN(Number(value))
+
+  const columns = hasHeader
+    ? {
+        rank: header.indexOf('rank'),
+        name: header.indexOf('name'),
+        nickname: header.indexOf('nickname'),
+        notes: header.indexOf('notes'),
+      }
+    : isNumber(lines[0][0]) && lines[0].length > 1
+      ? { rank: 0, name: 1, nickname: 2, notes: 3 }
+      : { rank: -1, name: 0, nickname: 1, notes: 2 }
+
+  const cell = (line: string[], index: number) => (index >= 0 ? (line[index] ?? '').trim() : '')
+
+  const ranked: { row: CsvRankRow; rank: string }[] = []
+  const skippedLines: number[] = []
+  const dataLines = hasHeader ? lines.slice(1) : lines
+
+  dataLines.forEach((line, i) => {
+    if (line.every((value) => !value.trim())) return // Blank line
+    const name = cell(line, columns.name)
+    if (!name) {
+      skippedLines.push(i + (hasHeader ? 2 : 1))
+      return
+    }
+    ranked.push({
+      row: { name, nickname: cell(line, columns.nickname), notes: cell(line, columns.notes) },
+      rank: cell(line, columns.rank),
+    })
+  })
+
+  if (ranked.length === 0) {
+    return { success: false, error: 'No named rows found' }
+  }
+
+  // Array.sort is stable, so ties keep file order
+  if (ranked.every((r) => isNumber(r.rank))) {
+    ranked.sort((a, b) => Number(a.rank) - Number(b.rank))
+  }
+
+  return { success: true, rows: ranked.map((r) => r.row), skippedLines }
+}
+
+/**
+ * Normalize a name for matching: case, spacing and accents are ignored
+ */
+export const normalizeName = (name: string): string =>
+  name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+
+/**
+ * Match CSV rows to a board's cards by name (or nickname)
+ * Each card matches at most one row; duplicate rows are reported as unmatched.
+ */
+export const matchCsvRows = (cards: Card[], rows: CsvRankRow[]): CsvMatchResult => {
+  const available = [...cards].sort((a, b) => a.rank - b.rank)
+  const cardIds: string[] = []
+  const unmatched: string[] = []
+
+  const take = (predicate: (card: Card) => boolean): Card | undefined => {
+    const index = available.findIndex(predicate)
+    return index === -1 ? undefined : available.splice(index, 1)[0]
+  }
+
+  for (const row of rows) {
+    const name = normalizeName(row.name)
+    const card =
+      take((c) => normalizeName(c.name) === name) ??
+      take((c) => !!c.nickname && normalizeName(c.nickname) === name)
+
+    if (card) {
+      cardIds.push(card.id)
+    } else {
+      unmatched.push(row.name)
+    }
+  }
+
+  return { cardIds, unmatched, unlisted: available.map((c) => c.name) }
+}
+
+/**
+ * Create a new board with one card per CSV row, in order
+ */
+export const createBoardFromCsv = (name: string, rows: CsvRankRow[]): Board => {
+  const board = createBoard(name)
+  const cards = rows.map((row, index) =>
+    createCard(board.id, row.name, index + 1, { nickname: row.nickname, notes: row.notes })
+  )
+
+  saveBoard(board)
+  saveCardsForBoard(board.id, cards)
+  return board
+}
+
+/**
+ * Board name for an imported file, e.g. "Season 5.csv" -> "Season 5"
+ */
+export const boardNameFromFileName = (fileName: string): string =>
+  fileName.replace(/\.[^.]+$/, '').trim() || 'Imported Board'
+
+// ============ Files ============
+
+/**
+ * Save text as a downloaded file
+ */
+export const downloadTextFile = (content: string, fileName: string, type: string): void => {
+  downloadBlob(new Blob([content], { type }), fileName)
+}
+
+/**
+ * Save a blob as a downloaded file
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Read a picked file as text
+ */
+export const readFileText = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'))
+    reader.readAsText(file)
+  })
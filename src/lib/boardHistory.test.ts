@@ -0,0 +1,135 @@
+import {
+  MAX_HISTORY_STEPS,
+  getBoardHistory,
+  saveBoardHistory,
+  clearBoardHistory,
+  getAllHistorySteps,
+  captureBoardState,
+  applyBoardState,
+  pushHistoryStep,
+  shiftHistoryStep,
+  type BoardHistory,
+  type BoardState,
+  type HistoryStep,
+} from './boardHistory'
+import { saveBoard, saveCardsForBoard, getBoard, getCardsByBoard } from './storage'
+import { createBoard, createCard } from './types'
+
+const makeState = (name: string): BoardState => {
+  const board = { ...createBoard(name), id: 'b1' }
+  return { board, cards: [createCard('b1', `${name} card`, 1)] }
+}
+
+const makeStep = (label: string, name = label): HistoryStep => ({
+  label,
+  state: makeState(name),
+  createdAt: 1,
+})
+
+const EMPTY: BoardHistory = { undo: [], redo: [] }
+
+describe('boardHistory', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    sessionStorage.clear()
+  })
+
+  describe('persistence', () => {
+    it('returns empty history for an unknown board', () => {
+      expect(getBoardHistory('nope')).toEqual(EMPTY)
+    })
+
+    it('round-trips history through sessionStorage', () => {
+      const history = pushHistoryStep(EMPTY, makeStep('Edited board'))
+      saveBoardHistory('b1', history)
+
+      expect(getBoardHistory('b1')).toEqual(history)
+    })
+
+    it('ignores corrupt data', () => {
+      sessionStorage.setItem('singles-infernal-rank:history:b1', '{"undo": 5}')
+      expect(getBoardHistory('b1')).toEqual(EMPTY)
+    })
+
+    it('clears a board history', () => {
+      saveBoardHistory('b1', pushHistoryStep(EMPTY, makeStep('One')))
+      clearBoardHistory('b1')
+      expect(getBoardHistory('b1')).toEqual(EMPTY)
+    })
+
+    it('lists steps across all boards', () => {
+      saveBoardHistory('b1', pushHistoryStep(EMPTY, makeStep('One')))
+      saveBoardHistory('b2', { undo: [makeStep('Two')], redo: [makeStep('Three')] })
+
+      expect(getAllHistorySteps().map((s) => s.label).sort()).toEqual(['One', 'Three', 'Two'])
+    })
+  })
+
+  describe('board state', () => {
+    it('captures and re-applies a board with its cards', () => {
+      const state = makeState('Original')
+      applyBoardState(state)
+
+      const captured = captureBoardState('b1')
+      expect(captured?.board.name).toBe('Original')
+      expect(captured?.cards.map((c) => c.name)).toEqual(['Original card'])
+
+      saveBoard({ ...state.board, name: 'Changed' })
+      saveCardsForBoard('b1', [])
+      applyBoardState(captured!)
+
+      expect(getBoard('b1')?.name).toBe('Original')
+      expect(getCardsByBoard('b1')).toHaveLength(1)
+    })
+
+    it('returns null for a missing board', () => {
+      expect(captureBoardState('missing')).toBeNull()
+    })
+  })
+
+  describe('stacks', () => {
+    it('pushing a step clears redo', () => {
+      const history = pushHistoryStep({ undo: [], redo: [makeStep('Old')] }, makeStep('New'))
+      expect(history.undo.map((s) => s.label)).toEqual(['New'])
+      expect(history.redo).toEqual([])
+    })
+
+    it('caps the undo stack', () => {
+      let history = EMPTY
+      for (let i = 0; i < MAX_HISTORY_STEPS + 5; i++) {
+        history = pushHistoryStep(history, makeStep(`Step ${i}`))
+      }
+      expect(history.undo).toHaveLength(MAX_HISTORY_STEPS)
+      expect(history.undo[0].label).toBe('Step 5')
+    })
+
+    it('undo moves the current state onto redo under the same label', () => {
+      const history = pushHistoryStep(EMPTY, makeStep('Moved A to #1', 'before'))
+      const result = shiftHistoryStep(history, 'undo', makeState('after'))!
+
+      expect(result.step.state.board.name).toBe('before')
+      expect(result.history.undo).toEqual([])
+      expect(result.history.redo).toHaveLength(1)
+      expect(result.history.redo[0].label).toBe('Moved A to #1')
+      expect(result.history.redo[0].state.board.name).toBe('after')
+    })
+
+    it('redo moves the current state back onto undo', () => {
+      const undone = shiftHistoryStep(
+        pushHistoryStep(EMPTY, makeStep('Edit', 'before')),
+        'undo',
+        makeState('after')
+      )!
+      const redone = shiftHistoryStep(undone.history, 'redo', makeState('before'))!
+
+      expect(redone.step.state.board.name).toBe('after')
+      expect(redone.history.redo).toEqual([])
+      expect(redone.history.undo[0].state.board.name).toBe('before')
+    })
+
+    it('returns null when the stack is empty', () => {
+      expect(shiftHistoryStep(EMPTY, 'undo', makeState('x'))).toBeNull()
+      expect(shiftHistoryStep(EMPTY, 'redo', makeState('x'))).toBeNull()
+    })
+  })
+})
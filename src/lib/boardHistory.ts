@@ -0,0 +1,165 @@
+/**
+ * Board Edit History (Undo/Redo)
+ *
+ * Each history step stores the full board + card state to restore, so
+ * undo works the same way for every kind of edit (reorders, card
+ * add/edit/delete, photo changes, board edits). Undoing captures the
+ * current state onto the redo stack before restoring, and vice versa.
+ *
+ * History is kept per board in sessionStorage: it survives reloads for
+ * the current session but not a closed tab.
+ */
+
+import type { Board, Card } from './types'
+import { getBoard, getCardsByBoard, saveBoard, saveCardsForBoard } from './storage'
+import { storageLogger as log } from './logger'
+
+const HISTORY_KEY_PREFIX = 'singles-infernal-rank:history:'
+
+/** Maximum number of steps kept on each stack */
+export const MAX_HISTORY_STEPS = 50
+
+/**
+ * Everything needed to put a board back the way it was
+ */
+export interface BoardState {
+  board: Board
+  cards: Card[]
+}
+
+/**
+ * One undoable (or redoable) step
+ */
+export interface HistoryStep {
+  /** What the edit did, e.g. "Moved Kim Go Eun to #3" */
+  label: string
+  /** State to restore when this step is applied */
+  state: BoardState
+  createdAt: number
+}
+
+/**
+ * Undo and redo stacks for a board (most recent last)
+ */
+export interface BoardHistory {
+  undo: HistoryStep[]
+  redo: HistoryStep[]
+}
+
+const EMPTY_HISTORY: BoardHistory = { undo: [], redo: [] }
+
+const historyKey = (boardId: string) => `${HISTORY_KEY_PREFIX}${boardId}`
+
+/**
+ * Load a board's history for this session
+ */
+export const getBoardHistory = (boardId: string): BoardHistory => {
+  try {
+    const data = sessionStorage.getItem(historyKey(boardId))
+    if (!data) return EMPTY_HISTORY
+
+    const parsed = JSON.parse(data)
+    if (!Array.isArray(parsed?.undo) || !Array.isArray(parsed?.redo)) return EMPTY_HISTORY
+    return parsed as BoardHistory
+  } catch (err) {
+    log.error('history_parse_failed', { error_message: String(err) })
+    return EMPTY_HISTORY
+  }
+}
+
+/**
+ * Save a board's history for this session
+ * History is a convenience, so a full sessionStorage only drops old steps.
+ */
+export const saveBoardHistory = (boardId: string, history: BoardHistory): void => {
+  try {
+    sessionStorage.setItem(historyKey(boardId), JSON.stringify(history))
+  } catch (err) {
+    log.warn('history_save_failed', { error_message: String(err) })
+    const trimmed = {
+      undo: history.undo.slice(-Math.ceil(history.undo.length / 2)),
+      redo: [],
+    }
+    try {
+      sessionStorage.setItem(historyKey(boardId), JSON.stringify(trimmed))
+    } catch {
+      sessionStorage.removeItem(historyKey(boardId))
+    }
+  }
+}
+
+/**
+ * Forget a board's history (e.g. when the board is deleted)
+ */
+export const clearBoardHistory = (boardId: string): void => {
+  sessionStorage.removeItem(historyKey(boardId))
+}
+
+/**
+ * All history steps across boards in this session
+ * Used to keep images referenced by undo steps from being cleaned up.
+ */
+export const getAllHistorySteps = (): HistoryStep[] => {
+  const steps: HistoryStep[] = []
+  for (let i = 0; i < sessionStorage.length; i++) {
+    const key = sessionStorage.key(i)
+    if (!key?.startsWith(HISTORY_KEY_PREFIX)) continue
+    const history = getBoardHistory(key.slice(HISTORY_KEY_PREFIX.length))
+    steps.push(...history.undo, ...history.redo)
+  }
+  return steps
+}
+
+/**
+ * Capture a board's current state from storage
+ */
+export const captureBoardState = (boardId: string): BoardState | null => {
+  const board = getBoard(boardId)
+  if (!board) return null
+  return { board, cards: getCardsByBoard(boardId) }
+}
+
+/**
+ * Write a captured state back to storage
+ */
+export const applyBoardState = (state: BoardState): void => {
+  saveBoard(state.board)
+  saveCardsForBoard(state.board.id, state.cards)
+}
+
+/**
+ * Record a new step; clears the redo stack
+ */
+export const pushHistoryStep = (history: BoardHistory, step: HistoryStep): BoardHistory => ({
+  undo: [...history.undo, step].slice(-MAX_HISTORY_STEPS),
+  redo: [],
+})
+
+/**
+ * Move the latest step from one stack to the other
+ *
+ * @param from - Stack to take the step from ('undo' or 'redo')
+ * @param current - Current state, saved on the opposite stack under the same label
+ * @returns The step to apply and the updated history, or null if the stack is empty
+ */
+export const shiftHistoryStep = (
+  history: BoardHistory,
+  from: 'undo' | 'redo',
+  current: BoardState
+): { step: HistoryStep; history: BoardHistory } | null => {
+  const source = history[from]
+  const step = source[source.length - 1]
+  if (!step) return null
+
+  const opposite: HistoryStep = { label: step.label, state: current, createdAt: Date.now() }
+  const remaining = source.slice(0, -1)
+  const target = from === 'undo' ? history.redo : history.undo
+  const pushed = [...target, opposite].slice(-MAX_HISTORY_STEPS)
+
+  return {
+    step,
+    history: from === 'undo'
+      ? { undo: remaining, redo: pushed }
+      : { undo: pushed, redo: remaining },
+  }
+}
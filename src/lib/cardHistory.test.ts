@@ -0,0 +1,113 @@
+import { findCardOnBoards, getCardHistory, type SpaceBoardCards } from './cardHistory'
+import { createBoard, createCard, createSnapshot, type Card } from './types'
+import type { SpaceCard } from './spaceTypes'
+
+describe('cardHistory', () => {
+  describe('getCardHistory', () => {
+    const card: Card = { ...createCard('b1', 'Kim', 2), id: 'kim' }
+
+    const snapshot = (episodeNumber: number, order: string[], notes = '') => ({
+      ...createSnapshot(
+        'b1',
+        episodeNumber,
+        order.map((cardId, i) => ({ cardId, cardName: cardId, rank: i + 1, thumbnailKey: null })),
+        { notes }
+      ),
+      id: `s${episodeNumber}`,
+    })
+
+    it('lists every episode oldest first with rank, movement and notes', () => {
+      const history = getCardHistory(card, [
+        snapshot(3, ['lee', 'kim', 'cho', 'park'], 'Dramatic date'),
+        snapshot(1, ['cho', 'lee', 'kim']),
+        snapshot(2, ['lee', 'cho']),
+        snapshot(4, ['kim', 'lee']),
+      ])
+
+      expect(history.episodes.map((e) => [e.episodeNumber, e.rank, e.total, e.movement])).toEqual([
+        [1, 3, 3, null],
+        [2, null, 2, null],
+        [3, 2, 4, 1],
+        [4, 1, 2, 1],
+      ])
+      expect(history.episodes[2]).toMatchObject({ snapshotId: 's3', label: 'Episode 3', notes: 'Dramatic date' })
+    })
+
+    it('carries the card\'s own note from each snapshot', () => {
+      const withNote = snapshot(1, ['kim'])
+      withNote.rankings[0].note = 'Stole the show'
+
+      expect(getCardHistory(card, [withNote, snapshot(2, ['kim'])]).episodes.map((e) => e.cardNote)).toEqual([
+        'Stole the show',
+        undefined,
+      ])
+    })
+
+    it('includes the current rank in best and worst', () => {
+      expect(getCardHistory(card, [snapshot(1, ['kim'])])).toMatchObject({
+        currentRank: 2,
+        bestRank: 1,
+        worstRank: 2,
+      })
+      expect(getCardHistory({ ...card, rank: 5 }, [])).toMatchObject({
+        episodes: [],
+        currentRank: 5,
+        bestRank: 5,
+        worstRank: 5,
+      })
+    })
+  })
+
+  describe('findCardOnBoards', () => {
+    const spaceCard = (name: string, rank: number, nickname = ''): SpaceCard => ({
+      id: `${name}-${rank}`,
+      boardId: 'x',
+      name,
+      nickname,
+      imageUrl: null,
+      thumbnailUrl: null,
+      rank,
+      notes: '',
+      syncedAt: 0,
+    })
+
+    const memberBoard = (ownerName: string, cards: SpaceCard[], spaceName = 'Friends'): SpaceBoardCards => ({
+      spaceName,
+      board: {
+        ...createBoard('Season 5'),
+        id: `${ownerName}-board`,
+        spaceId: 's1',
+        ownerId: ownerName,
+        ownerName,
+        isDraft: false,
+        syncedAt: 0,
+      },
+      cards,
+    })
+
+    it('finds the card by name, ignoring case and accents, best rank first', () => {
+      const rankings = findCardOnBoards({ name: 'Jose Kim', nickname: '' }, [
+        memberBoard('Ana', [spaceCard('Lee', 1), spaceCard('josé  kim', 2), spaceCard('Cho', 3)]),
+        memberBoard('Ben', [spaceCard('Jose Kim', 1), spaceCard('Lee', 2)], 'Work'),
+        memberBoard('Cat', [spaceCard('Lee', 1)]),
+      ])
+
+      expect(rankings).toEqual([
+        { spaceName: 'Work', boardId: 'Ben-board', boardName: 'Season 5', ownerName: 'Ben', rank: 1, total: 2 },
+        { spaceName: 'Friends', boardId: 'Ana-board', boardName: 'Season 5', ownerName: 'Ana', rank: 2, total: 3 },
+      ])
+    })
+
+    it('falls back to nicknames, preferring an exact name match', () => {
+      const rankings = findCardOnBoards({ name: 'Kim Min', nickname: 'Minnie' }, [
+        memberBoard('Ana', [spaceCard('Someone', 1, 'Kim Min'), spaceCard('Kim Min', 4)]),
+        memberBoard('Ben', [spaceCard('Lee', 1), spaceCard('Minnie', 2)]),
+      ])
+
+      expect(rankings.map((r) => [r.ownerName, r.rank])).toEqual([
+        ['Ben', 2],
+        ['Ana', 4],
+      ])
+    })
+  })
+})
@@ -0,0 +1,129 @@
+/**
+ * Card History
+ *
+ * One card's record on a board: its rank and the episode notes for every
+ * snapshot, its best / worst / current rank, and where it sits on other
+ * members' matching boards in shared spaces.
+ */
+
+import type { Card, Snapshot } from './types'
+import type { SpaceBoard, SpaceCard } from './spaceTypes'
+import { normalizeName } from './boardExport'
+
+// ============ Episodes ============
+
+/**
+ * A card's place in one snapshot
+ */
+export interface CardEpisode {
+  snapshotId: string
+  episodeNumber: number
+  label: string
+  /** Null when the card wasn't on the board for this episode */
+  rank: number | null
+  /** Cards ranked in this episode */
+  total: number
+  /** Places gained since the card's previous episode (null if none) */
+  movement: number | null
+  /** Episode notes written when the snapshot was saved */
+  notes: string
+  /** Note on this card saved with the snapshot */
+  cardNote?: string
+  createdAt: number
+}
+
+export interface CardHistory {
+  /** Every snapshot, oldest first */
+  episodes: CardEpisode[]
+  currentRank: number
+  /** Best and worst across snapshots and the current order */
+  bestRank: number
+  worstRank: number
+}
+
+/**
+ * Build a card's history from its board's snapshots
+ */
+export const getCardHistory = (card: Card, snapshots: Snapshot[]): CardHistory => {
+  let previousRank: number | null = null
+  const episodes = [...snapshots]
+    .sort((a, b) => a.episodeNumber - b.episodeNumber)
+    .map((snapshot): CardEpisode => {
+      const entry = snapshot.rankings.find((r) => r.cardId === card.id)
+      const rank = entry?.rank ?? null
+      const movement = rank !== null && previousRank !== null ? previousRank - rank : null
+      if (rank !== null) previousRank = rank
+
+      return {
+        snapshotId: snapshot.id,
+        episodeNumber: snapshot.episodeNumber,
+        label: snapshot.label,
+        rank,
+        total: snapshot.rankings.length,
+        movement,
+        notes: snapshot.notes,
+        cardNote: entry?.note,
+        createdAt: snapshot.createdAt,
+      }
+    })
+
+  const ranks = [card.rank, ...episodes.flatMap((e) => (e.rank === null ? [] : [e.rank]))]
+
+  return {
+    episodes,
+    currentRank: card.rank,
+    bestRank: Math.min(...ranks),
+    worstRank: Math.max(...ranks),
+  }
+}
+
+// ============ Spaces ============
+
+/**
+ * A member's board in a space, with its cards
+ */
+export interface SpaceBoardCards {
+  spaceName: string
+  board: SpaceBoard
+  cards: SpaceCard[]
+}
+
+/**
+ * Where a card sits on another member's board
+ */
+export interface MemberCardRank {
+  spaceName: string
+  boardId: string
+  boardName: string
+  ownerName: string
+  rank: number
+  total: number
+}
+
+/**
+ * Find a card on other members' boards by name (or nickname), ignoring
+ * case, spacing and accents. Boards without the card are skipped.
+ */
+export const findCardOnBoards = (
+  card: Pick<Card, 'name' | 'nickname'>,
+  boards: SpaceBoardCards[]
+): MemberCardRank[] => {
+  const names = [card.name, card.nickname].filter(Boolean).map(normalizeName)
+  const matches = (c: SpaceCard) =>
+    names.includes(normalizeName(c.name)) || (!!c.nickname && names.includes(normalizeName(c.nickname)))
+
+  return boards.flatMap(({ spaceName, board, cards }) => {
+    // An exact name match wins over a nickname match
+    const match = cards.find((c) => normalizeName(c.name) === names[0]) ?? cards.find(matches)
+    if (!match) return []
+
+    return [{
+      spaceName,
+      boardId: board.id,
+      boardName: board.name,
+      ownerName: board.ownerName,
+      rank: match.rank,
+      total: cards.length,
+    }]
+  }).sort((a, b) => a.rank - b.rank)
+}
@@ -5,10 +5,16 @@ import {
   getImages,
   deleteImage,
   getAllImageKeys,
+  getImageInfo,
+  deleteImages,
   clearAllImages,
   deleteDB,
+  getAllRecords,
+  getRecordsByBoard,
+  writeRecords,
+  clearRecords,
 } from './db'
-import type { StoredImage } from './types'
+import { createBoard, createCard, type Card, type StoredImage } from './types'
 
 describe('IndexedDB Storage', () => {
   beforeEach(async () => {
@@ -103,6 +109,36 @@ describe('IndexedDB Storage', () => {
     })
   })
 
+  describe('getImageInfo', () => {
+    it('returns creation time for every stored image', async () => {
+      await saveImage({ ...createTestImage('key-1'), createdAt: 111 })
+      await saveImage({ ...createTestImage('key-2'), createdAt: 222 })
+
+      const info = await getImageInfo()
+
+      expect([...info.keys()].sort()).toEqual(['key-1', 'key-2'])
+      expect(info.get('key-2')?.createdAt).toBe(222)
+    })
+  })
+
+  describe('deleteImages', () => {
+    it('deletes only the given images', async () => {
+      await saveImage(createTestImage('key-1'))
+      await saveImage(createTestImage('key-2'))
+      await saveImage(createTestImage('key-3'))
+
+      await deleteImages(['key-1', 'key-3'])
+
+      expect(await getAllImageKeys()).toEqual(['key-2'])
+    })
+
+    it('does nothing for an empty list', async () => {
+      await saveImage(createTestImage('key-1'))
+      await deleteImages([])
+      expect(await getAllImageKeys()).toEqual(['key-1'])
+    })
+  })
+
   describe('clearAllImages', () => {
     it('removes all images', async () => {
       await saveImage(createTestImage('key-1'))
@@ -163,4 +199,43 @@ describe('IndexedDB Storage', () => {
       expect(retrieved?.mimeType).toBe('image/jpeg')
     })
   })
+  describe('records', () => {
+    it('writes and reads records by store', async () => {
+      const board = createBoard('Board')
+
+      await writeRecords('boards', [board])
+
+      expect(await getAllRecords('boards')).toEqual([board])
+      expect(await getAllRecords('cards')).toEqual([])
+    })
+
+    it('puts and deletes in one call', async () => {
+      const keep = createCard('board-1', 'Keep', 1)
+      const remove = createCard('board-1', 'Remove', 2)
+      await writeRecords('cards', [keep, remove])
+
+      const updated = { ...keep, rank: 5 }
+      await writeRecords('cards', [updated], [remove.id])
+
+      expect(await getAllRecords('cards')).toEqual([updated])
+    })
+
+    it('looks up cards by board using the boardId index', async () => {
+      const a = createCard('board-a', 'A', 1)
+      const b = createCard('board-b', 'B', 1)
+      await writeRecords('cards', [a, b])
+
+      const result = await getRecordsByBoard<Card>('cards', 'board-a')
+
+      expect(result.map((c) => c.id)).toEqual([a.id])
+    })
+
+    it('clears a store', async () => {
+      await writeRecords('boards', [createBoard('Board')])
+
+      await clearRecords('boards')
+
+      expect(await getAllRecords('boards')).toEqual([])
+    })
+  })
 })
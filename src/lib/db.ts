@@ -1,16 +1,31 @@
 /**
- * IndexedDB Wrapper for Image Storage
+ * IndexedDB Wrapper
  *
- * Stores full resolution images and thumbnails as blobs.
- * Uses a single object store for all images.
+ * Stores full resolution images and thumbnails as blobs, plus the
+ * board, card and snapshot records (one object store each, keyed by ID,
+ * with a boardId index on cards and snapshots).
+ *
+ * Version history:
+ * - 1: images
+ * - 2: boards, cards, snapshots
  */
 
 import type { StoredImage } from './types'
 
 const DB_NAME = 'singles-infernal-rank'
-const DB_VERSION = 1
+const DB_VERSION = 2
 const STORE_NAME = 'images'
 
+/**
+ * Object stores holding app records (keyPath 'id')
+ */
+export const RECORD_STORES = ['boards', 'cards', 'snapshots'] as const
+export type RecordStoreName = typeof RECORD_STORES[number]
+
+/** Record stores with a boardId index */
+const BOARD_INDEXED_STORES: readonly RecordStoreName[] = ['cards', 'snapshots']
+const BOARD_ID_INDEX = 'boardId'
+
 let dbPromise: Promise<IDBDatabase> | null = null
 
 /**
@@ -37,6 +52,16 @@ const openDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME, { keyPath: 'key' })
       }
+
+      // v2: record stores for boards, cards and snapshots
+      for (const name of RECORD_STORES) {
+        if (!db.objectStoreNames.contains(name)) {
+          const store = db.createObjectStore(name, { keyPath: 'id' })
+          if (BOARD_INDEXED_STORES.includes(name)) {
+            store.createIndex(BOARD_ID_INDEX, 'boardId', { unique: false })
+          }
+        }
+      }
     }
   })
 
@@ -166,6 +191,70 @@ export const getAllImageKeys = async (): Promise<string[]> => {
   })
 }
 
+/**
+ * Size and age of an image stored in IndexedDB
+ */
+export interface ImageInfo {
+  /** Bytes used by the full image plus its thumbnail */
+  bytes: number
+  createdAt: number
+}
+
+/**
+ * Get the size and creation time of every stored image
+ */
+export const getImageInfo = async (): Promise<Map<string, ImageInfo>> => {
+  const db = await openDB()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly')
+    const store = transaction.objectStore(STORE_NAME)
+    const request = store.openCursor()
+    const info = new Map<string, ImageInfo>()
+
+    request.onerror = () => {
+      reject(new Error(`Failed to read images: ${request.error?.message}`))
+    }
+
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) {
+        resolve(info)
+        return
+      }
+
+      const image = cursor.value as StoredImage
+      info.set(image.key, {
+        bytes: (image.blob?.size ?? 0) + (image.thumbnail?.size ?? 0),
+        createdAt: image.createdAt,
+      })
+      cursor.continue()
+    }
+  })
+}
+
+/**
+ * Delete several images in a single transaction
+ */
+export const deleteImages = async (keys: string[]): Promise<void> => {
+  if (keys.length === 0) return
+  const db = await openDB()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite')
+    const store = transaction.objectStore(STORE_NAME)
+    for (const key of keys) store.delete(key)
+
+    transaction.onerror = () => {
+      reject(new Error(`Failed to delete images: ${transaction.error?.message}`))
+    }
+
+    transaction.oncomplete = () => {
+      resolve()
+    }
+  })
+}
+
 /**
  * Clear all images from IndexedDB
  */
@@ -187,12 +276,113 @@ export const clearAllImages = async (): Promise<void> => {
   })
 }
 
+// ============ Records ============
+
+/**
+ * Get every record in a record store
+ */
+export const getAllRecords = async <T>(storeName: RecordStoreName): Promise<T[]> => {
+  const db = await openDB()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readonly')
+    const request = transaction.objectStore(storeName).getAll()
+
+    request.onerror = () => {
+      reject(new Error(`Failed to get ${storeName}: ${request.error?.message}`))
+    }
+
+    request.onsuccess = () => {
+      resolve(request.result as T[])
+    }
+  })
+}
+
+/**
+ * Get the records for one board using the boardId index
+ */
+export const getRecordsByBoard = async <T>(
+  storeName: 'cards' | 'snapshots',
+  boardId: string
+): Promise<T[]> => {
+  const db = await openDB()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readonly')
+    const index = transaction.objectStore(storeName).index(BOARD_ID_INDEX)
+    const request = index.getAll(boardId)
+
+    request.onerror = () => {
+      reject(new Error(`Failed to get ${storeName}: ${request.error?.message}`))
+    }
+
+    request.onsuccess = () => {
+      resolve(request.result as T[])
+    }
+  })
+}
+
+/**
+ * Put and delete records in a single transaction
+ * Resolves once the transaction has committed.
+ */
+export const writeRecords = async <T>(
+  storeName: RecordStoreName,
+  put: T[],
+  deleteIds: string[] = []
+): Promise<void> => {
+  if (put.length === 0 && deleteIds.length === 0) return
+
+  const db = await openDB()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite')
+    const store = transaction.objectStore(storeName)
+
+    transaction.oncomplete = () => {
+      resolve()
+    }
+
+    transaction.onerror = () => {
+      reject(new Error(`Failed to write ${storeName}: ${transaction.error?.message}`))
+    }
+
+    for (const id of deleteIds) {
+      store.delete(id)
+    }
+    for (const record of put) {
+      store.put(record)
+    }
+  })
+}
+
+/**
+ * Clear every record from a record store
+ */
+export const clearRecords = async (storeName: RecordStoreName): Promise<void> => {
+  const db = await openDB()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite')
+    const request = transaction.objectStore(storeName).clear()
+
+    request.onerror = () => {
+      reject(new Error(`Failed to clear ${storeName}: ${request.error?.message}`))
+    }
+
+    request.onsuccess = () => {
+      resolve()
+    }
+  })
+}
+
 /**
  * Close the database connection (useful for testing)
  */
 export const closeDB = (): void => {
   if (dbPromise) {
-    dbPromise.then((db) => db.close())
+    // A failed open has nothing to close
+    dbPromise.then((db) => db.close(), () => {})
     dbPromise = null
   }
 }
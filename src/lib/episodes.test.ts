@@ -0,0 +1,33 @@
+import { saveNewSnapshot, subscribeToNewSnapshots } from './episodes'
+import { getSnapshotsByBoard } from './storage'
+import { createCard } from './types'
+
+describe('episodes', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('numbers and labels new episodes like a manual save', () => {
+    const card = createCard('board-1', 'Kim', 1)
+
+    const first = saveNewSnapshot('board-1', [card])
+    const second = saveNewSnapshot('board-1', [card], { label: 'Finale', cardNotes: { [card.id]: 'Iconic' } })
+
+    expect([first.episodeNumber, first.label, first.notes]).toEqual([1, 'Episode 1', ''])
+    expect([second.episodeNumber, second.label]).toEqual([2, 'Finale'])
+    expect(second.rankings[0].note).toBe('Iconic')
+    expect(getSnapshotsByBoard('board-1')).toHaveLength(2)
+  })
+
+  it('announces new episodes until unsubscribed', () => {
+    const listener = vi.fn()
+    const unsubscribe = subscribeToNewSnapshots(listener)
+
+    const snapshot = saveNewSnapshot('board-1', [])
+    unsubscribe()
+    saveNewSnapshot('board-1', [])
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith(snapshot)
+  })
+})
@@ -0,0 +1,51 @@
+/**
+ * Saving Episodes
+ *
+ * The one save path for new episode snapshots, manual or automatic, so
+ * both number, label and annotate episodes the same way. Open pages
+ * subscribe to hear about episodes saved elsewhere (e.g. auto-snapshots).
+ */
+
+import { buildRankingEntries, createSnapshot, type Card, type Snapshot } from './types'
+import { getNextEpisodeNumber, saveSnapshot } from './storage'
+
+/**
+ * Options for a new episode snapshot
+ */
+export interface NewSnapshotOptions {
+  /** Defaults to the board's next episode number */
+  episodeNumber?: number
+  label?: string
+  notes?: string
+  /** Per-card notes keyed by card ID */
+  cardNotes?: Record<string, string>
+}
+
+type SnapshotListener = (snapshot: Snapshot) => void
+
+const listeners = new Set<SnapshotListener>()
+
+/**
+ * Listen for newly saved episodes
+ * @returns Unsubscribe function
+ */
+export const subscribeToNewSnapshots = (listener: SnapshotListener): (() => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Save cards' current order as a new episode and announce it
+ */
+export const saveNewSnapshot = (boardId: string, cards: Card[], options: NewSnapshotOptions = {}): Snapshot => {
+  const episodeNumber = options.episodeNumber ?? getNextEpisodeNumber(boardId)
+  const snapshot = createSnapshot(boardId, episodeNumber, buildRankingEntries(cards, options.cardNotes), {
+    label: options.label,
+    notes: options.notes,
+  })
+  saveSnapshot(snapshot)
+  listeners.forEach((listener) => listener(snapshot))
+  return snapshot
+}
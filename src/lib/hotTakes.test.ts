@@ -0,0 +1,66 @@
+import { findHotTakes, pairWithBoard, pairWithConsensus } from './hotTakes'
+import type { MemberBoard } from './spaceConsensus'
+import { createBoard } from './types'
+import type { SpaceCard } from './spaceTypes'
+
+/** Cards listed best first */
+const ranked = (order: string[]) => order.map((name, i) => ({ name, rank: i + 1 }))
+
+const spaceCards = (order: string[]): SpaceCard[] =>
+  order.map((name, i) => ({
+    id: name,
+    boardId: 'x',
+    name,
+    nickname: '',
+    imageUrl: null,
+    thumbnailUrl: null,
+    rank: i + 1,
+    notes: '',
+    syncedAt: 0,
+  }))
+
+const memberBoard = (ownerName: string, order: string[]): MemberBoard => ({
+  board: {
+    ...createBoard('Season 5'),
+    id: `${ownerName}-board`,
+    spaceId: 's1',
+    ownerId: ownerName,
+    ownerName,
+    isDraft: false,
+    syncedAt: 0,
+  },
+  cards: spaceCards(order),
+})
+
+describe('hotTakes', () => {
+  const mine = ranked(['Cho', 'Kim', 'Lee', 'Park', 'Han'])
+
+  it('pairs your cards with a friend’s by name, skipping ones they didn’t rank', () => {
+    expect(pairWithBoard(mine, spaceCards(['kim', 'CHO']))).toEqual([
+      { key: 'cho', name: 'Cho', yourRank: 1, theirRank: 2 },
+      { key: 'kim', name: 'Kim', yourRank: 2, theirRank: 1 },
+    ])
+  })
+
+  it('finds the biggest disagreements with their direction', () => {
+    const takes = findHotTakes(pairWithBoard(mine, spaceCards(['Kim', 'Lee', 'Park', 'Han', 'Cho'])))
+
+    expect(takes.map((t) => [t.name, t.deviation])).toEqual([['Cho', 4]])
+  })
+
+  it('ignores small differences and caps the list', () => {
+    const reversed = pairWithBoard(mine, spaceCards(['Han', 'Park', 'Lee', 'Kim', 'Cho']))
+
+    expect(findHotTakes(reversed).map((t) => t.deviation)).toEqual([4, -4, 2, -2])
+    expect(findHotTakes(reversed, 1)).toHaveLength(1)
+  })
+
+  it('measures against everyone else’s consensus', () => {
+    const pairs = pairWithConsensus(mine, [
+      memberBoard('Ana', ['Kim', 'Lee', 'Park', 'Han', 'Cho']),
+      memberBoard('Ben', ['Kim', 'Park', 'Lee', 'Han', 'Cho']),
+    ])
+
+    expect(findHotTakes(pairs)[0]).toMatchObject({ name: 'Cho', yourRank: 1, theirRank: 5, deviation: 4 })
+  })
+})
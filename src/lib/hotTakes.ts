@@ -0,0 +1,84 @@
+/**
+ * Hot Takes
+ *
+ * The items where your ranking disagrees most with someone else's: a
+ * friend's board, or the consensus of everyone else who ranked the same
+ * template. Items are matched by normalized name.
+ */
+
+import type { SpaceCard } from './spaceTypes'
+import { normalizeName } from './boardExport'
+import { computeConsensus, type MemberBoard } from './spaceConsensus'
+
+// ============ Types ============
+
+/**
+ * An item both sides ranked
+ */
+export interface RankPair {
+  key: string
+  name: string
+  yourRank: number
+  theirRank: number
+}
+
+/**
+ * An item you rank far from the others
+ */
+export interface HotTake extends RankPair {
+  /** Places you rank it above them (negative = below) */
+  deviation: number
+}
+
+/** Smallest gap that counts as a hot take */
+export const MIN_HOT_TAKE_DEVIATION = 2
+
+/** How many hot takes to surface */
+export const HOT_TAKE_LIMIT = 5
+
+// ============ Pairing ============
+
+/**
+ * Pair your cards with another member's, by name
+ */
+export const pairWithBoard = (
+  yourCards: { name: string; rank: number }[],
+  theirCards: SpaceCard[]
+): RankPair[] => {
+  const theirRanks = new Map(theirCards.map((c) => [normalizeName(c.name), c.rank]))
+  return yourCards.flatMap((card) => {
+    const key = normalizeName(card.name)
+    const theirRank = theirRanks.get(key)
+    return theirRank === undefined ? [] : [{ key, name: card.name, yourRank: card.rank, theirRank }]
+  })
+}
+
+/**
+ * Pair your cards with the others' consensus (mean rank) order
+ */
+export const pairWithConsensus = (
+  yourCards: { name: string; rank: number }[],
+  otherBoards: MemberBoard[]
+): RankPair[] => {
+  const consensusRanks = new Map(
+    computeConsensus(otherBoards, 'mean').map((item) => [item.key, item.consensusRank])
+  )
+  return yourCards.flatMap((card) => {
+    const key = normalizeName(card.name)
+    const theirRank = consensusRanks.get(key)
+    return theirRank === undefined ? [] : [{ key, name: card.name, yourRank: card.rank, theirRank }]
+  })
+}
+
+// ============ Hot Takes ============
+
+/**
+ * Your biggest disagreements, largest first. Ties go to the item you
+ * rank higher.
+ */
+export const findHotTakes = (pairs: RankPair[], limit: number = HOT_TAKE_LIMIT): HotTake[] =>
+  pairs
+    .map((pair) => ({ ...pair, deviation: pair.theirRank - pair.yourRank }))
+    .filter((take) => Math.abs(take.deviation) >= MIN_HOT_TAKE_DEVIATION)
+    .sort((a, b) => Math.abs(b.deviation) - Math.abs(a.deviation) || a.yourRank - b.yourRank)
+    .slice(0, limit)
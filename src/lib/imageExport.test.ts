@@ -0,0 +1,303 @@
+/**
+ * Tests for Image Export
+ *
+ * Canvas, Image and the Web Share API are mocked since jsdom doesn't support them.
+ */
+
+import {
+  boardRankingImageOptions,
+  getCanvasScale,
+  getRankingImageHeight,
+  getSvgSize,
+  MAX_RANKING_IMAGE_ROWS,
+  renderRankingImage,
+  serializeChartSvg,
+  shareOrDownloadFile,
+  svgToPngBlob,
+} from './imageExport'
+import { createCard } from './types'
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+// Mock canvas context recording drawn text
+const createMockContext = () => ({
+  fillStyle: '',
+  strokeStyle: '',
+  lineWidth: 1,
+  font: '',
+  textAlign: 'left',
+  textBaseline: 'alphabetic',
+  scale: vi.fn(),
+  fillRect: vi.fn(),
+  beginPath: vi.fn(),
+  moveTo: vi.fn(),
+  lineTo: vi.fn(),
+  closePath: vi.fn(),
+  arc: vi.fn(),
+  fill: vi.fn(),
+  stroke: vi.fn(),
+  save: vi.fn(),
+  restore: vi.fn(),
+  clip: vi.fn(),
+  drawImage: vi.fn(),
+  fillText: vi.fn(),
+  measureText: vi.fn((text: string) => ({ width: text.length * 10 })),
+})
+
+const createMockCanvas = (ctx: ReturnType<typeof createMockContext>) => ({
+  width: 0,
+  height: 0,
+  getContext: vi.fn(() => ctx),
+  toBlob: vi.fn((callback: BlobCallback, type: string) => callback(new Blob(['png'], { type }))),
+})
+
+// Images whose src contains "broken" fail to load
+class MockImage {
+  width = 100
+  height = 80
+  crossOrigin: string | null = null
+  onload: (() => void) | null = null
+  onerror: (() => void) | null = null
+  private _src = ''
+
+  get src() {
+    return this._src
+  }
+
+  set src(value: string) {
+    this._src = value
+    setTimeout(() => (value.includes('broken') ? this.onerror?.() : this.onload?.()), 0)
+  }
+}
+
+describe('imageExport', () => {
+  let ctx: ReturnType<typeof createMockContext>
+  let canvas: ReturnType<typeof createMockCanvas>
+  const originalCreateElement = document.createElement.bind(document)
+
+  beforeEach(() => {
+    ctx = createMockContext()
+    canvas = createMockCanvas(ctx)
+    vi.spyOn(document, 'createElement').mockImplementation((tagName: string) => {
+      if (tagName === 'canvas') return canvas as unknown as HTMLCanvasElement
+      return originalCreateElement(tagName)
+    })
+    vi.stubGlobal('Image', MockImage)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  const createChartSvg = () => {
+    const svg = document.createElementNS(SVG_NS, 'svg')
+    svg.setAttribute('width', '100%')
+    svg.setAttribute('viewBox', '0 0 350 280')
+    for (const href of ['blob:photo-1', 'blob:missing']) {
+      const image = document.createElementNS(SVG_NS, 'image')
+      image.setAttribute('href', href)
+      svg.appendChild(image)
+    }
+    return svg
+  }
+
+  describe('getSvgSize', () => {
+    it('reads the viewBox size', () => {
+      expect(getSvgSize(createChartSvg())).toEqual({ width: 350, height: 280 })
+    })
+
+    it('falls back to width and height attributes', () => {
+      const svg = document.createElementNS(SVG_NS, 'svg')
+      svg.setAttribute('width', '200')
+      svg.setAttribute('height', '100')
+
+      expect(getSvgSize(svg)).toEqual({ width: 200, height: 100 })
+    })
+  })
+
+  describe('serializeChartSvg', () => {
+    it('produces a standalone SVG with inlined photos', async () => {
+      vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+        if (url === 'blob:missing') throw new Error('Not found')
+        return { blob: async () => new Blob(['x'], { type: 'image/png' }) }
+      }))
+
+      const text = await serializeChartSvg(createChartSvg())
+      const doc = new DOMParser().parseFromString(text, 'image/svg+xml')
+      const root = doc.documentElement
+
+      expect(text.match(/xmlns=/g)).toHaveLength(1)
+      expect(root.namespaceURI).toBe(SVG_NS)
+      expect(root.getAttribute('width')).toBe('350')
+      expect(root.getAttribute('height')).toBe('280')
+      expect(root.firstElementChild?.getAttribute('fill')).toBe('#ffffff')
+
+      const images = Array.from(root.getElementsByTagName('image'))
+      expect(images).toHaveLength(1)
+      expect(images[0].getAttribute('href')).toMatch(/^data:image\/png;base64,/)
+    })
+
+    it('leaves the rendered chart untouched', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => ({ blob: async () => new Blob(['x']) })))
+      const svg = createChartSvg()
+
+      await serializeChartSvg(svg)
+
+      expect(svg.getAttribute('width')).toBe('100%')
+      expect(svg.querySelector('image')?.getAttribute('href')).toBe('blob:photo-1')
+    })
+  })
+
+  describe('svgToPngBlob', () => {
+    it('draws the SVG onto a scaled canvas', async () => {
+      const blob = await svgToPngBlob('<svg xmlns="http://www.w3.org/2000/svg"/>', 350, 280)
+
+      expect(blob.type).toBe('image/png')
+      expect(canvas.width).toBe(700)
+      expect(canvas.height).toBe(560)
+      expect(ctx.drawImage).toHaveBeenCalledWith(expect.any(MockImage), 0, 0, 700, 560)
+    })
+  })
+
+  describe('getCanvasScale', () => {
+    it('keeps the preferred scale for ordinary sizes', () => {
+      expect(getCanvasScale(600, 2000, 2)).toBe(2)
+    })
+
+    it('scales down canvases browsers could not export', () => {
+      const scale = getCanvasScale(600, 9000, 2)
+
+      expect(scale).toBeLessThan(2)
+      expect(9000 * scale).toBeLessThanOrEqual(16384)
+      expect(600 * scale * 9000 * scale).toBeLessThanOrEqual(16_777_216)
+    })
+  })
+
+  describe('boardRankingImageOptions', () => {
+    it('orders cards by rank with their photos', () => {
+      const cards = [
+        { ...createCard('b1', 'Lee', 2), id: 'c2' },
+        { ...createCard('b1', 'Kim', 1), id: 'c1' },
+      ]
+
+      const options = boardRankingImageOptions({ name: 'Season 5' }, cards, { c1: 'blob:kim' }, new Date(2026, 9, 19).getTime())
+
+      expect(options).toEqual({
+        title: 'Season 5',
+        subtitle: '2 ranked · Oct 19, 2026',
+        entries: [
+          { rank: 1, name: 'Kim', thumbnailUrl: 'blob:kim' },
+          { rank: 2, name: 'Lee', thumbnailUrl: null },
+        ],
+      })
+    })
+  })
+
+  describe('renderRankingImage', () => {
+    it('draws the title, rank badges, photos and names', async () => {
+      const blob = await renderRankingImage({
+        title: 'Season 5',
+        subtitle: '2 ranked',
+        entries: [
+          { rank: 1, name: 'Kim', thumbnailUrl: 'blob:kim' },
+          { rank: 2, name: 'Park Hee', thumbnailUrl: 'blob:broken' },
+        ],
+      })
+
+      expect(blob.type).toBe('image/png')
+      expect(canvas.height).toBe(getRankingImageHeight(2) * 2)
+
+      const texts = ctx.fillText.mock.calls.map(([text]) => text)
+      expect(texts).toEqual(expect.arrayContaining(['Season 5', '2 ranked', '1', 'Kim', '2', 'Park Hee']))
+      // The photo that failed to load falls back to initials
+      expect(texts).toContain('PH')
+      expect(ctx.drawImage).toHaveBeenCalledTimes(1)
+    })
+
+    it('draws only the top rows of very long rankings', async () => {
+      const entries = Array.from({ length: MAX_RANKING_IMAGE_ROWS + 20 }, (_, i) => ({
+        rank: i + 1,
+        name: `Card ${i + 1}`,
+        thumbnailUrl: null,
+      }))
+
+      await renderRankingImage({ title: 'Board', entries })
+
+      const texts = ctx.fillText.mock.calls.map(([text]) => text)
+      expect(texts).toContain(`Card ${MAX_RANKING_IMAGE_ROWS}`)
+      expect(texts).not.toContain(`Card ${MAX_RANKING_IMAGE_ROWS + 1}`)
+      expect(texts).toContain('+20 more')
+      expect(canvas.width * canvas.height).toBeLessThanOrEqual(16_777_216)
+    })
+
+    it('rejects when the canvas cannot be encoded', async () => {
+      canvas.toBlob.mockImplementation((callback: BlobCallback) => callback(null))
+
+      await expect(
+        renderRankingImage({ title: 'Board', entries: [{ rank: 1, name: 'Kim', thumbnailUrl: null }] })
+      ).rejects.toThrow('Failed to create image')
+    })
+
+    it('shortens names that do not fit', async () => {
+      await renderRankingImage({
+        title: 'Board',
+        entries: [{ rank: 1, name: 'A'.repeat(80), thumbnailUrl: null }],
+      })
+
+      const name = ctx.fillText.mock.calls.map(([text]) => text as string).find((t) => t.startsWith('AAA'))
+      expect(name).toMatch(/^A+…$/)
+      expect(name!.length).toBeLessThan(80)
+    })
+  })
+
+  describe('shareOrDownloadFile', () => {
+    const blob = new Blob(['png'], { type: 'image/png' })
+
+    const stubShare = (share: () => Promise<void>, canShare = true) => {
+      vi.stubGlobal('navigator', { ...navigator, canShare: vi.fn(() => canShare), share: vi.fn(share) })
+    }
+
+    const spyDownload = () => {
+      vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:download')
+      vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {})
+      return vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+    }
+
+    it('uses the share sheet when files can be shared', async () => {
+      stubShare(async () => {})
+
+      await expect(shareOrDownloadFile(blob, 'board.png', 'Board')).resolves.toBe('shared')
+      expect(navigator.share).toHaveBeenCalledWith({ files: [expect.any(File)], title: 'Board' })
+    })
+
+    it('reports a dismissed share sheet as cancelled', async () => {
+      stubShare(async () => {
+        throw new DOMException('Share canceled', 'AbortError')
+      })
+      const click = spyDownload()
+
+      await expect(shareOrDownloadFile(blob, 'board.png', 'Board')).resolves.toBe('cancelled')
+      expect(click).not.toHaveBeenCalled()
+    })
+
+    it('downloads when sharing files is unsupported', async () => {
+      stubShare(async () => {}, false)
+      const click = spyDownload()
+
+      await expect(shareOrDownloadFile(blob, 'board.png', 'Board')).resolves.toBe('downloaded')
+      expect(click).toHaveBeenCalled()
+      expect(navigator.share).not.toHaveBeenCalled()
+    })
+
+    it('downloads when sharing fails', async () => {
+      stubShare(async () => {
+        throw new DOMException('Not allowed', 'NotAllowedError')
+      })
+      const click = spyDownload()
+
+      await expect(shareOrDownloadFile(blob, 'board.png', 'Board')).resolves.toBe('downloaded')
+      expect(click).toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,372 @@
+/**
+ * Image Export
+ *
+ * Renders the trends chart and a board's ranking as image files in the
+ * browser: the chart's SVG is serialized (with photos inlined so the file
+ * stands alone) and optionally rasterized to PNG, and the ranking is drawn
+ * onto a canvas as a hand-drawn style card. Files are handed to the Web
+ * Share API when the device supports sharing files, otherwise downloaded.
+ */
+
+import { getColorForName, getInitials } from './avatarUtils'
+import { downloadBlob } from './boardExport'
+import { colors, fonts } from '../styles/tokens'
+import type { Board, Card } from './types'
+
+// ============ Chart ============
+
+/**
+ * Read a blob as a data: URL
+ */
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read image'))
+    reader.readAsDataURL(blob)
+  })
+
+/**
+ * Size of an SVG from its viewBox, falling back to its width/height attributes
+ */
+export const getSvgSize = (svg: SVGSVGElement): { width: number; height: number } => {
+  const viewBox = svg.getAttribute('viewBox')?.split(/[\s,]+/).map(Number)
+  if (viewBox && viewBox.length === 4 && viewBox.every((n) => Number.isFinite(n))) {
+    return { width: viewBox[2], height: viewBox[3] }
+  }
+  return {
+    width: Number(svg.getAttribute('width')) || 300,
+    height: Number(svg.getAttribute('height')) || 150,
+  }
+}
+
+/**
+ * Serialize a rendered chart to a standalone SVG document
+ *
+ * Sets an explicit size and white background, and inlines blob: image
+ * URLs as data: URLs (they only resolve inside this page). Images that
+ * can't be read are dropped.
+ */
+export const serializeChartSvg = async (svg: SVGSVGElement): Promise<string> => {
+  const { width, height } = getSvgSize(svg)
+  const clone = svg.cloneNode(true) as SVGSVGElement
+
+  clone.setAttribute('width', String(width))
+  clone.setAttribute('height', String(height))
+  clone.setAttribute('viewBox', `0 0 ${width} ${height}`)
+
+  const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect')
+  background.setAttribute('width', '100%')
+  background.setAttribute('height', '100%')
+  background.setAttribute('fill', '#ffffff')
+  clone.insertBefore(background, clone.firstChild)
+
+  for (const image of Array.from(clone.querySelectorAll('image'))) {
+    const href = image.getAttribute('href')
+    if (!href?.startsWith('blob:')) continue
+    try {
+      const blob = await (await fetch(href)).blob()
+      image.setAttribute('href', await blobToDataUrl(blob))
+    } catch {
+      image.remove()
+    }
+  }
+
+  return new XMLSerializer().serializeToString(clone)
+}
+
+/**
+ * Load an image, resolving null if it fails
+ */
+const loadImage = (src: string): Promise<HTMLImageElement | null> =>
+  new Promise((resolve) => {
+    const img = new Image()
+    // Remote photos must allow CORS or they would taint the canvas
+    if (/^https?:/.test(src)) img.crossOrigin = 'anonymous'
+    img.onload = () => resolve(img)
+    img.onerror = () => resolve(null)
+    img.src = src
+  })
+
+/** Largest canvas browsers reliably export (Safari limits both a side and the area) */
+const MAX_CANVAS_SIDE = 16384
+const MAX_CANVAS_AREA = 16_777_216
+
+/**
+ * Pixel ratio for a `width` × `height` canvas: `preferred`, lowered if
+ * needed so the canvas stays within what browsers can export
+ */
+export const getCanvasScale = (width: number, height: number, preferred: number): number =>
+  Math.min(preferred, MAX_CANVAS_SIDE / width, MAX_CANVAS_SIDE / height, Math.sqrt(MAX_CANVAS_AREA / (width * height)))
+
+/**
+ * Export a canvas as a PNG blob
+ * Rejects if the browser can't encode it (toBlob gives null for oversized canvases).
+ */
+const canvasToPng = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob)
+      } else {
+        reject(new Error('Failed to create image'))
+      }
+    }, 'image/png')
+  })
+
+/**
+ * Rasterize an SVG document to PNG at `scale` times its size
+ */
+export const svgToPngBlob = async (
+  svgText: string,
+  width: number,
+  height: number,
+  scale = 2
+): Promise<Blob> => {
+  const img = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgText)}`)
+  if (!img) throw new Error('Failed to render chart')
+
+  const pixelRatio = getCanvasScale(width, height, scale)
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.floor(width * pixelRatio)
+  canvas.height = Math.floor(height * pixelRatio)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Failed to get canvas context')
+
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+  return canvasToPng(canvas)
+}
+
+// ============ Ranking Card ============
+
+/**
+ * One row of a ranking image
+ */
+export interface RankingImageEntry {
+  rank: number
+  name: string
+  /** Photo URL, or null for an initials avatar */
+  thumbnailUrl: string | null
+}
+
+export interface RankingImageOptions {
+  title: string
+  subtitle?: string
+  entries: RankingImageEntry[]
+}
+
+/**
+ * Ranking image contents for a board's cards, best first
+ *
+ * @param thumbnailUrls - Photo URLs keyed by card ID
+ */
+export const boardRankingImageOptions = (
+  board: Pick<Board, 'name'>,
+  cards: Card[],
+  thumbnailUrls: Record<string, string>,
+  now = Date.now()
+): RankingImageOptions => {
+  const date = new Date(now).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+  return {
+    title: board.name,
+    subtitle: `${cards.length} ranked · ${date}`,
+    entries: [...cards]
+      .sort((a, b) => a.rank - b.rank)
+      .map((card, i) => ({ rank: i + 1, name: card.name, thumbnailUrl: thumbnailUrls[card.id] ?? null })),
+  }
+}
+
+/** Ranking image layout, in CSS pixels (drawn at 2× for sharpness) */
+export const RANKING_IMAGE_WIDTH = 600
+const PADDING = 32
+const HEADER_HEIGHT = 110
+const ROW_HEIGHT = 76
+const ROW_GAP = 12
+const FOOTER_HEIGHT = 48
+const PIXEL_RATIO = 2
+
+/** Rows drawn on a ranking image; longer rankings end with "+N more" */
+export const MAX_RANKING_IMAGE_ROWS = 100
+
+/**
+ * Height of a ranking image with `count` rows
+ */
+export const getRankingImageHeight = (count: number): number =>
+  HEADER_HEIGHT + count * ROW_HEIGHT + Math.max(count - 1, 0) * ROW_GAP + FOOTER_HEIGHT + PADDING
+
+/** Badge fill for the top three ranks */
+const MEDAL_COLORS: Record<number, string> = {
+  1: colors.gold,
+  2: colors.silver,
+  3: colors.bronze,
+}
+
+/**
+ * Trace a rectangle whose corners wobble slightly, like the app's borders
+ */
+const traceWobblyRect = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, seed: number) => {
+  const wobble = (i: number) => Math.sin(seed * 7.31 + i * 12.9898) * 2.5
+  ctx.beginPath()
+  ctx.moveTo(x + wobble(0), y + wobble(1))
+  ctx.lineTo(x + w + wobble(2), y + wobble(3))
+  ctx.lineTo(x + w + wobble(4), y + h + wobble(5))
+  ctx.lineTo(x + wobble(6), y + h + wobble(7))
+  ctx.closePath()
+}
+
+/**
+ * Shorten text with an ellipsis to fit `maxWidth`
+ */
+const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string => {
+  if (ctx.measureText(text).width <= maxWidth) return text
+  let fitted = text
+  while (fitted.length > 1 && ctx.measureText(`${fitted}…`).width > maxWidth) {
+    fitted = fitted.slice(0, -1)
+  }
+  return `${fitted.trimEnd()}…`
+}
+
+/**
+ * Draw a board's ranking as a PNG card: board name, then one row per
+ * entry with a rank badge (medal colours for the top three), a round
+ * photo or initials avatar, and the name. Only the top
+ * MAX_RANKING_IMAGE_ROWS entries are drawn.
+ */
+export const renderRankingImage = async ({ title, subtitle, entries: allEntries }: RankingImageOptions): Promise<Blob> => {
+  const entries = allEntries.slice(0, MAX_RANKING_IMAGE_ROWS)
+  const hiddenCount = allEntries.length - entries.length
+  const width = RANKING_IMAGE_WIDTH
+  const height = getRankingImageHeight(entries.length)
+  const pixelRatio = getCanvasScale(width, height, PIXEL_RATIO)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.floor(width * pixelRatio)
+  canvas.height = Math.floor(height * pixelRatio)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Failed to get canvas context')
+  ctx.scale(pixelRatio, pixelRatio)
+
+  // Hand-drawn fonts are loaded by the page; wait so the canvas can use them
+  await document.fonts?.ready
+  const photos = await Promise.all(entries.map((e) => (e.thumbnailUrl ? loadImage(e.thumbnailUrl) : null)))
+
+  // Paper background
+  ctx.fillStyle = colors.background
+  ctx.fillRect(0, 0, width, height)
+
+  // Header
+  ctx.fillStyle = colors.foreground
+  ctx.textBaseline = 'alphabetic'
+  ctx.textAlign = 'left'
+  ctx.font = `700 36px ${fonts.heading}`
+  ctx.fillText(fitText(ctx, title, width - PADDING * 2), PADDING, PADDING + 40)
+  if (subtitle) {
+    ctx.fillStyle = '#9a958d'
+    ctx.font = `20px ${fonts.body}`
+    ctx.fillText(fitText(ctx, subtitle, width - PADDING * 2), PADDING, PADDING + 70)
+  }
+
+  entries.forEach((entry, i) => {
+    const x = PADDING
+    const y = HEADER_HEIGHT + i * (ROW_HEIGHT + ROW_GAP)
+    const w = width - PADDING * 2
+    const centerY = y + ROW_HEIGHT / 2
+
+    // Card with hard offset shadow
+    ctx.fillStyle = colors.foreground
+    traceWobblyRect(ctx, x + 4, y + 4, w, ROW_HEIGHT, i)
+    ctx.fill()
+    ctx.fillStyle = '#ffffff'
+    ctx.strokeStyle = colors.border
+    ctx.lineWidth = 3
+    traceWobblyRect(ctx, x, y, w, ROW_HEIGHT, i)
+    ctx.fill()
+    ctx.stroke()
+
+    // Rank badge
+    const badgeX = x + 40
+    ctx.beginPath()
+    ctx.arc(badgeX, centerY, 22, 0, Math.PI * 2)
+    ctx.fillStyle = MEDAL_COLORS[entry.rank] ?? colors.muted
+    ctx.fill()
+    ctx.lineWidth = 2
+    ctx.stroke()
+    ctx.fillStyle = colors.foreground
+    ctx.font = `700 22px ${fonts.heading}`
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    ctx.fillText(String(entry.rank), badgeX, centerY + 1)
+
+    // Photo or initials
+    const photoX = x + 106
+    const photo = photos[i]
+    ctx.save()
+    ctx.beginPath()
+    ctx.arc(photoX, centerY, 26, 0, Math.PI * 2)
+    ctx.clip()
+    if (photo) {
+      // Cover-fit the photo into the circle
+      const size = Math.min(photo.width, photo.height) || 1
+      ctx.drawImage(photo, (photo.width - size) / 2, (photo.height - size) / 2, size, size, photoX - 26, centerY - 26, 52, 52)
+    } else {
+      ctx.fillStyle = getColorForName(entry.name)
+      ctx.fillRect(photoX - 26, centerY - 26, 52, 52)
+      ctx.fillStyle = '#ffffff'
+      ctx.font = `700 20px ${fonts.body}`
+      ctx.fillText(getInitials(entry.name), photoX, centerY + 1)
+    }
+    ctx.restore()
+    ctx.beginPath()
+    ctx.arc(photoX, centerY, 26, 0, Math.PI * 2)
+    ctx.strokeStyle = colors.border
+    ctx.lineWidth = 2
+    ctx.stroke()
+
+    // Name
+    const nameX = photoX + 42
+    ctx.fillStyle = colors.foreground
+    ctx.font = `24px ${fonts.body}`
+    ctx.textAlign = 'left'
+    ctx.fillText(fitText(ctx, entry.name, x + w - 20 - nameX), nameX, centerY + 1)
+  })
+
+  // Footer
+  ctx.fillStyle = '#9a958d'
+  ctx.font = `18px ${fonts.body}`
+  ctx.textBaseline = 'alphabetic'
+  if (hiddenCount > 0) {
+    ctx.textAlign = 'left'
+    ctx.fillText(`+${hiddenCount} more`, PADDING, height - PADDING + 6)
+  }
+  ctx.textAlign = 'right'
+  ctx.fillText('Ranked with Hot Takes', width - PADDING, height - PADDING + 6)
+
+  return canvasToPng(canvas)
+}
+
+// ============ Sharing ============
+
+export type ShareImageResult = 'shared' | 'downloaded' | 'cancelled'
+
+/**
+ * Hand a file to the share sheet when the device can share files,
+ * otherwise download it. Dismissing the share sheet is 'cancelled'.
+ */
+export const shareOrDownloadFile = async (blob: Blob, fileName: string, title: string): Promise<ShareImageResult> => {
+  const file = new File([blob], fileName, { type: blob.type })
+
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title })
+      return 'shared'
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return 'cancelled'
+      // Sharing unavailable after all; fall back to a download
+    }
+  }
+
+  downloadBlob(blob, fileName)
+  return 'downloaded'
+}
@@ -0,0 +1,151 @@
+import { analyzeImport, applyImport } from './importMerge'
+import {
+  getBoards,
+  getCards,
+  getSnapshots,
+  saveBoard,
+  saveCard,
+  saveSnapshot,
+  type ParsedImport,
+} from './storage'
+import { createBoard, createCard, createSnapshot, type Board, type Card } from './types'
+
+const parsed = (data: Partial<ParsedImport>): ParsedImport => ({
+  boards: [],
+  cards: [],
+  snapshots: [],
+  fromVersion: '1.2',
+  migrationChanges: [],
+  recordsSkipped: 0,
+  ...data,
+})
+
+describe('importMerge', () => {
+  let mine: Board
+  let myCard: Card
+
+  beforeEach(() => {
+    localStorage.clear()
+    mine = { ...createBoard('Mine'), id: 'b1', updatedAt: 1000 }
+    myCard = { ...createCard('b1', 'Kim', 1), id: 'c1', updatedAt: 1000 }
+    saveBoard(mine)
+    saveCard(myCard)
+  })
+
+  describe('analyzeImport', () => {
+    it('classifies records as new, conflicting or identical', () => {
+      const preview = analyzeImport(parsed({
+        boards: [{ ...mine }, { ...createBoard('Theirs'), id: 'b2' }],
+        cards: [
+          { ...myCard, name: 'Kim (edited)', updatedAt: 2000 },
+          { ...createCard('b2', 'Lee', 1), id: 'c2' },
+        ],
+        snapshots: [{ ...createSnapshot('b1', 1, []), id: 's1' }],
+      }))
+
+      expect(preview.totals.boards).toEqual({ new: 1, conflict: 0, identical: 1 })
+      expect(preview.totals.cards).toEqual({ new: 1, conflict: 1, identical: 0 })
+      expect(preview.totals.snapshots).toEqual({ new: 1, conflict: 0, identical: 0 })
+
+      const [b1, b2] = preview.boards
+      expect(b1).toMatchObject({ boardId: 'b1', status: 'identical', hasConflicts: true })
+      expect(b2).toMatchObject({ boardId: 'b2', name: 'Theirs', status: 'new', hasConflicts: false })
+    })
+
+    it('treats records with reordered keys as identical', () => {
+      const reordered = Object.fromEntries(Object.entries(myCard).reverse()) as Card
+      const preview = analyzeImport(parsed({ cards: [reordered] }))
+
+      expect(preview.totals.cards.identical).toBe(1)
+    })
+
+    it('groups cards of boards missing from the file under their existing board', () => {
+      const preview = analyzeImport(parsed({ cards: [{ ...myCard, name: 'Changed' }] }))
+
+      expect(preview.boards).toHaveLength(1)
+      expect(preview.boards[0]).toMatchObject({ name: 'Mine', hasConflicts: true })
+    })
+  })
+
+  describe('applyImport', () => {
+    const theirCard = () => ({ ...myCard, name: 'Theirs', updatedAt: 500 })
+
+    it('keep-mine leaves conflicting records alone but adds new ones', () => {
+      const report = applyImport(
+        parsed({ cards: [theirCard(), { ...createCard('b1', 'New', 2), id: 'c2' }] }),
+        { strategy: 'keep-mine' }
+      )
+
+      expect(getCards().map((c) => c.name).sort()).toEqual(['Kim', 'New'])
+      expect(report.added.cards).toBe(1)
+      expect(report.updated.cards).toBe(0)
+      expect(report.kept).toBe(1)
+    })
+
+    it('take-theirs replaces conflicting records', () => {
+      const report = applyImport(parsed({ cards: [theirCard()] }), { strategy: 'take-theirs' })
+
+      expect(getCards()[0].name).toBe('Theirs')
+      expect(report.updated.cards).toBe(1)
+      expect(report.details).toEqual(['"Mine": 1 card updated'])
+    })
+
+    it('keep-newer compares updatedAt', () => {
+      applyImport(parsed({ cards: [theirCard()] }), { strategy: 'keep-newer' })
+      expect(getCards()[0].name).toBe('Kim')
+
+      applyImport(parsed({ cards: [{ ...theirCard(), updatedAt: 5000 }] }), { strategy: 'keep-newer' })
+      expect(getCards()[0].name).toBe('Theirs')
+    })
+
+    it('uses per-board choices over the default', () => {
+      const other = { ...createBoard('Other'), id: 'b2' }
+      const otherCard = { ...createCard('b2', 'Park', 1), id: 'c2' }
+      saveBoard(other)
+      saveCard(otherCard)
+
+      applyImport(
+        parsed({ cards: [theirCard(), { ...otherCard, name: 'Park (theirs)' }] }),
+        { strategy: 'keep-mine', perBoard: { b2: 'take-theirs' } }
+      )
+
+      expect(getCards().map((c) => c.name).sort()).toEqual(['Kim', 'Park (theirs)'])
+    })
+
+    it('reports added boards and unchanged records', () => {
+      const board = { ...createBoard('Fresh'), id: 'b3' }
+      const report = applyImport(
+        parsed({ boards: [mine, board], snapshots: [{ ...createSnapshot('b3', 1, []), id: 's1' }] }),
+        { strategy: 'keep-newer' }
+      )
+
+      expect(getBoards()).toHaveLength(2)
+      expect(getSnapshots()).toHaveLength(1)
+      expect(report.added).toEqual({ boards: 1, cards: 0, snapshots: 1 })
+      expect(report.unchanged).toBe(1)
+      expect(report.details).toEqual(['Added board "Fresh"', '"Fresh": 1 snapshot added'])
+    })
+
+    it('renumbers ranks on boards that gained cards', () => {
+      const lee = { ...createCard('b1', 'Lee', 5), id: 'c3' }
+      saveCard(lee)
+
+      // Kim keeps #1, the incoming card also claims #1, and Lee sits at #5
+      applyImport(
+        parsed({ cards: [{ ...createCard('b1', 'Cho', 1), id: 'c2', createdAt: myCard.createdAt + 1 }] }),
+        { strategy: 'keep-mine' }
+      )
+
+      const ranked = getCards().sort((a, b) => a.rank - b.rank)
+      expect(ranked.map((c) => [c.name, c.rank])).toEqual([['Kim', 1], ['Cho', 2], ['Lee', 3]])
+    })
+
+    it('snapshots use createdAt for keep-newer', () => {
+      const snapshot = { ...createSnapshot('b1', 1, []), id: 's1', createdAt: 1000 }
+      saveSnapshot(snapshot)
+
+      applyImport(parsed({ snapshots: [{ ...snapshot, label: 'Older', createdAt: 10 }] }), { strategy: 'keep-newer' })
+      expect(getSnapshots()[0].label).toBe(snapshot.label)
+    })
+  })
+})
@@ -0,0 +1,295 @@
+/**
+ * Import Preview & Conflict Resolution
+ *
+ * Compares an import file with what's already stored. Each board, card
+ * and snapshot is new, identical, or a conflict (same ID, different
+ * contents). Conflicts are resolved per board, or with one choice for
+ * everything: keep mine, take theirs, or keep whichever is newer.
+ */
+
+import type { Board, Card, Snapshot } from './types'
+import {
+  getBoards,
+  getCards,
+  getSnapshots,
+  saveBoards,
+  saveCards,
+  saveSnapshots,
+  type ParsedImport,
+} from './storage'
+
+export type RecordStatus = 'new' | 'conflict' | 'identical'
+
+export type ConflictStrategy = 'keep-mine' | 'take-theirs' | 'keep-newer'
+
+/**
+ * How many records fall into each status
+ */
+export type StatusCounts = Record<RecordStatus, number>
+
+/**
+ * Preview of one imported board with its cards and snapshots
+ */
+export interface BoardImportPreview {
+  boardId: string
+  name: string
+  /** Status of the board record itself */
+  status: RecordStatus
+  cards: StatusCounts
+  snapshots: StatusCounts
+  /** True if the board, any card or any snapshot conflicts */
+  hasConflicts: boolean
+}
+
+/**
+ * Everything the import would touch
+ */
+export interface ImportPreview {
+  boards: BoardImportPreview[]
+  totals: {
+    boards: StatusCounts
+    cards: StatusCounts
+    snapshots: StatusCounts
+  }
+}
+
+/**
+ * Conflict choices: a default plus optional per-board overrides
+ */
+export interface ImportResolution {
+  strategy: ConflictStrategy
+  perBoard?: Record<string, ConflictStrategy>
+}
+
+/**
+ * Per-collection record counts
+ */
+export interface RecordCounts {
+  boards: number
+  cards: number
+  snapshots: number
+}
+
+/**
+ * Exactly what an import changed
+ */
+export interface ImportChangeReport {
+  added: RecordCounts
+  updated: RecordCounts
+  /** Conflicting records where the existing copy was kept */
+  kept: number
+  /** Records that were already identical */
+  unchanged: number
+  /** One line per changed board, e.g. 'Updated board "Season 5"' */
+  details: string[]
+}
+
+type ImportRecord = Board | Card | Snapshot
+
+const emptyCounts = (): StatusCounts => ({ new: 0, conflict: 0, identical: 0 })
+
+const sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(sortKeys)
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    return Object.fromEntries(Object.keys(record).sort().map((k) => [k, sortKeys(record[k])]))
+  }
+  return value
+}
+
+/**
+ * Stable JSON for comparing records regardless of key order
+ */
+const canonical = (value: unknown): string => JSON.stringify(sortKeys(value))
+
+const classify = <T extends ImportRecord>(record: T, existing: Map<string, T>): RecordStatus => {
+  const mine = existing.get(record.id)
+  if (!mine) return 'new'
+  return canonical(mine) === canonical(record) ? 'identical' : 'conflict'
+}
+
+/**
+ * Last-modified time (snapshots are never edited, so they use createdAt)
+ */
+const modifiedAt = (record: ImportRecord): number =>
+  'updatedAt' in record ? record.updatedAt : record.createdAt
+
+const boardIdOf = (record: ImportRecord): string => ('boardId' in record ? record.boardId : record.id)
+
+const byId = <T extends ImportRecord>(records: T[]) => new Map(records.map((r) => [r.id, r]))
+
+// ============ Preview ============
+
+/**
+ * Compare an import with current data
+ */
+export const analyzeImport = (data: ParsedImport): ImportPreview => {
+  const existingBoards = byId(getBoards())
+  const existingCards = byId(getCards())
+  const existingSnapshots = byId(getSnapshots())
+
+  const totals = { boards: emptyCounts(), cards: emptyCounts(), snapshots: emptyCounts() }
+  const previews = new Map<string, BoardImportPreview>()
+
+  // Cards and snapshots can belong to boards that aren't in the file
+  const previewFor = (boardId: string): BoardImportPreview => {
+    let preview = previews.get(boardId)
+    if (!preview) {
+      preview = {
+        boardId,
+        name: existingBoards.get(boardId)?.name ?? 'Unknown board',
+        status: 'identical',
+        cards: emptyCounts(),
+        snapshots: emptyCounts(),
+        hasConflicts: false,
+      }
+      previews.set(boardId, preview)
+    }
+    return preview
+  }
+
+  for (const board of data.boards) {
+    const status = classify(board, existingBoards)
+    const preview = previewFor(board.id)
+    preview.name = board.name
+    preview.status = status
+    preview.hasConflicts ||= status === 'conflict'
+    totals.boards[status]++
+  }
+
+  for (const card of data.cards) {
+    const status = classify(card, existingCards)
+    const preview = previewFor(card.boardId)
+    preview.cards[status]++
+    preview.hasConflicts ||= status === 'conflict'
+    totals.cards[status]++
+  }
+
+  for (const snapshot of data.snapshots) {
+    const status = classify(snapshot, existingSnapshots)
+    const preview = previewFor(snapshot.boardId)
+    preview.snapshots[status]++
+    preview.hasConflicts ||= status === 'conflict'
+    totals.snapshots[status]++
+  }
+
+  return { boards: [...previews.values()], totals }
+}
+
+// ============ Apply ============
+
+/**
+ * Whether the imported copy should replace the existing one
+ */
+const takeImported = (strategy: ConflictStrategy, mine: ImportRecord, theirs: ImportRecord): boolean => {
+  switch (strategy) {
+    case 'keep-mine':
+      return false
+    case 'take-theirs':
+      return true
+    case 'keep-newer':
+      return modifiedAt(theirs) > modifiedAt(mine)
+  }
+}
+
+/**
+ * Merge one collection; returns the records to save and what changed
+ */
+const mergeRecords = <T extends ImportRecord>(
+  existing: T[],
+  imported: T[],
+  strategyFor: (record: T) => ConflictStrategy
+) => {
+  const merged = byId(existing)
+  const added: T[] = []
+  const updated: T[] = []
+  let kept = 0
+  let unchanged = 0
+
+  for (const record of imported) {
+    const mine = merged.get(record.id)
+    if (!mine) {
+      merged.set(record.id, record)
+      added.push(record)
+    } else if (canonical(mine) === canonical(record)) {
+      unchanged++
+    } else if (takeImported(strategyFor(record), mine, record)) {
+      merged.set(record.id, record)
+      updated.push(record)
+    } else {
+      kept++
+    }
+  }
+
+  return { records: [...merged.values()], added, updated, kept, unchanged }
+}
+
+/**
+ * Renumber the cards of the given boards so ranks run 1..n again
+ * A mix of kept and imported cards can share or skip ranks; ties keep
+ * the older card first.
+ */
+const renumberRanks = (cards: Card[], boardIds: Set<string>): Card[] => {
+  const nextRank = new Map<string, number>()
+  const renumbered = new Map<string, Card>()
+
+  const touched = cards
+    .filter((card) => boardIds.has(card.boardId))
+    .sort((a, b) => a.rank - b.rank || a.createdAt - b.createdAt || a.id.localeCompare(b.id))
+  for (const card of touched) {
+    const rank = (nextRank.get(card.boardId) ?? 0) + 1
+    nextRank.set(card.boardId, rank)
+    renumbered.set(card.id, card.rank === rank ? card : { ...card, rank })
+  }
+
+  return cards.map((card) => renumbered.get(card.id) ?? card)
+}
+
+/**
+ * Apply an import using the chosen conflict resolution
+ */
+export const applyImport = (data: ParsedImport, resolution: ImportResolution): ImportChangeReport => {
+  const strategyFor = (record: ImportRecord) =>
+    resolution.perBoard?.[boardIdOf(record)] ?? resolution.strategy
+
+  const boards = mergeRecords(getBoards(), data.boards, strategyFor)
+  const cards = mergeRecords(getCards(), data.cards, strategyFor)
+  const snapshots = mergeRecords(getSnapshots(), data.snapshots, strategyFor)
+
+  if (boards.added.length || boards.updated.length) saveBoards(boards.records)
+  if (cards.added.length || cards.updated.length) {
+    const touchedBoardIds = new Set([...cards.added, ...cards.updated].map(boardIdOf))
+    saveCards(renumberRanks(cards.records, touchedBoardIds))
+  }
+  if (snapshots.added.length || snapshots.updated.length) saveSnapshots(snapshots.records)
+
+  // Describe changes per board so the report says where things changed
+  const names = new Map(boards.records.map((b) => [b.id, b.name]))
+  const changedBoardIds = new Set([
+    ...cards.added, ...cards.updated, ...snapshots.added, ...snapshots.updated,
+  ].map(boardIdOf))
+  const details = [
+    ...boards.added.map((b) => `Added board "${b.name}"`),
+    ...boards.updated.map((b) => `Updated board "${b.name}"`),
+  ]
+  for (const boardId of changedBoardIds) {
+    const count = (list: ImportRecord[]) => list.filter((r) => boardIdOf(r) === boardId).length
+    const parts = [
+      [count(cards.added), 'card', 'added'],
+      [count(cards.updated), 'card', 'updated'],
+      [count(snapshots.added), 'snapshot', 'added'],
+      [count(snapshots.updated), 'snapshot', 'updated'],
+    ]
+      .filter(([n]) => (n as number) > 0)
+      .map(([n, noun, verb]) => `${n} ${noun}${n === 1 ? '' : 's'} ${verb}`)
+    details.push(`"${names.get(boardId) ?? 'Unknown board'}": ${parts.join(', ')}`)
+  }
+
+  return {
+    added: { boards: boards.added.length, cards: cards.added.length, snapshots: snapshots.added.length },
+    updated: { boards: boards.updated.length, cards: cards.updated.length, snapshots: snapshots.updated.length },
+    kept: boards.kept + cards.kept + snapshots.kept,
+    unchanged: boards.unchanged + cards.unchanged + snapshots.unchanged,
+    details,
+  }
+}
@@ -0,0 +1,70 @@
+import { getNameVariants, matchItems, type MatchableItem } from './itemMatching'
+
+const item = (id: string, name: string, extra: Partial<MatchableItem> = {}): MatchableItem => ({
+  id,
+  name,
+  ...extra,
+})
+
+describe('getNameVariants', () => {
+  it('folds hyphens, spacing and romanization differences', () => {
+    const variants = ['Kim Go-eun', 'Kim Go Eun', 'Gim Goeun', 'kim  go‐eun'].map((n) => getNameVariants(n)[0])
+
+    expect(new Set(variants)).toEqual(new Set(['kimgoeun']))
+  })
+
+  it('ignores name order', () => {
+    expect(getNameVariants('Lee Si-an')).toContain('an lee si')
+    expect(getNameVariants('Si-an Yi')).toContain('an lee si')
+  })
+})
+
+describe('matchItems', () => {
+  it('pairs items by template item, ID, name, nickname and spelling variant', () => {
+    const matches = matchItems(
+      [
+        item('1', 'Renamed', { templateItemId: 't1' }),
+        item('shared', 'Cho'),
+        item('3', 'Song Ji-a'),
+        item('4', 'Kim Go-eun'),
+        item('5', 'Freezia', { nickname: 'Ice Queen' }),
+        item('6', 'Nobody'),
+      ],
+      [
+        item('a', 'Original', { templateItemId: 't1' }),
+        item('shared', 'Someone Else'),
+        item('c', 'song ji-a'),
+        item('d', 'Gim Goeun'),
+        item('e', 'Ice Queen'),
+        item('f', 'Stranger'),
+      ]
+    )
+
+    expect(matches).toEqual([
+      { leftId: '1', rightId: 'a', reason: 'template' },
+      { leftId: 'shared', rightId: 'shared', reason: 'id' },
+      { leftId: '3', rightId: 'c', reason: 'name' },
+      { leftId: '5', rightId: 'e', reason: 'nickname' },
+      { leftId: '4', rightId: 'd', reason: 'variant' },
+    ])
+  })
+
+  it('applies manual overrides before and across every pass', () => {
+    const matches = matchItems(
+      [item('1', 'Kim Go-eun'), item('2', 'Jessie')],
+      [item('a', 'Kim Go Eun'), item('b', 'Jess')],
+      [
+        { leftItemId: '1', rightItemId: 'a', same: false },
+        { leftItemId: '2', rightItemId: 'b', same: true },
+      ]
+    )
+
+    expect(matches).toEqual([{ leftId: '2', rightId: 'b', reason: 'manual' }])
+  })
+
+  it('matches each item at most once', () => {
+    const matches = matchItems([item('1', 'Kim'), item('2', 'kim')], [item('a', 'KIM')])
+
+    expect(matches).toEqual([{ leftId: '1', rightId: 'a', reason: 'name' }])
+  })
+})
@@ -0,0 +1,173 @@
+/**
+ * Item Matching
+ *
+ * Pairs up the items of two boards that weren't made from the same
+ * template: by template item, card ID, normalized name, nickname, then
+ * spelling variants (hyphens, spacing, name order and common romanizations,
+ * so "Kim Go-eun", "Kim Go Eun" and "Gim Goeun" all match). Manual
+ * "same" / "not the same" overrides, remembered per board pair, win over
+ * every automatic pass.
+ */
+
+import { normalizeName } from './boardExport'
+
+// ============ Types ============
+
+/**
+ * An item that can be matched against another board
+ */
+export interface MatchableItem {
+  id: string
+  name: string
+  nickname?: string
+  templateItemId?: string
+}
+
+export type MatchReason = 'manual' | 'template' | 'id' | 'name' | 'nickname' | 'variant'
+
+/**
+ * Two items treated as the same
+ */
+export interface ItemMatch {
+  leftId: string
+  rightId: string
+  reason: MatchReason
+}
+
+/**
+ * A manual decision about two items on a pair of boards
+ */
+export interface ItemMatchOverride {
+  leftBoardId: string
+  rightBoardId: string
+  leftItemId: string
+  rightItemId: string
+  /** true = "these are the same", false = "not the same" */
+  same: boolean
+}
+
+/**
+ * Type guard for stored overrides
+ */
+export const isItemMatchOverride = (obj: unknown): obj is ItemMatchOverride => {
+  if (typeof obj !== 'object' || obj === null) return false
+  const o = obj as Record<string, unknown>
+  return (
+    typeof o.leftBoardId === 'string' &&
+    typeof o.rightBoardId === 'string' &&
+    typeof o.leftItemId === 'string' &&
+    typeof o.rightItemId === 'string' &&
+    typeof o.same === 'boolean'
+  )
+}
+
+// ============ Name Variants ============
+
+/**
+ * Alternative romanizations of common Korean name syllables, mapped to
+ * one spelling
+ */
+const ROMANIZATION_ALIASES: Record<string, string> = {
+  gim: 'kim',
+  yi: 'lee',
+  rhee: 'lee',
+  pak: 'park',
+  bak: 'park',
+  choe: 'choi',
+  jeong: 'jung',
+  chung: 'jung',
+  gang: 'kang',
+  sin: 'shin',
+  im: 'lim',
+  yun: 'yoon',
+  seo: 'suh',
+  gwon: 'kwon',
+  jeon: 'jun',
+  ryu: 'yoo',
+  yu: 'yoo',
+}
+
+/**
+ * Words of a name with accents, punctuation and romanization differences
+ * folded away
+ */
+const getNameTokens = (name: string): string[] =>
+  normalizeName(name)
+    .split(/[\s\-‐_.'’]+/)
+    .filter(Boolean)
+    .map((token) => ROMANIZATION_ALIASES[token] ?? token)
+
+/**
+ * Spelling-insensitive keys for a name: the folded words run together,
+ * and the same words in alphabetical order (so name order doesn't matter)
+ */
+export const getNameVariants = (name: string): string[] => {
+  const tokens = getNameTokens(name)
+  if (tokens.length === 0) return []
+
+  // "Go-eun" and "Goeun" both become "goeun"
+  const joined = tokens.join('')
+  const sorted = [...tokens].sort().join(' ')
+  return joined === sorted ? [joined] : [joined, sorted]
+}
+
+// ============ Matching ============
+
+/**
+ * Match two boards' items one-to-one. Each pass only pairs items left
+ * unmatched by the passes before it; "not the same" overrides block a
+ * pair in every pass.
+ */
+export const matchItems = (
+  left: MatchableItem[],
+  right: MatchableItem[],
+  overrides: Pick<ItemMatchOverride, 'leftItemId' | 'rightItemId' | 'same'>[] = []
+): ItemMatch[] => {
+  const matches: ItemMatch[] = []
+  const unmatchedLeft = new Map(left.map((item) => [item.id, item]))
+  const unmatchedRight = new Map(right.map((item) => [item.id, item]))
+  const blocked = new Set(
+    overrides.filter((o) => !o.same).map((o) => `${o.leftItemId}|${o.rightItemId}`)
+  )
+
+  const pair = (leftId: string, rightId: string, reason: MatchReason) => {
+    matches.push({ leftId, rightId, reason })
+    unmatchedLeft.delete(leftId)
+    unmatchedRight.delete(rightId)
+  }
+
+  // Manual matches first
+  for (const override of overrides) {
+    if (override.same && unmatchedLeft.has(override.leftItemId) && unmatchedRight.has(override.rightItemId)) {
+      pair(override.leftItemId, override.rightItemId, 'manual')
+    }
+  }
+
+  const runPass = (getKeys: (item: MatchableItem) => (string | undefined)[], reason: MatchReason) => {
+    const rightByKey = new Map<string, MatchableItem[]>()
+    for (const item of unmatchedRight.values()) {
+      for (const key of new Set(getKeys(item))) {
+        if (!key) continue
+        rightByKey.set(key, [...(rightByKey.get(key) ?? []), item])
+      }
+    }
+
+    for (const item of [...unmatchedLeft.values()]) {
+      const candidate = getKeys(item)
+        .flatMap((key) => (key ? rightByKey.get(key) ?? [] : []))
+        .find((r) => unmatchedRight.has(r.id) && !blocked.has(`${item.id}|${r.id}`))
+      if (candidate) pair(item.id, candidate.id, reason)
+    }
+  }
+
+  const nameKeys = (item: MatchableItem) =>
+    [item.name, item.nickname].filter((n): n is string => !!n?.trim())
+
+  runPass((item) => [item.templateItemId], 'template')
+  runPass((item) => [item.id], 'id')
+  runPass((item) => [normalizeName(item.name)], 'name')
+  runPass((item) => nameKeys(item).map(normalizeName), 'nickname')
+  runPass((item) => nameKeys(item).flatMap(getNameVariants), 'variant')
+
+  return matches
+}
@@ -0,0 +1,76 @@
+import { loadMatchingSpaceBoards } from './matchingSpaceBoards'
+import { getSpaceBoards, getSpaceCards } from './firestoreSpaces'
+import { getSpaceMemberships } from './spaceStorage'
+import { createBoard } from './types'
+import type { LocalSpaceMembership, SpaceBoard } from './spaceTypes'
+
+vi.mock('./firestoreSpaces', () => ({
+  getSpaceBoards: vi.fn(),
+  getSpaceCards: vi.fn(),
+}))
+
+vi.mock('./spaceStorage', () => ({
+  getSpaceMemberships: vi.fn(),
+}))
+
+vi.mock('./firebase', () => ({
+  getAnonUid: vi.fn(async () => 'me'),
+  getFirebaseDb: vi.fn(),
+  USE_MOCK_AUTH: true,
+}))
+
+const membership = (spaceId: string) =>
+  ({ spaceId, spaceName: `Space ${spaceId}` }) as LocalSpaceMembership
+
+const spaceBoard = (id: string, ownerId: string, overrides: Partial<SpaceBoard> = {}): SpaceBoard => ({
+  ...createBoard('Singles Inferno'),
+  id,
+  spaceId: 's1',
+  ownerId,
+  ownerName: ownerId,
+  isDraft: false,
+  syncedAt: 1,
+  ...overrides,
+})
+
+describe('loadMatchingSpaceBoards', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getSpaceCards).mockResolvedValue([])
+  })
+
+  it('returns nothing without fetching when no space is joined', async () => {
+    vi.mocked(getSpaceMemberships).mockReturnValue([])
+
+    expect(await loadMatchingSpaceBoards({ name: 'Singles Inferno' })).toEqual([])
+    expect(getSpaceBoards).not.toHaveBeenCalled()
+  })
+
+  it("loads other members' published boards with a matching title", async () => {
+    vi.mocked(getSpaceMemberships).mockReturnValue([membership('s1')])
+    vi.mocked(getSpaceBoards).mockResolvedValue([
+      spaceBoard('mine', 'me'),
+      spaceBoard('draft', 'jo', { isDraft: true }),
+      spaceBoard('other', 'jo', { name: 'Love Island' }),
+      spaceBoard('match', 'sam'),
+    ])
+
+    const boards = await loadMatchingSpaceBoards({ name: 'singles inferno' })
+
+    expect(boards.map((b) => [b.spaceName, b.board.id])).toEqual([['Space s1', 'match']])
+    expect(getSpaceCards).toHaveBeenCalledTimes(1)
+  })
+
+  it("keeps each member's latest board across spaces when asked", async () => {
+    vi.mocked(getSpaceMemberships).mockReturnValue([membership('s1'), membership('s2')])
+    vi.mocked(getSpaceBoards).mockImplementation(async (spaceId) =>
+      spaceId === 's1' ? [spaceBoard('old', 'jo', { syncedAt: 1 })] : [spaceBoard('new', 'jo', { syncedAt: 2 })]
+    )
+
+    const all = await loadMatchingSpaceBoards({ name: 'Singles Inferno' })
+    const latest = await loadMatchingSpaceBoards({ name: 'Singles Inferno' }, { latestPerOwner: true })
+
+    expect(all.map((b) => b.board.id)).toEqual(['old', 'new'])
+    expect(latest.map((b) => b.board.id)).toEqual(['new'])
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * Matching Space Boards
+ *
+ * Loads other members' boards that match one of yours (same template or
+ * title) from every space this device has joined, with their cards.
+ */
+
+import type { Board } from './types'
+import { getSpaceBoards, getSpaceCards } from './firestoreSpaces'
+import { areTemplateMatching, areTitlesMatching } from './firestoreTemplates'
+import { getSpaceMemberships } from './spaceStorage'
+import { getAnonUid } from './firebase'
+import type { SpaceBoardCards } from './cardHistory'
+
+export interface MatchingSpaceBoardsOptions {
+  /** Keep only each member's most recently synced board */
+  latestPerOwner?: boolean
+}
+
+/**
+ * Load other members' published boards matching a board
+ * Resolves to an empty list when this device hasn't joined a space.
+ */
+export const loadMatchingSpaceBoards = async (
+  board: Pick<Board, 'name' | 'templateId'>,
+  options: MatchingSpaceBoardsOptions = {}
+): Promise<SpaceBoardCards[]> => {
+  const memberships = getSpaceMemberships()
+  if (memberships.length === 0) return []
+
+  const uid = await getAnonUid()
+  const boards: SpaceBoardCards[] = []
+  // Index in `boards` of each member's board, when keeping one per member
+  const byOwner = new Map<string, number>()
+
+  for (const membership of memberships) {
+    const spaceBoards = await getSpaceBoards(membership.spaceId)
+    const matching = spaceBoards.filter(
+      (b) =>
+        b.ownerId !== uid &&
+        !b.isDraft &&
+        (areTemplateMatching(board.templateId, b.templateId) || areTitlesMatching(board.name, b.name))
+    )
+
+    for (const spaceBoard of matching) {
+      const existing = options.latestPerOwner ? byOwner.get(spaceBoard.ownerId) : undefined
+      if (existing !== undefined && boards[existing].board.syncedAt >= spaceBoard.syncedAt) continue
+
+      const cards = await getSpaceCards(membership.spaceId, spaceBoard.id)
+      const entry = { spaceName: membership.spaceName, board: spaceBoard, cards }
+      if (existing !== undefined) {
+        boards[existing] = entry
+      } else {
+        byOwner.set(spaceBoard.ownerId, boards.length)
+        boards.push(entry)
+      }
+    }
+  }
+
+  return boards
+}
@@ -0,0 +1,105 @@
+import {
+  CURRENT_SCHEMA_VERSION,
+  MIGRATIONS,
+  compareVersions,
+  migrateData,
+  type RawDataSet,
+} from './migrations'
+import { isBoard, isCard, isSnapshot } from './types'
+
+const v10Data = (): RawDataSet => ({
+  boards: [{ id: 'b1', name: 'Board', createdAt: 1, updatedAt: 1 }],
+  cards: [
+    { id: 'c1', boardId: 'b1', name: 'One', rank: 3, createdAt: 1, updatedAt: 1 },
+    { id: 'c2', boardId: 'b1', name: 'Two', rank: 7, createdAt: 1, updatedAt: 1 },
+  ],
+  snapshots: [],
+})
+
+describe('migrations', () => {
+  describe('registry', () => {
+    it('forms a single chain ending at the current version', () => {
+      for (let i = 1; i < MIGRATIONS.length; i++) {
+        expect(MIGRATIONS[i].from).toBe(MIGRATIONS[i - 1].to)
+      }
+      expect(MIGRATIONS[MIGRATIONS.length - 1].to).toBe(CURRENT_SCHEMA_VERSION)
+    })
+  })
+
+  describe('compareVersions', () => {
+    it('compares major and minor parts numerically', () => {
+      expect(compareVersions('1.2', '1.10')).toBeLessThan(0)
+      expect(compareVersions('2.0', '1.9')).toBeGreaterThan(0)
+      expect(compareVersions('1.1', '1.1')).toBe(0)
+    })
+
+    it('returns null for unparseable versions', () => {
+      expect(compareVersions('banana', '1.0')).toBeNull()
+    })
+  })
+
+  describe('migrateData', () => {
+    it('upgrades 1.0 data to the current version', () => {
+      const result = migrateData(v10Data(), '1.0')
+
+      expect(result.success).toBe(true)
+      expect(result.fromVersion).toBe('1.0')
+      expect(result.toVersion).toBe(CURRENT_SCHEMA_VERSION)
+
+      const [card] = result.data!.cards as Record<string, unknown>[]
+      expect(card.nickname).toBe('')
+      expect(card.imageCrop).toBeNull()
+      expect(card.metadata).toEqual({})
+      expect(result.data!.boards.every(isBoard)).toBe(true)
+      expect(result.data!.cards.every(isCard)).toBe(true)
+    })
+
+    it('renumbers ranks within each board', () => {
+      const result = migrateData(v10Data(), '1.1')
+
+      expect((result.data!.cards as { rank: number }[]).map((c) => c.rank)).toEqual([1, 2])
+    })
+
+    it('reports what each step changed', () => {
+      const result = migrateData(v10Data(), '1.0')
+
+      expect(result.changes).toEqual([
+        'v1.0 → v1.1: Added empty nicknames to cards (2)',
+        'v1.1 → v1.2: Filled missing board fields (1)',
+        'v1.1 → v1.2: Filled missing card fields (2)',
+        'v1.1 → v1.2: Renumbered card ranks (2)',
+      ])
+    })
+
+    it('fills snapshot defaults', () => {
+      const result = migrateData(
+        { boards: [], cards: [], snapshots: [{ id: 's1', boardId: 'b1', episodeNumber: 4, createdAt: 1 }] },
+        '1.1'
+      )
+
+      expect(result.data!.snapshots[0]).toMatchObject({ label: 'Episode 4', notes: '', rankings: [] })
+      expect(result.data!.snapshots.every(isSnapshot)).toBe(true)
+    })
+
+    it('leaves current data untouched', () => {
+      const data = v10Data()
+      const result = migrateData(data, CURRENT_SCHEMA_VERSION)
+
+      expect(result.success).toBe(true)
+      expect(result.data).toBe(data)
+      expect(result.changes).toEqual([])
+    })
+
+    it('refuses data from a newer version', () => {
+      const result = migrateData(v10Data(), '99.0')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('newer version')
+    })
+
+    it('refuses unknown versions', () => {
+      expect(migrateData(v10Data(), 'abc').success).toBe(false)
+      expect(migrateData(v10Data(), '0.5').error).toContain('No upgrade path')
+    })
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * Schema Migrations
+ *
+ * Upgrades stored data and imported files from any past schema version to
+ * CURRENT_SCHEMA_VERSION, one registered step at a time. Each step works on
+ * raw JSON records (before type guards run) and reports what it changed,
+ * so older records are upgraded instead of being silently dropped.
+ *
+ * To change the schema: bump CURRENT_SCHEMA_VERSION and append a step to
+ * MIGRATIONS whose `from` is the previous current version.
+ */
+
+/** Schema version written by this build */
+export const CURRENT_SCHEMA_VERSION = '1.2'
+
+/**
+ * Version assumed for data written before versions were stored
+ * (localStorage data and exports from those builds were 1.1)
+ */
+export const LEGACY_SCHEMA_VERSION = '1.1'
+
+/**
+ * Raw record collections as read from storage or a file
+ */
+export interface RawDataSet {
+  boards: unknown[]
+  cards: unknown[]
+  snapshots: unknown[]
+}
+
+/**
+ * A single upgrade step between two adjacent versions
+ */
+export interface Migration {
+  from: string
+  to: string
+  /** Applies the step; returns human-readable notes for anything it changed */
+  migrate: (data: RawDataSet) => { data: RawDataSet; changes: string[] }
+}
+
+/**
+ * Result of running migrations
+ */
+export interface MigrationResult {
+  success: boolean
+  error?: string
+  data?: RawDataSet
+  fromVersion?: string
+  toVersion?: string
+  /** What each step changed, in order */
+  changes?: string[]
+}
+
+type RawRecord = Record<string, unknown>
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Fill in missing fields on each record
+ * Returns the upgraded records and how many were changed.
+ */
+const fillDefaults = (
+  records: unknown[],
+  defaults: (record: RawRecord) => RawRecord
+): { records: unknown[]; changed: number } => {
+  let changed = 0
+
+  const upgraded = records.map((record) => {
+    if (!isRecord(record)) return record
+
+    const missing = Object.entries(defaults(record)).filter(([key]) => record[key] === undefined)
+    if (missing.length === 0) return record
+
+    changed++
+    return { ...record, ...Object.fromEntries(missing) }
+  })
+
+  return { records: upgraded, changed }
+}
+
+/**
+ * Note a change only if something actually happened
+ */
+const note = (changes: string[], count: number, message: string) => {
+  if (count > 0) changes.push(`${message} (${count})`)
+}
+
+// ============ Registry ============
+
+export const MIGRATIONS: Migration[] = [
+  {
+    // 1.0 had no snapshots and no card nicknames
+    from: '1.0',
+    to: '1.1',
+    migrate: (data) => {
+      const changes: string[] = []
+      const cards = fillDefaults(data.cards, () => ({ nickname: '' }))
+      note(changes, cards.changed, 'Added empty nicknames to cards')
+
+      return { data: { ...data, cards: cards.records }, changes }
+    },
+  },
+  {
+    // 1.2 guarantees every field is present and ranks are contiguous per board
+    from: '1.1',
+    to: '1.2',
+    migrate: (data) => {
+      const changes: string[] = []
+
+      const boards = fillDefaults(data.boards, () => ({
+        coverImage: null,
+        deletedAt: null,
+      }))
+      note(changes, boards.changed, 'Filled missing board fields')
+
+      const cards = fillDefaults(data.cards, () => ({
+        nickname: '',
+        imageKey: null,
+        thumbnailKey: null,
+        imageCrop: null,
+        notes: '',
+        metadata: {},
+      }))
+      note(changes, cards.changed, 'Filled missing card fields')
+
+      const snapshots = fillDefaults(data.snapshots, (s) => ({
+        label: typeof s.episodeNumber === 'number' ? `Episode ${s.episodeNumber}` : 'Episode',
+        notes: '',
+        rankings: [],
+      }))
+      note(changes, snapshots.changed, 'Filled missing snapshot fields')
+
+      // Renumber ranks 1..n within each board, keeping the existing order
+      const byBoard = new Map<unknown, RawRecord[]>()
+      for (const card of cards.records) {
+        if (!isRecord(card) || typeof card.rank !== 'number') continue
+        const list = byBoard.get(card.boardId) ?? []
+        list.push(card)
+        byBoard.set(card.boardId, list)
+      }
+
+      const newRanks = new Map<RawRecord, number>()
+      for (const list of byBoard.values()) {
+        list
+          .sort((a, b) => (a.rank as number) - (b.rank as number))
+          .forEach((card, index) => {
+            if (card.rank !== index + 1) newRanks.set(card, index + 1)
+          })
+      }
+      note(changes, newRanks.size, 'Renumbered card ranks')
+
+      const renumbered = cards.records.map((card) =>
+        isRecord(card) && newRanks.has(card) ? { ...card, rank: newRanks.get(card) } : card
+      )
+
+      return {
+        data: { boards: boards.records, cards: renumbered, snapshots: snapshots.records },
+        changes,
+      }
+    },
+  },
+]
+
+// ============ Runner ============
+
+/**
+ * Parse a "major.minor" version string
+ */
+const parseVersion = (version: string): [number, number] | null => {
+  const match = /^(\d+)\.(\d+)$/.exec(version)
+  return match ? [Number(match[1]), Number(match[2])] : null
+}
+
+/**
+ * Compare two versions: negative if a < b, 0 if equal, positive if a > b
+ * Returns null if either version can't be parsed.
+ */
+export const compareVersions = (a: string, b: string): number | null => {
+  const pa = parseVersion(a)
+  const pb = parseVersion(b)
+  if (!pa || !pb) return null
+  return pa[0] - pb[0] || pa[1] - pb[1]
+}
+
+/**
+ * Upgrade a data set from `version` to CURRENT_SCHEMA_VERSION
+ *
+ * Fails with a clear error for unrecognised versions and for data
+ * written by a newer version of the app.
+ */
+export const migrateData = (data: RawDataSet, version: string): MigrationResult => {
+  const comparison = compareVersions(version, CURRENT_SCHEMA_VERSION)
+
+  if (comparison === null) {
+    return { success: false, error: `Unrecognised data version "${version}"` }
+  }
+
+  if (comparison > 0) {
+    return {
+      success: false,
+      error: `This data is from a newer version of the app (v${version}). Please update the app to use it.`,
+    }
+  }
+
+  let current = data
+  let currentVersion = version
+  const changes: string[] = []
+
+  while (currentVersion !== CURRENT_SCHEMA_VERSION) {
+    const step = MIGRATIONS.find((m) => m.from === currentVersion)
+    if (!step) {
+      return { success: false, error: `No upgrade path from data version "${currentVersion}"` }
+    }
+
+    const result = step.migrate(current)
+    current = result.data
+    changes.push(...result.changes.map((c) => `v${step.from} → v${step.to}: ${c}`))
+    currentVersion = step.to
+  }
+
+  return {
+    success: true,
+    data: current,
+    fromVersion: version,
+    toVersion: CURRENT_SCHEMA_VERSION,
+    changes,
+  }
+}
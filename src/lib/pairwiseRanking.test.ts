@@ -0,0 +1,204 @@
+import {
+  pairKey,
+  createPairwiseSession,
+  createRecheckSession,
+  getCurrentPair,
+  answerPair,
+  startRecheck,
+  getUncertainPairs,
+  reconcileSession,
+  getSessionOrder,
+  estimateRemainingQuestions,
+  isPairwiseSession,
+  type PairwiseSession,
+} from './pairwiseRanking'
+
+/**
+ * Answer every question using a fixed "true" order, counting questions asked
+ */
+const runToCompletion = (session: PairwiseSession, truth: string[]) => {
+  let current = session
+  let asked = 0
+  let pair = getCurrentPair(current)
+  while (pair) {
+    const [a, b] = pair
+    const winner = truth.indexOf(a) < truth.indexOf(b) ? a : b
+    current = answerPair(current, winner)
+    asked++
+    pair = getCurrentPair(current)
+  }
+  return { session: current, asked }
+}
+
+describe('pairwiseRanking', () => {
+  describe('pairKey', () => {
+    it('is the same regardless of argument order', () => {
+      expect(pairKey('a', 'b')).toBe(pairKey('b', 'a'))
+    })
+  })
+
+  describe('createPairwiseSession', () => {
+    it('starts by comparing the second card against the first', () => {
+      const session = createPairwiseSession('board-1', ['a', 'b', 'c'])
+
+      expect(session.phase).toBe('sorting')
+      expect(getCurrentPair(session)).toEqual(['b', 'a'])
+    })
+
+    it('is immediately done for a single card', () => {
+      const session = createPairwiseSession('board-1', ['a'])
+
+      expect(session.phase).toBe('done')
+      expect(getCurrentPair(session)).toBeNull()
+      expect(getSessionOrder(session)).toEqual(['a'])
+    })
+
+    it('is immediately done for an empty board', () => {
+      const session = createPairwiseSession('board-1', [])
+
+      expect(session.phase).toBe('done')
+      expect(getSessionOrder(session)).toEqual([])
+    })
+  })
+
+  describe('answerPair', () => {
+    it('sorts cards into the order implied by the answers', () => {
+      const truth = ['e', 'c', 'a', 'd', 'b']
+      const { session } = runToCompletion(
+        createPairwiseSession('board-1', ['a', 'b', 'c', 'd', 'e']),
+        truth
+      )
+
+      expect(session.phase).toBe('done')
+      expect(session.sorted).toEqual(truth)
+    })
+
+    it('asks no more than the binary insertion bound', () => {
+      const ids = Array.from({ length: 20 }, (_, i) => `card-${i}`)
+      const truth = [...ids].reverse()
+      const { asked } = runToCompletion(createPairwiseSession('board-1', ids), truth)
+
+      // sum of ceil(log2(k + 1)) for k = 1..19
+      let bound = 0
+      for (let k = 1; k < ids.length; k++) bound += Math.ceil(Math.log2(k + 1))
+
+      expect(asked).toBeLessThanOrEqual(bound)
+    })
+
+    it('ignores picks for cards that are not in the current pair', () => {
+      const session = createPairwiseSession('board-1', ['a', 'b', 'c'])
+
+      expect(answerPair(session, 'c')).toBe(session)
+    })
+
+    it('records close calls', () => {
+      const session = answerPair(createPairwiseSession('board-1', ['a', 'b']), 'a', {
+        isClose: true,
+      })
+
+      expect(session.answers[pairKey('a', 'b')]).toEqual({ winnerId: 'a', isClose: true })
+    })
+  })
+
+  describe('re-check', () => {
+    it('lists neighbours answered as close calls', () => {
+      let session = createPairwiseSession('board-1', ['a', 'b', 'c'])
+      session = answerPair(session, 'a', { isClose: true }) // b vs a -> a higher
+      session = answerPair(session, 'b') // c vs b -> b higher
+
+      expect(session.sorted).toEqual(['a', 'b', 'c'])
+      expect(getUncertainPairs(session)).toEqual([['a', 'b']])
+    })
+
+    it('treats neighbours that were never compared directly as uncertain', () => {
+      let session = createPairwiseSession('board-1', ['a', 'b', 'c'])
+      session = answerPair(session, 'a') // b vs a -> a higher
+      session = answerPair(session, 'b') // c vs b -> b higher
+
+      // Removing b leaves a next to c, whose order was only inferred
+      const reconciled = reconcileSession(session, ['a', 'c'])
+
+      expect(reconciled.sorted).toEqual(['a', 'c'])
+      expect(getUncertainPairs(reconciled)).toEqual([['a', 'c']])
+    })
+
+    it('swaps neighbours when the lower card wins and re-checks new neighbours', () => {
+      let session = createRecheckSession('board-1', ['a', 'b', 'c'])
+      expect(getCurrentPair(session)).toEqual(['a', 'b'])
+
+      session = answerPair(session, 'a')
+      expect(getCurrentPair(session)).toEqual(['b', 'c'])
+
+      session = answerPair(session, 'c')
+      expect(session.sorted).toEqual(['a', 'c', 'b'])
+      // c moved next to a, which has not been compared directly
+      expect(getCurrentPair(session)).toEqual(['a', 'c'])
+
+      session = answerPair(session, 'a')
+      expect(session.phase).toBe('done')
+      expect(session.sorted).toEqual(['a', 'c', 'b'])
+    })
+
+    it('drops queued pairs that a swap has pulled apart', () => {
+      let session = createRecheckSession('board-1', ['a', 'b', 'c'])
+
+      session = answerPair(session, 'b') // b jumps above a; b|c is no longer adjacent
+      expect(getCurrentPair(session)).toEqual(['a', 'c'])
+
+      session = answerPair(session, 'a')
+      session = answerPair(session, 'c') // nothing left to ask
+
+      expect(session.phase).toBe('done')
+      expect(session.sorted).toEqual(['b', 'a', 'c'])
+    })
+
+    it('finishes immediately when nothing is uncertain', () => {
+      const { session } = runToCompletion(createPairwiseSession('board-1', ['a', 'b']), ['b', 'a'])
+
+      expect(startRecheck(session).phase).toBe('done')
+    })
+  })
+
+  describe('reconcileSession', () => {
+    it('returns the same session when cards are unchanged', () => {
+      const session = createPairwiseSession('board-1', ['a', 'b', 'c'])
+
+      expect(reconcileSession(session, ['a', 'b', 'c'])).toBe(session)
+    })
+
+    it('drops deleted cards and queues new ones', () => {
+      let session = createPairwiseSession('board-1', ['a', 'b', 'c'])
+      session = answerPair(session, 'a')
+
+      const reconciled = reconcileSession(session, ['a', 'c', 'd'])
+
+      expect(getSessionOrder(reconciled)).toEqual(['a', 'c', 'd'])
+      expect(reconciled.cardIds).toEqual(['a', 'c', 'd'])
+
+      const { session: finished } = runToCompletion(reconciled, ['d', 'a', 'c'])
+      expect(finished.sorted).toEqual(['d', 'a', 'c'])
+    })
+  })
+
+  describe('estimateRemainingQuestions', () => {
+    it('counts down to zero', () => {
+      let session = createPairwiseSession('board-1', ['a', 'b', 'c', 'd'])
+      const initial = estimateRemainingQuestions(session)
+
+      expect(initial).toBeGreaterThan(0)
+      session = runToCompletion(session, ['a', 'b', 'c', 'd']).session
+      expect(estimateRemainingQuestions(session)).toBe(0)
+    })
+  })
+
+  describe('isPairwiseSession', () => {
+    it('accepts a real session', () => {
+      expect(isPairwiseSession(createPairwiseSession('board-1', ['a', 'b']))).toBe(true)
+    })
+
+    it('rejects malformed data', () => {
+      expect(isPairwiseSession(null)).toBe(false)
+      expect(isPairwiseSession({ boardId: 'x' })).toBe(false)
+    })
+  })
+})
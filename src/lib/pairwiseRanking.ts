@@ -0,0 +1,372 @@
+/**
+ * Pairwise "This or That" Ranking
+ *
+ * Builds a board's order from head-to-head picks using binary insertion
+ * sort, which keeps the number of questions close to n·log2(n).
+ *
+ * Sessions are plain JSON so they can be persisted and resumed later.
+ * A re-check pass revisits neighbouring cards whose order was only
+ * inferred (never asked directly) or was marked as a close call.
+ */
+
+/**
+ * A recorded answer for a single pair of cards
+ */
+export interface PairwiseAnswer {
+  /** Card ID that ranks higher */
+  winnerId: string
+  /** User marked this as "too close to call" */
+  isClose: boolean
+}
+
+/**
+ * Binary search window for the card currently being inserted
+ */
+export interface PairwiseInsertion {
+  cardId: string
+  low: number
+  high: number
+}
+
+export type PairwisePhase = 'sorting' | 'recheck' | 'done'
+
+/**
+ * PairwiseSession - Serializable state of a pairwise ranking run
+ */
+export interface PairwiseSession {
+  boardId: string
+  /** Card IDs in their board order when the session started */
+  cardIds: string[]
+  /** Cards already placed, best first */
+  sorted: string[]
+  /** Cards still waiting to be placed, in board order */
+  pending: string[]
+  /** Card currently being placed (sorting phase only) */
+  insertion: PairwiseInsertion | null
+  /** Neighbouring pairs left to re-check, as "higherId|lowerId" */
+  recheckQueue: string[]
+  /** Answers keyed by pairKey() */
+  answers: Record<string, PairwiseAnswer>
+  phase: PairwisePhase
+  /** Number of questions the user has answered */
+  comparisons: number
+  startedAt: number
+  updatedAt: number
+}
+
+/**
+ * Stable key for an unordered pair of card IDs
+ */
+export const pairKey = (a: string, b: string): string =>
+  a < b ? `${a}|${b}` : `${b}|${a}`
+
+/**
+ * Start the next pending insertion (or finish sorting)
+ */
+const beginNextInsertion = (session: PairwiseSession): PairwiseSession => {
+  if (session.pending.length === 0) {
+    return { ...session, insertion: null, phase: 'done' }
+  }
+
+  const [cardId, ...pending] = session.pending
+  return {
+    ...session,
+    pending,
+    insertion: { cardId, low: 0, high: session.sorted.length },
+  }
+}
+
+/**
+ * Apply already-known answers until a new question is needed
+ */
+const advance = (session: PairwiseSession): PairwiseSession => {
+  let current = session
+
+  // Each iteration either narrows the window or places a card, so this terminates
+  while (current.phase === 'sorting' && current.insertion) {
+    const { cardId, low, high } = current.insertion
+
+    if (low >= high) {
+      const sorted = [...current.sorted]
+      sorted.splice(low, 0, cardId)
+      current = beginNextInsertion({ ...current, sorted })
+      continue
+    }
+
+    const mid = Math.floor((low + high) / 2)
+    const known = current.answers[pairKey(cardId, current.sorted[mid])]
+    if (!known) break
+
+    current = {
+      ...current,
+      insertion: known.winnerId === cardId
+        ? { cardId, low, high: mid }
+        : { cardId, low: mid + 1, high },
+    }
+  }
+
+  return current
+}
+
+/**
+ * Create a new session that sorts the given cards from scratch
+ *
+ * @param boardId - Board being ranked
+ * @param cardIds - Card IDs in current board order (used for tie-breaks)
+ */
+export const createPairwiseSession = (
+  boardId: string,
+  cardIds: string[]
+): PairwiseSession => {
+  const now = Date.now()
+  const [first, ...rest] = cardIds
+
+  return advance(beginNextInsertion({
+    boardId,
+    cardIds: [...cardIds],
+    sorted: first ? [first] : [],
+    pending: rest,
+    insertion: null,
+    recheckQueue: [],
+    answers: {},
+    phase: 'sorting',
+    comparisons: 0,
+    startedAt: now,
+    updatedAt: now,
+  }))
+}
+
+/**
+ * Get the pair the user should be asked about next
+ * Returns null when the session has nothing left to ask.
+ */
+export const getCurrentPair = (session: PairwiseSession): [string, string] | null => {
+  if (session.phase === 'sorting' && session.insertion) {
+    const { cardId, low, high } = session.insertion
+    const mid = Math.floor((low + high) / 2)
+    return [cardId, session.sorted[mid]]
+  }
+
+  if (session.phase === 'recheck' && session.recheckQueue.length > 0) {
+    const [higherId, lowerId] = session.recheckQueue[0].split('|')
+    return [higherId, lowerId]
+  }
+
+  return null
+}
+
+/**
+ * Whether the relative order of two neighbours is uncertain:
+ * never asked directly, or answered as a close call
+ */
+const isUncertain = (session: PairwiseSession, a: string, b: string): boolean => {
+  const answer = session.answers[pairKey(a, b)]
+  return !answer || answer.isClose
+}
+
+/**
+ * Neighbouring pairs in the current order whose order is uncertain
+ */
+export const getUncertainPairs = (session: PairwiseSession): [string, string][] => {
+  const pairs: [string, string][] = []
+  for (let i = 0; i < session.sorted.length - 1; i++) {
+    const higher = session.sorted[i]
+    const lower = session.sorted[i + 1]
+    if (isUncertain(session, higher, lower)) {
+      pairs.push([higher, lower])
+    }
+  }
+  return pairs
+}
+
+/**
+ * Record the user's pick for the current pair
+ *
+ * @param winnerId - Card that ranks higher
+ * @param options.isClose - The user called it "too close"
+ */
+export const answerPair = (
+  session: PairwiseSession,
+  winnerId: string,
+  options: { isClose?: boolean } = {}
+): PairwiseSession => {
+  const pair = getCurrentPair(session)
+  if (!pair || !pair.includes(winnerId)) return session
+
+  const [a, b] = pair
+  const answered: PairwiseSession = {
+    ...session,
+    answers: {
+      ...session.answers,
+      [pairKey(a, b)]: { winnerId, isClose: options.isClose ?? false },
+    },
+    comparisons: session.comparisons + 1,
+    updatedAt: Date.now(),
+  }
+
+  if (session.phase === 'sorting') {
+    return advance(answered)
+  }
+
+  // Re-check phase: a is expected directly above b
+  const [, ...queue] = answered.recheckQueue
+  const sorted = [...answered.sorted]
+  const index = sorted.indexOf(a)
+  const isAdjacent = index !== -1 && sorted[index + 1] === b
+
+  if (winnerId === a || !isAdjacent) {
+    return finishRecheck({ ...answered, recheckQueue: queue })
+  }
+
+  // The lower card won: swap them and re-check their new neighbours
+  sorted[index] = b
+  sorted[index + 1] = a
+
+  const neighbours: string[] = []
+  if (index > 0) neighbours.push(`${sorted[index - 1]}|${b}`)
+  if (index + 2 < sorted.length) neighbours.push(`${a}|${sorted[index + 2]}`)
+
+  const pendingKeys = new Set(queue)
+  const extra = neighbours.filter((key) => {
+    const [higher, lower] = key.split('|')
+    return !pendingKeys.has(key) && isUncertain(answered, higher, lower)
+  })
+
+  return finishRecheck({ ...answered, sorted, recheckQueue: [...extra, ...queue] })
+}
+
+/**
+ * Drop queued pairs that a swap has pulled apart, and finish once
+ * nothing is left to re-check
+ */
+const finishRecheck = (session: PairwiseSession): PairwiseSession => {
+  const recheckQueue = session.recheckQueue.filter((key) => {
+    const [higher, lower] = key.split('|')
+    const index = session.sorted.indexOf(higher)
+    return index !== -1 && session.sorted[index + 1] === lower
+  })
+  return recheckQueue.length === 0
+    ? { ...session, recheckQueue, phase: 'done' }
+    : { ...session, recheckQueue }
+}
+
+/**
+ * Start a re-check pass over the uncertain neighbours of a finished session
+ */
+export const startRecheck = (session: PairwiseSession): PairwiseSession => {
+  const recheckQueue = getUncertainPairs(session).map(([a, b]) => `${a}|${b}`)
+  return {
+    ...session,
+    phase: recheckQueue.length > 0 ? 'recheck' : 'done',
+    recheckQueue,
+    updatedAt: Date.now(),
+  }
+}
+
+/**
+ * Create a session that only re-checks an existing order
+ * Every neighbouring pair starts out uncertain.
+ */
+export const createRecheckSession = (
+  boardId: string,
+  cardIds: string[]
+): PairwiseSession => {
+  const now = Date.now()
+  return startRecheck({
+    boardId,
+    cardIds: [...cardIds],
+    sorted: [...cardIds],
+    pending: [],
+    insertion: null,
+    recheckQueue: [],
+    answers: {},
+    phase: 'done',
+    comparisons: 0,
+    startedAt: now,
+    updatedAt: now,
+  })
+}
+
+/**
+ * Bring a saved session in line with the board's current cards
+ * Deleted cards are dropped; new cards are queued for placement.
+ */
+export const reconcileSession = (
+  session: PairwiseSession,
+  cardIds: string[]
+): PairwiseSession => {
+  const current = new Set(cardIds)
+  const known = new Set(session.cardIds)
+
+  const added = cardIds.filter((id) => !known.has(id))
+  const removed = session.cardIds.filter((id) => !current.has(id))
+  if (added.length === 0 && removed.length === 0) return session
+
+  const keep = (id: string) => current.has(id)
+  const insertion = session.insertion && keep(session.insertion.cardId)
+    ? session.insertion.cardId
+    : null
+
+  return advance(beginNextInsertion({
+    ...session,
+    cardIds: [...session.cardIds.filter(keep), ...added],
+    sorted: session.sorted.filter(keep),
+    // Restart the in-flight insertion since its window may now be stale
+    pending: [...(insertion ? [insertion] : []), ...session.pending.filter(keep), ...added],
+    insertion: null,
+    recheckQueue: [],
+    phase: 'sorting',
+    updatedAt: Date.now(),
+  }))
+}
+
+/**
+ * Best-effort order for the session so far
+ * Unplaced cards keep their original relative order at the bottom.
+ */
+export const getSessionOrder = (session: PairwiseSession): string[] => {
+  const inFlight = session.insertion ? [session.insertion.cardId] : []
+  return [...session.sorted, ...inFlight, ...session.pending]
+}
+
+/**
+ * Estimate how many more questions the session will ask
+ */
+export const estimateRemainingQuestions = (session: PairwiseSession): number => {
+  if (session.phase === 'recheck') return session.recheckQueue.length
+  if (session.phase === 'done') return 0
+
+  let remaining = 0
+  let size = session.sorted.length
+
+  if (session.insertion) {
+    const window = session.insertion.high - session.insertion.low
+    remaining += Math.ceil(Math.log2(window + 1))
+    size++
+  }
+
+  for (let i = 0; i < session.pending.length; i++) {
+    remaining += Math.ceil(Math.log2(size + 1))
+    size++
+  }
+
+  return remaining
+}
+
+/**
+ * Type guard for PairwiseSession (used when loading from storage)
+ */
+export const isPairwiseSession = (obj: unknown): obj is PairwiseSession => {
+  if (typeof obj !== 'object' || obj === null) return false
+  const s = obj as Record<string, unknown>
+  return (
+    typeof s.boardId === 'string' &&
+    Array.isArray(s.cardIds) &&
+    Array.isArray(s.sorted) &&
+    Array.isArray(s.pending) &&
+    Array.isArray(s.recheckQueue) &&
+    typeof s.answers === 'object' && s.answers !== null &&
+    (s.phase === 'sorting' || s.phase === 'recheck' || s.phase === 'done') &&
+    typeof s.comparisons === 'number'
+  )
+}
@@ -0,0 +1,59 @@
+import { buildRankMatrix, getHeatColor, getHeatTextColor } from './rankMatrix'
+import type { Snapshot } from './types'
+
+/** Snapshot whose rankings list card IDs best first */
+const episode = (episodeNumber: number, order: string[]): Snapshot => ({
+  id: `s${episodeNumber}`,
+  boardId: 'b1',
+  episodeNumber,
+  label: `Episode ${episodeNumber}`,
+  notes: '',
+  rankings: order.map((cardId, i) => ({ cardId, cardName: cardId.toUpperCase(), rank: i + 1, thumbnailKey: null })),
+  createdAt: episodeNumber,
+})
+
+describe('buildRankMatrix', () => {
+  it('lists each card rank per episode in episode order', () => {
+    const { episodes, rows, maxRank } = buildRankMatrix([
+      episode(2, ['b', 'a', 'c']),
+      episode(1, ['a', 'b']),
+    ])
+
+    expect(episodes).toEqual([1, 2])
+    expect(maxRank).toBe(3)
+    expect(rows.map((r) => [r.cardId, r.ranks])).toEqual([
+      ['b', [2, 1]],
+      ['a', [1, 2]],
+      ['c', [null, 3]],
+    ])
+  })
+
+  it('puts cards that dropped off after the current ones', () => {
+    const { rows } = buildRankMatrix([episode(1, ['gone', 'a']), episode(2, ['a'])])
+
+    expect(rows.map((r) => r.cardId)).toEqual(['a', 'gone'])
+    expect(rows[1].ranks).toEqual([1, null])
+  })
+
+  it('takes names from the latest episode', () => {
+    const later = episode(2, ['a'])
+    later.rankings[0] = { ...later.rankings[0], cardName: 'Renamed', cardNickname: 'Nick' }
+
+    const { rows } = buildRankMatrix([episode(1, ['a']), later])
+
+    expect(rows[0]).toMatchObject({ cardName: 'Renamed', cardNickname: 'Nick' })
+  })
+})
+
+describe('getHeatColor', () => {
+  it('runs from red at #1 through yellow to blue at last place', () => {
+    expect(getHeatColor(1, 5)).toBe('#ff4d4d')
+    expect(getHeatColor(3, 5)).toBe('#fff9c4')
+    expect(getHeatColor(5, 5)).toBe('#2d5da1')
+  })
+
+  it('picks readable text for each end of the scale', () => {
+    expect(getHeatTextColor(getHeatColor(3, 5))).toBe('#2d2d2d')
+    expect(getHeatTextColor(getHeatColor(5, 5))).toBe('#ffffff')
+  })
+})
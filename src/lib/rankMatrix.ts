@@ -0,0 +1,113 @@
+/**
+ * Rank Matrix
+ *
+ * Every card's rank in every episode of a board, as used by the bump chart
+ * and the rank heatmap. Cards are identified by the cardId stored in each
+ * RankingEntry and take their name and photo from their latest appearance.
+ */
+
+import type { Snapshot } from './types'
+
+// ============ Matrix ============
+
+/**
+ * One card's rank per episode
+ */
+export interface RankMatrixRow {
+  cardId: string
+  cardName: string
+  cardNickname?: string
+  thumbnailKey: string | null
+  /** Rank per episode, in the matrix's episode order (null = not ranked) */
+  ranks: (number | null)[]
+}
+
+export interface RankMatrix {
+  /** Episode numbers, ascending */
+  episodes: number[]
+  /** Rows ordered by latest rank */
+  rows: RankMatrixRow[]
+  /** Lowest rank in any episode */
+  maxRank: number
+}
+
+/**
+ * The latest rank a card held (null if never ranked)
+ */
+export const getLatestRank = (row: RankMatrixRow): number | null =>
+  [...row.ranks].reverse().find((rank) => rank !== null) ?? null
+
+/**
+ * Build the rank matrix for a board's snapshots
+ */
+export const buildRankMatrix = (snapshots: Snapshot[]): RankMatrix => {
+  const sorted = [...snapshots].sort((a, b) => a.episodeNumber - b.episodeNumber)
+  const rows = new Map<string, RankMatrixRow>()
+  let maxRank = 1
+
+  sorted.forEach((snapshot, episodeIndex) => {
+    for (const entry of snapshot.rankings) {
+      maxRank = Math.max(maxRank, entry.rank)
+
+      const row = rows.get(entry.cardId) ?? {
+        cardId: entry.cardId,
+        cardName: entry.cardName,
+        thumbnailKey: entry.thumbnailKey,
+        ranks: sorted.map(() => null),
+      }
+      // Later episodes overwrite the name and photo
+      row.cardName = entry.cardName
+      row.cardNickname = entry.cardNickname
+      row.thumbnailKey = entry.thumbnailKey
+      row.ranks[episodeIndex] = entry.rank
+      rows.set(entry.cardId, row)
+    }
+  })
+
+  return {
+    episodes: sorted.map((s) => s.episodeNumber),
+    // Cards still on the board first, then those that dropped off by their last rank
+    rows: [...rows.values()].sort((a, b) => {
+      const aCurrent = a.ranks[a.ranks.length - 1]
+      const bCurrent = b.ranks[b.ranks.length - 1]
+      if ((aCurrent === null) !== (bCurrent === null)) return aCurrent === null ? 1 : -1
+      return (getLatestRank(a) ?? Infinity) - (getLatestRank(b) ?? Infinity)
+    }),
+    maxRank,
+  }
+}
+
+// ============ Colours ============
+
+/** Heatmap colour stops from #1 (hot) to last place (cold) */
+const HEAT_STOPS = ['#ff4d4d', '#fff9c4', '#2d5da1']
+
+const hexToRgb = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+]
+
+/**
+ * Heatmap colour for a rank: red at #1, yellow mid-table, blue at the bottom
+ */
+export const getHeatColor = (rank: number, maxRank: number): string => {
+  const t = maxRank <= 1 ? 0 : (rank - 1) / (maxRank - 1)
+  const scaled = Math.min(Math.max(t, 0), 1) * (HEAT_STOPS.length - 1)
+  const index = Math.min(Math.floor(scaled), HEAT_STOPS.length - 2)
+  const local = scaled - index
+
+  const from = hexToRgb(HEAT_STOPS[index])
+  const to = hexToRgb(HEAT_STOPS[index + 1])
+  return `#${from
+    .map((c, i) => Math.round(c + (to[i] - c) * local).toString(16).padStart(2, '0'))
+    .join('')}`
+}
+
+/**
+ * Readable text colour on a heatmap cell (dark on light, white on dark)
+ */
+export const getHeatTextColor = (background: string): string => {
+  const [r, g, b] = hexToRgb(background)
+  return 0.299 * r + 0.587 * g + 0.114 * b > 150 ? '#2d2d2d' : '#ffffff'
+}
@@ -0,0 +1,64 @@
+import {
+  computeRankMetrics,
+  kendallTau,
+  proximityAgreement,
+  rankBiasedOverlap,
+  spearmanRho,
+  topKOverlap,
+  type RankMap,
+} from './rankMetrics'
+
+/** Rank map from IDs listed best first */
+const ranking = (order: string[]): RankMap => new Map(order.map((id, i) => [id, i + 1]))
+
+describe('rank metrics', () => {
+  const abcde = ranking(['a', 'b', 'c', 'd', 'e'])
+
+  it('scores identical rankings as full agreement', () => {
+    expect(computeRankMetrics(abcde, ranking(['a', 'b', 'c', 'd', 'e']))).toEqual({
+      proximity: 100,
+      kendall: 100,
+      spearman: 100,
+      topK: 100,
+      rbo: 100,
+    })
+  })
+
+  it('scores reversed rankings as full disagreement on the correlations', () => {
+    const reversed = ranking(['e', 'd', 'c', 'b', 'a'])
+
+    expect(kendallTau(abcde, reversed)).toBe(0)
+    expect(spearmanRho(abcde, reversed)).toBe(0)
+    // Same five items, so the unordered top 5 still overlaps fully
+    expect(topKOverlap(abcde, reversed)).toBe(100)
+    expect(proximityAgreement(abcde, reversed)).toBe(52)
+  })
+
+  it('counts discordant pairs for Kendall tau', () => {
+    // One swapped pair out of ten: tau = 0.8
+    expect(kendallTau(abcde, ranking(['b', 'a', 'c', 'd', 'e']))).toBe(90)
+  })
+
+  it('uses relative order of shared items for the correlations', () => {
+    expect(kendallTau(ranking(['a', 'x', 'b']), ranking(['a', 'b', 'y']))).toBe(100)
+  })
+
+  it('leaves the correlations undefined with fewer than two shared items', () => {
+    expect(kendallTau(ranking(['a', 'b']), ranking(['a', 'c']))).toBeNull()
+    expect(spearmanRho(ranking(['a']), ranking(['a']))).toBeNull()
+    expect(spearmanRho(ranking(['a']), ranking(['b']))).toBeNull()
+  })
+
+  it('weights agreement at the top more heavily with rank-biased overlap', () => {
+    const topSwapped = rankBiasedOverlap(abcde, ranking(['b', 'a', 'c', 'd', 'e']))
+    const bottomSwapped = rankBiasedOverlap(abcde, ranking(['a', 'b', 'c', 'e', 'd']))
+
+    expect(topSwapped).toBeLessThan(bottomSwapped)
+    expect(rankBiasedOverlap(abcde, ranking(['v', 'w', 'x', 'y', 'z']))).toBe(0)
+  })
+
+  it('limits top-k overlap to the shorter ranking', () => {
+    expect(topKOverlap(abcde, ranking(['b', 'z']), 5)).toBe(50)
+    expect(topKOverlap(abcde, new Map())).toBe(0)
+  })
+})
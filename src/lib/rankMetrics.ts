@@ -0,0 +1,219 @@
+/**
+ * Rank Metrics
+ *
+ * Ways of scoring how much two rankings of the same items agree, each
+ * normalized to a 0-100 percentage so any of them can be shown as the
+ * headline agreement. Rankings are maps of item ID to rank (1 = best);
+ * items only one side ranked count towards the top-heavy overlap metrics
+ * but are ignored by the pairwise ones. The correlations are undefined
+ * (null) with fewer than two shared items.
+ */
+
+// ============ Types ============
+
+/** Item ID → rank (1 = best) */
+export type RankMap = Map<string, number>
+
+export type RankMetricId = 'proximity' | 'kendall' | 'spearman' | 'topK' | 'rbo'
+
+/**
+ * A pluggable agreement metric
+ */
+export interface RankMetric {
+  id: RankMetricId
+  /** Short name for pickers */
+  label: string
+  /** One-line explanation shown under the headline */
+  description: string
+  /** Agreement between two rankings (0-100), or null if it can't be measured */
+  compute: (a: RankMap, b: RankMap) => number | null
+}
+
+export type RankMetricScores = Record<RankMetricId, number | null>
+
+/** How many places top-k overlap looks at */
+export const TOP_K = 5
+
+/** Rank-biased overlap persistence: weight given to each deeper position */
+export const RBO_PERSISTENCE = 0.9
+
+// ============ Helpers ============
+
+/**
+ * IDs ordered best first
+ */
+const toOrder = (ranks: RankMap): string[] =>
+  [...ranks.entries()].sort((x, y) => x[1] - y[1]).map(([id]) => id)
+
+/**
+ * Items ranked on both sides, as their relative positions (1..n) within
+ * the shared items, so gaps from unshared items don't skew correlations
+ */
+const getSharedPositions = (a: RankMap, b: RankMap): { a: number; b: number }[] => {
+  const shared = toOrder(a).filter((id) => b.has(id))
+  const bPositions = new Map(
+    toOrder(b)
+      .filter((id) => a.has(id))
+      .map((id, i) => [id, i + 1])
+  )
+  return shared.map((id, i) => ({ a: i + 1, b: bPositions.get(id)! }))
+}
+
+/**
+ * Map a correlation (-1..1) to a percentage (0..100)
+ */
+const correlationToPercentage = (correlation: number): number =>
+  Math.round(((correlation + 1) / 2) * 100)
+
+// ============ Metrics ============
+
+/**
+ * Average closeness of each shared item's rank: 1 - diff / maxRank.
+ * The original agreement score.
+ */
+export const proximityAgreement = (a: RankMap, b: RankMap): number => {
+  if (a.size === 0 || b.size === 0) return 0
+
+  const sharedIds = [...a.keys()].filter((id) => b.has(id))
+  if (sharedIds.length === 0) return 0
+
+  const maxRank = Math.max(a.size, b.size)
+  const total = sharedIds.reduce(
+    (sum, id) => sum + Math.max(0, 1 - Math.abs(a.get(id)! - b.get(id)!) / maxRank),
+    0
+  )
+  return Math.round((total / sharedIds.length) * 100)
+}
+
+/**
+ * Kendall tau: share of shared-item pairs both rankings put in the same
+ * order. null with fewer than two shared items.
+ */
+export const kendallTau = (a: RankMap, b: RankMap): number | null => {
+  const positions = getSharedPositions(a, b)
+  if (positions.length < 2) return null
+
+  let concordant = 0
+  let discordant = 0
+  for (let i = 0; i < positions.length; i++) {
+    for (let j = i + 1; j < positions.length; j++) {
+      const sign = (positions[i].a - positions[j].a) * (positions[i].b - positions[j].b)
+      if (sign > 0) concordant++
+      else if (sign < 0) discordant++
+    }
+  }
+
+  const pairs = (positions.length * (positions.length - 1)) / 2
+  return correlationToPercentage((concordant - discordant) / pairs)
+}
+
+/**
+ * Spearman rho: correlation of the shared items' positions, penalizing
+ * big moves more than small ones. null with fewer than two shared items.
+ */
+export const spearmanRho = (a: RankMap, b: RankMap): number | null => {
+  const positions = getSharedPositions(a, b)
+  const n = positions.length
+  if (n < 2) return null
+
+  const squaredDiffs = positions.reduce((sum, p) => sum + (p.a - p.b) ** 2, 0)
+  return correlationToPercentage(1 - (6 * squaredDiffs) / (n * (n * n - 1)))
+}
+
+/**
+ * Share of each top k that also appears in the other's top k, ignoring
+ * order. k shrinks to the shorter ranking.
+ */
+export const topKOverlap = (a: RankMap, b: RankMap, k: number = TOP_K): number => {
+  const depth = Math.min(k, a.size, b.size)
+  if (depth === 0) return 0
+
+  const topA = new Set(toOrder(a).slice(0, depth))
+  const overlap = toOrder(b)
+    .slice(0, depth)
+    .filter((id) => topA.has(id)).length
+  return Math.round((overlap / depth) * 100)
+}
+
+/**
+ * Rank-biased overlap (extrapolated): overlap at every depth, weighted
+ * so the top of the list counts most. Compared to the shorter ranking's
+ * length.
+ */
+export const rankBiasedOverlap = (a: RankMap, b: RankMap, p: number = RBO_PERSISTENCE): number => {
+  const orderA = toOrder(a)
+  const orderB = toOrder(b)
+  const depth = Math.min(orderA.length, orderB.length)
+  if (depth === 0) return 0
+
+  const seenA = new Set<string>()
+  const seenB = new Set<string>()
+  let overlap = 0
+  let weighted = 0
+  for (let d = 1; d <= depth; d++) {
+    const idA = orderA[d - 1]
+    const idB = orderB[d - 1]
+    if (idA === idB) {
+      overlap++
+    } else {
+      if (seenB.has(idA)) overlap++
+      if (seenA.has(idB)) overlap++
+    }
+    seenA.add(idA)
+    seenB.add(idB)
+    weighted += (overlap / d) * p ** d
+  }
+
+  const score = (overlap / depth) * p ** depth + ((1 - p) / p) * weighted
+  return Math.round(Math.min(score, 1) * 100)
+}
+
+// ============ Registry ============
+
+/**
+ * Every available metric, in picker order
+ */
+export const RANK_METRICS: RankMetric[] = [
+  {
+    id: 'proximity',
+    label: 'Closeness',
+    description: 'How close each shared item sits in both lists',
+    compute: proximityAgreement,
+  },
+  {
+    id: 'kendall',
+    label: 'Kendall τ',
+    description: 'How many pairs you both put in the same order',
+    compute: kendallTau,
+  },
+  {
+    id: 'spearman',
+    label: 'Spearman ρ',
+    description: 'How well the orders line up, punishing big disagreements',
+    compute: spearmanRho,
+  },
+  {
+    id: 'topK',
+    label: `Top ${TOP_K}`,
+    description: `How many of your top ${TOP_K} are in theirs`,
+    compute: (a, b) => topKOverlap(a, b),
+  },
+  {
+    id: 'rbo',
+    label: 'Top-weighted',
+    description: 'Overlap at every depth, with the top of the list counting most',
+    compute: (a, b) => rankBiasedOverlap(a, b),
+  },
+]
+
+/**
+ * Look up a metric by ID
+ */
+export const getRankMetric = (id: RankMetricId): RankMetric =>
+  RANK_METRICS.find((metric) => metric.id === id) ?? RANK_METRICS[0]
+
+/**
+ * Score two rankings with every metric
+ */
+export const computeRankMetrics = (a: RankMap, b: RankMap): RankMetricScores =>
+  Object.fromEntries(RANK_METRICS.map((metric) => [metric.id, metric.compute(a, b)])) as RankMetricScores
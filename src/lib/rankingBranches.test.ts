@@ -0,0 +1,72 @@
+import {
+  createRankingBranch,
+  getBranchCards,
+  getBranchMovements,
+  isRankingBranch,
+  moveBranchCard,
+} from './rankingBranches'
+import { deleteRankingBranch, getRankingBranches, saveRankingBranch } from './storage'
+import { createCard, type Card } from './types'
+
+describe('rankingBranches', () => {
+  const card = (id: string, rank: number): Card => ({ ...createCard('b1', id, rank), id })
+  const cards = [card('kim', 2), card('lee', 1), card('cho', 3)]
+
+  it('forks the current order under a name', () => {
+    const branch = createRankingBranch('b1', '  Kim wins  ', cards)
+
+    expect(branch).toMatchObject({ boardId: 'b1', name: 'Kim wins', cardIds: ['lee', 'kim', 'cho'] })
+    expect(isRankingBranch(branch)).toBe(true)
+    expect(createRankingBranch('b1', ' ', cards).name).toBe('What-if')
+  })
+
+  it('moves cards without touching the live ranks', () => {
+    const branch = moveBranchCard(createRankingBranch('b1', 'A', cards), cards, 2, 0)
+
+    expect(getBranchCards(branch, cards).map((c) => [c.id, c.rank])).toEqual([
+      ['cho', 1],
+      ['lee', 2],
+      ['kim', 3],
+    ])
+    expect(cards.map((c) => c.rank)).toEqual([2, 1, 3])
+  })
+
+  it('drops deleted cards and adds new ones at the bottom', () => {
+    const branch = createRankingBranch('b1', 'A', cards)
+    const current = [card('kim', 1), card('cho', 2), card('park', 3)]
+
+    expect(getBranchCards(branch, current).map((c) => c.id)).toEqual(['kim', 'cho', 'park'])
+  })
+
+  it('diffs the branch against the live board', () => {
+    const branch = moveBranchCard(createRankingBranch('b1', 'A', cards), cards, 2, 0)
+
+    expect(getBranchMovements(branch, cards)).toEqual([
+      { cardId: 'cho', liveRank: 3, branchRank: 1, movement: 2 },
+      { cardId: 'lee', liveRank: 1, branchRank: 2, movement: -1 },
+      { cardId: 'kim', liveRank: 2, branchRank: 3, movement: -1 },
+    ])
+    expect(getBranchMovements(createRankingBranch('b1', 'B', cards), cards)).toEqual([])
+  })
+
+  describe('storage', () => {
+    beforeEach(() => {
+      localStorage.clear()
+    })
+
+    it('saves, updates and deletes branches per board', () => {
+      const first = { ...createRankingBranch('b1', 'First', cards), createdAt: 1 }
+      const second = { ...createRankingBranch('b1', 'Second', cards), createdAt: 2 }
+      saveRankingBranch(second)
+      saveRankingBranch(first)
+      saveRankingBranch(createRankingBranch('b2', 'Other', []))
+      saveRankingBranch({ ...first, name: 'Renamed' })
+
+      expect(getRankingBranches('b1').map((b) => b.name)).toEqual(['Renamed', 'Second'])
+
+      deleteRankingBranch(second.id)
+      expect(getRankingBranches('b1').map((b) => b.name)).toEqual(['Renamed'])
+      expect(getRankingBranches('b2')).toHaveLength(1)
+    })
+  })
+})
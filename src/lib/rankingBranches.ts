@@ -0,0 +1,112 @@
+/**
+ * What-if Ranking Branches
+ *
+ * A branch is a named scratch copy of a board's order that can be
+ * rearranged without touching the live ranking, then discarded, saved as
+ * a snapshot or promoted to become the board's order.
+ *
+ * Branches only store card IDs, so edits to the cards themselves (names,
+ * photos) show up in every branch.
+ */
+
+import type { Card } from './types'
+
+/**
+ * RankingBranch - A named alternative order for a board
+ */
+export interface RankingBranch {
+  id: string
+  boardId: string
+  name: string
+  /** Card IDs in the branch's order, best first */
+  cardIds: string[]
+  createdAt: number
+  updatedAt: number
+}
+
+/**
+ * How a card's place in a branch differs from the live board
+ */
+export interface BranchMovement {
+  cardId: string
+  /** Rank on the live board */
+  liveRank: number
+  /** Rank in the branch */
+  branchRank: number
+  /** Places gained in the branch (positive = higher than live) */
+  movement: number
+}
+
+/**
+ * Fork a board's current order into a new branch
+ */
+export const createRankingBranch = (boardId: string, name: string, cards: Card[]): RankingBranch => {
+  const now = Date.now()
+  return {
+    id: crypto.randomUUID(),
+    boardId,
+    name: name.trim() || 'What-if',
+    cardIds: [...cards].sort((a, b) => a.rank - b.rank).map((c) => c.id),
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+/**
+ * The board's cards in branch order, ranked 1..n
+ * Cards deleted since the fork are dropped; cards added since go to the bottom.
+ */
+export const getBranchCards = (branch: RankingBranch, cards: Card[]): Card[] => {
+  const byId = new Map(cards.map((c) => [c.id, c]))
+  const inBranch = branch.cardIds.flatMap((id) => byId.get(id) ?? [])
+  const branchIds = new Set(branch.cardIds)
+  const added = [...cards].filter((c) => !branchIds.has(c.id)).sort((a, b) => a.rank - b.rank)
+
+  return [...inBranch, ...added].map((card, index) => ({ ...card, rank: index + 1 }))
+}
+
+/**
+ * Move a card within a branch
+ */
+export const moveBranchCard = (
+  branch: RankingBranch,
+  cards: Card[],
+  fromIndex: number,
+  toIndex: number
+): RankingBranch => {
+  const cardIds = getBranchCards(branch, cards).map((c) => c.id)
+  const [moved] = cardIds.splice(fromIndex, 1)
+  cardIds.splice(toIndex, 0, moved)
+  return { ...branch, cardIds, updatedAt: Date.now() }
+}
+
+/**
+ * Cards whose branch rank differs from their live rank, in branch order
+ */
+export const getBranchMovements = (branch: RankingBranch, cards: Card[]): BranchMovement[] => {
+  const liveRanks = new Map(
+    [...cards].sort((a, b) => a.rank - b.rank).map((c, index) => [c.id, index + 1])
+  )
+
+  return getBranchCards(branch, cards).flatMap((card) => {
+    const liveRank = liveRanks.get(card.id) ?? card.rank
+    if (liveRank === card.rank) return []
+    return [{ cardId: card.id, liveRank, branchRank: card.rank, movement: liveRank - card.rank }]
+  })
+}
+
+/**
+ * Type guard for RankingBranch
+ */
+export const isRankingBranch = (obj: unknown): obj is RankingBranch => {
+  if (typeof obj !== 'object' || obj === null) return false
+  const b = obj as Record<string, unknown>
+  return (
+    typeof b.id === 'string' &&
+    typeof b.boardId === 'string' &&
+    typeof b.name === 'string' &&
+    Array.isArray(b.cardIds) &&
+    typeof b.createdAt === 'number' &&
+    typeof b.updatedAt === 'number'
+  )
+}
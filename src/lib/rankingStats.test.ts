@@ -0,0 +1,93 @@
+import { computeBoardStats } from './rankingStats'
+import type { Snapshot } from './types'
+
+/** Snapshot whose rankings list card IDs best first */
+const episode = (episodeNumber: number, order: string[]): Snapshot => ({
+  id: `s${episodeNumber}`,
+  boardId: 'b1',
+  episodeNumber,
+  label: `Episode ${episodeNumber}`,
+  notes: '',
+  rankings: order.map((cardId, i) => ({ cardId, cardName: cardId.toUpperCase(), rank: i + 1, thumbnailKey: null })),
+  createdAt: episodeNumber,
+})
+
+describe('computeBoardStats', () => {
+  const snapshots = [
+    episode(3, ['c', 'a', 'b', 'd']),
+    episode(1, ['a', 'b', 'c', 'd']),
+    episode(2, ['a', 'c', 'b', 'd']),
+  ]
+
+  it('finds the biggest climber and faller per episode', () => {
+    const { movers } = computeBoardStats(snapshots)
+
+    expect(movers.map((m) => m.episodeNumber)).toEqual([2, 3])
+    expect(movers[0].climber).toMatchObject({ cardId: 'c', from: 3, to: 2, change: 1 })
+    expect(movers[0].faller).toMatchObject({ cardId: 'b', from: 2, to: 3, change: -1 })
+    expect(movers[1].climber).toMatchObject({ cardId: 'c', change: 1 })
+    expect(movers[1].faller).toMatchObject({ cardId: 'a', change: -1 })
+  })
+
+  it('reports no movers for an unchanged episode', () => {
+    const { movers } = computeBoardStats([episode(1, ['a', 'b']), episode(2, ['a', 'b'])])
+
+    expect(movers[0]).toMatchObject({ climber: null, faller: null })
+  })
+
+  it('computes per-card averages, ranges and first-vs-latest movement', () => {
+    const { cards } = computeBoardStats(snapshots)
+    const c = cards.find((card) => card.cardId === 'c')!
+
+    expect(c).toMatchObject({
+      cardName: 'C',
+      appearances: 3,
+      averageRank: 2,
+      bestRank: 1,
+      worstRank: 3,
+      firstRank: 3,
+      latestRank: 1,
+      movement: 2,
+    })
+    expect(c.volatility).toBeCloseTo(Math.sqrt(2 / 3))
+    expect(cards.map((card) => card.cardId)).toEqual(['a', 'c', 'b', 'd'])
+  })
+
+  it('ranks volatile and stable cards', () => {
+    const { mostVolatile, mostStable } = computeBoardStats(snapshots)
+
+    expect(mostVolatile[0].cardId).toBe('c')
+    expect(mostVolatile.map((card) => card.cardId)).not.toContain('d')
+    expect(mostStable[0]).toMatchObject({ cardId: 'd', volatility: 0 })
+  })
+
+  it('finds the longest consecutive streak at #1', () => {
+    const { topStreak, cards } = computeBoardStats([
+      ...snapshots,
+      episode(4, ['c', 'a']),
+      episode(5, ['c', 'a']),
+    ])
+
+    expect(topStreak).toMatchObject({ cardId: 'c', longestTopStreak: 3 })
+    expect(cards.find((card) => card.cardId === 'a')!.longestTopStreak).toBe(2)
+  })
+
+  it('skips episodes a card is missing from', () => {
+    const { cards, mostVolatile } = computeBoardStats([episode(1, ['a']), episode(2, ['b', 'a']), episode(3, ['a'])])
+    const b = cards.find((card) => card.cardId === 'b')!
+
+    expect(b).toMatchObject({ appearances: 1, averageRank: 1, movement: 0, longestTopStreak: 1 })
+    expect(mostVolatile.map((card) => card.cardId)).toEqual(['a'])
+  })
+
+  it('handles a board without snapshots', () => {
+    expect(computeBoardStats([])).toEqual({
+      episodeCount: 0,
+      movers: [],
+      cards: [],
+      mostVolatile: [],
+      mostStable: [],
+      topStreak: null,
+    })
+  })
+})
@@ -0,0 +1,163 @@
+/**
+ * Ranking Statistics
+ *
+ * Summaries of a board's history computed from its snapshots: the biggest
+ * climber and faller each episode, per-card averages and volatility
+ * (standard deviation of rank), longest streak at #1, and movement from
+ * each card's first to latest appearance. Cards are identified by the
+ * cardId stored in each RankingEntry.
+ */
+
+import type { Snapshot } from './types'
+
+/**
+ * A card's rank change between two consecutive episodes
+ */
+export interface RankMove {
+  cardId: string
+  cardName: string
+  from: number
+  to: number
+  /** Places gained (positive = climbed) */
+  change: number
+}
+
+/**
+ * Biggest moves into one episode from the one before it
+ */
+export interface EpisodeMovers {
+  episodeNumber: number
+  label: string
+  climber: RankMove | null
+  faller: RankMove | null
+}
+
+/**
+ * One card's statistics across every snapshot it appears in
+ */
+export interface CardStats {
+  cardId: string
+  cardName: string
+  appearances: number
+  averageRank: number
+  /** Population standard deviation of rank */
+  volatility: number
+  bestRank: number
+  worstRank: number
+  firstRank: number
+  latestRank: number
+  /** Places gained from first to latest appearance (positive = climbed) */
+  movement: number
+  /** Most consecutive episodes at #1 */
+  longestTopStreak: number
+}
+
+export interface BoardStats {
+  episodeCount: number
+  movers: EpisodeMovers[]
+  /** Sorted by average rank, best first */
+  cards: CardStats[]
+  /** Highest volatility first (cards with 2+ appearances) */
+  mostVolatile: CardStats[]
+  /** Lowest volatility first (cards with 2+ appearances) */
+  mostStable: CardStats[]
+  /** Card with the longest run at #1, if any card reached #1 */
+  topStreak: CardStats | null
+}
+
+/** Cards shown in the volatile / stable lists */
+const HIGHLIGHT_COUNT = 3
+
+const mean = (values: number[]): number => values.reduce((sum, v) => sum + v, 0) / values.length
+
+const standardDeviation = (values: number[]): number => {
+  const avg = mean(values)
+  return Math.sqrt(mean(values.map((v) => (v - avg) ** 2)))
+}
+
+/**
+ * Biggest climber and faller between two episodes
+ */
+const findMovers = (previous: Snapshot, current: Snapshot): Omit<EpisodeMovers, 'episodeNumber' | 'label'> => {
+  const before = new Map(previous.rankings.map((r) => [r.cardId, r.rank]))
+  let climber: RankMove | null = null
+  let faller: RankMove | null = null
+
+  for (const entry of current.rankings) {
+    const from = before.get(entry.cardId)
+    if (from === undefined) continue
+
+    const move = { cardId: entry.cardId, cardName: entry.cardName, from, to: entry.rank, change: from - entry.rank }
+    if (move.change > 0 && (!climber || move.change > climber.change)) climber = move
+    if (move.change < 0 && (!faller || move.change < faller.change)) faller = move
+  }
+
+  return { climber, faller }
+}
+
+/**
+ * Compute statistics for a board's snapshots
+ */
+export const computeBoardStats = (snapshots: Snapshot[]): BoardStats => {
+  const episodes = [...snapshots].sort((a, b) => a.episodeNumber - b.episodeNumber)
+
+  const movers = episodes.slice(1).map((snapshot, i) => ({
+    episodeNumber: snapshot.episodeNumber,
+    label: snapshot.label,
+    ...findMovers(episodes[i], snapshot),
+  }))
+
+  // Ranks per card in episode order; null where the card is missing
+  const history = new Map<string, { name: string; ranks: (number | null)[] }>()
+  episodes.forEach((snapshot, episodeIndex) => {
+    for (const entry of snapshot.rankings) {
+      let card = history.get(entry.cardId)
+      if (!card) {
+        card = { name: entry.cardName, ranks: new Array(episodes.length).fill(null) }
+        history.set(entry.cardId, card)
+      }
+      card.name = entry.cardName // Latest name wins
+      card.ranks[episodeIndex] = entry.rank
+    }
+  })
+
+  const cards: CardStats[] = [...history].map(([cardId, { name, ranks }]) => {
+    const present = ranks.filter((r): r is number => r !== null)
+
+    let streak = 0
+    let longestTopStreak = 0
+    for (const rank of ranks) {
+      streak = rank === 1 ? streak + 1 : 0
+      longestTopStreak = Math.max(longestTopStreak, streak)
+    }
+
+    return {
+      cardId,
+      cardName: name,
+      appearances: present.length,
+      averageRank: mean(present),
+      volatility: standardDeviation(present),
+      bestRank: Math.min(...present),
+      worstRank: Math.max(...present),
+      firstRank: present[0],
+      latestRank: present[present.length - 1],
+      movement: present[0] - present[present.length - 1],
+      longestTopStreak,
+    }
+  })
+  cards.sort((a, b) => a.averageRank - b.averageRank)
+
+  const repeated = cards.filter((c) => c.appearances >= 2)
+  const mostVolatile = repeated
+    .filter((c) => c.volatility > 0)
+    .sort((a, b) => b.volatility - a.volatility)
+    .slice(0, HIGHLIGHT_COUNT)
+  const mostStable = [...repeated].sort((a, b) => a.volatility - b.volatility).slice(0, HIGHLIGHT_COUNT)
+
+  const topStreak = cards.reduce<CardStats | null>(
+    (best, c) => (c.longestTopStreak > (best?.longestTopStreak ?? 0) ? c : best),
+    null
+  )
+
+  return { episodeCount: episodes.length, movers, cards, mostVolatile, mostStable, topStreak }
+}
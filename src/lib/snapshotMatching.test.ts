@@ -0,0 +1,69 @@
+import { getTemplateItemIds, matchSnapshots } from './snapshotMatching'
+import { createCard, createSnapshot, type RankingEntry } from './types'
+
+describe('snapshotMatching', () => {
+  const entry = (cardId: string, cardName: string, rank: number, extra: Partial<RankingEntry> = {}): RankingEntry => ({
+    cardId,
+    cardName,
+    rank,
+    thumbnailKey: null,
+    ...extra,
+  })
+
+  describe('matchSnapshots', () => {
+    it('matches the same board by card ID even after a rename', () => {
+      const left = createSnapshot('b1', 1, [entry('c1', 'Kim', 1), entry('c2', 'Lee', 2)])
+      const right = createSnapshot('b1', 2, [entry('c2', 'Lee', 1), entry('c1', 'Kim Ji-yeon', 2)])
+
+      const match = matchSnapshots(left, right)
+
+      expect(match.matched.map((m) => [m.left.cardId, m.right.cardId, m.movement])).toEqual([
+        ['c2', 'c2', 1],
+        ['c1', 'c1', -1],
+      ])
+      expect(match.leftOnly).toEqual([])
+      expect(match.rightOnly).toEqual([])
+    })
+
+    it('matches across boards by template item, then by normalized name', () => {
+      const left = createSnapshot('girls', 5, [
+        entry('a1', 'Yu-jin', 1, { templateItemId: 't1' }),
+        entry('a2', 'Chloé', 2),
+        entry('a3', 'Park', 3),
+      ])
+      const right = createSnapshot('rewatch', 5, [
+        entry('b1', 'Chloe ', 1),
+        entry('b2', 'Yoojin', 2),
+        entry('b3', 'Song', 3),
+      ])
+
+      const match = matchSnapshots(left, right, { b2: 't1' })
+
+      expect(match.matched.map((m) => [m.left.cardId, m.right.cardId, m.movement])).toEqual([
+        ['a2', 'b1', 1],
+        ['a1', 'b2', -1],
+      ])
+      expect(match.leftOnly.map((e) => e.cardId)).toEqual(['a3'])
+      expect(match.rightOnly.map((e) => e.cardId)).toEqual(['b3'])
+    })
+
+    it('pairs each entry at most once', () => {
+      const left = createSnapshot('b1', 1, [entry('a1', 'Kim', 1)])
+      const right = createSnapshot('b2', 1, [entry('b1', 'Kim', 1), entry('b2', 'kim', 2)])
+
+      const match = matchSnapshots(left, right)
+
+      expect(match.matched).toHaveLength(1)
+      expect(match.rightOnly.map((e) => e.cardId)).toEqual(['b2'])
+    })
+  })
+
+  describe('getTemplateItemIds', () => {
+    it('maps card IDs to template item IDs', () => {
+      const fromTemplate = { ...createCard('b1', 'Kim', 1, { metadata: { templateItemId: 't1' } }), id: 'c1' }
+      const custom = { ...createCard('b1', 'Lee', 2), id: 'c2' }
+
+      expect(getTemplateItemIds([fromTemplate, custom])).toEqual({ c1: 't1' })
+    })
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * Snapshot Matching
+ *
+ * Pairs up the entries of two snapshots so they can be compared, even when
+ * they come from different boards: first by card ID, then by template item,
+ * then by normalized name. Entries left without a partner are reported for
+ * each side.
+ */
+
+import type { Card, RankingEntry, Snapshot } from './types'
+import { normalizeName } from './boardExport'
+
+// ============ Types ============
+
+/**
+ * The same item in both snapshots
+ */
+export interface MatchedEntry {
+  left: RankingEntry
+  right: RankingEntry
+  /** Places gained from left to right (positive = higher on the right) */
+  movement: number
+}
+
+export interface SnapshotMatch {
+  /** Matched pairs in right-hand rank order */
+  matched: MatchedEntry[]
+  /** Left entries with no partner on the right, best first */
+  leftOnly: RankingEntry[]
+  /** Right entries with no partner on the left, best first */
+  rightOnly: RankingEntry[]
+}
+
+// ============ Matching ============
+
+/**
+ * Template item IDs of cards created from a template, keyed by card ID.
+ * Used for snapshots saved before entries recorded their template item.
+ */
+export const getTemplateItemIds = (cards: Card[]): Record<string, string> => {
+  const ids: Record<string, string> = {}
+  for (const card of cards) {
+    const templateItemId = card.metadata?.templateItemId
+    if (typeof templateItemId === 'string') ids[card.id] = templateItemId
+  }
+  return ids
+}
+
+const byRank = (a: RankingEntry, b: RankingEntry) => a.rank - b.rank
+
+/**
+ * Match two snapshots' entries
+ * @param templateItemIds - Fallback template item IDs by card ID
+ */
+export const matchSnapshots = (
+  left: Snapshot,
+  right: Snapshot,
+  templateItemIds: Record<string, string> = {}
+): SnapshotMatch => {
+  const unmatchedLeft = [...left.rankings].sort(byRank)
+  const rightEntries = [...right.rankings].sort(byRank)
+  const partners = new Map<string, RankingEntry>() // right cardId -> left entry
+
+  // Each pass only considers entries the earlier passes left unmatched
+  const pass = (keyOf: (entry: RankingEntry) => string | undefined) => {
+    for (const entry of rightEntries) {
+      if (partners.has(entry.cardId)) continue
+      const key = keyOf(entry)
+      if (!key) continue
+      const index = unmatchedLeft.findIndex((l) => keyOf(l) === key)
+      if (index === -1) continue
+      partners.set(entry.cardId, unmatchedLeft[index])
+      unmatchedLeft.splice(index, 1)
+    }
+  }
+
+  pass((entry) => entry.cardId)
+  pass((entry) => entry.templateItemId ?? templateItemIds[entry.cardId])
+  pass((entry) => normalizeName(entry.cardName) || undefined)
+
+  const matched: MatchedEntry[] = []
+  const rightOnly: RankingEntry[] = []
+  for (const entry of rightEntries) {
+    const partner = partners.get(entry.cardId)
+    if (partner) {
+      matched.push({ left: partner, right: entry, movement: partner.rank - entry.rank })
+    } else {
+      rightOnly.push(entry)
+    }
+  }
+
+  return { matched, leftOnly: unmatchedLeft, rightOnly }
+}
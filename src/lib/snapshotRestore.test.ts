@@ -0,0 +1,118 @@
+import { planSnapshotRestore, restoreSnapshot } from './snapshotRestore'
+import { applyBoardState, getBoardHistory } from './boardHistory'
+import { getCardsByBoard, getSnapshotsByBoard, saveBoard, saveCardsForBoard, saveSnapshot } from './storage'
+import { buildRankingEntries, createBoard, createCard, createSnapshot, type Card } from './types'
+
+describe('snapshotRestore', () => {
+  const boardId = 'b1'
+  let kim: Card
+  let lee: Card
+  let cho: Card
+
+  beforeEach(() => {
+    localStorage.clear()
+    sessionStorage.clear()
+    saveBoard({ ...createBoard('Season 5'), id: boardId })
+    kim = { ...createCard(boardId, 'Kim', 1), id: 'kim' }
+    lee = { ...createCard(boardId, 'Lee', 2, { nickname: 'LJ', thumbnailKey: 'thumb-lee' }), id: 'lee' }
+    cho = { ...createCard(boardId, 'Cho', 3), id: 'cho' }
+  })
+
+  const names = (cards: Card[]) => cards.map((c) => c.name)
+
+  describe('planSnapshotRestore', () => {
+    it('reorders current cards to the snapshot order', () => {
+      const snapshot = createSnapshot(boardId, 1, buildRankingEntries([
+        { ...cho, rank: 1 }, { ...kim, rank: 2 }, { ...lee, rank: 3 },
+      ]))
+
+      const plan = planSnapshotRestore(snapshot, [kim, lee, cho], 5000)
+
+      expect(names(plan.cards)).toEqual(['Cho', 'Kim', 'Lee'])
+      expect(plan.cards.map((c) => c.rank)).toEqual([1, 2, 3])
+      expect(plan.cards[0].updatedAt).toBe(5000)
+      expect(plan.recreated).toEqual([])
+      expect(plan.appended).toEqual([])
+    })
+
+    it('recreates deleted cards from the snapshot entry', () => {
+      const snapshot = createSnapshot(boardId, 1, buildRankingEntries([lee, { ...kim, rank: 2 }]))
+
+      const plan = planSnapshotRestore(snapshot, [kim])
+
+      expect(names(plan.cards)).toEqual(['Lee', 'Kim'])
+      expect(plan.recreated.map((e) => e.cardName)).toEqual(['Lee'])
+      expect(plan.cards[0]).toMatchObject({ boardId, nickname: 'LJ', thumbnailKey: 'thumb-lee', rank: 1 })
+      expect(plan.cards[0].id).not.toBe('lee')
+    })
+
+    it('appends cards added since in their current order', () => {
+      const snapshot = createSnapshot(boardId, 1, buildRankingEntries([{ ...lee, rank: 1 }]))
+
+      const plan = planSnapshotRestore(snapshot, [kim, lee, cho])
+
+      expect(names(plan.cards)).toEqual(['Lee', 'Kim', 'Cho'])
+      expect(names(plan.appended)).toEqual(['Kim', 'Cho'])
+    })
+
+    it('matches cards recreated since by name', () => {
+      const snapshot = createSnapshot(boardId, 1, [
+        { cardId: 'old-kim', cardName: 'Kim', rank: 1, thumbnailKey: null },
+      ])
+
+      const plan = planSnapshotRestore(snapshot, [lee, kim])
+
+      expect(plan.cards.map((c) => c.id)).toEqual(['kim', 'lee'])
+      expect(plan.recreated).toEqual([])
+    })
+  })
+
+  describe('restoreSnapshot', () => {
+    it('saves the current order as a backup episode, then restores', () => {
+      saveCardsForBoard(boardId, [kim, lee, cho])
+      const episode = createSnapshot(boardId, 1, buildRankingEntries([
+        { ...cho, rank: 1 }, { ...lee, rank: 2 }, { ...kim, rank: 3 },
+      ]))
+      saveSnapshot(episode)
+
+      const result = restoreSnapshot(episode.id)
+
+      expect(names(getCardsByBoard(boardId))).toEqual(['Cho', 'Lee', 'Kim'])
+      expect(result).toMatchObject({ recreated: 0, appended: 0 })
+
+      const backup = getSnapshotsByBoard(boardId).find((s) => s.id === result.backup.id)
+      expect(backup).toMatchObject({ episodeNumber: 2, label: 'Before restoring Episode 1' })
+      expect(backup!.rankings.map((r) => r.cardName)).toEqual(['Kim', 'Lee', 'Cho'])
+    })
+
+    it('can be undone through the board history, removing recreated cards', () => {
+      saveCardsForBoard(boardId, [kim])
+      const episode = createSnapshot(boardId, 1, buildRankingEntries([{ ...lee, rank: 1 }, { ...kim, rank: 2 }]))
+      saveSnapshot(episode)
+
+      restoreSnapshot(episode.id)
+      expect(names(getCardsByBoard(boardId))).toEqual(['Lee', 'Kim'])
+
+      const [step] = getBoardHistory(boardId).undo
+      applyBoardState(step.state)
+
+      expect(names(getCardsByBoard(boardId))).toEqual(['Kim'])
+    })
+
+    it('adds an undo step to the board history', () => {
+      saveCardsForBoard(boardId, [kim, lee])
+      const episode = createSnapshot(boardId, 1, buildRankingEntries([{ ...lee, rank: 1 }]))
+      saveSnapshot(episode)
+
+      restoreSnapshot(episode.id)
+
+      const [step] = getBoardHistory(boardId).undo
+      expect(step.label).toBe('Restored Episode 1')
+      expect(names(step.state.cards)).toEqual(['Kim', 'Lee'])
+    })
+
+    it('throws for a missing snapshot', () => {
+      expect(() => restoreSnapshot('missing')).toThrow('Snapshot not found')
+    })
+  })
+})
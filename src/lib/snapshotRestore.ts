@@ -0,0 +1,113 @@
+/**
+ * Restore a Board to a Snapshot
+ *
+ * Rolls the live board back to an episode's saved order. Cards are
+ * matched to the snapshot by ID (then by name, for cards recreated
+ * since). Cards deleted since the snapshot are recreated from the
+ * denormalized RankingEntry; cards added since go to the bottom in their
+ * current order.
+ *
+ * The current order is saved as a new episode first (through the shared
+ * saveNewSnapshot path), so it survives even when the board's undo history
+ * doesn't. The restore is also pushed onto the undo history for a quick undo.
+ */
+
+import { createCard, type Card, type RankingEntry, type Snapshot } from './types'
+import { getCardsByBoard, getSnapshot, saveCardsForBoard } from './storage'
+import { saveNewSnapshot } from './episodes'
+import { captureBoardState, getBoardHistory, pushHistoryStep, saveBoardHistory } from './boardHistory'
+
+/**
+ * What restoring a snapshot would do to the current cards
+ */
+export interface RestorePlan {
+  /** Cards in restored order, including recreated and appended ones */
+  cards: Card[]
+  /** Snapshot entries whose card was deleted and is recreated */
+  recreated: RankingEntry[]
+  /** Current cards the snapshot doesn't include (placed at the bottom) */
+  appended: Card[]
+}
+
+export interface RestoreOptions {
+  now?: number
+}
+
+export interface RestoreResult {
+  /** The auto-saved snapshot of the order before restoring */
+  backup: Snapshot
+  recreated: number
+  appended: number
+}
+
+/**
+ * Work out the restored card order without saving anything
+ */
+export const planSnapshotRestore = (
+  snapshot: Snapshot,
+  currentCards: Card[],
+  now = Date.now()
+): RestorePlan => {
+  const remaining = [...currentCards].sort((a, b) => a.rank - b.rank)
+  const take = (predicate: (card: Card) => boolean): Card | undefined => {
+    const index = remaining.findIndex(predicate)
+    return index === -1 ? undefined : remaining.splice(index, 1)[0]
+  }
+
+  const entries = [...snapshot.rankings].sort((a, b) => a.rank - b.rank)
+  const ordered: Card[] = []
+  const recreated: RankingEntry[] = []
+
+  // Match by ID first so a renamed card doesn't lose its place to a namesake
+  const byId = new Map(entries.map((entry) => [entry, take((c) => c.id === entry.cardId)]))
+
+  for (const entry of entries) {
+    const card = byId.get(entry) ?? take((c) => c.name === entry.cardName)
+    if (card) {
+      ordered.push(card)
+    } else {
+      recreated.push(entry)
+      ordered.push(
+        createCard(snapshot.boardId, entry.cardName, 0, {
+          nickname: entry.cardNickname,
+          thumbnailKey: entry.thumbnailKey,
+        })
+      )
+    }
+  }
+
+  const appended = remaining
+  const cards = [...ordered, ...appended].map((card, index) =>
+    card.rank === index + 1 ? card : { ...card, rank: index + 1, updatedAt: now }
+  )
+
+  return { cards, recreated, appended }
+}
+
+/**
+ * Restore a board to a snapshot's order
+ * @throws Error if the snapshot doesn't exist
+ */
+export const restoreSnapshot = (snapshotId: string, options: RestoreOptions = {}): RestoreResult => {
+  const { now = Date.now() } = options
+
+  const snapshot = getSnapshot(snapshotId)
+  if (!snapshot) throw new Error('Snapshot not found')
+
+  const { boardId } = snapshot
+  const currentCards = getCardsByBoard(boardId)
+
+  const backup = saveNewSnapshot(boardId, currentCards, { label: `Before restoring ${snapshot.label}` })
+
+  // Let the board's undo button reverse this too
+  const before = captureBoardState(boardId)
+  if (before) {
+    const step = { label: `Restored ${snapshot.label}`, state: before, createdAt: now }
+    saveBoardHistory(boardId, pushHistoryStep(getBoardHistory(boardId), step))
+  }
+
+  const plan = planSnapshotRestore(snapshot, currentCards, now)
+  saveCardsForBoard(boardId, plan.cards)
+
+  return { backup, recreated: plan.recreated.length, appended: plan.appended.length }
+}
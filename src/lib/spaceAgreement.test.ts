@@ -0,0 +1,80 @@
+import { buildAgreementMatrix, findTasteTwins, getPairAgreement } from './spaceAgreement'
+import { groupSpaceBoards, type MemberBoard } from './spaceConsensus'
+import { createBoard } from './types'
+import type { SpaceCard } from './spaceTypes'
+
+/** Member board on a template whose cards are listed best first */
+const memberBoard = (ownerName: string, templateId: string, order: string[]): MemberBoard => ({
+  board: {
+    ...createBoard(`Template ${templateId}`),
+    id: `${ownerName}-${templateId}`,
+    templateId,
+    spaceId: 's1',
+    ownerId: ownerName,
+    ownerName,
+    isDraft: false,
+    syncedAt: 0,
+  },
+  cards: order.map((name, i): SpaceCard => ({
+    id: `${ownerName}-${name}`,
+    boardId: `${ownerName}-${templateId}`,
+    name,
+    nickname: '',
+    imageUrl: null,
+    thumbnailUrl: null,
+    rank: i + 1,
+    notes: '',
+    syncedAt: 0,
+  })),
+})
+
+const build = (boards: MemberBoard[]) => {
+  const groups = groupSpaceBoards(boards.map((b) => b.board))
+  const memberBoards: Record<string, MemberBoard[]> = {}
+  for (const group of groups) {
+    memberBoards[group.key] = boards.filter((b) => b.board.templateId === group.key)
+  }
+  return buildAgreementMatrix(groups, memberBoards)
+}
+
+describe('buildAgreementMatrix', () => {
+  it('averages agreement over the templates both members ranked', () => {
+    const matrix = build([
+      memberBoard('Ana', 't1', ['Kim', 'Lee', 'Cho']),
+      memberBoard('Ben', 't1', ['Kim', 'Lee', 'Cho']),
+      memberBoard('Ana', 't2', ['Park', 'Choi', 'Han']),
+      memberBoard('Ben', 't2', ['Han', 'Choi', 'Park']),
+      memberBoard('Cat', 't2', ['Park', 'Han', 'Choi']),
+    ])
+
+    expect(matrix.members.map((m) => m.ownerName)).toEqual(['Ana', 'Ben', 'Cat'])
+    // t1: 100, t2: 56
+    expect(getPairAgreement(matrix, 'Ben', 'Ana')).toEqual({ agreement: 78, groupKeys: ['t2', 't1'] })
+    expect(getPairAgreement(matrix, 'Ana', 'Cat')).toEqual({ agreement: 78, groupKeys: ['t2'] })
+    expect(getPairAgreement(matrix, 'Ana', 'Ana')).toBeNull()
+  })
+})
+
+describe('findTasteTwins', () => {
+  it('names each member’s closest and furthest match', () => {
+    const matrix = build([
+      memberBoard('Ana', 't1', ['Kim', 'Lee', 'Cho']),
+      memberBoard('Ben', 't1', ['Kim', 'Lee', 'Cho']),
+      memberBoard('Cat', 't1', ['Cho', 'Lee', 'Kim']),
+    ])
+
+    const [ana] = findTasteTwins(matrix)
+
+    expect(ana.closest).toMatchObject({ ownerName: 'Ben', agreement: 100 })
+    expect(ana.furthest).toMatchObject({ ownerName: 'Cat' })
+  })
+
+  it('leaves out a furthest twin with only one other member', () => {
+    const matrix = build([
+      memberBoard('Ana', 't1', ['Kim', 'Lee']),
+      memberBoard('Ben', 't1', ['Lee', 'Kim']),
+    ])
+
+    expect(findTasteTwins(matrix)[0]).toMatchObject({ closest: { ownerName: 'Ben' }, furthest: null })
+  })
+})
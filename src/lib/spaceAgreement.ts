@@ -0,0 +1,147 @@
+/**
+ * Space Agreement
+ *
+ * How closely every pair of members in a space agree, averaged over each
+ * template both of them ranked, and each member's closest and furthest
+ * "taste twin". Items are matched across boards by normalized name, and
+ * agreement uses the same closeness score as friend comparisons.
+ */
+
+import type { SpaceCard } from './spaceTypes'
+import type { ConsensusGroup, MemberBoard } from './spaceConsensus'
+import { normalizeName } from './boardExport'
+import { proximityAgreement, type RankMap } from './rankMetrics'
+
+// ============ Types ============
+
+/**
+ * A member with at least one board in a shared template
+ */
+export interface AgreementMember {
+  ownerId: string
+  ownerName: string
+}
+
+/**
+ * Agreement between two members
+ */
+export interface PairAgreement {
+  /** Average agreement over shared templates (0-100) */
+  agreement: number
+  /** Keys of the groups both members ranked */
+  groupKeys: string[]
+}
+
+export interface AgreementMatrix {
+  /** Members ordered by name */
+  members: AgreementMember[]
+  /** Agreement per pair, keyed by getPairKey */
+  pairs: Record<string, PairAgreement>
+}
+
+/**
+ * Another member and how much they agree
+ */
+export interface TwinMatch extends AgreementMember {
+  agreement: number
+}
+
+export interface TasteTwins {
+  member: AgreementMember
+  /** Member who agrees most (null if nobody shares a template) */
+  closest: TwinMatch | null
+  /** Member who agrees least (null with fewer than two to choose from) */
+  furthest: TwinMatch | null
+}
+
+// ============ Matrix ============
+
+/**
+ * Order-independent key for a pair of members
+ */
+export const getPairKey = (ownerA: string, ownerB: string): string =>
+  ownerA < ownerB ? `${ownerA}|${ownerB}` : `${ownerB}|${ownerA}`
+
+/**
+ * Ranks of a board's cards, keyed by normalized name
+ */
+export const toNameRankMap = (cards: SpaceCard[]): RankMap =>
+  new Map(cards.map((card) => [normalizeName(card.name), card.rank]))
+
+/**
+ * Agreement for every pair of members across all shared templates
+ */
+export const buildAgreementMatrix = (
+  groups: ConsensusGroup[],
+  memberBoards: Record<string, MemberBoard[]>
+): AgreementMatrix => {
+  const members = new Map<string, AgreementMember>()
+  const totals = new Map<string, { sum: number; groupKeys: string[] }>()
+
+  for (const group of groups) {
+    const boards = memberBoards[group.key] ?? []
+    const rankMaps = boards.map(({ board, cards }) => ({ board, ranks: toNameRankMap(cards) }))
+
+    for (const { board } of rankMaps) {
+      members.set(board.ownerId, { ownerId: board.ownerId, ownerName: board.ownerName })
+    }
+
+    for (let i = 0; i < rankMaps.length; i++) {
+      for (let j = i + 1; j < rankMaps.length; j++) {
+        const key = getPairKey(rankMaps[i].board.ownerId, rankMaps[j].board.ownerId)
+        const total = totals.get(key) ?? { sum: 0, groupKeys: [] }
+        total.sum += proximityAgreement(rankMaps[i].ranks, rankMaps[j].ranks)
+        total.groupKeys.push(group.key)
+        totals.set(key, total)
+      }
+    }
+  }
+
+  const pairs: Record<string, PairAgreement> = {}
+  for (const [key, { sum, groupKeys }] of totals) {
+    pairs[key] = { agreement: Math.round(sum / groupKeys.length), groupKeys }
+  }
+
+  return {
+    members: [...members.values()].sort((a, b) => a.ownerName.localeCompare(b.ownerName)),
+    pairs,
+  }
+}
+
+/**
+ * Agreement between two members (null if they share no template)
+ */
+export const getPairAgreement = (
+  matrix: AgreementMatrix,
+  ownerA: string,
+  ownerB: string
+): PairAgreement | null => (ownerA === ownerB ? null : matrix.pairs[getPairKey(ownerA, ownerB)] ?? null)
+
+// ============ Taste Twins ============
+
+/**
+ * Each member's closest and furthest match. Ties go to the member listed
+ * first.
+ */
+export const findTasteTwins = (matrix: AgreementMatrix): TasteTwins[] =>
+  matrix.members.map((member) => {
+    const matches: TwinMatch[] = matrix.members.flatMap((other) => {
+      const pair = getPairAgreement(matrix, member.ownerId, other.ownerId)
+      return pair ? [{ ...other, agreement: pair.agreement }] : []
+    })
+
+    const closest = matches.reduce<TwinMatch | null>(
+      (best, m) => (best === null || m.agreement > best.agreement ? m : best),
+      null
+    )
+    const furthest = matches.reduce<TwinMatch | null>(
+      (worst, m) => (worst === null || m.agreement < worst.agreement ? m : worst),
+      null
+    )
+
+    return {
+      member,
+      closest,
+      furthest: matches.length >= 2 ? furthest : null,
+    }
+  })
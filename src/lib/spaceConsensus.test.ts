@@ -0,0 +1,101 @@
+import { computeConsensus, groupSpaceBoards, type MemberBoard } from './spaceConsensus'
+import { createBoard } from './types'
+import type { SpaceBoard, SpaceCard } from './spaceTypes'
+
+const spaceBoard = (ownerName: string, overrides: Partial<SpaceBoard> = {}): SpaceBoard => ({
+  ...createBoard('Season 5'),
+  id: `${ownerName}-board`,
+  spaceId: 's1',
+  ownerId: ownerName,
+  ownerName,
+  isDraft: false,
+  syncedAt: 0,
+  ...overrides,
+})
+
+/** Member board whose cards are listed best first */
+const memberBoard = (ownerName: string, order: string[]): MemberBoard => ({
+  board: spaceBoard(ownerName),
+  cards: order.map((name, i): SpaceCard => ({
+    id: `${ownerName}-${name}`,
+    boardId: `${ownerName}-board`,
+    name,
+    nickname: '',
+    imageUrl: null,
+    thumbnailUrl: null,
+    rank: i + 1,
+    notes: '',
+    syncedAt: 0,
+  })),
+})
+
+describe('groupSpaceBoards', () => {
+  it('groups boards by template, keeping each member’s latest board', () => {
+    const groups = groupSpaceBoards([
+      spaceBoard('Ana', { id: 'old', templateId: 't1', syncedAt: 1 }),
+      spaceBoard('Ana', { id: 'new', templateId: 't1', syncedAt: 2 }),
+      spaceBoard('Ben', { id: 'ben', templateId: 't1', name: 'Renamed' }),
+      spaceBoard('Cat', { id: 'draft', templateId: 't1', isDraft: true }),
+    ])
+
+    expect(groups).toHaveLength(1)
+    expect(groups[0].boards.map((b) => b.id)).toEqual(['new', 'ben'])
+  })
+
+  it('falls back to titles and drops boards nobody else ranked', () => {
+    const groups = groupSpaceBoards([
+      spaceBoard('Ana', { name: 'Season 5' }),
+      spaceBoard('Ben', { name: ' season 5' }),
+      spaceBoard('Cat', { name: 'Something Else' }),
+    ])
+
+    expect(groups.map((g) => g.boards.length)).toEqual([2])
+  })
+})
+
+describe('computeConsensus', () => {
+  const boards = [
+    memberBoard('Ana', ['Kim', 'Lee', 'Cho']),
+    memberBoard('Ben', ['Kim', 'Cho', 'Lee']),
+    memberBoard('Cat', ['Lee', 'Kim', 'Cho']),
+  ]
+
+  it('orders items by Borda points', () => {
+    const items = computeConsensus(boards, 'borda')
+
+    expect(items.map((i) => [i.name, i.bordaPoints])).toEqual([
+      ['Kim', 5],
+      ['Lee', 3],
+      ['Cho', 1],
+    ])
+  })
+
+  it('reports each item’s spread and biggest outlier', () => {
+    const lee = computeConsensus(boards, 'mean').find((i) => i.name === 'Lee')!
+
+    expect(lee).toMatchObject({ meanRank: 2, bestRank: 1, worstRank: 3, spread: 2, consensusRank: 2 })
+    expect(lee.outlier).toMatchObject({ ownerName: 'Ben', rank: 3, distance: 1 })
+    expect(computeConsensus(boards, 'mean')[0].outlier).toMatchObject({ ownerName: 'Cat', rank: 2 })
+  })
+
+  it('lets the pairwise majority override Borda with the Kemeny method', () => {
+    const split = [
+      memberBoard('Ana', ['Kim', 'Lee', 'Cho', 'Park']),
+      memberBoard('Ben', ['Lee', 'Cho', 'Park', 'Kim']),
+      memberBoard('Cat', ['Kim', 'Lee', 'Cho', 'Park']),
+    ]
+
+    expect(computeConsensus(split, 'borda').map((i) => i.name)).toEqual(['Lee', 'Kim', 'Cho', 'Park'])
+    expect(computeConsensus(split, 'kemeny').map((i) => i.name)).toEqual(['Kim', 'Lee', 'Cho', 'Park'])
+  })
+
+  it('matches items across boards by normalized name', () => {
+    const items = computeConsensus(
+      [memberBoard('Ana', ['José Kim', 'Lee']), memberBoard('Ben', ['jose kim', 'Park'])],
+      'mean'
+    )
+
+    expect(items[0]).toMatchObject({ name: 'José Kim', spread: 0, outlier: null })
+    expect(items[0].memberRanks).toHaveLength(2)
+  })
+})
@@ -0,0 +1,246 @@
+/**
+ * Space Consensus
+ *
+ * A group ranking for every template (or shared title) in a space, built
+ * from each member's board. Items are matched across boards by normalized
+ * name. Three aggregation methods are available: Borda count, mean rank
+ * and a Kemeny approximation (Borda order refined by swapping neighbours
+ * until a majority agrees with every adjacent pair).
+ */
+
+import type { SpaceBoard, SpaceCard } from './spaceTypes'
+import { normalizeName } from './boardExport'
+
+// ============ Types ============
+
+export type ConsensusMethod = 'borda' | 'mean' | 'kemeny'
+
+/**
+ * A member's board with its cards
+ */
+export interface MemberBoard {
+  board: SpaceBoard
+  cards: SpaceCard[]
+}
+
+/**
+ * Boards in a space ranking the same template or title
+ */
+export interface ConsensusGroup {
+  /** templateId, or the normalized title for boards without one */
+  key: string
+  name: string
+  /** One board per member (their most recently synced) */
+  boards: SpaceBoard[]
+}
+
+/**
+ * A member's rank for one consensus item
+ */
+export interface MemberRank {
+  ownerId: string
+  ownerName: string
+  rank: number
+}
+
+/**
+ * One item in the consensus ranking
+ */
+export interface ConsensusItem {
+  /** Normalized item name */
+  key: string
+  name: string
+  thumbnailUrl: string | null
+  consensusRank: number
+  /** Mean rank among the members who ranked it */
+  meanRank: number
+  /** Borda points: one per item ranked below it, summed over members */
+  bordaPoints: number
+  bestRank: number
+  worstRank: number
+  /** worstRank - bestRank */
+  spread: number
+  /** Every member's rank, best first */
+  memberRanks: MemberRank[]
+  /**
+   * The member furthest from the mean (null if everyone agrees, or if
+   * fewer than three members ranked it)
+   */
+  outlier: (MemberRank & { distance: number }) | null
+}
+
+// ============ Grouping ============
+
+/**
+ * Group a space's published boards by template (or title), keeping each
+ * member's latest board. Only groups ranked by two or more members are
+ * returned, largest first.
+ */
+export const groupSpaceBoards = (boards: SpaceBoard[]): ConsensusGroup[] => {
+  const groups = new Map<string, ConsensusGroup>()
+
+  const latestFirst = boards
+    .filter((b) => !b.isDraft && !b.deletedAt)
+    .sort((a, b) => b.syncedAt - a.syncedAt)
+
+  for (const board of latestFirst) {
+    const key = board.templateId ?? `title:${normalizeName(board.name)}`
+    const group = groups.get(key) ?? { key, name: board.name, boards: [] }
+    if (!group.boards.some((b) => b.ownerId === board.ownerId)) {
+      group.boards.push(board)
+    }
+    groups.set(key, group)
+  }
+
+  return [...groups.values()]
+    .filter((group) => group.boards.length >= 2)
+    .sort((a, b) => b.boards.length - a.boards.length || a.name.localeCompare(b.name))
+}
+
+// ============ Aggregation ============
+
+interface ItemTally {
+  key: string
+  name: string
+  thumbnailUrl: string | null
+  memberRanks: MemberRank[]
+  bordaPoints: number
+}
+
+/**
+ * Collect every member's rank for every item
+ */
+const tallyItems = (memberBoards: MemberBoard[]): Map<string, ItemTally> => {
+  const items = new Map<string, ItemTally>()
+
+  for (const { board, cards } of memberBoards) {
+    for (const card of cards) {
+      const key = normalizeName(card.name)
+      const item = items.get(key) ?? {
+        key,
+        name: card.name,
+        thumbnailUrl: card.thumbnailUrl,
+        memberRanks: [],
+        bordaPoints: 0,
+      }
+      if (item.memberRanks.some((m) => m.ownerId === board.ownerId)) continue
+
+      item.thumbnailUrl = item.thumbnailUrl ?? card.thumbnailUrl
+      item.memberRanks.push({ ownerId: board.ownerId, ownerName: board.ownerName, rank: card.rank })
+      item.bordaPoints += Math.max(0, cards.length - card.rank)
+      items.set(key, item)
+    }
+  }
+
+  return items
+}
+
+const getMeanRank = (item: ItemTally): number =>
+  item.memberRanks.reduce((sum, m) => sum + m.rank, 0) / item.memberRanks.length
+
+/**
+ * Members preferring a over b minus those preferring b over a. A member
+ * who ranked only one of the two prefers that one.
+ */
+const getPairwiseMargin = (a: ItemTally, b: ItemTally): number => {
+  const bRanks = new Map(b.memberRanks.map((m) => [m.ownerId, m.rank]))
+  const aOwners = new Set(a.memberRanks.map((m) => m.ownerId))
+  let margin = 0
+
+  for (const { ownerId, rank } of a.memberRanks) {
+    const bRank = bRanks.get(ownerId)
+    if (bRank === undefined || rank < bRank) margin++
+    else if (rank > bRank) margin--
+  }
+  for (const { ownerId } of b.memberRanks) {
+    if (!aOwners.has(ownerId)) margin--
+  }
+
+  return margin
+}
+
+/**
+ * Borda order, then swap neighbours a majority ranks the other way round
+ * until no such pair is left (local Kemenization)
+ */
+const kemenyOrder = (bordaOrder: ItemTally[]): ItemTally[] => {
+  const order = [...bordaOrder]
+  const maxPasses = order.length * order.length
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    let swapped = false
+    for (let i = 0; i < order.length - 1; i++) {
+      if (getPairwiseMargin(order[i + 1], order[i]) > 0) {
+        const lower = order[i + 1]
+        order[i + 1] = order[i]
+        order[i] = lower
+        swapped = true
+      }
+    }
+    if (!swapped) break
+  }
+
+  return order
+}
+
+/**
+ * Order items by the chosen method
+ */
+const orderItems = (items: ItemTally[], method: ConsensusMethod): ItemTally[] => {
+  const byName = (a: ItemTally, b: ItemTally) => a.name.localeCompare(b.name)
+  const bordaOrder = [...items].sort((a, b) => b.bordaPoints - a.bordaPoints || byName(a, b))
+
+  switch (method) {
+    case 'borda':
+      return bordaOrder
+    case 'mean':
+      return [...items].sort(
+        (a, b) =>
+          getMeanRank(a) - getMeanRank(b) ||
+          b.memberRanks.length - a.memberRanks.length ||
+          byName(a, b)
+      )
+    case 'kemeny':
+      return kemenyOrder(bordaOrder)
+  }
+}
+
+/**
+ * Build the consensus ranking for a group of member boards
+ */
+export const computeConsensus = (
+  memberBoards: MemberBoard[],
+  method: ConsensusMethod
+): ConsensusItem[] => {
+  const ordered = orderItems([...tallyItems(memberBoards).values()], method)
+
+  return ordered.map((item, index) => {
+    const meanRank = getMeanRank(item)
+    const ranks = item.memberRanks.map((m) => m.rank)
+    const bestRank = Math.min(...ranks)
+    const worstRank = Math.max(...ranks)
+
+    // Furthest from the mean; the first member listed wins ties
+    const outlier = item.memberRanks.reduce<(MemberRank & { distance: number }) | null>(
+      (furthest, m) => {
+        const distance = Math.abs(m.rank - meanRank)
+        return distance > 0 && distance > (furthest?.distance ?? 0) ? { ...m, distance } : furthest
+      },
+      null
+    )
+
+    return {
+      key: item.key,
+      name: item.name,
+      thumbnailUrl: item.thumbnailUrl,
+      consensusRank: index + 1,
+      meanRank,
+      bordaPoints: item.bordaPoints,
+      bestRank,
+      worstRank,
+      spread: worstRank - bestRank,
+      memberRanks: [...item.memberRanks].sort((a, b) => a.rank - b.rank),
+      outlier: item.memberRanks.length >= 3 ? outlier : null,
+    }
+  })
+}
@@ -1,3 +1,4 @@
+import 'fake-indexeddb/auto'
 import {
   getBoards,
   saveBoards,
@@ -17,7 +18,19 @@ import {
   exportData,
   importData,
   validateImportData,
+  initStorage,
+  getStorageProblem,
+  subscribeToStorageProblems,
+  flushStorage,
+  resetStorageCache,
+  saveCardsForBoard,
+  getStoredSchemaVersion,
+  getItemMatchOverrides,
+  saveItemMatchOverride,
+  deleteItemMatchOverridesByBoard,
 } from './storage'
+import { closeDB, deleteDB, getAllRecords } from './db'
+import { CURRENT_SCHEMA_VERSION } from './migrations'
 import { createBoard, createCard } from './types'
 
 describe('localStorage Storage', () => {
@@ -193,6 +206,46 @@ describe('localStorage Storage', () => {
     })
   })
 
+  describe('Item Match Overrides', () => {
+    const override = (leftItemId: string, rightItemId: string, same: boolean) => ({
+      leftBoardId: 'mine',
+      rightBoardId: 'theirs',
+      leftItemId,
+      rightItemId,
+      same,
+    })
+
+    it('returns overrides for a board pair from either side', () => {
+      saveItemMatchOverride(override('a', 'x', true))
+
+      expect(getItemMatchOverrides('mine', 'theirs')).toEqual([override('a', 'x', true)])
+      expect(getItemMatchOverrides('theirs', 'mine')).toEqual([
+        { leftBoardId: 'theirs', rightBoardId: 'mine', leftItemId: 'x', rightItemId: 'a', same: true },
+      ])
+      expect(getItemMatchOverrides('mine', 'other')).toEqual([])
+    })
+
+    it('replaces earlier decisions about the same items', () => {
+      saveItemMatchOverride(override('a', 'x', true))
+      saveItemMatchOverride(override('a', 'x', false))
+      saveItemMatchOverride(override('b', 'y', false))
+      saveItemMatchOverride(override('b', 'z', true))
+
+      expect(getItemMatchOverrides('mine', 'theirs')).toEqual([
+        override('a', 'x', false),
+        override('b', 'z', true),
+      ])
+    })
+
+    it('deletes every override involving a board', () => {
+      saveItemMatchOverride(override('a', 'x', true))
+
+      deleteItemMatchOverridesByBoard('theirs')
+
+      expect(getItemMatchOverrides('mine', 'theirs')).toEqual([])
+    })
+  })
+
   describe('Utilities', () => {
     it('clears all data', () => {
       saveBoard(createBoard('Board'))
@@ -311,6 +364,40 @@ describe('localStorage Storage', () => {
       expect(getBoards()[0].name).toBe('Imported Board')
     })
 
+    it('upgrades older files and reports the changes', () => {
+      const importJson = JSON.stringify({
+        version: '1.0',
+        boards: [{ id: 'b1', name: 'Old Board', createdAt: 1, updatedAt: 1 }],
+        cards: [{ id: 'c1', boardId: 'b1', name: 'Old Card', rank: 4, createdAt: 1, updatedAt: 1 }],
+      })
+
+      const result = importData(importJson)
+
+      expect(result.success).toBe(true)
+      expect(result.fromVersion).toBe('1.0')
+      expect(result.migrationChanges).toContain('v1.0 → v1.1: Added empty nicknames to cards (1)')
+      expect(getCard('c1')).toMatchObject({ nickname: '', notes: '', rank: 1 })
+      expect(getBoard('b1')).toMatchObject({ coverImage: null, deletedAt: null })
+    })
+
+    it('refuses files from a newer app version', () => {
+      const importJson = JSON.stringify({
+        version: '9.0',
+        boards: [{ id: 'b1', name: 'Future Board', createdAt: 1, updatedAt: 1 }],
+        cards: [],
+      })
+
+      const result = importData(importJson)
+
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('newer version')
+      expect(getBoards()).toHaveLength(0)
+    })
+
+    it('stamps exports with the current schema version', () => {
+      expect(JSON.parse(exportData()).version).toBe(CURRENT_SCHEMA_VERSION)
+    })
+
     it('returns error for invalid JSON', () => {
       const result = importData('not valid json')
       expect(result.success).toBe(false)
@@ -324,3 +411,136 @@ describe('localStorage Storage', () => {
     })
   })
 })
+
+describe('IndexedDB Storage', () => {
+  beforeEach(async () => {
+    resetStorageCache()
+    localStorage.clear()
+    await deleteDB()
+  })
+
+  afterAll(async () => {
+    resetStorageCache()
+    await deleteDB()
+  })
+
+  it('migrates legacy localStorage records into IndexedDB', async () => {
+    const board = createBoard('Legacy Board')
+    const card = createCard(board.id, 'Legacy Card', 1)
+    localStorage.setItem('singles-infernal-rank:boards', JSON.stringify([board]))
+    localStorage.setItem('singles-infernal-rank:cards', JSON.stringify([card]))
+
+    await initStorage()
+
+    expect(getBoards()).toEqual([board])
+    expect(getCardsByBoard(board.id)).toEqual([card])
+    expect(await getAllRecords('boards')).toEqual([board])
+    expect(await getAllRecords('cards')).toEqual([card])
+    expect(localStorage.getItem('singles-infernal-rank:boards')).toBeNull()
+    expect(localStorage.getItem('singles-infernal-rank:cards')).toBeNull()
+  })
+
+  it('upgrades legacy records that are missing newer fields', async () => {
+    localStorage.setItem('singles-infernal-rank:cards', JSON.stringify([
+      { id: 'c1', boardId: 'b1', name: 'Old', rank: 5, createdAt: 1, updatedAt: 1 },
+    ]))
+
+    await initStorage()
+
+    expect(getCard('c1')).toMatchObject({ nickname: '', metadata: {}, rank: 1 })
+    expect(getStoredSchemaVersion()).toBe(CURRENT_SCHEMA_VERSION)
+  })
+
+  it('keeps IndexedDB records when a legacy record has the same ID', async () => {
+    const board = createBoard('Board')
+    await initStorage()
+    saveBoard({ ...board, name: 'Newer' })
+    await flushStorage()
+
+    resetStorageCache()
+    localStorage.setItem('singles-infernal-rank:boards', JSON.stringify([board]))
+    await initStorage()
+
+    expect(getBoard(board.id)?.name).toBe('Newer')
+  })
+
+  it('persists writes across reloads', async () => {
+    await initStorage()
+    const board = createBoard('Board')
+    const cards = [createCard(board.id, 'A', 1), createCard(board.id, 'B', 2)]
+    saveBoard(board)
+    saveCardsForBoard(board.id, cards)
+    await flushStorage()
+
+    resetStorageCache()
+    await initStorage()
+
+    expect(getBoard(board.id)).toEqual(board)
+    expect(getCardsByBoard(board.id).map((c) => c.name)).toEqual(['A', 'B'])
+  })
+
+  it('deletes cards dropped from a board save', async () => {
+    await initStorage()
+    const [a, b] = [createCard('board-1', 'A', 1), createCard('board-1', 'B', 2)]
+    const other = createCard('board-2', 'Other', 1)
+    saveCards([a, b, other])
+
+    saveCardsForBoard('board-1', [a])
+    await flushStorage()
+
+    expect(getCards().map((c) => c.id).sort()).toEqual([a.id, other.id].sort())
+    expect((await getAllRecords('cards')).length).toBe(2)
+  })
+
+  it('does not touch localStorage for records once initialized', async () => {
+    await initStorage()
+
+    saveBoard(createBoard('Board'))
+    deleteCard('missing')
+
+    expect(localStorage.getItem('singles-infernal-rank:boards')).toBeNull()
+  })
+
+  it('reports an unavailable database and keeps working from localStorage', async () => {
+    closeDB()
+    const open = vi.spyOn(indexedDB, 'open').mockImplementation(() => {
+      throw new Error('Private mode')
+    })
+
+    await initStorage()
+    open.mockRestore()
+    saveBoard(createBoard('Board'))
+
+    expect(getStorageProblem()).toBe('unavailable')
+    expect(getBoards()).toHaveLength(1)
+  })
+
+  it('reports failed background writes', async () => {
+    await initStorage()
+    const listener = vi.fn()
+    const unsubscribe = subscribeToStorageProblems(listener)
+    const put = vi.spyOn(IDBObjectStore.prototype, 'put').mockImplementation(() => {
+      throw new Error('Quota exceeded')
+    })
+
+    saveBoard(createBoard('Board'))
+    await flushStorage()
+    put.mockRestore()
+    unsubscribe()
+
+    expect(getStorageProblem()).toBe('write-failed')
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('clears IndexedDB with clearAllData', async () => {
+    await initStorage()
+    saveBoard(createBoard('Board'))
+    await flushStorage()
+
+    clearAllData()
+    await flushStorage()
+
+    expect(getBoards()).toEqual([])
+    expect(await getAllRecords('boards')).toEqual([])
+  })
+})
@@ -1,19 +1,47 @@
 /**
- * localStorage Wrapper for Boards and Cards
+ * Storage for Boards, Cards and Snapshots
  *
- * Provides typed JSON storage with error handling.
- * Separate keys for boards and cards for easy management.
+ * Boards, cards and snapshots live in IndexedDB object stores (see db.ts).
+ * initStorage() loads them into an in-memory cache at startup so this API
+ * stays synchronous; writes update the cache and are persisted to
+ * IndexedDB in the background, one record at a time rather than whole
+ * arrays. Until initStorage() has run (e.g. in tests) records are read
+ * from and written to the legacy localStorage keys.
+ *
+ * Settings, pairwise sessions and what-if branches are small and stay in
+ * localStorage.
  */
 
 import type { Board, Card, Snapshot } from './types'
 import { isBoard, isCard, isSnapshot } from './types'
+import {
+  RECORD_STORES,
+  type RecordStoreName,
+  getAllRecords,
+  writeRecords,
+  clearRecords,
+} from './db'
+import { isPairwiseSession, type PairwiseSession } from './pairwiseRanking'
+import { isRankingBranch, type RankingBranch } from './rankingBranches'
+import { isItemMatchOverride, type ItemMatchOverride } from './itemMatching'
 import { storageLogger as log } from './logger'
+import {
+  CURRENT_SCHEMA_VERSION,
+  LEGACY_SCHEMA_VERSION,
+  migrateData,
+  type RawDataSet,
+} from './migrations'
 
 const STORAGE_KEYS = {
+  // Legacy record keys - migrated to IndexedDB by initStorage()
   boards: 'singles-infernal-rank:boards',
   cards: 'singles-infernal-rank:cards',
   settings: 'singles-infernal-rank:settings',
   snapshots: 'singles-infernal-rank:snapshots',
+  pairwiseSessions: 'singles-infernal-rank:pairwise-sessions',
+  rankingBranches: 'singles-infernal-rank:ranking-branches',
+  itemMatchOverrides: 'singles-infernal-rank:item-match-overrides',
+  schemaVersion: 'singles-infernal-rank:schema-version',
 } as const
 
 /**
@@ -39,103 +67,223 @@ const DEFAULT_SETTINGS: AppSettings = {
   nicknameModeTimeline: false,
 }
 
-// ============ Boards ============
+// ============ Record Collections ============
+
+/**
+ * Record type held in each record store
+ */
+interface RecordTypes {
+  boards: Board
+  cards: Card
+  snapshots: Snapshot
+}
+
+type RecordCache = { [K in RecordStoreName]: Map<string, RecordTypes[K]> }
+
+const RECORD_GUARDS: { [K in RecordStoreName]: (obj: unknown) => obj is RecordTypes[K] } = {
+  boards: isBoard,
+  cards: isCard,
+  snapshots: isSnapshot,
+}
+
+/** In-memory copy of the IndexedDB records, null until initStorage() runs */
+let cache: RecordCache | null = null
+
+/** Pending IndexedDB writes, chained so they apply in order */
+let pendingWrites: Promise<void> = Promise.resolve()
 
 /**
- * Get all boards from localStorage
+ * Why data may not be persisting: IndexedDB couldn't be opened (records
+ * fall back to localStorage), or a background write failed
  */
-export const getBoards = (): Board[] => {
+export type StorageProblem = 'unavailable' | 'write-failed'
+
+/** The latest storage problem, null while everything saves */
+let storageProblem: StorageProblem | null = null
+const storageProblemListeners = new Set<() => void>()
+
+const reportStorageProblem = (problem: StorageProblem): void => {
+  if (storageProblem === problem) return
+  storageProblem = problem
+  storageProblemListeners.forEach((listener) => listener())
+}
+
+/**
+ * Get the current storage problem, if any
+ */
+export const getStorageProblem = (): StorageProblem | null => storageProblem
+
+/**
+ * Listen for storage problems (so the UI can warn until reload)
+ * @returns Unsubscribe function
+ */
+export const subscribeToStorageProblems = (listener: () => void): (() => void) => {
+  storageProblemListeners.add(listener)
+  return () => {
+    storageProblemListeners.delete(listener)
+  }
+}
+
+/**
+ * Persist a change to IndexedDB in the background
+ */
+const queueWrite = (name: RecordStoreName, write: () => Promise<void>): void => {
+  pendingWrites = pendingWrites.then(write).catch((err) => {
+    log.error(`${name}_persist_failed`, { error_message: String(err) })
+    reportStorageProblem('write-failed')
+  })
+}
+
+/**
+ * Read the raw (unvalidated) records from a legacy localStorage key
+ */
+const readLegacyRaw = (name: RecordStoreName): unknown[] => {
   try {
-    const data = localStorage.getItem(STORAGE_KEYS.boards)
+    const data = localStorage.getItem(STORAGE_KEYS[name])
     if (!data) return []
 
     const parsed = JSON.parse(data)
-    if (!Array.isArray(parsed)) return []
-
-    // Filter to only valid boards
-    return parsed.filter(isBoard)
+    return Array.isArray(parsed) ? parsed : []
   } catch (err) {
-    log.error('boards_parse_failed', { error_message: String(err) })
+    log.error(`${name}_parse_failed`, { error_message: String(err) })
     return []
   }
 }
 
 /**
- * Save all boards to localStorage
+ * Read a collection from its legacy localStorage key
  */
-export const saveBoards = (boards: Board[]): void => {
+const readLegacy = <K extends RecordStoreName>(name: K): RecordTypes[K][] =>
+  // Filter to only valid records
+  readLegacyRaw(name).filter(RECORD_GUARDS[name])
+
+/**
+ * Write a whole collection to its legacy localStorage key
+ */
+const writeLegacy = <K extends RecordStoreName>(name: K, records: RecordTypes[K][]): void => {
   try {
-    localStorage.setItem(STORAGE_KEYS.boards, JSON.stringify(boards))
-    log.debug('boards_saved', { count: boards.length })
+    localStorage.setItem(STORAGE_KEYS[name], JSON.stringify(records))
+    log.debug(`${name}_saved`, { count: records.length })
   } catch (err) {
-    log.error('boards_save_failed', { error_message: String(err), count: boards.length })
-    throw new Error('Failed to save boards')
+    log.error(`${name}_save_failed`, { error_message: String(err), count: records.length })
+    throw new Error(`Failed to save ${name}`)
   }
 }
 
 /**
- * Get a single board by ID
+ * Get every record in a collection
  */
-export const getBoard = (id: string): Board | null => {
-  const boards = getBoards()
-  return boards.find((b) => b.id === id) ?? null
+const readRecords = <K extends RecordStoreName>(name: K): RecordTypes[K][] => {
+  if (!cache) return readLegacy(name)
+  const store: Map<string, RecordTypes[K]> = cache[name]
+  return Array.from(store.values())
 }
 
 /**
- * Save a single board (create or update)
+ * Get a single record by ID
  */
-export const saveBoard = (board: Board): void => {
-  const boards = getBoards()
-  const index = boards.findIndex((b) => b.id === board.id)
+const readRecord = <K extends RecordStoreName>(name: K, id: string): RecordTypes[K] | null => {
+  if (!cache) return readLegacy(name).find((r) => r.id === id) ?? null
+  const store: Map<string, RecordTypes[K]> = cache[name]
+  return store.get(id) ?? null
+}
 
-  if (index >= 0) {
-    boards[index] = board
-  } else {
-    boards.push(board)
+/**
+ * Create or update records (only these records are written)
+ */
+const putRecords = <K extends RecordStoreName>(name: K, records: RecordTypes[K][]): void => {
+  if (!cache) {
+    // Map keeps existing records in place and appends new ones
+    const byId = new Map(readLegacy(name).map((r) => [r.id, r]))
+    for (const record of records) byId.set(record.id, record)
+    writeLegacy(name, Array.from(byId.values()))
+    return
   }
 
-  saveBoards(boards)
+  const store: Map<string, RecordTypes[K]> = cache[name]
+  for (const record of records) store.set(record.id, record)
+  queueWrite(name, () => writeRecords(name, records))
 }
 
 /**
- * Delete a board by ID (hard delete)
+ * Delete records by ID
  */
-export const deleteBoard = (id: string): void => {
-  const boards = getBoards().filter((b) => b.id !== id)
-  saveBoards(boards)
+const removeRecords = (name: RecordStoreName, ids: string[]): void => {
+  if (ids.length === 0) return
+
+  if (!cache) {
+    const idSet = new Set(ids)
+    writeLegacy(name, readLegacy(name).filter((r) => !idSet.has(r.id)))
+    return
+  }
+
+  for (const id of ids) cache[name].delete(id)
+  queueWrite(name, () => writeRecords(name, [], ids))
 }
 
-// ============ Cards ============
+/**
+ * Replace every record in a collection
+ */
+const replaceRecords = <K extends RecordStoreName>(name: K, records: RecordTypes[K][]): void => {
+  if (!cache) {
+    writeLegacy(name, records)
+    return
+  }
+
+  const store: Map<string, RecordTypes[K]> = cache[name]
+  const keep = new Set(records.map((r) => r.id))
+  const removed = Array.from(store.keys()).filter((id) => !keep.has(id))
+
+  store.clear()
+  for (const record of records) store.set(record.id, record)
+  queueWrite(name, () => writeRecords(name, records, removed))
+}
+
+// ============ Boards ============
 
 /**
- * Get all cards from localStorage
+ * Get all boards
  */
-export const getCards = (): Card[] => {
-  try {
-    const data = localStorage.getItem(STORAGE_KEYS.cards)
-    if (!data) return []
+export const getBoards = (): Board[] => readRecords('boards')
 
-    const parsed = JSON.parse(data)
-    if (!Array.isArray(parsed)) return []
+/**
+ * Save all boards (replaces existing boards)
+ */
+export const saveBoards = (boards: Board[]): void => {
+  replaceRecords('boards', boards)
+}
 
-    return parsed.filter(isCard)
-  } catch (err) {
-    log.error('cards_parse_failed', { error_message: String(err) })
-    return []
-  }
+/**
+ * Get a single board by ID
+ */
+export const getBoard = (id: string): Board | null => readRecord('boards', id)
+
+/**
+ * Save a single board (create or update)
+ */
+export const saveBoard = (board: Board): void => {
+  putRecords('boards', [board])
 }
 
 /**
- * Save all cards to localStorage
+ * Delete a board by ID (hard delete)
+ */
+export const deleteBoard = (id: string): void => {
+  removeRecords('boards', [id])
+}
+
+// ============ Cards ============
+
+/**
+ * Get all cards
+ */
+export const getCards = (): Card[] => readRecords('cards')
+
+/**
+ * Save all cards (replaces existing cards)
  */
 export const saveCards = (cards: Card[]): void => {
-  try {
-    localStorage.setItem(STORAGE_KEYS.cards, JSON.stringify(cards))
-    log.debug('cards_saved', { count: cards.length })
-  } catch (err) {
-    log.error('cards_save_failed', { error_message: String(err), count: cards.length })
-    throw new Error('Failed to save cards')
-  }
+  replaceRecords('cards', cards)
 }
 
 /**
@@ -150,50 +298,39 @@ export const getCardsByBoard = (boardId: string): Card[] => {
 /**
  * Get a single card by ID
  */
-export const getCard = (id: string): Card | null => {
-  const cards = getCards()
-  return cards.find((c) => c.id === id) ?? null
-}
+export const getCard = (id: string): Card | null => readRecord('cards', id)
 
 /**
  * Save a single card (create or update)
  */
 export const saveCard = (card: Card): void => {
-  const cards = getCards()
-  const index = cards.findIndex((c) => c.id === card.id)
-
-  if (index >= 0) {
-    cards[index] = card
-  } else {
-    cards.push(card)
-  }
-
-  saveCards(cards)
+  putRecords('cards', [card])
 }
 
 /**
  * Delete a card by ID
  */
 export const deleteCard = (id: string): void => {
-  const cards = getCards().filter((c) => c.id !== id)
-  saveCards(cards)
+  removeRecords('cards', [id])
 }
 
 /**
  * Delete all cards for a board
  */
 export const deleteCardsByBoard = (boardId: string): void => {
-  const cards = getCards().filter((c) => c.boardId !== boardId)
-  saveCards(cards)
+  removeRecords('cards', getCardsByBoard(boardId).map((c) => c.id))
 }
 
 /**
  * Save cards for a specific board (preserves cards from other boards)
+ * Cards of this board missing from the list are deleted.
  */
 export const saveCardsForBoard = (boardId: string, boardCards: Card[]): void => {
-  // Get all cards, remove cards for this board, then add the new ones
-  const otherCards = getCards().filter((c) => c.boardId !== boardId)
-  saveCards([...otherCards, ...boardCards])
+  const keep = new Set(boardCards.map((c) => c.id))
+  const removed = getCardsByBoard(boardId).filter((c) => !keep.has(c.id))
+
+  removeRecords('cards', removed.map((c) => c.id))
+  putRecords('cards', boardCards)
 }
 
 // ============ Settings ============
@@ -225,34 +362,15 @@ export const saveSettings = (settings: Partial<AppSettings>): void => {
 // ============ Snapshots ============
 
 /**
- * Get all snapshots from localStorage
+ * Get all snapshots
  */
-export const getSnapshots = (): Snapshot[] => {
-  try {
-    const data = localStorage.getItem(STORAGE_KEYS.snapshots)
-    if (!data) return []
-
-    const parsed = JSON.parse(data)
-    if (!Array.isArray(parsed)) return []
-
-    return parsed.filter(isSnapshot)
-  } catch (err) {
-    log.error('snapshots_parse_failed', { error_message: String(err) })
-    return []
-  }
-}
+export const getSnapshots = (): Snapshot[] => readRecords('snapshots')
 
 /**
- * Save all snapshots to localStorage
+ * Save all snapshots (replaces existing snapshots)
  */
 export const saveSnapshots = (snapshots: Snapshot[]): void => {
-  try {
-    localStorage.setItem(STORAGE_KEYS.snapshots, JSON.stringify(snapshots))
-    log.debug('snapshots_saved', { count: snapshots.length })
-  } catch (err) {
-    log.error('snapshots_save_failed', { error_message: String(err), count: snapshots.length })
-    throw new Error('Failed to save snapshots')
-  }
+  replaceRecords('snapshots', snapshots)
 }
 
 /**
@@ -267,41 +385,27 @@ export const getSnapshotsByBoard = (boardId: string): Snapshot[] => {
 /**
  * Get a single snapshot by ID
  */
-export const getSnapshot = (id: string): Snapshot | null => {
-  const snapshots = getSnapshots()
-  return snapshots.find((s) => s.id === id) ?? null
-}
+export const getSnapshot = (id: string): Snapshot | null => readRecord('snapshots', id)
 
 /**
  * Save a single snapshot (create or update)
  */
 export const saveSnapshot = (snapshot: Snapshot): void => {
-  const snapshots = getSnapshots()
-  const index = snapshots.findIndex((s) => s.id === snapshot.id)
-
-  if (index >= 0) {
-    snapshots[index] = snapshot
-  } else {
-    snapshots.push(snapshot)
-  }
-
-  saveSnapshots(snapshots)
+  putRecords('snapshots', [snapshot])
 }
 
 /**
  * Delete a snapshot by ID
  */
 export const deleteSnapshot = (id: string): void => {
-  const snapshots = getSnapshots().filter((s) => s.id !== id)
-  saveSnapshots(snapshots)
+  removeRecords('snapshots', [id])
 }
 
 /**
  * Delete all snapshots for a board
  */
 export const deleteSnapshotsByBoard = (boardId: string): void => {
-  const snapshots = getSnapshots().filter((s) => s.boardId !== boardId)
-  saveSnapshots(snapshots)
+  removeRecords('snapshots', getSnapshotsByBoard(boardId).map((s) => s.id))
 }
 
 /**
@@ -313,16 +417,325 @@ export const getNextEpisodeNumber = (boardId: string): number => {
   return Math.max(...boardSnapshots.map((s) => s.episodeNumber)) + 1
 }
 
+// ============ Pairwise Sessions ============
+
+/**
+ * Get all in-progress pairwise ranking sessions, keyed by board ID
+ */
+const getPairwiseSessions = (): Record<string, PairwiseSession> => {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.pairwiseSessions)
+    if (!data) return {}
+
+    const parsed = JSON.parse(data)
+    if (typeof parsed !== 'object' || parsed === null) return {}
+
+    const sessions: Record<string, PairwiseSession> = {}
+    for (const [boardId, session] of Object.entries(parsed)) {
+      if (isPairwiseSession(session)) sessions[boardId] = session
+    }
+    return sessions
+  } catch (err) {
+    log.error('pairwise_sessions_parse_failed', { error_message: String(err) })
+    return {}
+  }
+}
+
+/**
+ * Get the saved pairwise ranking session for a board
+ */
+export const getPairwiseSession = (boardId: string): PairwiseSession | null => {
+  return getPairwiseSessions()[boardId] ?? null
+}
+
+/**
+ * Save a pairwise ranking session so it can be resumed later
+ */
+export const savePairwiseSession = (session: PairwiseSession): void => {
+  const sessions = getPairwiseSessions()
+  sessions[session.boardId] = session
+  localStorage.setItem(STORAGE_KEYS.pairwiseSessions, JSON.stringify(sessions))
+}
+
+/**
+ * Delete the saved pairwise ranking session for a board
+ */
+export const deletePairwiseSession = (boardId: string): void => {
+  const sessions = getPairwiseSessions()
+  if (!(boardId in sessions)) return
+  delete sessions[boardId]
+  localStorage.setItem(STORAGE_KEYS.pairwiseSessions, JSON.stringify(sessions))
+}
+
+// ============ Ranking Branches ============
+
+/**
+ * Get every saved what-if branch
+ */
+const getAllRankingBranches = (): RankingBranch[] => {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.rankingBranches)
+    if (!data) return []
+
+    const parsed = JSON.parse(data)
+    return Array.isArray(parsed) ? parsed.filter(isRankingBranch) : []
+  } catch (err) {
+    log.error('ranking_branches_parse_failed', { error_message: String(err) })
+    return []
+  }
+}
+
+const saveAllRankingBranches = (branches: RankingBranch[]): void => {
+  localStorage.setItem(STORAGE_KEYS.rankingBranches, JSON.stringify(branches))
+}
+
+/**
+ * Get the what-if branches for a board, oldest first
+ */
+export const getRankingBranches = (boardId: string): RankingBranch[] =>
+  getAllRankingBranches()
+    .filter((b) => b.boardId === boardId)
+    .sort((a, b) => a.createdAt - b.createdAt)
+
+/**
+ * Save a what-if branch (create or update)
+ */
+export const saveRankingBranch = (branch: RankingBranch): void => {
+  const branches = getAllRankingBranches().filter((b) => b.id !== branch.id)
+  saveAllRankingBranches([...branches, branch])
+}
+
+/**
+ * Delete a what-if branch by ID
+ */
+export const deleteRankingBranch = (id: string): void => {
+  saveAllRankingBranches(getAllRankingBranches().filter((b) => b.id !== id))
+}
+
+/**
+ * Delete all what-if branches for a board
+ */
+export const deleteRankingBranchesByBoard = (boardId: string): void => {
+  saveAllRankingBranches(getAllRankingBranches().filter((b) => b.boardId !== boardId))
+}
+
+// ============ Item Match Overrides ============
+// Overrides are keyed by space board ID: they are saved when comparing
+// members' boards in a space, and deleted when a board leaves the space.
+
+/**
+ * Get every saved "same" / "not the same" decision
+ */
+const getAllItemMatchOverrides = (): ItemMatchOverride[] => {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.itemMatchOverrides)
+    if (!data) return []
+
+    const parsed = JSON.parse(data)
+    return Array.isArray(parsed) ? parsed.filter(isItemMatchOverride) : []
+  } catch (err) {
+    log.error('item_match_overrides_parse_failed', { error_message: String(err) })
+    return []
+  }
+}
+
+const saveAllItemMatchOverrides = (overrides: ItemMatchOverride[]): void => {
+  localStorage.setItem(STORAGE_KEYS.itemMatchOverrides, JSON.stringify(overrides))
+}
+
+/**
+ * Flip an override saved from the other board's side
+ */
+const flipOverride = (o: ItemMatchOverride): ItemMatchOverride => ({
+  leftBoardId: o.rightBoardId,
+  rightBoardId: o.leftBoardId,
+  leftItemId: o.rightItemId,
+  rightItemId: o.leftItemId,
+  same: o.same,
+})
+
+/**
+ * Get the overrides for a pair of boards, oriented left to right
+ * (whichever side they were saved from)
+ */
+export const getItemMatchOverrides = (leftBoardId: string, rightBoardId: string): ItemMatchOverride[] =>
+  getAllItemMatchOverrides().flatMap((o) => {
+    if (o.leftBoardId === leftBoardId && o.rightBoardId === rightBoardId) return [o]
+    if (o.leftBoardId === rightBoardId && o.rightBoardId === leftBoardId) return [flipOverride(o)]
+    return []
+  })
+
+/**
+ * Save an override, replacing any earlier decision about either item on
+ * this pair of boards
+ */
+export const saveItemMatchOverride = (override: ItemMatchOverride): void => {
+  const others = getAllItemMatchOverrides().filter((stored) => {
+    const o =
+      stored.leftBoardId === override.rightBoardId && stored.rightBoardId === override.leftBoardId
+        ? flipOverride(stored)
+        : stored
+    if (o.leftBoardId !== override.leftBoardId || o.rightBoardId !== override.rightBoardId) return true
+
+    // A match replaces every decision about either item; "not the same" only the exact pair
+    return override.same
+      ? o.leftItemId !== override.leftItemId && o.rightItemId !== override.rightItemId
+      : o.leftItemId !== override.leftItemId || o.rightItemId !== override.rightItemId
+  })
+  saveAllItemMatchOverrides([...others, override])
+}
+
+/**
+ * Delete all overrides involving a space board
+ */
+export const deleteItemMatchOverridesByBoard = (boardId: string): void => {
+  saveAllItemMatchOverrides(
+    getAllItemMatchOverrides().filter((o) => o.leftBoardId !== boardId && o.rightBoardId !== boardId)
+  )
+}
+
+// ============ Initialization ============
+
+/**
+ * Schema version of the stored records (legacy data has no stamp)
+ */
+export const getStoredSchemaVersion = (): string =>
+  localStorage.getItem(STORAGE_KEYS.schemaVersion) ?? LEGACY_SCHEMA_VERSION
+
+/**
+ * Read one record store plus any records still in its legacy localStorage key
+ * IndexedDB wins for records that exist in both places.
+ */
+const loadRawCollection = async (
+  name: RecordStoreName
+): Promise<{ records: unknown[]; fromLegacy: number }> => {
+  const stored = await getAllRecords<unknown>(name)
+  const storedIds = new Set(stored.map((r) => (r as { id?: unknown })?.id))
+  const legacy = readLegacyRaw(name).filter((r) => !storedIds.has((r as { id?: unknown })?.id))
+
+  return { records: [...stored, ...legacy], fromLegacy: legacy.length }
+}
+
+/**
+ * Build a cache map from raw records, dropping anything still invalid
+ */
+const toCacheMap = <K extends RecordStoreName>(
+  name: K,
+  records: unknown[]
+): Map<string, RecordTypes[K]> => {
+  const valid = records.filter(RECORD_GUARDS[name])
+  if (valid.length < records.length) {
+    log.warn('invalid_records_dropped', { store: name, count: records.length - valid.length })
+  }
+  return new Map(valid.map((r) => [r.id, r]))
+}
+
+/**
+ * Load boards, cards and snapshots from IndexedDB into memory
+ *
+ * Runs the one-time migration from the legacy localStorage keys and any
+ * pending schema migrations. Call once before rendering; safe to call
+ * again. If IndexedDB is unavailable storage keeps using localStorage.
+ */
+export const initStorage = async (): Promise<void> => {
+  if (cache) return
+
+  try {
+    const boards = await loadRawCollection('boards')
+    const cards = await loadRawCollection('cards')
+    const snapshots = await loadRawCollection('snapshots')
+
+    let raw: RawDataSet = {
+      boards: boards.records,
+      cards: cards.records,
+      snapshots: snapshots.records,
+    }
+    const fromLegacy = boards.fromLegacy + cards.fromLegacy + snapshots.fromLegacy
+
+    const version = getStoredSchemaVersion()
+    const migration = migrateData(raw, version)
+    if (migration.success && migration.data) {
+      raw = migration.data
+      if (migration.changes?.length) {
+        log.info('schema_migrated', { from: version, to: CURRENT_SCHEMA_VERSION, changes: migration.changes })
+      }
+    } else {
+      // Newer data: use it as-is rather than risk downgrading it
+      log.warn('schema_migration_skipped', { version, error: migration.error })
+    }
+
+    const loaded: RecordCache = {
+      boards: toCacheMap('boards', raw.boards),
+      cards: toCacheMap('cards', raw.cards),
+      snapshots: toCacheMap('snapshots', raw.snapshots),
+    }
+
+    // Write back once if anything came from localStorage or was upgraded
+    const upgraded = migration.success && version !== CURRENT_SCHEMA_VERSION
+    if (fromLegacy > 0 || upgraded) {
+      for (const name of RECORD_STORES) {
+        const store: Map<string, Board | Card | Snapshot> = loaded[name]
+        await writeRecords(name, Array.from(store.values()))
+      }
+      log.info('records_rewritten', { from_legacy: fromLegacy, from_version: version })
+    }
+
+    cache = loaded
+
+    // Only drop the legacy keys once every store has been written
+    for (const name of RECORD_STORES) {
+      localStorage.removeItem(STORAGE_KEYS[name])
+    }
+    if (migration.success) {
+      localStorage.setItem(STORAGE_KEYS.schemaVersion, CURRENT_SCHEMA_VERSION)
+    }
+
+    log.debug('storage_initialized', {
+      boards: loaded.boards.size,
+      cards: loaded.cards.size,
+      snapshots: loaded.snapshots.size,
+    })
+  } catch (err) {
+    log.error('storage_init_failed', { error_message: String(err) })
+    reportStorageProblem('unavailable')
+  }
+}
+
+/**
+ * Wait for all pending IndexedDB writes to finish
+ */
+export const flushStorage = (): Promise<void> => pendingWrites
+
+/**
+ * Drop the in-memory cache and fall back to localStorage (useful for testing)
+ */
+export const resetStorageCache = (): void => {
+  cache = null
+  pendingWrites = Promise.resolve()
+  storageProblem = null
+}
+
 // ============ Utilities ============
 
 /**
- * Clear all app data from localStorage
+ * Clear all app data (records, settings, sessions and branches)
+ * Await flushStorage() to be sure IndexedDB has been cleared.
  */
 export const clearAllData = (): void => {
   localStorage.removeItem(STORAGE_KEYS.boards)
   localStorage.removeItem(STORAGE_KEYS.cards)
   localStorage.removeItem(STORAGE_KEYS.settings)
   localStorage.removeItem(STORAGE_KEYS.snapshots)
+  localStorage.removeItem(STORAGE_KEYS.pairwiseSessions)
+  localStorage.removeItem(STORAGE_KEYS.rankingBranches)
+  localStorage.removeItem(STORAGE_KEYS.itemMatchOverrides)
+
+  if (cache) {
+    for (const name of RECORD_STORES) {
+      cache[name].clear()
+      queueWrite(name, () => clearRecords(name))
+    }
+  }
 }
 
 /**
@@ -330,7 +743,7 @@ export const clearAllData = (): void => {
  */
 export const exportData = (): string => {
   return JSON.stringify({
-    version: '1.1',
+    version: CURRENT_SCHEMA_VERSION,
     boards: getBoards(),
     cards: getCards(),
     snapshots: getSnapshots(),
@@ -370,6 +783,12 @@ export interface ImportResult {
   boardsImported?: number
   cardsImported?: number
   snapshotsImported?: number
+  /** Version the file was written with */
+  fromVersion?: string
+  /** What schema migrations changed while upgrading the file */
+  migrationChanges?: string[]
+  /** Records that were still invalid after upgrading */
+  recordsSkipped?: number
 }
 
 /**
@@ -413,12 +832,26 @@ export interface ImportOptions {
 }
 
 /**
- * Import data from JSON string
+ * Import file contents after upgrading and validation
  */
-export const importData = (
-  jsonString: string,
-  options: ImportOptions = { merge: true }
-): ImportResult => {
+export interface ParsedImport {
+  boards: Board[]
+  cards: Card[]
+  snapshots: Snapshot[]
+  /** Version the file was written with */
+  fromVersion: string
+  /** What schema migrations changed while upgrading the file */
+  migrationChanges: string[]
+  /** Records that were still invalid after upgrading */
+  recordsSkipped: number
+}
+
+/**
+ * Parse, validate and upgrade an import file without saving anything
+ */
+export const parseImportData = (
+  jsonString: string
+): { success: true; data: ParsedImport } | { success: false; error: string } => {
   // Parse JSON
   let data: unknown
   try {
@@ -435,10 +868,54 @@ export const importData = (
 
   const importedData = data as ImportData
 
+  // Upgrade older files; refuse files from a newer app version
+  const migration = migrateData(
+    {
+      boards: importedData.boards,
+      cards: importedData.cards,
+      snapshots: importedData.snapshots ?? [],
+    },
+    importedData.version
+  )
+  if (!migration.success || !migration.data) {
+    return { success: false, error: migration.error ?? 'Unsupported data version' }
+  }
+
   // Filter to only valid data
-  const validBoards = importedData.boards.filter(isBoard)
-  const validCards = importedData.cards.filter(isCard)
-  const validSnapshots = (importedData.snapshots ?? []).filter(isSnapshot)
+  const upgraded = migration.data
+  const boards = upgraded.boards.filter(isBoard)
+  const cards = upgraded.cards.filter(isCard)
+  const snapshots = upgraded.snapshots.filter(isSnapshot)
+
+  return {
+    success: true,
+    data: {
+      boards,
+      cards,
+      snapshots,
+      fromVersion: importedData.version,
+      migrationChanges: migration.changes ?? [],
+      recordsSkipped:
+        upgraded.boards.length - boards.length +
+        upgraded.cards.length - cards.length +
+        upgraded.snapshots.length - snapshots.length,
+    },
+  }
+}
+
+/**
+ * Import data from JSON string
+ */
+export const importData = (
+  jsonString: string,
+  options: ImportOptions = { merge: true }
+): ImportResult => {
+  const parsed = parseImportData(jsonString)
+  if (!parsed.success) {
+    return { success: false, error: parsed.error }
+  }
+
+  const { boards: validBoards, cards: validCards, snapshots: validSnapshots } = parsed.data
 
   if (!options.merge) {
     // Replace mode: clear existing data first
@@ -472,5 +949,8 @@ export const importData = (
     boardsImported: newBoards.length,
     cardsImported: newCards.length,
     snapshotsImported: newSnapshots.length,
+    fromVersion: parsed.data.fromVersion,
+    migrationChanges: parsed.data.migrationChanges,
+    recordsSkipped: parsed.data.recordsSkipped,
   }
 }
@@ -0,0 +1,110 @@
+import {
+  ORPHAN_GRACE_MS,
+  collectOrphanedImages,
+  formatBytes,
+  getBoardImageKeys,
+  getReferencedImageKeys,
+  getStorageReport,
+} from './storageUsage'
+import { saveBoard, saveCard, saveSnapshot } from './storage'
+import { getImageInfo, deleteImages, type ImageInfo } from './db'
+import { saveBoardHistory } from './boardHistory'
+import { createBoard, createCard, createSnapshot } from './types'
+
+vi.mock('./db', () => ({
+  getImageInfo: vi.fn(),
+  deleteImages: vi.fn(),
+}))
+
+const OLD = 1000
+
+let images: Map<string, ImageInfo>
+
+const storeImage = (key: string, bytes = 10, createdAt = OLD) => {
+  images.set(key, { bytes, createdAt })
+}
+
+describe('storageUsage', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    sessionStorage.clear()
+    images = new Map()
+    vi.mocked(getImageInfo).mockImplementation(async () => new Map(images))
+    vi.mocked(deleteImages).mockResolvedValue(undefined)
+  })
+
+  describe('references', () => {
+    it('collects keys from covers, cards, snapshots and undo history', () => {
+      const board = { ...createBoard('B'), coverImage: 'cover' }
+      saveBoard(board)
+      saveCard(createCard(board.id, 'A', 1, { imageKey: 'img', thumbnailKey: 'thumb' }))
+      saveSnapshot(createSnapshot(board.id, 1, [
+        { cardId: 'x', cardName: 'X', rank: 1, thumbnailKey: 'snap' },
+      ]))
+      saveBoardHistory(board.id, {
+        undo: [{
+          label: 'Changed photo for A',
+          state: { board, cards: [createCard(board.id, 'A', 1, { imageKey: 'old-img' })] },
+          createdAt: 1,
+        }],
+        redo: [],
+      })
+
+      expect([...getReferencedImageKeys()].sort()).toEqual(['cover', 'img', 'old-img', 'snap', 'thumb'])
+      expect([...getBoardImageKeys(board)].sort()).toEqual(['cover', 'img', 'snap', 'thumb'])
+    })
+  })
+
+  describe('collectOrphanedImages', () => {
+    it('deletes images nothing references', async () => {
+      const board = createBoard('B')
+      saveBoard(board)
+      saveCard(createCard(board.id, 'A', 1, { imageKey: 'used' }))
+      storeImage('used')
+      storeImage('orphan', 25)
+
+      const result = await collectOrphanedImages(OLD + ORPHAN_GRACE_MS)
+
+      expect(result).toEqual({ deletedCount: 1, freedBytes: 25 })
+      expect(deleteImages).toHaveBeenCalledWith(['orphan'])
+    })
+
+    it('keeps recently stored images that may still be attaching', async () => {
+      storeImage('fresh', 10, 5000)
+
+      const result = await collectOrphanedImages(5000 + ORPHAN_GRACE_MS - 1)
+
+      expect(result.deletedCount).toBe(0)
+      expect(deleteImages).toHaveBeenCalledWith([])
+    })
+  })
+
+  describe('getStorageReport', () => {
+    it('reports bytes per board, largest first, and orphaned images', async () => {
+      const small = createBoard('Small')
+      const big = createBoard('Big')
+      saveBoard(small)
+      saveBoard(big)
+      saveCard(createCard(big.id, 'A', 1, { imageKey: 'big-img' }))
+      storeImage('big-img', 5000)
+      storeImage('orphan', 100)
+
+      const report = await getStorageReport()
+
+      expect(report.boards.map((b) => b.name)).toEqual(['Big', 'Small'])
+      expect(report.boards[0].imageCount).toBe(1)
+      expect(report.boards[0].bytes).toBeGreaterThan(5000)
+      expect(report.imageBytes).toBe(5100)
+      expect(report.orphanedCount).toBe(1)
+      expect(report.orphanedBytes).toBe(100)
+    })
+  })
+
+  describe('formatBytes', () => {
+    it('formats with sensible units', () => {
+      expect(formatBytes(512)).toBe('512 B')
+      expect(formatBytes(1536)).toBe('1.5 KB')
+      expect(formatBytes(300 * 1024 * 1024)).toBe('300 MB')
+    })
+  })
+})
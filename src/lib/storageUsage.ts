@@ -0,0 +1,197 @@
+/**
+ * Image Cleanup & Storage Usage
+ *
+ * Images live in IndexedDB and are referenced by key from card photos,
+ * board covers, snapshot thumbnails and undo history. Deleting or
+ * replacing those leaves the blob behind, so collectOrphanedImages()
+ * removes any image nothing refers to any more.
+ */
+
+import type { Board, Card, Snapshot } from './types'
+import { getBoards, getCards, getSnapshots } from './storage'
+import { getImageInfo, deleteImages } from './db'
+import { getAllHistorySteps } from './boardHistory'
+import { storageLogger as log } from './logger'
+
+/**
+ * Images younger than this are never collected, so a photo that has been
+ * stored but not yet attached to its card isn't deleted mid-save
+ */
+export const ORPHAN_GRACE_MS = 10 * 60 * 1000
+
+// ============ References ============
+
+const addBoardKeys = (keys: Set<string>, board: Board) => {
+  if (board.coverImage) keys.add(board.coverImage)
+}
+
+const addCardKeys = (keys: Set<string>, card: Card) => {
+  if (card.imageKey) keys.add(card.imageKey)
+  if (card.thumbnailKey) keys.add(card.thumbnailKey)
+}
+
+const addSnapshotKeys = (keys: Set<string>, snapshot: Snapshot) => {
+  for (const entry of snapshot.rankings) {
+    if (entry.thumbnailKey) keys.add(entry.thumbnailKey)
+  }
+}
+
+/**
+ * Image keys used by a board, its cards and its snapshots
+ */
+export const getBoardImageKeys = (
+  board: Board,
+  cards: Card[] = getCards(),
+  snapshots: Snapshot[] = getSnapshots()
+): Set<string> => {
+  const keys = new Set<string>()
+  addBoardKeys(keys, board)
+  cards.filter((c) => c.boardId === board.id).forEach((c) => addCardKeys(keys, c))
+  snapshots.filter((s) => s.boardId === board.id).forEach((s) => addSnapshotKeys(keys, s))
+  return keys
+}
+
+/**
+ * Image keys still used anywhere (records and undo history)
+ */
+export const getReferencedImageKeys = (): Set<string> => {
+  const keys = new Set<string>()
+
+  getBoards().forEach((b) => addBoardKeys(keys, b))
+  getCards().forEach((c) => addCardKeys(keys, c))
+  getSnapshots().forEach((s) => addSnapshotKeys(keys, s))
+
+  for (const step of getAllHistorySteps()) {
+    addBoardKeys(keys, step.state.board)
+    step.state.cards.forEach((c) => addCardKeys(keys, c))
+  }
+  return keys
+}
+
+// ============ Garbage Collection ============
+
+/**
+ * Result of an orphaned image sweep
+ */
+export interface CleanupResult {
+  deletedCount: number
+  freedBytes: number
+}
+
+/**
+ * Delete stored images that nothing references
+ */
+export const collectOrphanedImages = async (now = Date.now()): Promise<CleanupResult> => {
+  const images = await getImageInfo()
+  const referenced = getReferencedImageKeys()
+
+  const orphaned = [...images].filter(
+    ([key, info]) => !referenced.has(key) && now - info.createdAt >= ORPHAN_GRACE_MS
+  )
+  await deleteImages(orphaned.map(([key]) => key))
+
+  const result = {
+    deletedCount: orphaned.length,
+    freedBytes: orphaned.reduce((sum, [, info]) => sum + info.bytes, 0),
+  }
+  if (result.deletedCount > 0) {
+    log.info('orphaned_images_deleted', { ...result })
+  }
+  return result
+}
+
+// ============ Usage Report ============
+
+/**
+ * Storage used by a single board
+ */
+export interface BoardStorageUsage {
+  boardId: string
+  name: string
+  /** Image bytes plus the size of the board's records */
+  bytes: number
+  imageCount: number
+}
+
+/**
+ * Storage breakdown for the settings screen
+ */
+export interface StorageReport {
+  /** Boards, largest first (images shared between boards count for each) */
+  boards: BoardStorageUsage[]
+  /** Bytes of all stored images */
+  imageBytes: number
+  /** Images nothing references (removable by cleanup) */
+  orphanedCount: number
+  orphanedBytes: number
+  /** Origin-wide usage and quota from the browser, when available */
+  usage: number | null
+  quota: number | null
+}
+
+/**
+ * Bytes needed to store a value as JSON (approximate for non-ASCII text)
+ */
+const jsonBytes = (value: unknown): number => JSON.stringify(value).length
+
+/**
+ * Browser storage estimate, or nulls where unsupported
+ */
+const estimateQuota = async (): Promise<{ usage: number | null; quota: number | null }> => {
+  try {
+    const estimate = await navigator.storage?.estimate?.()
+    return { usage: estimate?.usage ?? null, quota: estimate?.quota ?? null }
+  } catch {
+    return { usage: null, quota: null }
+  }
+}
+
+/**
+ * Measure storage used per board and overall
+ */
+export const getStorageReport = async (): Promise<StorageReport> => {
+  const [images, quota] = await Promise.all([getImageInfo(), estimateQuota()])
+  const cards = getCards()
+  const snapshots = getSnapshots()
+
+  const boards = getBoards().map((board): BoardStorageUsage => {
+    const keys = [...getBoardImageKeys(board, cards, snapshots)].filter((key) => images.has(key))
+    const records = {
+      board,
+      cards: cards.filter((c) => c.boardId === board.id),
+      snapshots: snapshots.filter((s) => s.boardId === board.id),
+    }
+    return {
+      boardId: board.id,
+      name: board.name,
+      bytes: keys.reduce((sum, key) => sum + images.get(key)!.bytes, 0) + jsonBytes(records),
+      imageCount: keys.length,
+    }
+  })
+
+  const referenced = getReferencedImageKeys()
+  const orphaned = [...images].filter(([key]) => !referenced.has(key))
+
+  return {
+    boards: boards.sort((a, b) => b.bytes - a.bytes),
+    imageBytes: [...images.values()].reduce((sum, info) => sum + info.bytes, 0),
+    orphanedCount: orphaned.length,
+    orphanedBytes: orphaned.reduce((sum, [, info]) => sum + info.bytes, 0),
+    ...quota,
+  }
+}
+
+/**
+ * Human-readable byte count, e.g. "1.4 MB"
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  const units = ['KB', 'MB', 'GB']
+  let value = bytes / 1024
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`
+}
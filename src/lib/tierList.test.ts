@@ -0,0 +1,125 @@
+import { createCard, type Card } from './types'
+import {
+  DEFAULT_TIERS,
+  getBoardTiers,
+  getCardTierId,
+  groupCardsByTier,
+  orderCardsByTiers,
+  moveCardToTier,
+  findDropIndex,
+} from './tierList'
+
+const makeCard = (id: string, rank: number, tierId?: string): Card => ({
+  ...createCard('board-1', id.toUpperCase(), rank, {
+    metadata: tierId ? { tierId } : {},
+  }),
+  id,
+})
+
+describe('tierList', () => {
+  describe('getBoardTiers', () => {
+    it('falls back to the default S-D tiers', () => {
+      expect(getBoardTiers({})).toBe(DEFAULT_TIERS)
+      expect(getBoardTiers({ tiers: [] })).toBe(DEFAULT_TIERS)
+    })
+
+    it('uses custom tiers when present', () => {
+      const tiers = [{ id: 'x', name: 'Top', color: '#fff' }]
+
+      expect(getBoardTiers({ tiers })).toBe(tiers)
+    })
+  })
+
+  describe('getCardTierId', () => {
+    it('reads the tier from metadata', () => {
+      expect(getCardTierId(makeCard('a', 1, 's'))).toBe('s')
+      expect(getCardTierId(makeCard('b', 2))).toBeNull()
+    })
+  })
+
+  describe('groupCardsByTier', () => {
+    it('groups cards by tier in rank order', () => {
+      const cards = [
+        makeCard('a', 3, 'a'),
+        makeCard('b', 1, 's'),
+        makeCard('c', 2, 'a'),
+        makeCard('d', 4),
+        makeCard('e', 5, 'removed-tier'),
+      ]
+
+      const { groups, unsorted } = groupCardsByTier(cards, DEFAULT_TIERS)
+
+      expect(groups.map((g) => g.cards.map((c) => c.id))).toEqual([['b'], ['c', 'a'], [], [], []])
+      expect(unsorted.map((c) => c.id)).toEqual(['d', 'e'])
+    })
+  })
+
+  describe('orderCardsByTiers', () => {
+    it('puts higher tiers first regardless of old rank', () => {
+      const cards = [makeCard('a', 1, 'b'), makeCard('b', 2, 's'), makeCard('c', 3)]
+
+      expect(orderCardsByTiers(cards, DEFAULT_TIERS).map((c) => c.id)).toEqual(['b', 'a', 'c'])
+    })
+  })
+
+  describe('moveCardToTier', () => {
+    const cards = [makeCard('a', 1, 's'), makeCard('b', 2, 'a'), makeCard('c', 3, 'a'), makeCard('d', 4)]
+
+    it('moves a card into another tier at the given position', () => {
+      const result = moveCardToTier(cards, DEFAULT_TIERS, 'd', 'a', 1)
+
+      expect(result.map((c) => c.id)).toEqual(['a', 'b', 'd', 'c'])
+      expect(getCardTierId(result[2])).toBe('a')
+    })
+
+    it('reorders within a tier', () => {
+      const result = moveCardToTier(cards, DEFAULT_TIERS, 'c', 'a', 0)
+
+      expect(result.map((c) => c.id)).toEqual(['a', 'c', 'b', 'd'])
+    })
+
+    it('moves a card back to unsorted and clears its tier', () => {
+      const result = moveCardToTier(cards, DEFAULT_TIERS, 'a', null, 0)
+
+      expect(result.map((c) => c.id)).toEqual(['b', 'c', 'a', 'd'])
+      expect(result[2].metadata).not.toHaveProperty('tierId')
+    })
+
+    it('clamps out-of-range positions', () => {
+      const result = moveCardToTier(cards, DEFAULT_TIERS, 'a', 'a', 99)
+
+      expect(result.map((c) => c.id)).toEqual(['b', 'c', 'a', 'd'])
+    })
+
+    it('ignores unknown tiers', () => {
+      const result = moveCardToTier(cards, DEFAULT_TIERS, 'a', 'nope', 0)
+
+      expect(result.map((c) => c.id)).toEqual(['a', 'b', 'c', 'd'])
+      expect(getCardTierId(result[0])).toBe('s')
+    })
+  })
+
+  describe('findDropIndex', () => {
+    // Two rows of two 10x10 tiles
+    const rects = [
+      { left: 0, top: 0, width: 10, height: 10 },
+      { left: 20, top: 0, width: 10, height: 10 },
+      { left: 0, top: 20, width: 10, height: 10 },
+      { left: 20, top: 20, width: 10, height: 10 },
+    ]
+
+    it('inserts before tiles to the right on the same line', () => {
+      expect(findDropIndex({ x: 2, y: 5 }, rects)).toBe(0)
+      expect(findDropIndex({ x: 15, y: 5 }, rects)).toBe(1)
+    })
+
+    it('counts all tiles on earlier lines', () => {
+      expect(findDropIndex({ x: 2, y: 25 }, rects)).toBe(2)
+      expect(findDropIndex({ x: 40, y: 25 }, rects)).toBe(4)
+    })
+
+    it('returns 0 for an empty row', () => {
+      expect(findDropIndex({ x: 5, y: 5 }, [])).toBe(0)
+    })
+  })
+})
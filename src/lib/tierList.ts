@@ -0,0 +1,152 @@
+/**
+ * Tier List Helpers
+ *
+ * A tier-list board stores each card's tier in Card.metadata.tierId and
+ * still keeps a linear Card.rank: tiers in order, then position within
+ * the tier, then cards not yet placed in any tier. Everything that reads
+ * rank (snapshots, comparisons, charts) keeps working unchanged.
+ */
+
+import type { Board, Card, Tier } from './types'
+
+/** Metadata key holding a card's tier ID */
+export const TIER_METADATA_KEY = 'tierId'
+
+/**
+ * Classic S/A/B/C/D tiers used when a board has no custom config
+ */
+export const DEFAULT_TIERS: Tier[] = [
+  { id: 's', name: 'S', color: '#ff7f7f' },
+  { id: 'a', name: 'A', color: '#ffbf7f' },
+  { id: 'b', name: 'B', color: '#ffdf7f' },
+  { id: 'c', name: 'C', color: '#ffff7f' },
+  { id: 'd', name: 'D', color: '#bfff7f' },
+]
+
+/**
+ * A tier and the cards in it, best first
+ */
+export interface TierGroup {
+  tier: Tier
+  cards: Card[]
+}
+
+/**
+ * Create a new tier with a fresh ID
+ */
+export const createTier = (name: string, color: string): Tier => ({
+  id: crypto.randomUUID(),
+  name,
+  color,
+})
+
+/**
+ * Tier config for a board, falling back to the defaults
+ */
+export const getBoardTiers = (board: Pick<Board, 'tiers'>): Tier[] =>
+  board.tiers && board.tiers.length > 0 ? board.tiers : DEFAULT_TIERS
+
+/**
+ * Tier ID stored on a card, or null if unplaced
+ */
+export const getCardTierId = (card: Card): string | null => {
+  const tierId = card.metadata?.[TIER_METADATA_KEY]
+  return typeof tierId === 'string' ? tierId : null
+}
+
+/**
+ * Group cards into tiers
+ * Cards without a tier (or whose tier was removed) end up in `unsorted`.
+ */
+export const groupCardsByTier = (
+  cards: Card[],
+  tiers: Tier[]
+): { groups: TierGroup[]; unsorted: Card[] } => {
+  const byRank = [...cards].sort((a, b) => a.rank - b.rank)
+  const groups = tiers.map((tier) => ({ tier, cards: [] as Card[] }))
+  const groupById = new Map(groups.map((g) => [g.tier.id, g]))
+  const unsorted: Card[] = []
+
+  for (const card of byRank) {
+    const tierId = getCardTierId(card)
+    const group = tierId ? groupById.get(tierId) : undefined
+    if (group) {
+      group.cards.push(card)
+    } else {
+      unsorted.push(card)
+    }
+  }
+
+  return { groups, unsorted }
+}
+
+/**
+ * Linear order implied by the tiers (best first)
+ */
+export const orderCardsByTiers = (cards: Card[], tiers: Tier[]): Card[] => {
+  const { groups, unsorted } = groupCardsByTier(cards, tiers)
+  return [...groups.flatMap((g) => g.cards), ...unsorted]
+}
+
+/**
+ * Move a card into a tier (or back to unsorted) at a position within it
+ *
+ * @param tierId - Target tier, or null for the unsorted pile
+ * @param index - Position within the target tier (clamped)
+ * @returns Cards in their new linear order, with the moved card's tier updated.
+ *          Ranks are not renumbered here.
+ */
+export const moveCardToTier = (
+  cards: Card[],
+  tiers: Tier[],
+  cardId: string,
+  tierId: string | null,
+  index: number
+): Card[] => {
+  const card = cards.find((c) => c.id === cardId)
+  if (!card) return orderCardsByTiers(cards, tiers)
+
+  const metadata = { ...card.metadata }
+  if (tierId) {
+    metadata[TIER_METADATA_KEY] = tierId
+  } else {
+    delete metadata[TIER_METADATA_KEY]
+  }
+  const moved: Card = { ...card, metadata }
+
+  const { groups, unsorted } = groupCardsByTier(
+    cards.filter((c) => c.id !== cardId),
+    tiers
+  )
+  const target = tierId ? groups.find((g) => g.tier.id === tierId)?.cards : unsorted
+  if (!target) return orderCardsByTiers(cards, tiers)
+
+  target.splice(Math.max(0, Math.min(index, target.length)), 0, moved)
+  return [...groups.flatMap((g) => g.cards), ...unsorted]
+}
+
+/**
+ * Minimal rectangle shape used for drop hit-testing
+ */
+export interface DropRect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+/**
+ * Find the insertion index for a point among wrapped tiles
+ * A tile comes before the point if it sits on an earlier line, or on the
+ * same line with its centre to the left of the point.
+ */
+export const findDropIndex = (
+  point: { x: number; y: number },
+  tileRects: DropRect[]
+): number =>
+  tileRects.filter((rect) => {
+    const bottom = rect.top + rect.height
+    if (bottom <= point.y) return true
+    if (rect.top > point.y) return false
+    return rect.left + rect.width / 2 < point.x
+  }).length
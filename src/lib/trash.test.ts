@@ -0,0 +1,137 @@
+import 'fake-indexeddb/auto'
+import {
+  TRASH_RETENTION_MS,
+  getTrashTimeRemaining,
+  isTrashExpired,
+  formatTimeRemaining,
+  purgeBoard,
+  purgeExpiredBoards,
+} from './trash'
+import {
+  saveBoard,
+  saveCard,
+  saveSnapshot,
+  getBoards,
+  getCards,
+  getSnapshots,
+  savePairwiseSession,
+  getPairwiseSession,
+  saveRankingBranch,
+  getRankingBranches,
+} from './storage'
+import { saveImage, getAllImageKeys, deleteDB } from './db'
+import { getBoardHistory, saveBoardHistory } from './boardHistory'
+import { createPairwiseSession } from './pairwiseRanking'
+import { createRankingBranch } from './rankingBranches'
+import { createBoard, createCard, createSnapshot, type Board, type StoredImage } from './types'
+
+const DAY = 24 * 60 * 60 * 1000
+const NOW = 100 * DAY
+
+const trashedBoard = (name: string, deletedAt: number | null): Board => ({
+  ...createBoard(name),
+  deletedAt,
+})
+
+const storeImage = (key: string): Promise<void> => {
+  const image: StoredImage = {
+    key,
+    blob: new Blob(['image'], { type: 'image/jpeg' }),
+    thumbnail: new Blob(['thumb'], { type: 'image/jpeg' }),
+    mimeType: 'image/jpeg',
+    createdAt: 1,
+  }
+  return saveImage(image)
+}
+
+describe('trash', () => {
+  describe('expiry', () => {
+    it('counts down from the deletion time', () => {
+      const board = trashedBoard('B', NOW - 2 * DAY)
+      expect(getTrashTimeRemaining(board, NOW)).toBe(TRASH_RETENTION_MS - 2 * DAY)
+      expect(isTrashExpired(board, NOW)).toBe(false)
+    })
+
+    it('expires after the retention period', () => {
+      const board = trashedBoard('B', NOW - TRASH_RETENTION_MS)
+      expect(getTrashTimeRemaining(board, NOW)).toBe(0)
+      expect(isTrashExpired(board, NOW)).toBe(true)
+    })
+
+    it('never expires active boards', () => {
+      expect(isTrashExpired(trashedBoard('B', null), NOW)).toBe(false)
+    })
+
+    it('formats the time remaining', () => {
+      expect(formatTimeRemaining(6 * DAY + 5)).toBe('6 days left')
+      expect(formatTimeRemaining(DAY)).toBe('1 day left')
+      expect(formatTimeRemaining(3 * 60 * 60 * 1000)).toBe('3 hours left')
+      expect(formatTimeRemaining(60 * 1000)).toBe('Less than an hour left')
+    })
+  })
+
+  describe('purging', () => {
+    beforeEach(async () => {
+      localStorage.clear()
+      sessionStorage.clear()
+      await deleteDB()
+    })
+
+    afterAll(async () => {
+      await deleteDB()
+    })
+
+    it('deletes the board with its cards, snapshots, session and history', async () => {
+      const board = trashedBoard('Gone', NOW - 8 * DAY)
+      const keep = trashedBoard('Keep', null)
+      saveBoard(board)
+      saveBoard(keep)
+      const card = createCard(board.id, 'A', 1)
+      saveCard(card)
+      saveCard(createCard(keep.id, 'B', 1))
+      saveSnapshot(createSnapshot(board.id, 1, []))
+      savePairwiseSession(createPairwiseSession(board.id, [card.id]))
+      saveRankingBranch(createRankingBranch(board.id, 'What-if', [card]))
+      saveBoardHistory(board.id, { undo: [], redo: [] })
+
+      await purgeBoard(board.id)
+
+      expect(getBoards().map((b) => b.name)).toEqual(['Keep'])
+      expect(getCards().map((c) => c.name)).toEqual(['B'])
+      expect(getSnapshots()).toEqual([])
+      expect(getPairwiseSession(board.id)).toBeNull()
+      expect(getRankingBranches(board.id)).toEqual([])
+      expect(getBoardHistory(board.id)).toEqual({ undo: [], redo: [] })
+    })
+
+    it('deletes images only the purged board used', async () => {
+      const board = { ...trashedBoard('Gone', NOW - 8 * DAY), coverImage: 'cover' }
+      const keep = trashedBoard('Keep', null)
+      saveBoard(board)
+      saveBoard(keep)
+      saveCard(createCard(board.id, 'A', 1, { imageKey: 'img-a', thumbnailKey: 'shared' }))
+      saveCard(createCard(keep.id, 'B', 1, { thumbnailKey: 'shared' }))
+      saveSnapshot(createSnapshot(board.id, 1, [
+        { cardId: 'x', cardName: 'A', rank: 1, thumbnailKey: 'snap-thumb' },
+      ]))
+      for (const key of ['cover', 'img-a', 'shared', 'snap-thumb', 'unrelated']) {
+        await storeImage(key)
+      }
+
+      await purgeBoard(board.id)
+
+      expect((await getAllImageKeys()).sort()).toEqual(['shared', 'unrelated'])
+    })
+
+    it('purges only boards past the retention period', async () => {
+      saveBoard(trashedBoard('Expired', NOW - 8 * DAY))
+      saveBoard(trashedBoard('Recent', NOW - DAY))
+      saveBoard(trashedBoard('Active', null))
+
+      const purged = await purgeExpiredBoards(NOW)
+
+      expect(purged).toBe(1)
+      expect(getBoards().map((b) => b.name).sort()).toEqual(['Active', 'Recent'])
+    })
+  })
+})
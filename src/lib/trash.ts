@@ -0,0 +1,103 @@
+/**
+ * Trash
+ *
+ * Soft-deleted boards stay recoverable for TRASH_RETENTION_MS, after which
+ * purgeExpiredBoards() (run at startup) deletes them for good along with
+ * their cards, snapshots and images.
+ */
+
+import type { Board } from './types'
+import {
+  getBoards,
+  getBoard,
+  deleteBoard,
+  deleteCardsByBoard,
+  deleteSnapshotsByBoard,
+  deletePairwiseSession,
+  deleteRankingBranchesByBoard,
+} from './storage'
+import { deleteImages } from './db'
+import { clearBoardHistory } from './boardHistory'
+import { getBoardImageKeys, getReferencedImageKeys } from './storageUsage'
+import { storageLogger as log } from './logger'
+
+/** How long a deleted board stays in the trash */
+export const TRASH_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+// ============ Expiry ============
+
+/**
+ * Time left before a trashed board is purged (0 if already due)
+ */
+export const getTrashTimeRemaining = (board: Board, now = Date.now()): number => {
+  if (board.deletedAt === null) return TRASH_RETENTION_MS
+  return Math.max(0, board.deletedAt + TRASH_RETENTION_MS - now)
+}
+
+/**
+ * Whether a trashed board is past its retention period
+ */
+export const isTrashExpired = (board: Board, now = Date.now()): boolean =>
+  board.deletedAt !== null && getTrashTimeRemaining(board, now) === 0
+
+/**
+ * Human-readable time remaining, e.g. "6 days left"
+ */
+export const formatTimeRemaining = (ms: number): string => {
+  if (ms >= DAY_MS) {
+    const days = Math.floor(ms / DAY_MS)
+    return `${days} ${days === 1 ? 'day' : 'days'} left`
+  }
+  if (ms >= HOUR_MS) {
+    const hours = Math.floor(ms / HOUR_MS)
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'} left`
+  }
+  return 'Less than an hour left'
+}
+
+// ============ Purge ============
+
+/**
+ * Permanently delete a board with its cards, snapshots and images
+ *
+ * Records are removed immediately; the returned promise settles once the
+ * board's images (those no other record still uses) are deleted.
+ */
+export const purgeBoard = async (boardId: string): Promise<void> => {
+  const board = getBoard(boardId)
+  const imageKeys = board ? getBoardImageKeys(board) : new Set<string>()
+
+  deleteCardsByBoard(boardId)
+  deleteSnapshotsByBoard(boardId)
+  deletePairwiseSession(boardId)
+  deleteRankingBranchesByBoard(boardId)
+  clearBoardHistory(boardId)
+  deleteBoard(boardId)
+
+  const stillUsed = getReferencedImageKeys()
+  const orphaned = [...imageKeys].filter((key) => !stillUsed.has(key))
+
+  await deleteImages(orphaned).catch((err) => {
+    log.warn('purge_images_failed', { count: orphaned.length, error_message: String(err) })
+  })
+}
+
+/**
+ * Permanently delete every trashed board past its retention period
+ * @returns Number of boards purged
+ */
+export const purgeExpiredBoards = async (now = Date.now()): Promise<number> => {
+  const expired = getBoards().filter((board) => isTrashExpired(board, now))
+
+  for (const board of expired) {
+    await purgeBoard(board.id)
+  }
+
+  if (expired.length > 0) {
+    log.info('trash_purged', { count: expired.length })
+  }
+  return expired.length
+}
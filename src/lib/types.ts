@@ -7,6 +7,31 @@
  * - Soft delete support
  */
 
+/**
+ * How a board presents its cards
+ * - list: a single ranked list (default)
+ * - tiers: S/A/B/C/D style tier list
+ */
+export type BoardLayout = 'list' | 'tiers'
+
+/**
+ * Tier - A named, coloured row in a tier-list board
+ */
+export interface Tier {
+  id: string              // Stable ID stored in Card.metadata.tierId
+  name: string            // Short label, e.g. "S"
+  color: string           // Hex colour for the label
+}
+
+/**
+ * AutoSnapshotRule - When to save an episode snapshot automatically
+ * - weekly: once a week, after a day (0 = Sunday) and hour (0-23)
+ * - stale: when the order changed and the last snapshot is `days` old
+ */
+export type AutoSnapshotRule =
+  | { kind: 'weekly'; dayOfWeek: number; hour: number }
+  | { kind: 'stale'; days: number }
+
 /**
  * Board - A collection of ranked cards
  */
@@ -15,6 +40,9 @@ export interface Board {
   name: string
   coverImage: string | null // IndexedDB key or null
   templateId?: string     // Optional: links to BoardTemplate for comparison matching
+  layout?: BoardLayout    // Optional: defaults to 'list'
+  tiers?: Tier[]          // Optional: tier config for the 'tiers' layout (best first)
+  autoSnapshot?: AutoSnapshotRule // Optional: checked on app open
   createdAt: number       // Unix timestamp (ms)
   updatedAt: number       // Unix timestamp (ms)
   deletedAt: number | null // Soft delete for trash (7-day recovery)
@@ -140,6 +168,8 @@ export interface RankingEntry {
   cardNickname?: string   // Optional nickname at time of snapshot
   rank: number
   thumbnailKey: string | null
+  note?: string           // Optional note on this card for the episode
+  templateItemId?: string // Template item the card was created from, for cross-board matching
 }
 
 /**
@@ -173,6 +203,27 @@ export const createSnapshot = (
   createdAt: Date.now(),
 })
 
+/**
+ * Capture cards' current order as snapshot ranking entries (best first)
+ * @param cardNotes - Optional per-card notes keyed by card ID
+ */
+export const buildRankingEntries = (
+  cards: Card[],
+  cardNotes: Record<string, string> = {}
+): RankingEntry[] =>
+  [...cards]
+    .sort((a, b) => a.rank - b.rank)
+    .map((card) => ({
+      cardId: card.id,
+      cardName: card.name,
+      cardNickname: card.nickname || undefined,
+      rank: card.rank,
+      thumbnailKey: card.thumbnailKey,
+      note: cardNotes[card.id]?.trim() || undefined,
+      templateItemId:
+        typeof card.metadata?.templateItemId === 'string' ? card.metadata.templateItemId : undefined,
+    }))
+
 /**
  * Type guard for RankingEntry
  */
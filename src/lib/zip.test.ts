@@ -0,0 +1,51 @@
+import { crc32, createZip, readZip, isZip } from './zip'
+
+const text = (s: string) => new TextEncoder().encode(s)
+
+describe('zip', () => {
+  describe('crc32', () => {
+    it('matches the standard check value', () => {
+      expect(crc32(text('123456789'))).toBe(0xcbf43926)
+    })
+
+    it('is 0 for empty input', () => {
+      expect(crc32(new Uint8Array())).toBe(0)
+    })
+  })
+
+  describe('createZip / readZip', () => {
+    it('round-trips entries', () => {
+      const entries = [
+        { name: 'data.json', data: text('{"a":1}') },
+        { name: 'images/키-1', data: new Uint8Array([0, 255, 1, 2]) },
+        { name: 'empty', data: new Uint8Array() },
+      ]
+
+      const zip = createZip(entries)
+
+      expect(isZip(zip)).toBe(true)
+      const read = readZip(zip)
+      expect(read.map((e) => e.name)).toEqual(entries.map((e) => e.name))
+      expect(read.map((e) => Array.from(e.data))).toEqual(entries.map((e) => Array.from(e.data)))
+    })
+
+    it('rejects non-archives', () => {
+      expect(isZip(text('{"version":"1.2"}'))).toBe(false)
+      expect(() => readZip(text('not a zip file at all, just text'))).toThrow('Not a valid archive')
+    })
+
+    it('detects corrupted data', () => {
+      const zip = createZip([{ name: 'a.txt', data: text('hello world') }])
+      zip[30 + 'a.txt'.length] ^= 0xff // Flip bits in the first data byte
+
+      expect(() => readZip(zip)).toThrow('Checksum mismatch for a.txt')
+    })
+
+    it('detects truncated archives', () => {
+      const zip = createZip([{ name: 'a.txt', data: text('hello world') }])
+      const truncated = new Uint8Array([...zip.slice(0, 20), ...zip.slice(-22)])
+
+      expect(() => readZip(truncated)).toThrow()
+    })
+  })
+})
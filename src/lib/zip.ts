@@ -0,0 +1,189 @@
+/**
+ * Minimal ZIP Archive Support
+ *
+ * Writes and reads uncompressed ("stored") ZIP archives. Photos are
+ * already JPEG-compressed, so deflate would gain little; storing keeps
+ * this dependency-free. Every entry's CRC-32 is checked on read so a
+ * truncated or corrupted file is rejected before anything is restored.
+ */
+
+/**
+ * A single file inside an archive
+ */
+export interface ZipEntry {
+  name: string
+  data: Uint8Array
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIR_SIGNATURE = 0x06054b50
+
+const LOCAL_HEADER_SIZE = 30
+const CENTRAL_HEADER_SIZE = 46
+const END_OF_CENTRAL_DIR_SIZE = 22
+
+/** General purpose flag: file names are UTF-8 */
+const UTF8_FLAG = 0x0800
+const METHOD_STORED = 0
+const ZIP_VERSION = 20
+
+// ============ CRC-32 ============
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+/**
+ * CRC-32 checksum (as used by ZIP)
+ */
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// ============ Writing ============
+
+/**
+ * Build a stored (uncompressed) ZIP archive
+ */
+export const createZip = (entries: ZipEntry[]): Uint8Array => {
+  const encoder = new TextEncoder()
+  const files = entries.map((entry) => ({
+    name: encoder.encode(entry.name),
+    data: entry.data,
+    crc: crc32(entry.data),
+  }))
+
+  const localSize = files.reduce((sum, f) => sum + LOCAL_HEADER_SIZE + f.name.length + f.data.length, 0)
+  const centralSize = files.reduce((sum, f) => sum + CENTRAL_HEADER_SIZE + f.name.length, 0)
+  const out = new Uint8Array(localSize + centralSize + END_OF_CENTRAL_DIR_SIZE)
+  const view = new DataView(out.buffer)
+
+  let offset = 0
+  const localOffsets: number[] = []
+
+  for (const file of files) {
+    localOffsets.push(offset)
+    view.setUint32(offset, LOCAL_HEADER_SIGNATURE, true)
+    view.setUint16(offset + 4, ZIP_VERSION, true)
+    view.setUint16(offset + 6, UTF8_FLAG, true)
+    view.setUint16(offset + 8, METHOD_STORED, true)
+    view.setUint32(offset + 14, file.crc, true)
+    view.setUint32(offset + 18, file.data.length, true)
+    view.setUint32(offset + 22, file.data.length, true)
+    view.setUint16(offset + 26, file.name.length, true)
+    out.set(file.name, offset + LOCAL_HEADER_SIZE)
+    out.set(file.data, offset + LOCAL_HEADER_SIZE + file.name.length)
+    offset += LOCAL_HEADER_SIZE + file.name.length + file.data.length
+  }
+
+  const centralStart = offset
+  files.forEach((file, i) => {
+    view.setUint32(offset, CENTRAL_HEADER_SIGNATURE, true)
+    view.setUint16(offset + 4, ZIP_VERSION, true)
+    view.setUint16(offset + 6, ZIP_VERSION, true)
+    view.setUint16(offset + 8, UTF8_FLAG, true)
+    view.setUint16(offset + 10, METHOD_STORED, true)
+    view.setUint32(offset + 16, file.crc, true)
+    view.setUint32(offset + 20, file.data.length, true)
+    view.setUint32(offset + 24, file.data.length, true)
+    view.setUint16(offset + 28, file.name.length, true)
+    view.setUint32(offset + 42, localOffsets[i], true)
+    out.set(file.name, offset + CENTRAL_HEADER_SIZE)
+    offset += CENTRAL_HEADER_SIZE + file.name.length
+  })
+
+  view.setUint32(offset, END_OF_CENTRAL_DIR_SIGNATURE, true)
+  view.setUint16(offset + 8, files.length, true)
+  view.setUint16(offset + 10, files.length, true)
+  view.setUint32(offset + 12, offset - centralStart, true)
+  view.setUint32(offset + 16, centralStart, true)
+
+  return out
+}
+
+// ============ Reading ============
+
+/**
+ * Whether the bytes start like a ZIP archive
+ */
+export const isZip = (bytes: Uint8Array): boolean =>
+  bytes.length >= 4 &&
+  new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0, true) === LOCAL_HEADER_SIGNATURE
+
+/**
+ * Find the end-of-central-directory record (it may be followed by a comment)
+ */
+const findEndOfCentralDir = (view: DataView): number => {
+  const earliest = Math.max(0, view.byteLength - END_OF_CENTRAL_DIR_SIZE - 0xffff)
+  for (let i = view.byteLength - END_OF_CENTRAL_DIR_SIZE; i >= earliest; i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIR_SIGNATURE) return i
+  }
+  return -1
+}
+
+/**
+ * Read every entry of a stored ZIP archive, verifying checksums
+ * @throws Error if the archive is malformed, compressed, or corrupted
+ */
+export const readZip = (bytes: Uint8Array): ZipEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const decoder = new TextDecoder()
+
+  const eocd = findEndOfCentralDir(view)
+  if (eocd === -1) throw new Error('Not a valid archive')
+
+  const count = view.getUint16(eocd + 10, true)
+  let offset = view.getUint32(eocd + 16, true)
+  const entries: ZipEntry[] = []
+
+  for (let i = 0; i < count; i++) {
+    if (offset + CENTRAL_HEADER_SIZE > bytes.length || view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Archive is truncated or corrupted')
+    }
+
+    const method = view.getUint16(offset + 10, true)
+    const crc = view.getUint32(offset + 16, true)
+    const size = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const name = decoder.decode(bytes.subarray(offset + CENTRAL_HEADER_SIZE, offset + CENTRAL_HEADER_SIZE + nameLength))
+
+    if (method !== METHOD_STORED) {
+      throw new Error(`Unsupported compression for ${name}`)
+    }
+
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error('Archive is truncated or corrupted')
+    }
+    const dataStart =
+      localOffset + LOCAL_HEADER_SIZE + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+    if (dataStart + size > bytes.length) {
+      throw new Error('Archive is truncated or corrupted')
+    }
+
+    const data = bytes.slice(dataStart, dataStart + size)
+    if (crc32(data) !== crc) {
+      throw new Error(`Checksum mismatch for ${name}`)
+    }
+
+    entries.push({ name, data })
+    offset += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
@@ -2,9 +2,42 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { initStorage } from './lib/storage'
+import { purgeExpiredBoards } from './lib/trash'
+import { collectOrphanedImages } from './lib/storageUsage'
+import { runAutoSnapshots } from './lib/autoSnapshots'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+const render = () => {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>,
+  )
+}
+
+// Load boards, cards and snapshots from IndexedDB before the first render,
+// then purge boards that have been in the trash for more than 7 days.
+// Storage falls back to localStorage if IndexedDB can't be opened, and the
+// app shows a warning, so always render even if startup fails.
+initStorage().then(async () => {
+  await purgeExpiredBoards().catch((err) => console.error('Failed to purge trash:', err))
+
+  // Save any scheduled episode snapshots that came due while the app was
+  // closed or in the background; open pages pick them up as they're saved
+  const saveDueSnapshots = () => {
+    try {
+      runAutoSnapshots()
+    } catch (err) {
+      console.error('Failed to save automatic snapshots:', err)
+    }
+  }
+  saveDueSnapshots()
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') saveDueSnapshots()
+  })
+
+  // Sweep images left behind by deleted cards and replaced photos (no need to wait)
+  collectOrphanedImages().catch((err) => console.error('Failed to clean up images:', err))
+})
+  .catch((err) => console.error('Failed to start storage:', err))
+  .finally(render)
@@ -98,6 +98,8 @@ describe.skip('BoardDetailPage', () => {
     updateCard: vi.fn(),
     deleteCard: vi.fn(),
     reorderCards: vi.fn(),
+    setCardOrder: vi.fn(),
+    moveCardToTier: vi.fn(),
     getCard: vi.fn(),
     refresh: vi.fn(),
   }
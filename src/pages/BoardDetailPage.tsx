@@ -4,16 +4,38 @@ import { useCards } from '../hooks/useCards'
 import { useImageStorage } from '../hooks/useImageStorage'
 import { useSnapshots } from '../hooks/useSnapshots'
 import { useSpaceBoard } from '../hooks/useSpaceBoard'
+import { useBoardHistory } from '../hooks/useBoardHistory'
+import { useRankingComparison } from '../hooks/useRankingComparison'
+import { useRankingBranches } from '../hooks/useRankingBranches'
+import { useHotTakes } from '../hooks/useHotTakes'
 import { RankList } from '../components/RankList'
+import { TierList } from '../components/TierList'
 import { CardDetailModal } from '../components/CardDetailModal'
 import { EditBoardSheet } from '../components/EditBoardSheet'
 import { PhotoPicker } from '../components/PhotoPicker'
 import { SaveEpisodeModal } from '../components/SaveEpisodeModal'
+import { PairwiseRankModal } from '../components/PairwiseRankModal'
+import { BranchesSheet } from '../components/BranchesSheet'
+import { HotTakesSheet } from '../components/HotTakesSheet'
+import { CardDetailPage } from './CardDetailPage'
+import { BranchPage } from './BranchPage'
 import { Button } from '../components/ui/Button'
 import { useToast } from '../components/ui/Toast'
 import { wobbly } from '../styles/wobbly'
 import { compressImage, generateThumbnail } from '../lib/imageUtils'
 import { perfTiming } from '../lib/perfTiming'
+import { getBoardTiers, orderCardsByTiers } from '../lib/tierList'
+import { getBranchCards } from '../lib/rankingBranches'
+import {
+  boardExportFileName,
+  downloadTextFile,
+  exportBoardCsv,
+  exportBoardMarkdown,
+  matchCsvRows,
+  parseBoardCsv,
+  readFileText,
+} from '../lib/boardExport'
+import { boardRankingImageOptions, renderRankingImage, shareOrDownloadFile } from '../lib/imageExport'
 import type { Card, Board } from '../lib/types'
 import type { SpaceCard } from '../lib/spaceTypes'
 
@@ -74,6 +96,66 @@ const SaveEpisodeButton = ({ onClick }: { onClick: () => void }) => (
   </button>
 )
 
+/**
+ * Pairwise ranking button
+ */
+const PairwiseRankButton = ({ onClick }: { onClick: () => void }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    aria-label="Rank by comparing"
+    className="
+      flex items-center justify-center
+      w-10 h-10
+      text-[#2d2d2d] text-xl
+      hover:text-[#2d5da1]
+      transition-colors
+    "
+  >
+    ⚖️
+  </button>
+)
+
+/**
+ * What-if rankings button
+ */
+const WhatIfButton = ({ onClick }: { onClick: () => void }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    aria-label="What-if rankings"
+    className="
+      flex items-center justify-center
+      w-10 h-10
+      text-[#2d2d2d] text-xl
+      hover:text-[#2d5da1]
+      transition-colors
+    "
+  >
+    🔀
+  </button>
+)
+
+/**
+ * Hot takes button
+ */
+const HotTakesButton = ({ onClick }: { onClick: () => void }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    aria-label="Your hottest takes"
+    className="
+      flex items-center justify-center
+      w-10 h-10
+      text-[#2d2d2d] text-xl
+      hover:text-[#ff4d4d]
+      transition-colors
+    "
+  >
+    🌶️
+  </button>
+)
+
 /**
  * Edit board button
  */
@@ -94,6 +176,59 @@ const EditBoardButton = ({ onClick }: { onClick: () => void }) => (
   </button>
 )
 
+/**
+ * Share ranking image button
+ */
+const ShareImageButton = ({ onClick, disabled }: { onClick: () => void; disabled: boolean }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    disabled={disabled}
+    aria-label="Share ranking image"
+    className="
+      flex items-center justify-center
+      w-10 h-10
+      text-[#2d2d2d] text-xl
+      hover:text-[#2d5da1]
+      disabled:opacity-30 disabled:hover:text-[#2d2d2d]
+      transition-colors
+    "
+  >
+    🖼️
+  </button>
+)
+
+/**
+ * Undo / redo buttons for board edits
+ */
+const HistoryButton = ({
+  kind,
+  label,
+  onClick,
+}: {
+  kind: 'undo' | 'redo'
+  label: string | null
+  onClick: () => void
+}) => (
+  <button
+    type="button"
+    onClick={onClick}
+    disabled={!label}
+    aria-label={kind === 'undo' ? 'Undo' : 'Redo'}
+    title={label ? `${kind === 'undo' ? 'Undo' : 'Redo'}: ${label}` : undefined}
+    className="
+      flex items-center justify-center
+      w-10 h-10
+      text-[#2d2d2d] text-xl
+      hover:text-[#2d5da1]
+      disabled:opacity-30 disabled:hover:text-[#2d2d2d]
+      transition-colors
+    "
+  >
+    {kind === 'undo' ? '↩️' : '↪️'}
+  </button>
+)
+
 /**
  * Floating Action Button for adding cards
  */
@@ -171,12 +306,19 @@ export const BoardDetailPage = ({
   isReadOnly = false,
 }: BoardDetailPageProps) => {
   // Local data hooks (for own boards)
-  const { getBoard, updateBoard, softDeleteBoard } = useBoards()
-  const { cards: localCards, reorderCards, updateCard, deleteCard, createCard } = useCards(boardId)
+  const { getBoard, updateBoard, softDeleteBoard, refresh: refreshBoards } = useBoards()
+  const { cards: localCards, reorderCards, setCardOrder, moveCardToTier, updateCard, deleteCard, createCard, refresh: refreshCards } = useCards(boardId)
   const { saveImage, getThumbnailUrls, getImageUrl } = useImageStorage()
-  const { createSnapshot, nextEpisodeNumber } = useSnapshots(boardId)
+  const { snapshots, createSnapshot, nextEpisodeNumber } = useSnapshots(boardId)
+  const { branches, createBranch, reorderBranch, deleteBranch } = useRankingBranches(boardId)
   const { showToast, ToastContainer } = useToast()
 
+  // Undo/redo restores through storage, so reload both hooks afterwards
+  const { checkpoint, undo, redo, undoLabel, redoLabel } = useBoardHistory(boardId, () => {
+    refreshBoards()
+    refreshCards()
+  })
+
   // Firestore data (for viewing others' boards in a space)
   const { board: spaceBoard, cards: spaceCards, isLoading: spaceLoading } = useSpaceBoard(
     isReadOnly ? spaceId ?? null : null,
@@ -187,17 +329,26 @@ export const BoardDetailPage = ({
   const [isAddingCard, setIsAddingCard] = useState(false)
   const [showSaveEpisodeModal, setShowSaveEpisodeModal] = useState(false)
   const [showEditBoardSheet, setShowEditBoardSheet] = useState(false)
+  const [showPairwiseModal, setShowPairwiseModal] = useState(false)
   const [photoPickerTrigger, setPhotoPickerTrigger] = useState<(() => void) | null>(null)
   const [pendingPhotoCardId, setPendingPhotoCardId] = useState<string | null>(null)
   const [pendingBoardCoverPhoto, setPendingBoardCoverPhoto] = useState(false)
   const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({})
   const [loadingCardIds, setLoadingCardIds] = useState<Set<string>>(new Set())
   const [coverImageUrl, setCoverImageUrl] = useState<string | null>(null)
+  const [isSharingImage, setIsSharingImage] = useState(false)
+  const [historyCardId, setHistoryCardId] = useState<string | null>(null)
+  const [showBranchesSheet, setShowBranchesSheet] = useState(false)
+  const [openBranchId, setOpenBranchId] = useState<string | null>(null)
+  const [showHotTakes, setShowHotTakes] = useState(false)
 
   // Determine data source: local or Firestore
   const localBoard = getBoard(boardId)
   const board = isReadOnly ? spaceBoard : localBoard
 
+  // Friends' matching boards are only fetched while the hot takes sheet is open
+  const hotTakes = useHotTakes(!isReadOnly && showHotTakes ? localBoard ?? null : null, localCards)
+
   // Convert SpaceCards to Card-like objects for display
   // SpaceCards have imageUrl/thumbnailUrl instead of imageKey/thumbnailKey
   const cards: Card[] = useMemo(() => {
@@ -221,6 +372,13 @@ export const BoardDetailPage = ({
     return localCards
   }, [isReadOnly, spaceCards, localCards])
 
+  // Movement since the latest snapshot, so movers can get a note when saving an episode
+  const { movements: episodeMovements } = useRankingComparison(
+    cards,
+    snapshots[snapshots.length - 1] ?? null,
+    snapshots
+  )
+
   // For space cards, use the thumbnailUrl directly instead of loading from IndexedDB
   const spaceThumbnailUrls = useMemo(() => {
     if (!isReadOnly) return {}
@@ -272,9 +430,40 @@ export const BoardDetailPage = ({
     return <BoardNotFound onBack={onBack} />
   }
 
+  const cardName = (cardId: string) => cards.find((c) => c.id === cardId)?.name ?? 'card'
+
+  const handleUndo = () => {
+    const label = undo()
+    if (label) showToast(`Undid: ${label}`, 'info', { label: 'Redo', onClick: handleRedo })
+  }
+
+  const handleRedo = () => {
+    const label = redo()
+    if (label) showToast(`Redid: ${label}`, 'info', { label: 'Undo', onClick: handleUndo })
+  }
+
+  // Save an undo step before an edit, and offer to undo it afterwards
+  const recordEdit = (label: string, edit: () => void, message = label) => {
+    checkpoint(label)
+    edit()
+    showToast(message, 'info', { label: 'Undo', onClick: handleUndo })
+  }
+
   const handleReorder = (fromIndex: number, toIndex: number) => {
     if (isReadOnly) return // Don't allow reordering in read-only mode
-    reorderCards(fromIndex, toIndex)
+    if (fromIndex === toIndex) return
+    recordEdit(`Moved ${cards[fromIndex].name} to #${toIndex + 1}`, () => reorderCards(fromIndex, toIndex))
+  }
+
+  const handleMoveCardToTier = (cardId: string, tierId: string | null, index: number) => {
+    if (isReadOnly) return
+    const tiers = getBoardTiers(board)
+    const tierName = tiers.find((t) => t.id === tierId)?.name ?? 'Unsorted'
+    recordEdit(`Moved ${cardName(cardId)} to ${tierName}`, () => moveCardToTier(cardId, tierId, index, tiers))
+  }
+
+  const handleApplyPairwiseOrder = (cardIds: string[]) => {
+    recordEdit('Applied order from comparisons', () => setCardOrder(cardIds))
   }
 
   const handleCardTap = (cardId: string) => {
@@ -294,21 +483,25 @@ export const BoardDetailPage = ({
 
   const handleSaveCard = (updates: Partial<Card>) => {
     if (isAddingCard) {
-      // Create new card
-      const newCard = createCard(updates.name || 'Unnamed')
-      // Update notes if provided
-      if (updates.notes) {
-        updateCard(newCard.id, { notes: updates.notes })
-      }
+      const name = updates.name || 'Unnamed'
+      recordEdit(`Added ${name}`, () => {
+        // Create new card
+        const newCard = createCard(name)
+        // Update notes if provided
+        if (updates.notes) {
+          updateCard(newCard.id, { notes: updates.notes })
+        }
+      })
       setIsAddingCard(false)
     } else if (selectedCardId) {
       // Update existing card
-      updateCard(selectedCardId, updates)
+      const id = selectedCardId
+      recordEdit(`Edited ${updates.name || cardName(id)}`, () => updateCard(id, updates))
     }
   }
 
   const handleDeleteCard = (cardId: string) => {
-    deleteCard(cardId)
+    recordEdit(`Deleted ${cardName(cardId)}`, () => deleteCard(cardId))
     setSelectedCardId(null)
   }
 
@@ -319,13 +512,13 @@ export const BoardDetailPage = ({
   }, [photoPickerTrigger])
 
   // Handle photo selection from picker
-  const handlePhotoSelect = useCallback(async (file: File) => {
+  const handlePhotoSelect = async (file: File) => {
     // Handle board cover photo
     if (pendingBoardCoverPhoto) {
       try {
         const compressedBlob = await compressImage(file)
         const imageKey = await saveImage(compressedBlob)
-        updateBoard(boardId, { coverImage: imageKey })
+        recordEdit('Changed cover photo', () => updateBoard(boardId, { coverImage: imageKey }))
         setPendingBoardCoverPhoto(false)
       } catch (error) {
         console.error('Failed to process board cover photo:', error)
@@ -350,10 +543,11 @@ export const BoardDetailPage = ({
 
       // Update the card with image keys
       if (pendingPhotoCardId !== 'new-card-temp') {
-        updateCard(pendingPhotoCardId, {
+        const cardId = pendingPhotoCardId
+        recordEdit(`Changed photo for ${cardName(cardId)}`, () => updateCard(cardId, {
           imageKey,
           thumbnailKey,
-        })
+        }))
       }
 
       setPendingPhotoCardId(null)
@@ -361,7 +555,7 @@ export const BoardDetailPage = ({
       console.error('Failed to process photo:', error)
       setPendingPhotoCardId(null)
     }
-  }, [pendingPhotoCardId, pendingBoardCoverPhoto, boardId, saveImage, updateCard, updateBoard])
+  }
 
   // Handle board cover photo change
   const handleChangeBoardCoverPhoto = useCallback(() => {
@@ -370,9 +564,67 @@ export const BoardDetailPage = ({
   }, [photoPickerTrigger])
 
   // Handle board save
-  const handleSaveBoard = useCallback((updates: Partial<Omit<Board, 'id' | 'createdAt'>>) => {
-    updateBoard(boardId, updates)
-  }, [boardId, updateBoard])
+  const handleSaveBoard = (updates: Partial<Omit<Board, 'id' | 'createdAt'>>) => {
+    recordEdit('Edited board', () => {
+      updateBoard(boardId, updates)
+
+      // Keep linear ranks consistent with the (possibly new) tier order
+      if (updates.layout === 'tiers') {
+        const tiers = getBoardTiers(updates)
+        setCardOrder(orderCardsByTiers(localCards, tiers).map((c) => c.id))
+      }
+    })
+  }
+
+  const handleExportCsv = () => {
+    downloadTextFile(exportBoardCsv(localCards, snapshots), boardExportFileName(board, 'csv'), 'text/csv')
+  }
+
+  const handleExportMarkdown = () => {
+    downloadTextFile(exportBoardMarkdown(board, localCards), boardExportFileName(board, 'md'), 'text/markdown')
+  }
+
+  // Reorder by matching names in a CSV; cards it doesn't list stay at the bottom
+  const handleImportCsv = async (file: File) => {
+    let text: string
+    try {
+      text = await readFileText(file)
+    } catch {
+      showToast('Failed to read file', 'error')
+      return
+    }
+
+    const parsed = parseBoardCsv(text)
+    if (!parsed.success) {
+      showToast(parsed.error, 'error')
+      return
+    }
+
+    const { cardIds, unmatched } = matchCsvRows(localCards, parsed.rows)
+    if (cardIds.length === 0) {
+      showToast('No names in the file match this board', 'error')
+      return
+    }
+
+    const label = 'Reordered from CSV'
+    const message = unmatched.length > 0 ? `${label}. No match for: ${unmatched.join(', ')}` : label
+    recordEdit(label, () => setCardOrder(cardIds), message)
+  }
+
+  // Render the current ranking as an image card and share or download it
+  const handleShareImage = async () => {
+    setIsSharingImage(true)
+    try {
+      const image = await renderRankingImage(boardRankingImageOptions(board, cards, combinedThumbnailUrls))
+      const result = await shareOrDownloadFile(image, boardExportFileName(board, 'png'), board.name)
+      if (result === 'downloaded') showToast('Ranking image saved', 'success')
+    } catch (error) {
+      console.error('Failed to export ranking image:', error)
+      showToast('Failed to create image', 'error')
+    } finally {
+      setIsSharingImage(false)
+    }
+  }
 
   // Handle board delete
   const handleDeleteBoard = useCallback(() => {
@@ -476,6 +728,58 @@ export const BoardDetailPage = ({
   // Get owner name for read-only banner
   const ownerName = isReadOnly && spaceBoard ? spaceBoard.ownerName : null
 
+  // A what-if branch replaces the board view until the user goes back
+  const openBranch = branches.find((b) => b.id === openBranchId)
+  if (openBranch && !isReadOnly) {
+    return (
+      <>
+        <BranchPage
+          branch={openBranch}
+          cards={localCards}
+          thumbnailUrls={thumbnailUrls}
+          onBack={() => setOpenBranchId(null)}
+          onReorder={(fromIndex, toIndex) => reorderBranch(openBranch.id, localCards, fromIndex, toIndex)}
+          onDiscard={() => {
+            deleteBranch(openBranch.id)
+            setOpenBranchId(null)
+            showToast(`Discarded ${openBranch.name}`, 'info')
+          }}
+          onSaveSnapshot={() => {
+            try {
+              createSnapshot(getBranchCards(openBranch, localCards), { label: openBranch.name })
+              showToast(`Saved ${openBranch.name} as a snapshot`, 'success')
+            } catch (error) {
+              console.error('Failed to save snapshot:', error)
+              showToast('Failed to save episode. Please try again.', 'error')
+            }
+          }}
+          onPromote={() => {
+            const cardIds = getBranchCards(openBranch, localCards).map((c) => c.id)
+            recordEdit(`Made ${openBranch.name} live`, () => setCardOrder(cardIds))
+            deleteBranch(openBranch.id)
+            setOpenBranchId(null)
+          }}
+        />
+        <ToastContainer />
+      </>
+    )
+  }
+
+  // Card history replaces the board view until the user goes back
+  if (historyCardId) {
+    return (
+      <CardDetailPage
+        boardId={boardId}
+        cardId={historyCardId}
+        onBack={() => setHistoryCardId(null)}
+        onEdit={() => {
+          setHistoryCardId(null)
+          setSelectedCardId(historyCardId)
+        }}
+      />
+    )
+  }
+
   return (
     <div className="min-h-full pb-20">
       {/* Header */}
@@ -490,9 +794,16 @@ export const BoardDetailPage = ({
             {board.name}
           </h1>
 
+          <ShareImageButton onClick={handleShareImage} disabled={isSharingImage || cards.length === 0} />
+
           {/* Only show edit controls if not read-only */}
           {!isReadOnly && (
             <>
+              <HistoryButton kind="undo" label={undoLabel} onClick={handleUndo} />
+              <HistoryButton kind="redo" label={redoLabel} onClick={handleRedo} />
+              <PairwiseRankButton onClick={() => setShowPairwiseModal(true)} />
+              <WhatIfButton onClick={() => setShowBranchesSheet(true)} />
+              <HotTakesButton onClick={() => setShowHotTakes(true)} />
               <EditBoardButton onClick={() => setShowEditBoardSheet(true)} />
               <SaveEpisodeButton onClick={() => setShowSaveEpisodeModal(true)} />
             </>
@@ -512,15 +823,27 @@ export const BoardDetailPage = ({
         )}
       </header>
 
-      {/* Rank List */}
-      <RankList
-        cards={cards}
-        thumbnailUrls={combinedThumbnailUrls}
-        loadingCardIds={loadingCardIds}
-        onReorder={handleReorder}
-        onCardTap={handleCardTap}
-        isReadOnly={isReadOnly}
-      />
+      {/* Rank List or Tier List, depending on board layout */}
+      {board.layout === 'tiers' ? (
+        <TierList
+          cards={cards}
+          tiers={getBoardTiers(board)}
+          thumbnailUrls={combinedThumbnailUrls}
+          loadingCardIds={loadingCardIds}
+          onMoveCard={handleMoveCardToTier}
+          onCardTap={handleCardTap}
+          isReadOnly={isReadOnly}
+        />
+      ) : (
+        <RankList
+          cards={cards}
+          thumbnailUrls={combinedThumbnailUrls}
+          loadingCardIds={loadingCardIds}
+          onReorder={handleReorder}
+          onCardTap={handleCardTap}
+          isReadOnly={isReadOnly}
+        />
+      )}
 
       {/* Add Card FAB - only show if not read-only */}
       {!isReadOnly && <AddCardFAB onClick={handleAddCard} />}
@@ -536,6 +859,10 @@ export const BoardDetailPage = ({
           onDelete={handleDeleteCard}
           onChangePhoto={() => handleChangePhoto(selectedCard.id)}
           isReadOnly={isReadOnly}
+          onViewHistory={isReadOnly ? undefined : () => {
+            setHistoryCardId(selectedCard.id)
+            handleCloseModal()
+          }}
         />
       )}
 
@@ -566,10 +893,11 @@ export const BoardDetailPage = ({
           isOpen={showSaveEpisodeModal}
           suggestedEpisodeNumber={nextEpisodeNumber}
           boardName={board.name}
+          movements={episodeMovements}
           onClose={() => setShowSaveEpisodeModal(false)}
-          onSave={(episodeNumber, label, notes) => {
+          onSave={(episodeNumber, label, notes, cardNotes) => {
             try {
-              createSnapshot(cards, { episodeNumber, label, notes })
+              createSnapshot(cards, { episodeNumber, label, notes, cardNotes })
               setShowSaveEpisodeModal(false)
             } catch (error) {
               console.error('Failed to save snapshot:', error)
@@ -580,6 +908,48 @@ export const BoardDetailPage = ({
         />
       )}
 
+      {/* What-if branches - mounted fresh each time so the name field starts empty */}
+      {!isReadOnly && showBranchesSheet && (
+        <BranchesSheet
+          isOpen={showBranchesSheet}
+          branches={branches}
+          onClose={() => setShowBranchesSheet(false)}
+          onCreate={(name) => {
+            const branch = createBranch(name, localCards)
+            setShowBranchesSheet(false)
+            setOpenBranchId(branch.id)
+          }}
+          onOpen={(branchId) => {
+            setShowBranchesSheet(false)
+            setOpenBranchId(branchId)
+          }}
+        />
+      )}
+
+      {/* Hot takes - mounted fresh each time so it starts on the group */}
+      {!isReadOnly && showHotTakes && (
+        <HotTakesSheet
+          isOpen={showHotTakes}
+          onClose={() => setShowHotTakes(false)}
+          groupTakes={hotTakes.groupTakes}
+          friendTakes={hotTakes.friendTakes}
+          isLoading={hotTakes.isLoading}
+          error={hotTakes.error}
+        />
+      )}
+
+      {/* Pairwise Rank Modal - mounted fresh each time so it picks up saved progress */}
+      {!isReadOnly && showPairwiseModal && (
+        <PairwiseRankModal
+          isOpen={showPairwiseModal}
+          boardId={boardId}
+          cards={cards}
+          thumbnailUrls={thumbnailUrls}
+          onClose={() => setShowPairwiseModal(false)}
+          onApply={handleApplyPairwiseOrder}
+        />
+      )}
+
       {/* Edit Board Sheet - only when not read-only */}
       {!isReadOnly && (
         <EditBoardSheet
@@ -590,6 +960,9 @@ export const BoardDetailPage = ({
           onSave={handleSaveBoard}
           onDelete={handleDeleteBoard}
           onChangePhoto={handleChangeBoardCoverPhoto}
+          onExportCsv={handleExportCsv}
+          onExportMarkdown={handleExportMarkdown}
+          onImportCsv={handleImportCsv}
         />
       )}
 
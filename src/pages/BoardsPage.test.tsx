@@ -57,6 +57,8 @@ describe('BoardsPage', () => {
     updateCard: vi.fn(),
     deleteCard: vi.fn(),
     reorderCards: vi.fn(),
+    setCardOrder: vi.fn(),
+    moveCardToTier: vi.fn(),
     getCard: vi.fn(),
     refresh: vi.fn(),
   }
@@ -0,0 +1,55 @@
+import { render, screen, fireEvent, within } from '@testing-library/react'
+import { BranchPage } from './BranchPage'
+import { createRankingBranch, moveBranchCard } from '../lib/rankingBranches'
+import { createCard, type Card } from '../lib/types'
+
+describe('BranchPage', () => {
+  const card = (id: string, name: string, rank: number): Card => ({ ...createCard('b1', name, rank), id })
+  const cards = [card('lee', 'Lee', 1), card('kim', 'Kim', 2), card('cho', 'Cho', 3)]
+
+  const renderPage = (branch = createRankingBranch('b1', 'Kim wins', cards)) => {
+    const handlers = {
+      onBack: vi.fn(),
+      onReorder: vi.fn(),
+      onDiscard: vi.fn(),
+      onSaveSnapshot: vi.fn(),
+      onPromote: vi.fn(),
+    }
+    render(<BranchPage branch={branch} cards={cards} thumbnailUrls={{}} {...handlers} />)
+    return handlers
+  }
+
+  it('shows the branch order with its changes from the live board', () => {
+    renderPage(moveBranchCard(createRankingBranch('b1', 'Kim wins', cards), cards, 1, 0))
+
+    expect(screen.getByRole('heading', { name: 'Kim wins' })).toBeInTheDocument()
+    const changes = within(screen.getByRole('region', { name: 'Changes from live ranking' }))
+    expect(changes.getAllByRole('listitem').map((li) => li.textContent)).toEqual([
+      expect.stringMatching(/^Kim#2 → #1/),
+      expect.stringMatching(/^Lee#1 → #2/),
+    ])
+    expect(changes.getByText('▲')).toBeInTheDocument()
+    expect(changes.getByText('▼')).toBeInTheDocument()
+  })
+
+  it('says when nothing has changed and disables promoting', () => {
+    renderPage()
+
+    expect(screen.getByText(/Same as your live ranking/)).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /make live/i })).toBeDisabled()
+  })
+
+  it('wires up discard, save and promote', () => {
+    const handlers = renderPage(moveBranchCard(createRankingBranch('b1', 'Kim wins', cards), cards, 1, 0))
+
+    fireEvent.click(screen.getByRole('button', { name: /discard/i }))
+    fireEvent.click(screen.getByRole('button', { name: /save snapshot/i }))
+    fireEvent.click(screen.getByRole('button', { name: /make live/i }))
+    fireEvent.click(screen.getByRole('button', { name: 'Go back' }))
+
+    expect(handlers.onDiscard).toHaveBeenCalled()
+    expect(handlers.onSaveSnapshot).toHaveBeenCalled()
+    expect(handlers.onPromote).toHaveBeenCalled()
+    expect(handlers.onBack).toHaveBeenCalled()
+  })
+})
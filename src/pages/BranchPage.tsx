@@ -0,0 +1,124 @@
+import { useMemo } from 'react'
+import { RankList } from '../components/RankList'
+import { MovementIndicator } from '../components/MovementIndicator'
+import { Button } from '../components/ui/Button'
+import { getBranchCards, getBranchMovements, type RankingBranch } from '../lib/rankingBranches'
+import type { Card } from '../lib/types'
+import { wobbly } from '../styles/wobbly'
+
+interface BranchPageProps {
+  /** The what-if branch being edited */
+  branch: RankingBranch
+  /** The board's live cards */
+  cards: Card[]
+  /** Map of card ID to thumbnail URL */
+  thumbnailUrls: Record<string, string>
+  /** Called when user wants to go back to the board */
+  onBack: () => void
+  /** Called when a card is moved within the branch */
+  onReorder: (fromIndex: number, toIndex: number) => void
+  /** Delete the branch */
+  onDiscard: () => void
+  /** Save the branch's order as a snapshot */
+  onSaveSnapshot: () => void
+  /** Make the branch's order the board's live order */
+  onPromote: () => void
+}
+
+/**
+ * BranchPage Component
+ *
+ * Edits a what-if ranking: drag cards in a RankList, see how each moved
+ * compared with the live board, then discard it, save it as a snapshot or
+ * make it the live order.
+ */
+export const BranchPage = ({
+  branch,
+  cards,
+  thumbnailUrls,
+  onBack,
+  onReorder,
+  onDiscard,
+  onSaveSnapshot,
+  onPromote,
+}: BranchPageProps) => {
+  const branchCards = useMemo(() => getBranchCards(branch, cards), [branch, cards])
+  const movements = useMemo(() => getBranchMovements(branch, cards), [branch, cards])
+  const cardNames = new Map(cards.map((c) => [c.id, c.name]))
+
+  return (
+    <div className="min-h-full pb-20" style={{ fontFamily: "'Patrick Hand', cursive" }}>
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-[#fdfbf7]/95 backdrop-blur-sm border-b border-[#e5e0d8]">
+        <div className="flex items-center gap-2 px-2 py-3">
+          <button
+            type="button"
+            onClick={onBack}
+            aria-label="Go back"
+            className="flex items-center justify-center w-10 h-10 text-[#2d2d2d] text-2xl hover:text-[#ff4d4d] transition-colors"
+          >
+            ←
+          </button>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-[#9a958d]">What-if</p>
+            <h1
+              className="text-2xl text-[#2d2d2d] truncate"
+              style={{ fontFamily: "'Kalam', cursive", fontWeight: 700 }}
+            >
+              {branch.name}
+            </h1>
+          </div>
+        </div>
+        <div className="flex gap-2 px-4 pb-3">
+          <Button variant="secondary" size="sm" onClick={onDiscard}>
+            🗑️ Discard
+          </Button>
+          <Button variant="secondary" size="sm" onClick={onSaveSnapshot}>
+            📸 Save Snapshot
+          </Button>
+          <Button size="sm" onClick={onPromote} disabled={movements.length === 0}>
+            ✅ Make Live
+          </Button>
+        </div>
+      </header>
+
+      {/* Diff against the live board */}
+      <section
+        aria-label="Changes from live ranking"
+        className="m-4 p-4 bg-white border-[3px] border-[#2d2d2d] shadow-[4px_4px_0px_0px_#2d2d2d]"
+        style={{ borderRadius: wobbly.md }}
+      >
+        <h2
+          className="text-lg text-[#2d2d2d] mb-2"
+          style={{ fontFamily: "'Kalam', cursive", fontWeight: 700 }}
+        >
+          Changes from Live
+        </h2>
+        {movements.length === 0 ? (
+          <p className="text-[#9a958d]">Same as your live ranking. Drag cards below to try something new.</p>
+        ) : (
+          <ul className="space-y-1">
+            {movements.map((m) => (
+              <li key={m.cardId} className="flex items-center justify-between gap-2 text-[#2d2d2d]">
+                <span className="min-w-0 truncate">{cardNames.get(m.cardId)}</span>
+                <span className="flex flex-shrink-0 items-center gap-2">
+                  <span className="text-sm text-[#9a958d]">
+                    #{m.liveRank} → #{m.branchRank}
+                  </span>
+                  <MovementIndicator movement={m.movement} />
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <RankList
+        cards={branchCards}
+        thumbnailUrls={thumbnailUrls}
+        onReorder={onReorder}
+        onCardTap={() => {}}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+import { render, screen, fireEvent, within } from '@testing-library/react'
+import { CardDetailPage } from './CardDetailPage'
+import * as useCardSpaceRankingsModule from '../hooks/useCardSpaceRankings'
+import { saveBoard, saveCardsForBoard, saveSnapshot } from '../lib/storage'
+import { createBoard, createCard, createSnapshot } from '../lib/types'
+
+vi.mock('../hooks/useCardSpaceRankings')
+vi.mock('../hooks/useImageStorage', () => ({
+  useImageStorage: () => ({ getImageUrl: vi.fn().mockResolvedValue(null) }),
+}))
+
+const mockUseCardSpaceRankings = vi.mocked(useCardSpaceRankingsModule.useCardSpaceRankings)
+
+describe('CardDetailPage', () => {
+  const entries = (names: string[]) =>
+    names.map((name, i) => ({ cardId: name.toLowerCase(), cardName: name, rank: i + 1, thumbnailKey: null }))
+
+  beforeEach(() => {
+    localStorage.clear()
+    mockUseCardSpaceRankings.mockReturnValue({ rankings: [], isLoading: false, error: null })
+
+    saveBoard({ ...createBoard('Season 5'), id: 'b1' })
+    saveCardsForBoard('b1', [
+      { ...createCard('b1', 'Lee', 1), id: 'lee' },
+      { ...createCard('b1', 'Kim', 2, { nickname: 'Minnie', notes: 'Fan favourite' }), id: 'kim' },
+      { ...createCard('b1', 'Cho', 3), id: 'cho' },
+    ])
+    saveSnapshot({ ...createSnapshot('b1', 1, entries(['Lee', 'Cho', 'Kim'])), id: 's1' })
+    saveSnapshot({ ...createSnapshot('b1', 2, entries(['Kim', 'Lee', 'Cho']), { notes: 'Won the date' }), id: 's2' })
+  })
+
+  it('shows current, best and worst rank', () => {
+    render(<CardDetailPage boardId="b1" cardId="kim" onBack={vi.fn()} />)
+
+    expect(screen.getByRole('heading', { name: 'Kim' })).toBeInTheDocument()
+    expect(screen.getByText('Current').nextSibling).toHaveTextContent('#2')
+    expect(screen.getByText('Best').nextSibling).toHaveTextContent('#1')
+    expect(screen.getByText('Worst').nextSibling).toHaveTextContent('#3')
+    expect(screen.getByText('Fan favourite')).toBeInTheDocument()
+  })
+
+  it('charts the trajectory across snapshots', () => {
+    render(<CardDetailPage boardId="b1" cardId="kim" onBack={vi.fn()} />)
+
+    expect(screen.getByRole('img', { name: 'Rank by episode: #3, #1' })).toBeInTheDocument()
+    expect(screen.getByText('3→1')).toBeInTheDocument()
+  })
+
+  it('lists episode notes newest first', () => {
+    render(<CardDetailPage boardId="b1" cardId="kim" onBack={vi.fn()} />)
+
+    const [latest, first] = screen.getAllByTestId('card-episode')
+    expect(latest).toHaveTextContent('Ep. 2')
+    expect(latest).toHaveTextContent('#1')
+    expect(latest).toHaveTextContent('Won the date')
+    expect(first).toHaveTextContent('#3')
+  })
+
+  it('shows ranks on other members\' boards', () => {
+    mockUseCardSpaceRankings.mockReturnValue({
+      rankings: [{ spaceName: 'Friends', boardId: 'x', boardName: 'Season 5', ownerName: 'Ana', rank: 4, total: 10 }],
+      isLoading: false,
+      error: null,
+    })
+
+    render(<CardDetailPage boardId="b1" cardId="kim" onBack={vi.fn()} />)
+
+    const spaces = screen.getByRole('region', { name: 'In Your Spaces' })
+    expect(within(spaces).getByText('Ana')).toBeInTheDocument()
+    expect(spaces).toHaveTextContent('#4 of 10')
+    expect(mockUseCardSpaceRankings).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Season 5' }),
+      expect.objectContaining({ name: 'Kim', nickname: 'Minnie' })
+    )
+  })
+
+  it('handles a missing card', () => {
+    const onBack = vi.fn()
+    render(<CardDetailPage boardId="b1" cardId="gone" onBack={onBack} />)
+
+    expect(screen.getByText('Card not found')).toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'Go Back' }))
+    expect(onBack).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,253 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useBoards } from '../hooks/useBoards'
+import { useCards } from '../hooks/useCards'
+import { useSnapshots } from '../hooks/useSnapshots'
+import { useImageStorage } from '../hooks/useImageStorage'
+import { useRankingComparison } from '../hooks/useRankingComparison'
+import { useCardSpaceRankings } from '../hooks/useCardSpaceRankings'
+import { CardTrajectoryChart } from '../components/CardTrajectoryChart'
+import { MovementIndicator } from '../components/MovementIndicator'
+import { Button } from '../components/ui/Button'
+import { getCardHistory } from '../lib/cardHistory'
+import { wobbly } from '../styles/wobbly'
+
+interface CardDetailPageProps {
+  /** Board the card belongs to */
+  boardId: string
+  /** ID of the card to display */
+  cardId: string
+  /** Called when user wants to go back */
+  onBack: () => void
+  /** Called when user wants to edit the card */
+  onEdit?: () => void
+}
+
+/**
+ * Titled panel for one part of the card's history
+ */
+const Section = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <section
+    aria-label={title}
+    className="p-4 bg-white border-[3px] border-[#2d2d2d] shadow-[4px_4px_0px_0px_#2d2d2d]"
+    style={{ borderRadius: wobbly.md }}
+  >
+    <h2
+      className="text-lg text-[#2d2d2d] mb-2"
+      style={{ fontFamily: "'Kalam', cursive", fontWeight: 700 }}
+    >
+      {title}
+    </h2>
+    {children}
+  </section>
+)
+
+/**
+ * Current / best / worst rank tile
+ */
+const RankTile = ({ label, rank }: { label: string; rank: number }) => (
+  <div
+    className="flex-1 p-3 text-center bg-[#fff9c4] border-2 border-[#2d2d2d]"
+    style={{ borderRadius: wobbly.sm }}
+  >
+    <div className="text-sm text-[#9a958d]">{label}</div>
+    <div className="text-2xl text-[#2d2d2d]" style={{ fontFamily: "'Kalam', cursive", fontWeight: 700 }}>
+      #{rank}
+    </div>
+  </div>
+)
+
+/**
+ * CardDetailPage Component
+ *
+ * Full history of a single card on a board:
+ * - Current, best and worst rank
+ * - Mini chart of its rank across every snapshot
+ * - Episode notes saved with each snapshot, newest first
+ * - Its rank on other members' matching boards in shared spaces
+ */
+export const CardDetailPage = ({ boardId, cardId, onBack, onEdit }: CardDetailPageProps) => {
+  const { getBoard } = useBoards()
+  const { cards } = useCards(boardId)
+  const { snapshots } = useSnapshots(boardId)
+  const { getImageUrl } = useImageStorage()
+  const { getCardTrajectory } = useRankingComparison(cards, null, snapshots)
+  const [imageUrl, setImageUrl] = useState<string | null>(null)
+
+  const board = getBoard(boardId) ?? null
+  const card = cards.find((c) => c.id === cardId) ?? null
+  const { rankings, isLoading: rankingsLoading, error: rankingsError } = useCardSpaceRankings(board, card)
+
+  const history = useMemo(() => (card ? getCardHistory(card, snapshots) : null), [card, snapshots])
+  const trajectory = getCardTrajectory(cardId)
+
+  // Load the card's full-size photo
+  const imageKey = card?.imageKey ?? null
+  useEffect(() => {
+    if (!imageKey) return
+
+    let cancelled = false
+    let loadedUrl: string | null = null
+
+    getImageUrl(imageKey).then((url) => {
+      if (cancelled) {
+        if (url) URL.revokeObjectURL(url)
+        return
+      }
+      loadedUrl = url
+      setImageUrl(url)
+    })
+
+    return () => {
+      cancelled = true
+      if (loadedUrl) URL.revokeObjectURL(loadedUrl)
+      setImageUrl(null)
+    }
+  }, [imageKey, getImageUrl])
+
+  if (!card || !history) {
+    return (
+      <div className="min-h-full flex flex-col items-center justify-center p-8 text-center">
+        <div className="text-6xl mb-4">😕</div>
+        <h2
+          className="text-2xl text-[#2d2d2d] mb-6"
+          style={{ fontFamily: "'Kalam', cursive", fontWeight: 700 }}
+        >
+          Card not found
+        </h2>
+        <Button variant="secondary" onClick={onBack}>
+          Go Back
+        </Button>
+      </div>
+    )
+  }
+
+  const episodesNewestFirst = [...history.episodes].reverse()
+
+  return (
+    <div className="min-h-full pb-20" style={{ fontFamily: "'Patrick Hand', cursive" }}>
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-[#fdfbf7]/95 backdrop-blur-sm border-b border-[#e5e0d8]">
+        <div className="flex items-center gap-2 px-2 py-3">
+          <button
+            type="button"
+            onClick={onBack}
+            aria-label="Go back"
+            className="flex items-center justify-center w-10 h-10 text-[#2d2d2d] text-2xl hover:text-[#ff4d4d] transition-colors"
+          >
+            ←
+          </button>
+          <h1
+            className="flex-1 text-2xl text-[#2d2d2d] truncate"
+            style={{ fontFamily: "'Kalam', cursive", fontWeight: 700 }}
+          >
+            {card.name}
+          </h1>
+          {onEdit && (
+            <button
+              type="button"
+              onClick={onEdit}
+              aria-label="Edit card"
+              className="flex items-center justify-center w-10 h-10 text-[#2d2d2d] text-xl hover:text-[#2d5da1] transition-colors"
+            >
+              ✏️
+            </button>
+          )}
+        </div>
+      </header>
+
+      <div className="p-4 space-y-4">
+        {/* Photo and names */}
+        <div className="flex items-center gap-4">
+          <div
+            className="w-24 h-24 flex-shrink-0 overflow-hidden bg-[#e5e0d8] border-[3px] border-[#2d2d2d] flex items-center justify-center text-3xl"
+            style={{ borderRadius: wobbly.circle }}
+          >
+            {imageUrl ? <img src={imageUrl} alt={card.name} className="w-full h-full object-cover" /> : '👤'}
+          </div>
+          <div className="min-w-0">
+            {card.nickname && <p className="text-lg text-[#2d5da1]">&ldquo;{card.nickname}&rdquo;</p>}
+            <p className="text-[#9a958d]">{board?.name}</p>
+          </div>
+        </div>
+
+        <div className="flex gap-3">
+          <RankTile label="Current" rank={history.currentRank} />
+          <RankTile label="Best" rank={history.bestRank} />
+          <RankTile label="Worst" rank={history.worstRank} />
+        </div>
+
+        {card.notes && (
+          <Section title="Notes">
+            <p className="text-[#2d2d2d] whitespace-pre-wrap">{card.notes}</p>
+          </Section>
+        )}
+
+        <Section title="Rank Trajectory">
+          {trajectory && trajectory.trajectory.length > 0 ? (
+            <>
+              <CardTrajectoryChart trajectory={trajectory.trajectory} maxRank={cards.length} />
+              <p className="text-center text-[#9a958d]">{trajectory.summary}</p>
+            </>
+          ) : (
+            <p className="text-[#9a958d]">Save episode snapshots to see this card&apos;s trajectory.</p>
+          )}
+        </Section>
+
+        {episodesNewestFirst.length > 0 && (
+          <Section title="Episode Notes">
+            <ol className="space-y-3">
+              {episodesNewestFirst.map((episode) => (
+                <li key={episode.snapshotId} data-testid="card-episode" className="border-l-[3px] border-[#e5e0d8] pl-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-[#2d2d2d]">
+                      <span className="text-[#9a958d]">Ep. {episode.episodeNumber}</span> {episode.label}
+                    </span>
+                    <span className="flex items-center gap-1 text-[#2d2d2d]">
+                      {episode.rank === null ? (
+                        <span className="text-[#9a958d]">Not ranked</span>
+                      ) : (
+                        <>
+                          #{episode.rank}
+                          <span className="text-sm text-[#9a958d]">of {episode.total}</span>
+                          <MovementIndicator movement={episode.movement} />
+                        </>
+                      )}
+                    </span>
+                  </div>
+                  {episode.cardNote && (
+                    <p className="text-sm text-[#2d5da1] whitespace-pre-wrap">&ldquo;{episode.cardNote}&rdquo;</p>
+                  )}
+                  {episode.notes && <p className="text-sm text-[#2d2d2d] whitespace-pre-wrap">{episode.notes}</p>}
+                </li>
+              ))}
+            </ol>
+          </Section>
+        )}
+
+        <Section title="In Your Spaces">
+          {rankingsLoading ? (
+            <p className="text-[#9a958d]">Loading…</p>
+          ) : rankingsError ? (
+            <p className="text-[#ff4d4d]">{rankingsError}</p>
+          ) : rankings.length === 0 ? (
+            <p className="text-[#9a958d]">No matching boards from other members yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {rankings.map((ranking) => (
+                <li key={`${ranking.spaceName}-${ranking.boardId}`} className="flex items-center justify-between gap-2">
+                  <span className="min-w-0 truncate text-[#2d2d2d]">
+                    {ranking.ownerName}
+                    <span className="text-sm text-[#9a958d]"> · {ranking.spaceName}</span>
+                  </span>
+                  <span className="flex-shrink-0 text-[#2d2d2d]">
+                    #{ranking.rank} <span className="text-sm text-[#9a958d]">of {ranking.total}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Section>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import { ComparisonPage } from './ComparisonPage'
+
+describe('ComparisonPage', () => {
+  const renderPage = () =>
+    render(
+      <ComparisonPage
+        boardName="Singles Inferno"
+        yourName="Sam Lee"
+        yourAvatarUrl=""
+        friendName="Jo Park"
+        friendAvatarUrl=""
+        metrics={{ proximity: 84, kendall: 60, spearman: 70, topK: 80, rbo: 75 }}
+        alignedItems={[
+          { id: 'kim', name: 'Kim', yourRank: 1, friendRank: 2 },
+          { id: 'lee', name: 'Lee', yourRank: 2, friendRank: 5 },
+        ]}
+        onBack={() => {}}
+      />
+    )
+
+  it('shows the closeness score by default', () => {
+    renderPage()
+
+    expect(screen.getByText('84% Agreement')).toBeInTheDocument()
+    expect(screen.getByRole('radio', { name: 'Closeness' })).toHaveAttribute('aria-checked', 'true')
+  })
+
+  it('switches the headline to the chosen metric', () => {
+    renderPage()
+
+    fireEvent.click(screen.getByRole('radio', { name: 'Kendall τ' }))
+
+    expect(screen.getByText('60% Agreement')).toBeInTheDocument()
+    expect(screen.getByText('How many pairs you both put in the same order')).toBeInTheDocument()
+  })
+
+  it('shows a dash when the chosen metric is undefined', () => {
+    render(
+      <ComparisonPage
+        boardName="Singles Inferno"
+        yourName="Sam Lee"
+        yourAvatarUrl=""
+        friendName="Jo Park"
+        friendAvatarUrl=""
+        metrics={{ proximity: 100, kendall: null, spearman: null, topK: 50, rbo: 50 }}
+        alignedItems={[{ id: 'kim', name: 'Kim', yourRank: 1, friendRank: 1 }]}
+        onBack={() => {}}
+      />
+    )
+
+    fireEvent.click(screen.getByRole('radio', { name: 'Spearman ρ' }))
+
+    expect(screen.getByText('— Agreement')).toBeInTheDocument()
+    expect(screen.getByText(/Needs at least two items you both ranked/)).toBeInTheDocument()
+  })
+
+  it('lists your hottest takes against the friend', () => {
+    renderPage()
+
+    expect(screen.getByRole('region', { name: 'Your hottest takes' })).toHaveTextContent('You #2 · Jo Park #5')
+  })
+
+  describe('match overrides', () => {
+    const renderMatching = () => {
+      const onMarkSame = vi.fn()
+      const onMarkDifferent = vi.fn()
+      render(
+        <ComparisonPage
+          boardName="Singles Inferno"
+          yourName="Sam Lee"
+          yourAvatarUrl=""
+          friendName="Jo Park"
+          friendAvatarUrl=""
+          metrics={{ proximity: 50, kendall: 50, spearman: 50, topK: 50, rbo: 50 }}
+          alignedItems={[
+            {
+              id: 'c1',
+              name: 'Kim Go-eun',
+              yourRank: 1,
+              friendRank: 2,
+              yourCardId: 'c1',
+              friendCardId: 'f1',
+              friendItemName: 'Gim Goeun',
+              matchReason: 'variant',
+            },
+            { id: 'c2', name: 'Jessie', yourRank: 2, friendRank: null, yourCardId: 'c2' },
+            { id: 'friend:f2', name: 'Jess', yourRank: null, friendRank: 1, friendCardId: 'f2' },
+          ]}
+          onBack={() => {}}
+          onMarkSame={onMarkSame}
+          onMarkDifferent={onMarkDifferent}
+        />
+      )
+      return { onMarkSame, onMarkDifferent }
+    }
+
+    it('shows the friend spelling of a fuzzy match and lets you undo it', () => {
+      const { onMarkDifferent } = renderMatching()
+
+      expect(screen.getByText('≈ Gim Goeun')).toBeInTheDocument()
+      fireEvent.click(screen.getByRole('button', { name: 'Not the same' }))
+
+      expect(onMarkDifferent).toHaveBeenCalledWith('c1', 'f1')
+    })
+
+    it('lets you split exact matches too', () => {
+      const onMarkDifferent = vi.fn()
+      render(
+        <ComparisonPage
+          boardName="Singles Inferno"
+          yourName="Sam Lee"
+          yourAvatarUrl=""
+          friendName="Jo Park"
+          friendAvatarUrl=""
+          metrics={{ proximity: 100, kendall: 100, spearman: 100, topK: 100, rbo: 100 }}
+          alignedItems={[
+            { id: 'c1', name: 'Kim', yourRank: 1, friendRank: 1, yourCardId: 'c1', friendCardId: 'f1', matchReason: 'template' },
+          ]}
+          onBack={() => {}}
+          onMarkDifferent={onMarkDifferent}
+        />
+      )
+
+      fireEvent.click(screen.getByRole('button', { name: 'Not the same' }))
+
+      expect(onMarkDifferent).toHaveBeenCalledWith('c1', 'f1')
+    })
+
+    it('matches an unmatched item with one only the friend ranked', () => {
+      const { onMarkSame } = renderMatching()
+
+      fireEvent.change(screen.getByRole('combobox', { name: 'Match Jessie with' }), {
+        target: { value: 'f2' },
+      })
+
+      expect(onMarkSame).toHaveBeenCalledWith('c2', 'f2')
+    })
+  })
+})
@@ -3,16 +3,27 @@
  *
  * Side-by-side comparison view showing your ranking vs friend's ranking.
  * Features:
- * - Agreement percentage at the top
+ * - Agreement percentage at the top, under a choice of rank metrics
  * - Both users' names/avatars
  * - Aligned items showing rank positions
  * - "Not ranked" indicators for items only in one board
+ * - Your hottest takes: the items ranked furthest apart
+ * - "Same as…" / "Not the same" overrides for item matches
  */
 
+import { useState, useMemo } from 'react'
 import { motion } from 'framer-motion'
 import { wobbly } from '../styles/wobbly'
 import { springConfig } from '../styles/tokens'
 import type { AlignedComparisonItem } from '../hooks/useComparison'
+import { HotTakesList } from '../components/HotTakesList'
+import { findHotTakes } from '../lib/hotTakes'
+import {
+  RANK_METRICS,
+  getRankMetric,
+  type RankMetricId,
+  type RankMetricScores,
+} from '../lib/rankMetrics'
 
 export interface ComparisonPageProps {
   /** Board name being compared */
@@ -21,16 +32,22 @@ export interface ComparisonPageProps {
   yourName: string
   /** Your avatar URL */
   yourAvatarUrl: string
+  /** Label for your side (defaults to "You"; a member's name when comparing two others) */
+  yourLabel?: string
   /** Friend's display name */
   friendName: string
   /** Friend's avatar URL */
   friendAvatarUrl: string
-  /** Agreement percentage (0-100) */
-  agreementPercentage: number
+  /** Agreement under every rank metric (0-100 each; null when it can't be measured) */
+  metrics: RankMetricScores
   /** Aligned items for comparison */
   alignedItems: AlignedComparisonItem[]
   /** Called when back button is clicked */
   onBack: () => void
+  /** Mark two unmatched items as the same (hides the control when omitted) */
+  onMarkSame?: (yourCardId: string, friendCardId: string) => void
+  /** Mark a matched pair as not the same (hides the control when omitted) */
+  onMarkDifferent?: (yourCardId: string, friendCardId: string) => void
 }
 
 /**
@@ -93,9 +110,10 @@ const Avatar = ({
 /**
  * Agreement badge component
  */
-const AgreementBadge = ({ percentage }: { percentage: number }) => {
+const AgreementBadge = ({ percentage }: { percentage: number | null }) => {
   // Color based on agreement level
   const getColor = () => {
+    if (percentage === null) return { bg: '#e5e0d8', border: '#9a958d', text: '#2d2d2d' }
     if (percentage >= 80) return { bg: '#dcfce7', border: '#16a34a', text: '#16a34a' }
     if (percentage >= 60) return { bg: '#fef3c7', border: '#d97706', text: '#d97706' }
     return { bg: '#fee2e2', border: '#dc2626', text: '#dc2626' }
@@ -124,12 +142,53 @@ const AgreementBadge = ({ percentage }: { percentage: number }) => {
           fontFamily: "'Kalam', cursive",
         }}
       >
-        {percentage}% Agreement
+        {percentage === null ? '—' : `${percentage}%`} Agreement
       </span>
     </div>
   )
 }
 
+/**
+ * Picker for which metric the headline agreement uses
+ */
+const MetricPicker = ({
+  selected,
+  onSelect,
+}: {
+  selected: RankMetricId
+  onSelect: (id: RankMetricId) => void
+}) => (
+  <div
+    role="radiogroup"
+    aria-label="Agreement metric"
+    className="flex flex-wrap justify-center gap-2"
+    style={{ fontFamily: "'Patrick Hand', cursive" }}
+  >
+    {RANK_METRICS.map((metric) => (
+      <button
+        key={metric.id}
+        type="button"
+        role="radio"
+        aria-checked={selected === metric.id}
+        onClick={() => onSelect(metric.id)}
+        className={`
+          px-3 py-1
+          border-2 border-[#2d2d2d]
+          text-sm
+          transition-colors
+          ${selected === metric.id
+            ? 'bg-[#2d2d2d] text-white'
+            : 'bg-white text-[#2d2d2d] hover:bg-[#e5e0d8]'
+          }
+        `}
+        style={{ borderRadius: wobbly.sm }}
+      >
+        {metric.label}
+      </button>
+    ))}
+  </div>
+)
+
 /**
  * Rank badge component
  */
@@ -172,9 +231,16 @@ const RankBadge = ({ rank }: { rank: number | null }) => {
 const ComparisonRow = ({
   item,
   index,
+  friendOnlyItems,
+  onMarkSame,
+  onMarkDifferent,
 }: {
   item: AlignedComparisonItem
   index: number
+  /** Items only the friend ranked, offered as "Same as…" choices */
+  friendOnlyItems: AlignedComparisonItem[]
+  onMarkSame?: (yourCardId: string, friendCardId: string) => void
+  onMarkDifferent?: (yourCardId: string, friendCardId: string) => void
 }) => {
   // Highlight differences
   const isDifferent =
@@ -182,6 +248,11 @@ const ComparisonRow = ({
     item.friendRank !== null &&
     item.yourRank !== item.friendRank
 
+  const { yourCardId, friendCardId } = item
+  // Any match can be wrong, so every matched pair can be split
+  const canUnmatch = !!onMarkDifferent && !!yourCardId && !!friendCardId
+  const canMatch = !!onMarkSame && !!yourCardId && !friendCardId && friendOnlyItems.length > 0
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -209,6 +280,40 @@ const ComparisonRow = ({
         >
           {item.name}
         </p>
+        {item.friendItemName && item.friendItemName !== item.name && (
+          <p
+            className="text-xs text-[#2d2d2d]/60 truncate px-2"
+            style={{ fontFamily: "'Patrick Hand', cursive" }}
+          >
+            ≈ {item.friendItemName}
+          </p>
+        )}
+        {canUnmatch && (
+          <button
+            type="button"
+            onClick={() => onMarkDifferent(yourCardId, friendCardId)}
+            className="text-xs text-[#2d5da1] underline"
+            style={{ fontFamily: "'Patrick Hand', cursive" }}
+          >
+            Not the same
+          </button>
+        )}
+        {canMatch && (
+          <select
+            aria-label={`Match ${item.name} with`}
+            value=""
+            onChange={(e) => onMarkSame(yourCardId, e.target.value)}
+            className="mt-1 max-w-full text-xs bg-white border border-[#2d2d2d] px-1"
+            style={{ borderRadius: wobbly.sm, fontFamily: "'Patrick Hand', cursive" }}
+          >
+            <option value="">Same as…</option>
+            {friendOnlyItems.map((other) => (
+              <option key={other.id} value={other.friendCardId}>
+                {other.name}
+              </option>
+            ))}
+          </select>
+        )}
       </div>
 
       {/* Friend's rank */}
@@ -223,12 +328,32 @@ export const ComparisonPage = ({
   boardName,
   yourName,
   yourAvatarUrl,
+  yourLabel = 'You',
   friendName,
   friendAvatarUrl,
-  agreementPercentage,
+  metrics,
   alignedItems,
   onBack,
+  onMarkSame,
+  onMarkDifferent,
 }: ComparisonPageProps) => {
+  const [metricId, setMetricId] = useState<RankMetricId>('proximity')
+  const metric = getRankMetric(metricId)
+
+  const hotTakes = useMemo(
+    () =>
+      findHotTakes(
+        alignedItems.flatMap((item) =>
+          item.yourRank !== null && item.friendRank !== null
+            ? [{ key: item.id, name: item.name, yourRank: item.yourRank, theirRank: item.friendRank }]
+            : []
+        )
+      ),
+    [alignedItems]
+  )
+
+  const friendOnlyItems = alignedItems.filter((item) => !item.yourCardId && item.friendCardId)
+
   return (
     <div className="p-4">
       {/* Back button */}
@@ -284,7 +409,7 @@ export const ComparisonPage = ({
               className="mt-1 text-sm text-[#2d2d2d]"
               style={{ fontFamily: "'Patrick Hand', cursive" }}
             >
-              You
+              {yourLabel}
             </span>
           </div>
 
@@ -308,10 +433,30 @@ export const ComparisonPage = ({
 
         {/* Agreement percentage */}
         <div className="flex justify-center">
-          <AgreementBadge percentage={agreementPercentage} />
+          <AgreementBadge percentage={metrics[metricId]} />
         </div>
+        <p
+          className="mt-2 mb-3 text-center text-sm text-[#2d2d2d]/60"
+          style={{ fontFamily: "'Patrick Hand', cursive" }}
+        >
+          {metric.description}
+          {metrics[metricId] === null && '. Needs at least two items you both ranked.'}
+        </p>
+        <MetricPicker selected={metricId} onSelect={setMetricId} />
       </motion.div>
 
+      {/* Hot takes */}
+      {alignedItems.length > 0 && (
+        <div className="mb-6">
+          <HotTakesList
+            takes={hotTakes}
+            theirLabel={friendName}
+            title={yourLabel === 'You' ? 'Your hottest takes' : `${yourLabel}'s hottest takes`}
+            yourLabel={yourLabel}
+          />
+        </div>
+      )}
+
       {/* Column headers */}
       <div className="flex items-center mb-3 px-3">
         <div className="w-16 text-center">
@@ -319,7 +464,7 @@ export const ComparisonPage = ({
             className="text-xs text-[#2d2d2d]/60 uppercase tracking-wide"
             style={{ fontFamily: "'Patrick Hand', cursive" }}
           >
-            You
+            {yourLabel}
           </span>
         </div>
         <div className="flex-1 text-center">
@@ -343,7 +488,14 @@ export const ComparisonPage = ({
       {/* Comparison rows */}
       <div className="space-y-3">
         {alignedItems.map((item, index) => (
-          <ComparisonRow key={item.id} item={item} index={index} />
+          <ComparisonRow
+            key={item.id}
+            item={item}
+            index={index}
+            friendOnlyItems={friendOnlyItems}
+            onMarkSame={onMarkSame}
+            onMarkDifferent={onMarkDifferent}
+          />
         ))}
       </div>
 
@@ -1,16 +1,44 @@
 import { useState, useEffect, useMemo, useCallback } from 'react'
 import { useBoards } from '../hooks/useBoards'
 import { useSnapshots } from '../hooks/useSnapshots'
+import { useCards } from '../hooks/useCards'
+import { useBoardHistory } from '../hooks/useBoardHistory'
+import { useRankingComparison } from '../hooks/useRankingComparison'
 import { useImageStorage } from '../hooks/useImageStorage'
 import { EpisodeTimeline } from '../components/EpisodeTimeline'
 import { CompareView } from '../components/CompareView'
-import { RankingTrendsChart } from '../components/RankingTrendsChart'
+import { RankingTrendsChart, type ChartExportFormat } from '../components/RankingTrendsChart'
+import { BumpChart } from '../components/BumpChart'
+import { RankHeatmap } from '../components/RankHeatmap'
+import { RankingStatsView } from '../components/RankingStatsView'
+import { RankingReplay } from '../components/RankingReplay'
 import { Button } from '../components/ui/Button'
+import { BottomSheet } from '../components/ui/BottomSheet'
 import { NicknameToggle } from '../components/ui/NicknameToggle'
-import { getSettings, saveSettings } from '../lib/storage'
+import { useToast } from '../components/ui/Toast'
+import { getCardsByBoard, getSettings, saveSettings } from '../lib/storage'
+import { planSnapshotRestore, restoreSnapshot } from '../lib/snapshotRestore'
+import { boardExportFileName } from '../lib/boardExport'
+import { getTemplateItemIds } from '../lib/snapshotMatching'
+import {
+  boardRankingImageOptions,
+  getSvgSize,
+  renderRankingImage,
+  serializeChartSvg,
+  shareOrDownloadFile,
+  svgToPngBlob,
+} from '../lib/imageExport'
+import type { Snapshot } from '../lib/types'
 import { wobbly } from '../styles/wobbly'
 
-type ViewMode = 'list' | 'chart' | 'compare'
+type ViewMode = 'list' | 'chart' | 'compare' | 'stats' | 'replay'
+type ChartType = 'lines' | 'bump' | 'heatmap'
+
+const CHART_TYPE_OPTIONS: { value: ChartType; label: string }[] = [
+  { value: 'lines', label: 'Lines' },
+  { value: 'bump', label: 'Bump' },
+  { value: 'heatmap', label: 'Heatmap' },
+]
 
 /**
  * Empty state when no boards exist
@@ -133,26 +161,186 @@ const EpisodeSelector = ({
   )
 }
 
+/**
+ * Board to compare against in compare mode (defaults to the selected board)
+ */
+const CompareBoardSelector = ({
+  boards,
+  currentBoardId,
+  selectedId,
+  onSelect,
+}: {
+  boards: { id: string; name: string }[]
+  currentBoardId: string | null
+  selectedId: string | null
+  onSelect: (id: string) => void
+}) => {
+  return (
+    <div>
+      <label
+        htmlFor="compare-board"
+        className="block text-sm text-[#9a958d] mb-1"
+        style={{ fontFamily: "'Patrick Hand', cursive" }}
+      >
+        Compare With
+      </label>
+      <select
+        id="compare-board"
+        value={selectedId ?? currentBoardId ?? ''}
+        onChange={(e) => onSelect(e.target.value)}
+        className="
+          w-full px-3 py-2
+          bg-white
+          border-2 border-[#2d2d2d]
+          shadow-[2px_2px_0px_0px_#2d2d2d]
+          text-[#2d2d2d]
+          text-sm
+          appearance-none
+          cursor-pointer
+          focus:outline-none
+        "
+        style={{
+          fontFamily: "'Patrick Hand', cursive",
+          borderRadius: wobbly.sm,
+        }}
+      >
+        {boards.map((board) => (
+          <option key={board.id} value={board.id}>
+            {board.id === currentBoardId ? `${board.name} (this board)` : board.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
+
+/**
+ * Chart style picker for chart mode
+ */
+const ChartTypeSelector = ({
+  chartType,
+  onSelect,
+}: {
+  chartType: ChartType
+  onSelect: (chartType: ChartType) => void
+}) => (
+  <div
+    role="radiogroup"
+    aria-label="Chart type"
+    className="flex gap-2 mt-3"
+    style={{ fontFamily: "'Patrick Hand', cursive" }}
+  >
+    {CHART_TYPE_OPTIONS.map((option) => (
+      <button
+        key={option.value}
+        type="button"
+        role="radio"
+        aria-checked={chartType === option.value}
+        onClick={() => onSelect(option.value)}
+        className={`
+          flex-1 py-1
+          border-2 border-[#2d2d2d]
+          text-base
+          transition-colors
+          ${chartType === option.value
+            ? 'bg-[#2d2d2d] text-white'
+            : 'bg-white text-[#2d2d2d] hover:bg-[#e5e0d8]'
+          }
+        `}
+        style={{ borderRadius: wobbly.sm }}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+)
+
+/**
+ * Confirmation before restoring a board to a snapshot
+ */
+const RestoreConfirmSheet = ({
+  snapshot,
+  onConfirm,
+  onClose,
+}: {
+  snapshot: Snapshot | null
+  onConfirm: () => void
+  onClose: () => void
+}) => {
+  const plan = snapshot ? planSnapshotRestore(snapshot, getCardsByBoard(snapshot.boardId)) : null
+  const details: string[] = []
+  if (plan && plan.recreated.length > 0) {
+    const n = plan.recreated.length
+    details.push(`${n} deleted ${n === 1 ? 'card' : 'cards'} will be recreated.`)
+  }
+  if (plan && plan.appended.length > 0) {
+    const n = plan.appended.length
+    details.push(`${n} ${n === 1 ? 'card' : 'cards'} added since will go to the bottom.`)
+  }
+
+  return (
+    <BottomSheet
+      isOpen={!!snapshot}
+      onClose={onClose}
+      title="Restore this ranking?"
+      footer={
+        <div className="flex gap-3">
+          <Button variant="secondary" onClick={onClose} className="flex-1">
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} className="flex-1">
+            ⏪ Restore
+          </Button>
+        </div>
+      }
+    >
+      {snapshot && (
+        <div className="space-y-2 text-[#2d2d2d]" style={{ fontFamily: "'Patrick Hand', cursive" }}>
+          <p>
+            Your board will be put back in the order from <strong>{snapshot.label}</strong>.
+          </p>
+          {details.map((line) => (
+            <p key={line}>{line}</p>
+          ))}
+          <p className="text-[#9a958d]">
+            Your current order is saved as a new episode first, so you can go back to it. You can also undo this from the board's undo button.
+          </p>
+        </div>
+      )}
+    </BottomSheet>
+  )
+}
+
 /**
  * HistoryPage Component
  *
  * Main history tab page with:
  * - Board selector dropdown
  * - Episode timeline showing snapshots
- * - Compare mode to view two episodes side-by-side
+ * - Trends as free lines, a bump chart or a rank heatmap
+ * - Compare mode to view two episodes side-by-side, from this or another board
+ * - Stats view with movers, volatility and streaks
+ * - Animated replay from the first to the latest episode
+ * - Restore a board to any saved episode
+ * - Export the chart and current ranking as images
  */
 export const HistoryPage = () => {
   const { boards } = useBoards()
   const { getThumbnailUrl } = useImageStorage()
+  const { showToast, ToastContainer } = useToast()
 
   // Selected board state
   const [selectedBoardId, setSelectedBoardId] = useState<string | null>(null)
 
   // View mode state
   const [viewMode, setViewMode] = useState<ViewMode>('list')
+  const [chartType, setChartType] = useState<ChartType>('lines')
   const [leftSnapshotId, setLeftSnapshotId] = useState<string | null>(null)
   const [rightSnapshotId, setRightSnapshotId] = useState<string | null>(null)
 
+  // Board for the right side of compare mode (null = the selected board)
+  const [compareBoardId, setCompareBoardId] = useState<string | null>(null)
+
   // Nickname toggle state for timeline view
   const [useNickname, setUseNickname] = useState(() => getSettings().nicknameModeTimeline)
 
@@ -168,6 +356,28 @@ export const HistoryPage = () => {
   // Get snapshots for selected board
   const { snapshots, deleteSnapshot } = useSnapshots(selectedBoardId ?? '')
 
+  // Current cards, for card trajectories in the stats view
+  const { cards, refresh: refreshCards } = useCards(selectedBoardId ?? '')
+  const { undo } = useBoardHistory(selectedBoardId ?? '', refreshCards)
+  const { getCardTrajectory } = useRankingComparison(cards, null, snapshots)
+
+  // Snapshots for the right side of compare mode
+  const isCrossBoardCompare = compareBoardId !== null && compareBoardId !== selectedBoardId
+  const { snapshots: otherBoardSnapshots } = useSnapshots(isCrossBoardCompare ? compareBoardId : '')
+  const compareSnapshots = isCrossBoardCompare ? otherBoardSnapshots : snapshots
+
+  // Template item IDs for matching snapshots saved before entries recorded them
+  const templateItemIds = useMemo(
+    () => getTemplateItemIds(isCrossBoardCompare ? [...cards, ...getCardsByBoard(compareBoardId)] : cards),
+    [cards, isCrossBoardCompare, compareBoardId]
+  )
+
+  // Whether an image is being rendered for export
+  const [isExportingImage, setIsExportingImage] = useState(false)
+
+  // Snapshot awaiting restore confirmation
+  const [restoreTarget, setRestoreTarget] = useState<Snapshot | null>(null)
+
   // Thumbnail URLs for compare view
   const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({})
 
@@ -183,24 +393,25 @@ export const HistoryPage = () => {
     setViewMode('list')
     setLeftSnapshotId(null)
     setRightSnapshotId(null)
+    setCompareBoardId(null)
   }, [selectedBoardId])
 
   // Set default snapshots for compare mode
   useEffect(() => {
-    if (viewMode === 'compare' && snapshots.length >= 2) {
+    if (viewMode === 'compare' && snapshots.length > 0 && compareSnapshots.length > 0) {
       if (!leftSnapshotId || !snapshots.find((s) => s.id === leftSnapshotId)) {
         setLeftSnapshotId(snapshots[0].id)
       }
-      if (!rightSnapshotId || !snapshots.find((s) => s.id === rightSnapshotId)) {
-        setRightSnapshotId(snapshots[snapshots.length - 1].id)
+      if (!rightSnapshotId || !compareSnapshots.find((s) => s.id === rightSnapshotId)) {
+        setRightSnapshotId(compareSnapshots[compareSnapshots.length - 1].id)
       }
     }
-  }, [viewMode, snapshots, leftSnapshotId, rightSnapshotId])
+  }, [viewMode, snapshots, compareSnapshots, leftSnapshotId, rightSnapshotId])
 
-  // Load thumbnail URLs for compare and chart views
+  // Load thumbnail URLs for compare, chart and replay views
   useEffect(() => {
-    if (viewMode !== 'compare' && viewMode !== 'chart') {
-      // Revoke any existing URLs when exiting compare/chart mode
+    if (viewMode !== 'compare' && viewMode !== 'chart' && viewMode !== 'replay') {
+      // Revoke any existing URLs when exiting compare/chart/replay mode
       Object.values(thumbnailUrls).forEach((url) => {
         URL.revokeObjectURL(url)
       })
@@ -214,8 +425,8 @@ export const HistoryPage = () => {
     const loadThumbnails = async () => {
       const allThumbnailKeys = new Set<string>()
 
-      // Collect all thumbnail keys from selected snapshots
-      snapshots.forEach((snapshot) => {
+      // Collect all thumbnail keys from this board's and the compared board's snapshots
+      new Set([...snapshots, ...compareSnapshots]).forEach((snapshot) => {
         snapshot.rankings.forEach((entry) => {
           if (entry.thumbnailKey) {
             allThumbnailKeys.add(entry.thumbnailKey)
@@ -252,7 +463,7 @@ export const HistoryPage = () => {
     // to re-run every time it completes, creating an endless cycle.
     // The effect only needs to run when viewMode, snapshots, or getThumbnailUrl changes.
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [viewMode, snapshots, getThumbnailUrl])
+  }, [viewMode, snapshots, compareSnapshots, getThumbnailUrl])
 
   // Get selected snapshots for compare view
   const leftSnapshot = useMemo(
@@ -261,8 +472,8 @@ export const HistoryPage = () => {
   )
 
   const rightSnapshot = useMemo(
-    () => snapshots.find((s) => s.id === rightSnapshotId) ?? null,
-    [snapshots, rightSnapshotId]
+    () => compareSnapshots.find((s) => s.id === rightSnapshotId) ?? null,
+    [compareSnapshots, rightSnapshotId]
   )
 
   // Handle snapshot selection from timeline
@@ -271,6 +482,91 @@ export const HistoryPage = () => {
     console.log('Selected snapshot:', snapshotId)
   }
 
+  // Restore the board, offering to undo it through the board history
+  const handleConfirmRestore = () => {
+    if (!restoreTarget) return
+    const target = restoreTarget
+    setRestoreTarget(null)
+
+    try {
+      restoreSnapshot(target.id)
+      refreshCards()
+      showToast(`Restored ${target.label}`, 'success', {
+        label: 'Undo',
+        onClick: () => {
+          // Reverts the restore's history step; undo refreshes the cards
+          if (undo()) showToast('Restore undone', 'info')
+        },
+      })
+    } catch {
+      showToast('Failed to restore episode', 'error')
+    }
+  }
+
+  const selectedBoard = boards.find((b) => b.id === selectedBoardId) ?? null
+  const compareBoard = boards.find((b) => b.id === compareBoardId) ?? null
+
+  // Enter or leave compare mode; with one episode, start against another board
+  const handleToggleCompare = () => {
+    if (viewMode === 'compare') {
+      setViewMode('list')
+      return
+    }
+    if (snapshots.length < 2 && !isCrossBoardCompare) {
+      setCompareBoardId(boards.find((b) => b.id !== selectedBoardId)?.id ?? null)
+    }
+    setViewMode('compare')
+  }
+
+  // Save the trends chart as SVG or PNG
+  const handleExportChart = async (svg: SVGSVGElement, format: ChartExportFormat) => {
+    if (!selectedBoard || isExportingImage) return
+    setIsExportingImage(true)
+    try {
+      const svgText = await serializeChartSvg(svg)
+      const { width, height } = getSvgSize(svg)
+      const image = format === 'svg'
+        ? new Blob([svgText], { type: 'image/svg+xml' })
+        : await svgToPngBlob(svgText, width, height)
+      const fileName = boardExportFileName(selectedBoard, format, 'trends')
+      const result = await shareOrDownloadFile(image, fileName, `${selectedBoard.name} trends`)
+      if (result === 'downloaded') showToast('Chart saved', 'success')
+    } catch (error) {
+      console.error('Failed to export chart:', error)
+      showToast('Failed to export chart', 'error')
+    } finally {
+      setIsExportingImage(false)
+    }
+  }
+
+  // Render the board's current ranking as an image card
+  const handleShareRankingImage = async () => {
+    if (!selectedBoard) return
+    setIsExportingImage(true)
+    const loadedUrls: string[] = []
+    try {
+      const urls: Record<string, string> = {}
+      for (const card of cards) {
+        if (!card.thumbnailKey) continue
+        const url = await getThumbnailUrl(card.thumbnailKey)
+        if (url) {
+          urls[card.id] = url
+          loadedUrls.push(url)
+        }
+      }
+
+      const image = await renderRankingImage(boardRankingImageOptions(selectedBoard, cards, urls))
+      const result = await shareOrDownloadFile(image, boardExportFileName(selectedBoard, 'png'), selectedBoard.name)
+      if (result === 'downloaded') showToast('Ranking image saved', 'success')
+    } catch (error) {
+      console.error('Failed to export ranking image:', error)
+      showToast('Failed to create image', 'error')
+    } finally {
+      loadedUrls.forEach((url) => URL.revokeObjectURL(url))
+      setIsExportingImage(false)
+    }
+  }
+
   // No boards state
   if (boards.length === 0) {
     return (
@@ -288,7 +584,7 @@ export const HistoryPage = () => {
     )
   }
 
-  const canCompare = snapshots.length >= 2
+  const canCompare = snapshots.length >= 2 || (snapshots.length > 0 && boards.length > 1)
   const canShowChart = snapshots.length >= 2
 
   // Check if any snapshot has entries with nicknames
@@ -321,11 +617,29 @@ export const HistoryPage = () => {
                 {viewMode === 'chart' ? 'List' : 'Chart'}
               </Button>
             )}
-            {canCompare && viewMode !== 'chart' && (
+            {canShowChart && (viewMode === 'list' || viewMode === 'replay') && (
+              <Button
+                variant={viewMode === 'replay' ? 'primary' : 'secondary'}
+                size="sm"
+                onClick={() => setViewMode(viewMode === 'replay' ? 'list' : 'replay')}
+              >
+                {viewMode === 'replay' ? 'List' : 'Replay'}
+              </Button>
+            )}
+            {canShowChart && (viewMode === 'list' || viewMode === 'stats') && (
+              <Button
+                variant={viewMode === 'stats' ? 'primary' : 'secondary'}
+                size="sm"
+                onClick={() => setViewMode(viewMode === 'stats' ? 'list' : 'stats')}
+              >
+                {viewMode === 'stats' ? 'List' : 'Stats'}
+              </Button>
+            )}
+            {canCompare && viewMode !== 'chart' && viewMode !== 'replay' && (
               <Button
                 variant={viewMode === 'compare' ? 'primary' : 'secondary'}
                 size="sm"
-                onClick={() => setViewMode(viewMode === 'compare' ? 'list' : 'compare')}
+                onClick={handleToggleCompare}
               >
                 {viewMode === 'compare' ? 'Exit Compare' : 'Compare'}
               </Button>
@@ -340,28 +654,52 @@ export const HistoryPage = () => {
           onSelect={setSelectedBoardId}
         />
 
-        {/* Nickname Toggle for list view */}
-        {viewMode === 'list' && hasAnyNicknames && (
-          <div className="flex justify-end mt-3">
-            <NicknameToggle enabled={useNickname} onToggle={handleToggleNickname} />
+        {/* Ranking image and nickname toggle for list view */}
+        {viewMode === 'list' && (cards.length > 0 || hasAnyNicknames) && (
+          <div className="flex items-center justify-between mt-3">
+            {cards.length > 0 ? (
+              <Button variant="secondary" size="sm" onClick={handleShareRankingImage} disabled={isExportingImage}>
+                🖼️ Share ranking
+              </Button>
+            ) : <span />}
+            {hasAnyNicknames && (
+              <NicknameToggle enabled={useNickname} onToggle={handleToggleNickname} />
+            )}
           </div>
         )}
 
+        {/* Chart style */}
+        {viewMode === 'chart' && (
+          <ChartTypeSelector chartType={chartType} onSelect={setChartType} />
+        )}
+
         {/* Compare Episode Selectors */}
         {viewMode === 'compare' && canCompare && (
-          <div className="flex gap-3 mt-4">
-            <EpisodeSelector
-              snapshots={snapshots}
-              selectedId={leftSnapshotId}
-              onSelect={setLeftSnapshotId}
-              label="Earlier Episode"
-            />
-            <EpisodeSelector
-              snapshots={snapshots}
-              selectedId={rightSnapshotId}
-              onSelect={setRightSnapshotId}
-              label="Later Episode"
-            />
+          <div className="space-y-3 mt-4">
+            {boards.length > 1 && (
+              <CompareBoardSelector
+                boards={boards}
+                currentBoardId={selectedBoardId}
+                selectedId={compareBoardId}
+                onSelect={setCompareBoardId}
+              />
+            )}
+            <div className="flex gap-3">
+              <EpisodeSelector
+                snapshots={snapshots}
+                selectedId={leftSnapshotId}
+                onSelect={setLeftSnapshotId}
+                label={isCrossBoardCompare && selectedBoard ? selectedBoard.name : 'Earlier Episode'}
+              />
+              {compareSnapshots.length > 0 && (
+                <EpisodeSelector
+                  snapshots={compareSnapshots}
+                  selectedId={rightSnapshotId}
+                  onSelect={setRightSnapshotId}
+                  label={isCrossBoardCompare && compareBoard ? compareBoard.name : 'Later Episode'}
+                />
+              )}
+            </div>
           </div>
         )}
       </header>
@@ -373,18 +711,49 @@ export const HistoryPage = () => {
             leftSnapshot={leftSnapshot}
             rightSnapshot={rightSnapshot}
             thumbnailUrls={thumbnailUrls}
+            leftBoardName={selectedBoard?.name}
+            rightBoardName={compareBoard?.name}
+            templateItemIds={templateItemIds}
           />
+        ) : viewMode === 'compare' && compareSnapshots.length === 0 ? (
+          <p
+            className="text-center text-[#9a958d] py-12"
+            style={{ fontFamily: "'Patrick Hand', cursive" }}
+          >
+            No episodes saved for {compareBoard?.name ?? 'this board'} yet.
+          </p>
+        ) : viewMode === 'chart' && chartType === 'bump' ? (
+          <BumpChart snapshots={snapshots} thumbnailUrls={thumbnailUrls} />
+        ) : viewMode === 'chart' && chartType === 'heatmap' ? (
+          <RankHeatmap snapshots={snapshots} thumbnailUrls={thumbnailUrls} />
         ) : viewMode === 'chart' ? (
-          <RankingTrendsChart snapshots={snapshots} thumbnailUrls={thumbnailUrls} />
+          <RankingTrendsChart
+            snapshots={snapshots}
+            thumbnailUrls={thumbnailUrls}
+            onExport={handleExportChart}
+          />
+        ) : viewMode === 'stats' ? (
+          <RankingStatsView snapshots={snapshots} getCardTrajectory={getCardTrajectory} />
+        ) : viewMode === 'replay' ? (
+          <RankingReplay snapshots={snapshots} thumbnailUrls={thumbnailUrls} useNickname={useNickname} />
         ) : (
           <EpisodeTimeline
             snapshots={snapshots}
             onSnapshotSelect={handleSnapshotSelect}
             onSnapshotDelete={deleteSnapshot}
+            onSnapshotRestore={(id) => setRestoreTarget(snapshots.find((s) => s.id === id) ?? null)}
             useNickname={useNickname}
           />
         )}
       </div>
+
+      <RestoreConfirmSheet
+        snapshot={restoreTarget}
+        onConfirm={handleConfirmRestore}
+        onClose={() => setRestoreTarget(null)}
+      />
+
+      <ToastContainer />
     </div>
   )
 }
@@ -1,10 +1,33 @@
 import { useState, useRef, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Button } from '../components/ui/Button'
+import { TrashSheet } from '../components/TrashSheet'
+import { ImportPreviewSheet } from '../components/ImportPreviewSheet'
+import { useBoards } from '../hooks/useBoards'
 import { wobbly } from '../styles/wobbly'
 import { springConfig } from '../styles/tokens'
-import { importData, exportData, clearAllData } from '../lib/storage'
+import { parseImportData, exportData, clearAllData, flushStorage, type ParsedImport } from '../lib/storage'
+import {
+  analyzeImport,
+  applyImport,
+  type ImportChangeReport,
+  type ImportPreview,
+  type ImportResolution,
+} from '../lib/importMerge'
 import { clearAllImages } from '../lib/db'
+import {
+  exportBackupArchive,
+  readBackupArchive,
+  restoreArchiveImages,
+  type ArchiveProgress,
+  type BackupArchive,
+} from '../lib/backupArchive'
+import {
+  collectOrphanedImages,
+  formatBytes,
+  getStorageReport,
+  type StorageReport,
+} from '../lib/storageUsage'
 import { getDeviceToken } from '../lib/deviceToken'
 import { isAllowlisted } from '../lib/allowlist'
 import { getOrCreateDeviceAlias } from '../lib/firestoreDeviceAlias'
@@ -114,6 +137,96 @@ const FeedbackToast = ({ feedback, onDismiss }: { feedback: Feedback; onDismiss:
   )
 }
 
+/**
+ * Storage usage breakdown: browser quota bar plus bytes per board
+ */
+const StorageUsagePanel = ({ report }: { report: StorageReport | 'unavailable' | null }) => {
+  if (!report || report === 'unavailable') {
+    return (
+      <p className="text-[#9a958d] text-sm" style={{ fontFamily: "'Patrick Hand', cursive" }}>
+        {report ? 'Storage usage is unavailable on this device.' : 'Measuring...'}
+      </p>
+    )
+  }
+
+  const percent = report.usage !== null && report.quota
+    ? Math.min(100, (report.usage / report.quota) * 100)
+    : null
+
+  return (
+    <div style={{ fontFamily: "'Patrick Hand', cursive" }}>
+      {report.usage !== null && report.quota !== null ? (
+        <>
+          <p className="text-[#2d2d2d] mb-1">
+            {formatBytes(report.usage)} of {formatBytes(report.quota)} used
+          </p>
+          <div
+            className="h-3 bg-[#e5e0d8] border-2 border-[#2d2d2d] overflow-hidden mb-3"
+            style={{ borderRadius: wobbly.sm }}
+            role="progressbar"
+            aria-label="Storage used"
+            aria-valuenow={Math.round(percent ?? 0)}
+            aria-valuemin={0}
+            aria-valuemax={100}
+          >
+            <div className="h-full bg-[#2d5da1]" style={{ width: `${percent ?? 0}%` }} />
+          </div>
+        </>
+      ) : (
+        <p className="text-[#2d2d2d] mb-3">Images: {formatBytes(report.imageBytes)}</p>
+      )}
+
+      {report.boards.length > 0 && (
+        <ul className="flex flex-col gap-1 mb-3" data-testid="storage-boards">
+          {report.boards.map((board) => (
+            <li key={board.boardId} className="flex justify-between gap-2 text-sm">
+              <span className="text-[#2d2d2d] truncate">{board.name}</span>
+              <span className="text-[#9a958d] shrink-0">
+                {formatBytes(board.bytes)} · {board.imageCount} {board.imageCount === 1 ? 'image' : 'images'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {report.orphanedCount > 0 && (
+        <p className="text-[#9a958d] text-sm">
+          {report.orphanedCount} unused {report.orphanedCount === 1 ? 'image' : 'images'} ({formatBytes(report.orphanedBytes)})
+        </p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Progress bar for backup archive export/import
+ */
+const ArchiveProgressBar = ({ progress }: { progress: ArchiveProgress }) => {
+  const label = {
+    verifying: 'Checking backup...',
+    images: `Photos ${progress.done} of ${progress.total}`,
+    records: 'Saving boards...',
+  }[progress.phase]
+  const percent = progress.total > 0 ? (progress.done / progress.total) * 100 : 100
+
+  return (
+    <div className="mt-3" style={{ fontFamily: "'Patrick Hand', cursive" }}>
+      <p className="text-[#2d2d2d] text-sm mb-1">{label}</p>
+      <div
+        className="h-3 bg-[#e5e0d8] border-2 border-[#2d2d2d] overflow-hidden"
+        style={{ borderRadius: wobbly.sm }}
+        role="progressbar"
+        aria-label="Backup progress"
+        aria-valuenow={Math.round(percent)}
+        aria-valuemin={0}
+        aria-valuemax={100}
+      >
+        <div className="h-full bg-[#2d5da1] transition-all" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  )
+}
+
 /**
  * Confirmation modal with hand-drawn styling
  */
@@ -193,17 +306,30 @@ const ConfirmModal = ({
  *
  * Settings page with hand-drawn aesthetic featuring:
  * - Import/Export data functionality
+ * - Trash for recovering deleted boards
+ * - Storage usage and unused image cleanup
  * - Clear All Data danger zone
  */
 export const SettingsPage = () => {
   const [feedback, setFeedback] = useState<Feedback | null>(null)
   const [showClearConfirm, setShowClearConfirm] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [showTrash, setShowTrash] = useState(false)
+  const [archiveProgress, setArchiveProgress] = useState<ArchiveProgress | null>(null)
+  const [pendingImport, setPendingImport] = useState<{
+    data: ParsedImport
+    preview: ImportPreview
+    /** Set for full backups, whose photos are restored on apply */
+    archive?: BackupArchive
+  } | null>(null)
+  const [importReport, setImportReport] = useState<ImportChangeReport | null>(null)
+  const [storageReport, setStorageReport] = useState<StorageReport | 'unavailable' | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   const deviceToken = getDeviceToken()
   const allowlisted = isAllowlisted(deviceToken)
   const [deviceAlias, setDeviceAlias] = useState<string | null>(null)
+  const { deletedBoards, restoreBoard, permanentlyDeleteBoard, refresh: refreshBoards } = useBoards()
 
   useEffect(() => {
     let cancelled = false
@@ -213,6 +339,19 @@ export const SettingsPage = () => {
     return () => { cancelled = true }
   }, [deviceToken])
 
+  // Measure storage on open
+  useEffect(() => {
+    let cancelled = false
+    getStorageReport()
+      .then((report) => { if (!cancelled) setStorageReport(report) })
+      .catch(() => { if (!cancelled) setStorageReport('unavailable') })
+    return () => { cancelled = true }
+  }, [])
+
+  const refreshStorageReport = () => {
+    getStorageReport().then(setStorageReport).catch(() => setStorageReport('unavailable'))
+  }
+
   const showFeedback = (type: FeedbackType, message: string) => {
     setFeedback({ type, message })
     setTimeout(() => setFeedback(null), 4000)
@@ -227,19 +366,25 @@ export const SettingsPage = () => {
     const file = e.target.files?.[0]
     if (!file) return
 
+    // Full backups (with photos) are zip archives
+    if (file.name.toLowerCase().endsWith('.zip')) {
+      handleArchiveImport(file)
+      e.target.value = ''
+      return
+    }
+
     const reader = new FileReader()
     reader.onload = (event) => {
       try {
         const jsonContent = event.target?.result as string
-        const result = importData(jsonContent, { merge: true })
+        const parsed = parseImportData(jsonContent)
 
-        if (result.success) {
-          showFeedback(
-            'success',
-            `Import successful! Added ${result.boardsImported} boards and ${result.cardsImported} cards.`
-          )
+        if (parsed.success) {
+          // Preview first; nothing is saved until the user confirms
+          setImportReport(null)
+          setPendingImport({ data: parsed.data, preview: analyzeImport(parsed.data) })
         } else {
-          showFeedback('error', result.error || 'Failed to import data')
+          showFeedback('error', parsed.error || 'Failed to import data')
         }
       } catch {
         showFeedback('error', 'Invalid file format')
@@ -251,6 +396,85 @@ export const SettingsPage = () => {
     e.target.value = ''
   }
 
+  // Apply a previewed import with the chosen conflict resolution
+  const handleApplyImport = async (resolution: ImportResolution) => {
+    if (!pendingImport) return
+    const { data, archive } = pendingImport
+
+    setIsLoading(true)
+    try {
+      // Photos go first so merged cards find their images
+      const imagesRestored = archive ? await restoreArchiveImages(archive, setArchiveProgress) : 0
+
+      setArchiveProgress(archive ? { phase: 'records', done: 0, total: 1 } : null)
+      const report = applyImport(data, resolution)
+      setImportReport(report)
+      refreshBoards()
+      if (archive) refreshStorageReport()
+
+      // Mention upgrades so older backups don't look silently altered
+      const notes = [
+        archive && `Restored ${imagesRestored} ${imagesRestored === 1 ? 'photo' : 'photos'}.`,
+        data.migrationChanges.length > 0 && `Upgraded from v${data.fromVersion}.`,
+      ].filter(Boolean)
+      if (notes.length > 0) {
+        showFeedback('success', `Import successful! ${notes.join(' ')}`)
+      }
+    } catch {
+      showFeedback('error', archive ? 'Failed to restore backup' : 'Failed to import data')
+      setPendingImport(null)
+    } finally {
+      setArchiveProgress(null)
+      setIsLoading(false)
+    }
+  }
+
+  // Handle full backup import: verify, then preview like a JSON import
+  const handleArchiveImport = async (file: File) => {
+    setIsLoading(true)
+    try {
+      const result = await readBackupArchive(file, setArchiveProgress)
+      if (result.success) {
+        setImportReport(null)
+        setPendingImport({
+          data: result.archive.data,
+          preview: analyzeImport(result.archive.data),
+          archive: result.archive,
+        })
+      } else {
+        showFeedback('error', result.error || 'Failed to restore backup')
+      }
+    } catch {
+      showFeedback('error', 'Failed to restore backup')
+    } finally {
+      setArchiveProgress(null)
+      setIsLoading(false)
+    }
+  }
+
+  // Handle full backup export
+  const handleArchiveExport = async () => {
+    setIsLoading(true)
+    try {
+      const blob = await exportBackupArchive(setArchiveProgress)
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `ranking-backup-${new Date().toISOString().split('T')[0]}.zip`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+
+      showFeedback('success', 'Backup exported with photos!')
+    } catch {
+      showFeedback('error', 'Failed to export backup')
+    } finally {
+      setArchiveProgress(null)
+      setIsLoading(false)
+    }
+  }
+
   // Handle export
   const handleExport = () => {
     try {
@@ -271,6 +495,25 @@ export const SettingsPage = () => {
     }
   }
 
+  // Handle unused image cleanup
+  const handleCleanUpImages = async () => {
+    setIsLoading(true)
+    try {
+      const { deletedCount, freedBytes } = await collectOrphanedImages()
+      showFeedback(
+        'success',
+        deletedCount > 0
+          ? `Removed ${deletedCount} unused ${deletedCount === 1 ? 'image' : 'images'} (${formatBytes(freedBytes)})`
+          : 'No unused images to remove'
+      )
+      refreshStorageReport()
+    } catch {
+      showFeedback('error', 'Failed to clean up images')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   // Handle clear all data
   const handleClearAllData = async () => {
     setShowClearConfirm(false)
@@ -278,7 +521,10 @@ export const SettingsPage = () => {
 
     try {
       clearAllData()
+      await flushStorage()
       await clearAllImages()
+      refreshBoards()
+      refreshStorageReport()
       showFeedback('success', 'All data has been cleared')
     } catch {
       showFeedback('error', 'Failed to clear some data')
@@ -362,7 +608,7 @@ export const SettingsPage = () => {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".json"
+              accept=".json,.zip"
               onChange={handleFileChange}
               className="hidden"
             />
@@ -374,8 +620,14 @@ export const SettingsPage = () => {
             <Button onClick={handleExport} variant="secondary" size="sm">
               📤 Export to File
             </Button>
+
+            <Button onClick={handleArchiveExport} disabled={isLoading} variant="secondary" size="sm">
+              🗂️ Export Full Backup (with photos)
+            </Button>
           </div>
 
+          {archiveProgress && <ArchiveProgressBar progress={archiveProgress} />}
+
           <div
             className="mt-4 p-3 bg-[#f5f5f5] border-2 border-dashed border-[#e5e0d8]"
             style={{ borderRadius: wobbly.sm }}
@@ -384,11 +636,40 @@ export const SettingsPage = () => {
               className="text-[#9a958d] text-xs"
               style={{ fontFamily: "'Patrick Hand', cursive" }}
             >
-              💡 Tip: Import merges with your existing data. Duplicate items are skipped.
+              💡 Tip: Import merges with your existing data. You'll see a preview and can choose what to do when both copies differ. Use a full backup (.zip) to move photos to another device.
             </p>
           </div>
         </SettingsSection>
 
+        {/* Trash Section */}
+        <SettingsSection
+          icon="🗑️"
+          title="Trash"
+          description="Deleted boards are kept for 7 days before they're removed for good."
+        >
+          <Button onClick={() => setShowTrash(true)} variant="secondary" size="sm" className="w-full">
+            ♻️ Open Trash ({deletedBoards.length})
+          </Button>
+        </SettingsSection>
+
+        {/* Storage Section */}
+        <SettingsSection
+          icon="💾"
+          title="Storage"
+          description="How much space your boards and photos take up on this device."
+        >
+          <StorageUsagePanel report={storageReport} />
+          <Button
+            onClick={handleCleanUpImages}
+            disabled={isLoading}
+            variant="secondary"
+            size="sm"
+            className="w-full mt-3"
+          >
+            🧹 Clean Up Unused Images
+          </Button>
+        </SettingsSection>
+
         {/* Danger Zone */}
         <SettingsSection
           icon="⚠️"
@@ -437,6 +718,31 @@ export const SettingsPage = () => {
         )}
       </AnimatePresence>
 
+      {/* Import Preview - mounted per file so choices start fresh */}
+      {pendingImport && (
+        <ImportPreviewSheet
+          isOpen
+          onClose={() => setPendingImport(null)}
+          preview={pendingImport.preview}
+          report={importReport}
+          onApply={handleApplyImport}
+        />
+      )}
+
+      {/* Trash */}
+      <TrashSheet
+        isOpen={showTrash}
+        onClose={() => setShowTrash(false)}
+        boards={deletedBoards}
+        onRestore={(id) => {
+          restoreBoard(id)
+          showFeedback('success', 'Board restored!')
+        }}
+        onDeleteForever={(id) => {
+          permanentlyDeleteBoard(id)
+          showFeedback('success', 'Board deleted forever')
+        }}
+      />
     </div>
   )
 }
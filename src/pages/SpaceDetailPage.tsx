@@ -1,7 +1,9 @@
 /**
  * SpaceDetailPage
  *
- * Shows boards within a space with "My Boards" / "All Boards" tabs.
+ * Shows boards within a space with "My Boards" / "All Boards" tabs, a
+ * "Group" tab with the consensus ranking for each shared template, and a
+ * "Twins" tab with every member's agreement and taste twins.
  * Allows syncing local boards to the space.
  */
 
@@ -10,14 +12,20 @@ import { motion, AnimatePresence } from 'framer-motion'
 import { Button } from '../components/ui/Button'
 import { BoardGrid } from '../components/BoardGrid'
 import { SpaceSettingsSheet } from '../components/SpaceSettingsSheet'
+import { SpaceConsensusView } from '../components/SpaceConsensusView'
+import { SpaceAgreementView } from '../components/SpaceAgreementView'
+import { ComparisonPage } from './ComparisonPage'
 import { wobbly } from '../styles/wobbly'
 import { useSpaceBoards } from '../hooks/useSpaceBoards'
 import { useSpaceMembers } from '../hooks/useSpaceMembers'
 import { useImageStorage } from '../hooks/useImageStorage'
-import { getCardsByBoard, getBoards } from '../lib/storage'
+import { useSpaceConsensus } from '../hooks/useSpaceConsensus'
+import { compareSpaceCards } from '../hooks/useComparison'
+import { getCardsByBoard, getBoards, getItemMatchOverrides, saveItemMatchOverride } from '../lib/storage'
 import { getSpaceMembership } from '../lib/spaceStorage'
 import type { Board } from '../lib/types'
 import type { SpaceBoard } from '../lib/spaceTypes'
+import type { MemberBoard } from '../lib/spaceConsensus'
 
 interface SpaceDetailPageProps {
   spaceId: string
@@ -25,7 +33,16 @@ interface SpaceDetailPageProps {
   onBoardSelect: (boardId: string, spaceContext?: { spaceId: string; ownerId: string }) => void
 }
 
-type TabId = 'my' | 'all'
+type TabId = 'my' | 'all' | 'group' | 'twins'
+
+/**
+ * Two members being compared on one template from the Twins tab
+ */
+interface ComparePair {
+  groupKey: string
+  ownerA: string
+  ownerB: string
+}
 
 /**
  * Filter dropdown for "All Boards" tab
@@ -68,6 +85,56 @@ const MemberFilter = ({
   </div>
 )
 
+/**
+ * Two members' boards side by side, with "same" / "not the same"
+ * overrides remembered for the pair. Mount with a key per pair so the
+ * overrides are read fresh.
+ */
+const MemberComparison = ({
+  left,
+  right,
+  isYou,
+  onBack,
+}: {
+  left: MemberBoard
+  right: MemberBoard
+  isYou: boolean
+  onBack: () => void
+}) => {
+  const [overrides, setOverrides] = useState(() => getItemMatchOverrides(left.board.id, right.board.id))
+  const result = useMemo(
+    () => compareSpaceCards(left.cards, right.cards, overrides),
+    [left.cards, right.cards, overrides]
+  )
+
+  const handleOverride = (leftItemId: string, rightItemId: string, same: boolean) => {
+    saveItemMatchOverride({
+      leftBoardId: left.board.id,
+      rightBoardId: right.board.id,
+      leftItemId,
+      rightItemId,
+      same,
+    })
+    setOverrides(getItemMatchOverrides(left.board.id, right.board.id))
+  }
+
+  return (
+    <ComparisonPage
+      boardName={left.board.name}
+      yourName={left.board.ownerName}
+      yourAvatarUrl=""
+      yourLabel={isYou ? 'You' : left.board.ownerName}
+      friendName={right.board.ownerName}
+      friendAvatarUrl=""
+      metrics={result.metrics}
+      alignedItems={result.alignedItems}
+      onBack={onBack}
+      onMarkSame={(leftItemId, rightItemId) => handleOverride(leftItemId, rightItemId, true)}
+      onMarkDifferent={(leftItemId, rightItemId) => handleOverride(leftItemId, rightItemId, false)}
+    />
+  )
+}
+
 /**
  * Sync local board to space modal
  */
@@ -167,6 +234,14 @@ export const SpaceDetailPage = ({
   const [showSettings, setShowSettings] = useState(false)
   const [showSyncModal, setShowSyncModal] = useState(false)
   const [coverImageUrls, setCoverImageUrls] = useState<Record<string, string>>({})
+  const [comparePair, setComparePair] = useState<ComparePair | null>(null)
+
+  // Only load every member's cards once the Group or Twins tab is opened
+  const consensus = useSpaceConsensus(
+    activeTab === 'group' || activeTab === 'twins' ? spaceId : null,
+    allBoards
+  )
+  const currentOwnerId = members.find((m) => m.id === currentMemberId)?.anonUid ?? null
 
   const membership = getSpaceMembership(spaceId)
 
@@ -241,8 +316,26 @@ export const SpaceDetailPage = ({
   const tabs: { id: TabId; label: string }[] = [
     { id: 'my', label: 'My Boards' },
     { id: 'all', label: 'All Boards' },
+    { id: 'group', label: 'Group' },
+    { id: 'twins', label: 'Twins' },
   ]
 
+  // Side-by-side comparison opened from the agreement matrix
+  const compareBoards = comparePair ? consensus.memberBoards[comparePair.groupKey] ?? [] : []
+  const compareA = compareBoards.find((b) => b.board.ownerId === comparePair?.ownerA)
+  const compareB = compareBoards.find((b) => b.board.ownerId === comparePair?.ownerB)
+  if (compareA && compareB) {
+    return (
+      <MemberComparison
+        key={`${compareA.board.id}|${compareB.board.id}`}
+        left={compareA}
+        right={compareB}
+        isYou={compareA.board.ownerId === currentOwnerId}
+        onBack={() => setComparePair(null)}
+      />
+    )
+  }
+
   return (
     <div className="min-h-full pb-24">
       {/* Header */}
@@ -330,8 +423,32 @@ export const SpaceDetailPage = ({
         </div>
       )}
 
-      {/* Board Grid */}
-      {displayBoards.length > 0 ? (
+      {/* Consensus ranking (Group tab) */}
+      {activeTab === 'group' ? (
+        <>
+          {consensus.error && (
+            <p className="px-4 pt-3 text-[#ff4d4d] font-['Patrick_Hand']">{consensus.error}</p>
+          )}
+          <SpaceConsensusView
+            groups={consensus.groups}
+            memberBoards={consensus.memberBoards}
+            isLoading={consensus.isLoading}
+          />
+        </>
+      ) : activeTab === 'twins' ? (
+        <>
+          {consensus.error && (
+            <p className="px-4 pt-3 text-[#ff4d4d] font-['Patrick_Hand']">{consensus.error}</p>
+          )}
+          <SpaceAgreementView
+            groups={consensus.groups}
+            memberBoards={consensus.memberBoards}
+            currentOwnerId={currentOwnerId}
+            isLoading={consensus.isLoading}
+            onOpenComparison={(groupKey, ownerA, ownerB) => setComparePair({ groupKey, ownerA, ownerB })}
+          />
+        </>
+      ) : displayBoards.length > 0 ? (
         <BoardGrid
           boards={displayBoards}
           cardCounts={cardCounts}
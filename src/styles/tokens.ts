@@ -21,6 +21,22 @@ export const colors = {
   bronze: '#cd7f32',
 } as const
 
+/**
+ * Hand-drawn palette for chart lines, cycled per card
+ */
+export const chartLineColors = [
+  '#2d5da1', // Blue
+  '#ff4d4d', // Red
+  '#22c55e', // Green
+  '#f59e0b', // Amber
+  '#8b5cf6', // Purple
+  '#ec4899', // Pink
+  '#06b6d4', // Cyan
+  '#f97316', // Orange
+  '#84cc16', // Lime
+  '#6366f1', // Indigo
+] as const
+
 export const fonts = {
   heading: "'Kalam', cursive",
   body: "'Patrick Hand', cursive",